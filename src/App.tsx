@@ -21,10 +21,12 @@ if (import.meta.env.DEV && import.meta.env.VITE_REACT_SCAN === "true") {
 	});
 }
 
+const queryClient = new QueryClient();
+
 function App({ children }: { children: React.ReactNode }) {
 	return (
 		<HelmetProvider>
-			<QueryClientProvider client={new QueryClient()}>
+			<QueryClientProvider client={queryClient}>
 				<ThemeProvider adapters={[AntdAdapter]}>
 					<VercelAnalytics debug={import.meta.env.PROD} />
 					<Helmet>
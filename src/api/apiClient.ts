@@ -6,6 +6,13 @@ import { toast } from "sonner";
 import type { Result } from "#/api";
 import { ResultStatus } from "#/enum";
 
+declare module "axios" {
+	interface AxiosRequestConfig {
+		/** Leave error reporting to the caller, e.g. for requests that are retried or aborted on purpose */
+		silent?: boolean;
+	}
+}
+
 const axiosInstance = axios.create({
 	baseURL: GLOBAL_CONFIG.apiBaseUrl,
 	timeout: 50000,
@@ -41,9 +48,11 @@ axiosInstance.interceptors.response.use(
 		return payload as any;
 	},
 	(error: AxiosError<Result>) => {
-		const { response, message } = error || {};
+		const { response, message, config } = error || {};
 		const errMsg = response?.data?.message || message || t("sys.api.errorMessage");
-		toast.error(errMsg, { position: "top-center" });
+		if (!config?.silent && !axios.isCancel(error)) {
+			toast.error(errMsg, { position: "top-center" });
+		}
 		if (response?.status === 401) {
 			userStore.getState().actions.clearUserInfoAndToken();
 		}
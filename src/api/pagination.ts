@@ -0,0 +1,67 @@
+import type { PageQuery, PageResult } from "#/api";
+
+type PageMeta = {
+	total?: number;
+	totalItems?: number;
+	count?: number;
+	page?: number;
+	pageSize?: number;
+	limit?: number;
+};
+
+type PagedPayload<T> = PageMeta & {
+	items?: T[];
+	pagination?: PageMeta;
+	meta?: PageMeta;
+} & Record<string, unknown>;
+
+/**
+ * Serialize a page query into request params, dropping empty values
+ */
+export const toPageParams = (query: PageQuery) => {
+	const params: Record<string, string | number> = { page: query.page, pageSize: query.pageSize };
+	if (query.sortBy && query.sortOrder) {
+		params.sortBy = query.sortBy;
+		params.sortOrder = query.sortOrder;
+	}
+	const search = query.search?.trim();
+	if (search) params.search = search;
+	return params;
+};
+
+/**
+ * Normalize a paged list response into a PageResult
+ *
+ * Accepts the shapes the backend answers with: a bare array, `{ [key]: T[], total }`,
+ * `{ items: T[], pagination: { total } }`, each optionally wrapped in `{ data }`.
+ *
+ * @param res - Raw response from the API client
+ * @param key - Collection key used by the endpoint, e.g. "assets"
+ * @param query - The query that produced the response, used as fallback page info
+ */
+export const toPageResult = <T>(res: unknown, key: string, query: PageQuery): PageResult<T> => {
+	const fallback = (items: T[]): PageResult<T> => ({
+		items,
+		total: items.length,
+		page: query.page,
+		pageSize: query.pageSize,
+	});
+	if (Array.isArray(res)) return fallback(res as T[]);
+
+	const wrapper = res as { data?: unknown } | undefined;
+	const payload = (
+		wrapper?.data && typeof wrapper.data === "object" && !Array.isArray(wrapper.data) ? wrapper.data : res
+	) as PagedPayload<T> | undefined;
+	if (Array.isArray(wrapper?.data)) return fallback(wrapper.data as T[]);
+	if (!payload) return fallback([]);
+
+	const collection = payload[key];
+	const items = Array.isArray(collection) ? (collection as T[]) : (payload.items ?? []);
+	const meta = payload.pagination ?? payload.meta ?? payload;
+	return {
+		items,
+		total: meta.total ?? meta.totalItems ?? meta.count ?? items.length,
+		page: meta.page ?? query.page,
+		pageSize: meta.pageSize ?? meta.limit ?? query.pageSize,
+	};
+};
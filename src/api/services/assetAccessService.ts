@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { AssetAccessEvent } from "#/entity";
+import apiClient from "../apiClient";
+import { type AssetScope, assetKeys, getAssetBasePath } from "./assetService";
+
+export type AssetAccessEventPayload = Pick<AssetAccessEvent, "fieldKey" | "action" | "context"> & {
+	userId?: string;
+	occurredAt: string;
+};
+
+type AssetAccessEventListRes =
+	| AssetAccessEvent[]
+	| { data?: { events?: AssetAccessEvent[] }; events?: AssetAccessEvent[] };
+
+const extractEvents = (res: AssetAccessEventListRes | undefined): AssetAccessEvent[] => {
+	if (Array.isArray(res)) return res;
+	return res?.data?.events ?? res?.events ?? [];
+};
+
+const getAccessEventsPath = (scope: AssetScope, assetId: string) =>
+	`${getAssetBasePath(scope)}/${assetId}/access-events`;
+
+const getAccessEvents = async (scope: AssetScope, assetId: string) =>
+	extractEvents(await apiClient.get<AssetAccessEventListRes>({ url: getAccessEventsPath(scope, assetId) }));
+
+const recordAccessEvent = (scope: AssetScope, assetId: string, data: AssetAccessEventPayload) =>
+	apiClient.post({ url: getAccessEventsPath(scope, assetId), data });
+
+export const assetAccessKeys = {
+	list: ({ showroomId }: AssetScope, assetId: string) =>
+		showroomId
+			? (["showrooms", showroomId, "assets", assetId, "access-events"] as const)
+			: ([...assetKeys.detail(assetId), "access-events"] as const),
+};
+
+export const useAssetAccessEvents = (scope: AssetScope, assetId?: string) =>
+	useQuery({
+		queryKey: assetAccessKeys.list(scope, assetId ?? ""),
+		queryFn: () => getAccessEvents(scope, assetId ?? ""),
+		enabled: !!assetId,
+	});
+
+export const useRecordAssetAccess = (scope: AssetScope) => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: ({ assetId, data }: { assetId: string; data: AssetAccessEventPayload }) =>
+			recordAccessEvent(scope, assetId, data),
+		onSettled: (_data, _error, { assetId }) =>
+			queryClient.invalidateQueries({ queryKey: assetAccessKeys.list(scope, assetId) }),
+	});
+};
+
+export default {
+	getAccessEvents,
+	recordAccessEvent,
+};
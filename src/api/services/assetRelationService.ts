@@ -0,0 +1,73 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { AssetRelation, AssetRelationEndpoint, AssetRelationType } from "#/entity";
+import apiClient from "../apiClient";
+
+export enum AssetRelationApi {
+	Relations = "/asset-relations",
+}
+
+export interface AssetRelationPayload {
+	type: AssetRelationType;
+	source: Pick<AssetRelationEndpoint, "assetId" | "showroomId">;
+	target: Pick<AssetRelationEndpoint, "assetId" | "showroomId">;
+}
+
+/**
+ * Relations touching one asset (either side), or every relation of a client; the current tenant when empty
+ */
+export interface AssetRelationQuery {
+	assetId?: string;
+	showroomId?: string;
+	clientId?: string;
+}
+
+type AssetRelationListRes = AssetRelation[] | { data?: { relations?: AssetRelation[] }; relations?: AssetRelation[] };
+
+type AssetRelationRes = { data?: { relation?: AssetRelation }; relation?: AssetRelation };
+
+const extractRelations = (res: AssetRelationListRes | undefined): AssetRelation[] => {
+	if (Array.isArray(res)) return res;
+	return res?.data?.relations ?? res?.relations ?? [];
+};
+
+const extractRelation = (res: AssetRelationRes | undefined) => res?.relation ?? res?.data?.relation;
+
+const getRelations = async (query: AssetRelationQuery = {}) =>
+	extractRelations(await apiClient.get<AssetRelationListRes>({ url: AssetRelationApi.Relations, params: query }));
+
+const createRelation = async (data: AssetRelationPayload) =>
+	extractRelation(await apiClient.post<AssetRelationRes>({ url: AssetRelationApi.Relations, data }));
+
+const deleteRelation = (id: string) => apiClient.delete({ url: `${AssetRelationApi.Relations}/${id}` });
+
+export const assetRelationKeys = {
+	all: ["asset-relations"] as const,
+	list: (query: AssetRelationQuery) => [...assetRelationKeys.all, query] as const,
+};
+
+export const assetRelationsQuery = (query: AssetRelationQuery) =>
+	queryOptions({ queryKey: assetRelationKeys.list(query), queryFn: () => getRelations(query) });
+
+export const useAssetRelations = (query: AssetRelationQuery, enabled = true) =>
+	useQuery({ ...assetRelationsQuery(query), enabled });
+
+const useInvalidateRelations = () => {
+	const queryClient = useQueryClient();
+	return () => queryClient.invalidateQueries({ queryKey: assetRelationKeys.all });
+};
+
+export const useCreateAssetRelation = () => {
+	const invalidate = useInvalidateRelations();
+	return useMutation({ mutationFn: createRelation, onSettled: invalidate });
+};
+
+export const useDeleteAssetRelation = () => {
+	const invalidate = useInvalidateRelations();
+	return useMutation({ mutationFn: deleteRelation, onSettled: invalidate });
+};
+
+export default {
+	getRelations,
+	createRelation,
+	deleteRelation,
+};
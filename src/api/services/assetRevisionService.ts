@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { AssetRevision } from "#/entity";
+import apiClient from "../apiClient";
+import { type AssetScope, assetKeys, getAssetBasePath } from "./assetService";
+
+type AssetRevisionListRes = AssetRevision[] | { data?: { revisions?: AssetRevision[] }; revisions?: AssetRevision[] };
+
+const extractRevisions = (res: AssetRevisionListRes | undefined): AssetRevision[] => {
+	if (Array.isArray(res)) return res;
+	return res?.data?.revisions ?? res?.revisions ?? [];
+};
+
+const getRevisions = async (scope: AssetScope, assetId: string) =>
+	extractRevisions(
+		await apiClient.get<AssetRevisionListRes>({ url: `${getAssetBasePath(scope)}/${assetId}/revisions` }),
+	);
+
+const restoreRevision = (scope: AssetScope, assetId: string, revisionId: string) =>
+	apiClient.post({ url: `${getAssetBasePath(scope)}/${assetId}/revisions/${revisionId}/restore` });
+
+/**
+ * Tenant asset revisions live under the asset detail key, so any asset invalidation refreshes them too
+ */
+export const assetRevisionKeys = {
+	list: ({ showroomId }: AssetScope, assetId: string) =>
+		showroomId
+			? (["showrooms", showroomId, "assets", assetId, "revisions"] as const)
+			: ([...assetKeys.detail(assetId), "revisions"] as const),
+};
+
+export const useAssetRevisions = (scope: AssetScope, assetId?: string) =>
+	useQuery({
+		queryKey: assetRevisionKeys.list(scope, assetId ?? ""),
+		queryFn: () => getRevisions(scope, assetId ?? ""),
+		enabled: !!assetId,
+	});
+
+export const useRestoreAssetRevision = (scope: AssetScope) => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: ({ assetId, revisionId }: { assetId: string; revisionId: string }) =>
+			restoreRevision(scope, assetId, revisionId),
+		onSettled: (_data, _error, { assetId }) => {
+			if (!scope.showroomId) {
+				return queryClient.invalidateQueries({ queryKey: assetKeys.all });
+			}
+			return queryClient.invalidateQueries({ queryKey: assetRevisionKeys.list(scope, assetId) });
+		},
+	});
+};
+
+export default {
+	getRevisions,
+	restoreRevision,
+};
@@ -0,0 +1,286 @@
+import { keepPreviousData, queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { PageQuery } from "#/api";
+import type { Asset, AssetField, AssetFile } from "#/entity";
+import apiClient from "../apiClient";
+import { toPageParams, toPageResult } from "../pagination";
+
+export interface AssetPayload {
+	name: string;
+	type: string;
+	tags: string[];
+	fields: AssetField[];
+	expirationDate?: string;
+	expirationNotificationsEnabled?: boolean;
+}
+
+/** TEXT assets carry fields only, FILE assets have at least one attached file */
+export type AssetKind = "TEXT" | "FILE";
+
+/** Move or rename an attachment; folders are virtual and only exist in `folderPath` */
+export type AssetFileUpdate = Pick<AssetFile, "originalName" | "folderPath">;
+
+/** A file for a plain multipart upload and the folder it goes to inside the asset */
+export type AssetFileUpload = Pick<AssetFile, "folderPath"> & { file: File };
+
+export type AssetSearchFlag = "file" | "expiration" | "secret" | "totp" | "note" | "tags";
+
+/** ISO timestamps, either end may be open */
+export interface DateRange {
+	after?: string;
+	before?: string;
+}
+
+/** Total file size in bytes, either end may be open */
+export interface SizeRange {
+	min?: number;
+	max?: number;
+}
+
+/**
+ * Structured part of an asset search, parsed from qualifiers like `type:CREDENTIALS expires:<30d`.
+ * The free text of the search stays in `PageQuery.search`.
+ */
+export interface AssetSearchFilter {
+	/** Assets of any of these types */
+	types: string[];
+	/** Assets carrying every one of these tags */
+	tags: string[];
+	/** Assets with a field whose key contains each of these */
+	fields: string[];
+	has: AssetSearchFlag[];
+	/** Assets lacking each of these, e.g. `no:tags` */
+	no: AssetSearchFlag[];
+	size?: SizeRange;
+	expires?: DateRange;
+	updated?: DateRange;
+	created?: DateRange;
+}
+
+export interface AssetListQuery extends PageQuery {
+	kind?: AssetKind;
+	/** Assets carrying every one of these tags */
+	tags?: string[];
+	filter?: AssetSearchFilter;
+}
+
+type AssetRes = { data?: { asset?: Asset }; asset?: Asset };
+
+export enum AssetApi {
+	Assets = "/assets",
+}
+
+/**
+ * Where an asset lives: the tenant vault, or a showroom when `showroomId` is set
+ */
+export interface AssetScope {
+	showroomId?: string;
+}
+
+/**
+ * Options for requests whose caller reports failures itself, e.g. per item in a bulk run, instead of through the error toast
+ */
+export interface AssetRequestOptions {
+	silent?: boolean;
+}
+
+export const getAssetBasePath = ({ showroomId }: AssetScope = {}) =>
+	showroomId ? `/showrooms/${showroomId}/assets` : AssetApi.Assets;
+
+/**
+ * The writable part of an asset, for round-tripping an existing asset through create or update
+ */
+export const toAssetPayload = (asset: Asset): AssetPayload => ({
+	name: asset.name,
+	type: asset.type,
+	tags: asset.tags ?? [],
+	fields: asset.fields ?? [],
+	expirationDate: asset.expirationDate,
+	expirationNotificationsEnabled: asset.expirationNotificationsEnabled,
+});
+
+// The backend answers both wrapped ({ data: { asset } }) and unwrapped ({ asset }) payloads.
+const extractAsset = (res: AssetRes | undefined) => res?.asset ?? res?.data?.asset;
+
+// `folderPaths` lines up with `files` by index, "" for the top of the asset
+const buildFilesForm = (files: AssetFileUpload[]) => {
+	const formData = new FormData();
+	for (const { file, folderPath } of files) {
+		formData.append("files", file);
+		formData.append("folderPaths", folderPath ?? "");
+	}
+	return formData;
+};
+
+/**
+ * Query params of a search filter; list params are comma separated like `tags`, ranges become
+ * `expiresAfter` / `expiresBefore`, `sizeMin` / `sizeMax` and so on.
+ */
+const toFilterParams = (filter?: AssetSearchFilter) => {
+	const params: Record<string, string> = {};
+	if (!filter) return params;
+	if (filter.types.length) params.types = filter.types.join(",");
+	if (filter.fields.length) params.fields = filter.fields.join(",");
+	if (filter.has.length) params.has = filter.has.join(",");
+	if (filter.no.length) params.no = filter.no.join(",");
+	if (filter.size?.min !== undefined) params.sizeMin = String(filter.size.min);
+	if (filter.size?.max !== undefined) params.sizeMax = String(filter.size.max);
+	for (const key of ["expires", "updated", "created"] as const) {
+		const range = filter[key];
+		if (range?.after) params[`${key}After`] = range.after;
+		if (range?.before) params[`${key}Before`] = range.before;
+	}
+	return params;
+};
+
+const getAssets = async (query: AssetListQuery, scope: AssetScope = {}) => {
+	const tags = [...(query.tags ?? []), ...(query.filter?.tags ?? [])];
+	const params = {
+		...toPageParams(query),
+		...(query.kind ? { kind: query.kind } : {}),
+		...(tags.length ? { tags: tags.join(",") } : {}),
+		...toFilterParams(query.filter),
+		// Secret values are plaintext when no vault is set up or the asset predates it; the server must not
+		// match the search against them
+		...(query.search?.trim() ? { excludeSecretValues: "true" } : {}),
+	};
+	const res = await apiClient.get<unknown>({ url: getAssetBasePath(scope), params });
+	return toPageResult<Asset>(res, "assets", query);
+};
+
+const ALL_ASSETS_PAGE_SIZE = 100;
+
+/**
+ * Walk every page of the list, for client-side work that needs the whole vault (duplicate checks, exports)
+ */
+const getAllAssets = async (kind?: AssetKind, scope: AssetScope = {}) => {
+	const items: Asset[] = [];
+	for (let page = 1; ; page++) {
+		const result = await getAssets({ page, pageSize: ALL_ASSETS_PAGE_SIZE, kind }, scope);
+		items.push(...result.items);
+		if (!result.items.length || items.length >= result.total) return items;
+	}
+};
+
+const getAsset = async (id: string, scope: AssetScope = {}, { silent }: AssetRequestOptions = {}) => {
+	const asset = extractAsset(await apiClient.get<AssetRes>({ url: `${getAssetBasePath(scope)}/${id}`, silent }));
+	if (!asset) throw new Error("Asset not found");
+	return asset;
+};
+
+const createAsset = async (data: AssetPayload, scope: AssetScope = {}, { silent }: AssetRequestOptions = {}) =>
+	extractAsset(await apiClient.post<AssetRes>({ url: getAssetBasePath(scope), data, silent }));
+
+const updateAsset = async ({
+	id,
+	data,
+	scope,
+	silent,
+}: { id: string; data: AssetPayload; scope?: AssetScope } & AssetRequestOptions) =>
+	extractAsset(await apiClient.patch<AssetRes>({ url: `${getAssetBasePath(scope)}/${id}`, data, silent }));
+
+const deleteAsset = (id: string, scope: AssetScope = {}, { silent }: AssetRequestOptions = {}) =>
+	apiClient.delete({ url: `${getAssetBasePath(scope)}/${id}`, silent });
+
+const uploadAssetFiles = ({
+	id,
+	files,
+	scope,
+	silent,
+}: { id: string; files: AssetFileUpload[]; scope?: AssetScope } & AssetRequestOptions) =>
+	apiClient.post({
+		url: `${getAssetBasePath(scope)}/${id}/files`,
+		data: buildFilesForm(files),
+		headers: { "Content-Type": undefined },
+		silent,
+	});
+
+const deleteAssetFile = ({ id, fileId, scope }: { id: string; fileId: string; scope?: AssetScope }) =>
+	apiClient.delete({ url: `${getAssetBasePath(scope)}/${id}/files/${fileId}` });
+
+const updateAssetFile = ({
+	id,
+	fileId,
+	data,
+	scope,
+}: {
+	id: string;
+	fileId: string;
+	data: AssetFileUpdate;
+	scope?: AssetScope;
+}) => apiClient.patch<AssetFile>({ url: `${getAssetBasePath(scope)}/${id}/files/${fileId}`, data });
+
+/**
+ * Fetch an attachment's content; relative file urls are resolved against the API base url
+ */
+const downloadAssetFile = (
+	file: Pick<AssetFile, "url" | "relativePath">,
+	signal?: AbortSignal,
+	{ silent }: AssetRequestOptions = {},
+) => apiClient.get<Blob>({ url: file.url || file.relativePath, responseType: "blob", signal, silent });
+
+/**
+ * Query keys shared by every asset query so mutations can invalidate them in one place
+ */
+export const assetKeys = {
+	all: ["assets"] as const,
+	lists: () => [...assetKeys.all, "list"] as const,
+	list: (query: AssetListQuery) => [...assetKeys.lists(), query] as const,
+	details: () => [...assetKeys.all, "detail"] as const,
+	detail: (id: string) => [...assetKeys.details(), id] as const,
+};
+
+export const assetListQuery = (query: AssetListQuery) =>
+	queryOptions({ queryKey: assetKeys.list(query), queryFn: () => getAssets(query), placeholderData: keepPreviousData });
+
+export const assetDetailQuery = (id: string) =>
+	queryOptions({ queryKey: assetKeys.detail(id), queryFn: () => getAsset(id) });
+
+export const useAssetList = (query: AssetListQuery) => useQuery(assetListQuery(query));
+
+export const useAllAssets = (kind?: AssetKind, enabled = true) =>
+	useQuery({ queryKey: [...assetKeys.lists(), "all", kind ?? "ANY"], queryFn: () => getAllAssets(kind), enabled });
+
+export const useAssetDetail = (id?: string) => useQuery({ ...assetDetailQuery(id ?? ""), enabled: !!id });
+
+const useInvalidateAssets = () => {
+	const queryClient = useQueryClient();
+	return () => queryClient.invalidateQueries({ queryKey: assetKeys.all });
+};
+
+export const useCreateAsset = () => {
+	const invalidate = useInvalidateAssets();
+	return useMutation({ mutationFn: (data: AssetPayload) => createAsset(data), onSettled: invalidate });
+};
+
+export const useUpdateAsset = () => {
+	const invalidate = useInvalidateAssets();
+	return useMutation({ mutationFn: updateAsset, onSettled: invalidate });
+};
+
+export const useDeleteAsset = () => {
+	const invalidate = useInvalidateAssets();
+	return useMutation({ mutationFn: (id: string) => deleteAsset(id), onSettled: invalidate });
+};
+
+export const useDeleteAssetFile = () => {
+	const invalidate = useInvalidateAssets();
+	return useMutation({ mutationFn: deleteAssetFile, onSettled: invalidate });
+};
+
+export const useUpdateAssetFile = () => {
+	const invalidate = useInvalidateAssets();
+	return useMutation({ mutationFn: updateAssetFile, onSettled: invalidate });
+};
+
+export default {
+	getAssets,
+	getAllAssets,
+	getAsset,
+	createAsset,
+	updateAsset,
+	deleteAsset,
+	uploadAssetFiles,
+	deleteAssetFile,
+	updateAssetFile,
+	downloadAssetFile,
+};
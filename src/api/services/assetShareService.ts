@@ -0,0 +1,98 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { AssetShare, PublicAssetShare } from "#/entity";
+import apiClient from "../apiClient";
+
+export enum AssetShareApi {
+	Shares = "/shares",
+	Public = "/public/shares",
+}
+
+export type AssetSharePayload = Pick<
+	AssetShare,
+	"assetId" | "fieldKeys" | "expiresAt" | "maxViews" | "passphraseRequired"
+> & {
+	payload: PublicAssetShare["payload"];
+};
+
+type AssetShareRes = AssetShare | { data?: { share?: AssetShare }; share?: AssetShare };
+
+type AssetShareListRes = AssetShare[] | { data?: { shares?: AssetShare[] }; shares?: AssetShare[] };
+
+type PublicAssetShareRes = PublicAssetShare | { data?: { share?: PublicAssetShare }; share?: PublicAssetShare };
+
+const extractShare = (res: AssetShareRes | undefined) =>
+	res && "token" in res ? res : (res?.share ?? res?.data?.share);
+
+const extractShares = (res: AssetShareListRes | undefined): AssetShare[] => {
+	if (Array.isArray(res)) return res;
+	return res?.data?.shares ?? res?.shares ?? [];
+};
+
+const extractPublicShare = (res: PublicAssetShareRes | undefined) =>
+	res && "payload" in res ? res : (res?.share ?? res?.data?.share);
+
+/**
+ * Every share link of the tenant, or only those of one asset
+ */
+const getShares = async (assetId?: string) =>
+	extractShares(
+		await apiClient.get<AssetShareListRes>({ url: AssetShareApi.Shares, params: assetId ? { assetId } : undefined }),
+	);
+
+const createShare = async (data: AssetSharePayload) =>
+	extractShare(await apiClient.post<AssetShareRes>({ url: AssetShareApi.Shares, data }));
+
+const revokeShare = (id: string) => apiClient.post({ url: `${AssetShareApi.Shares}/${id}/revoke` });
+
+/**
+ * Public, no login required; the server rejects expired, revoked and used-up links
+ */
+const getPublicShare = async (token: string) => {
+	const share = extractPublicShare(
+		await apiClient.get<PublicAssetShareRes>({ url: `${AssetShareApi.Public}/${encodeURIComponent(token)}` }),
+	);
+	if (!share) throw new Error("Share link not found");
+	return share;
+};
+
+export const assetShareKeys = {
+	all: ["asset-shares"] as const,
+	list: (assetId?: string) => [...assetShareKeys.all, "list", assetId ?? "ALL"] as const,
+	public: (token: string) => ["public-share", token] as const,
+};
+
+export const useAssetShares = (assetId?: string, enabled = true) =>
+	useQuery({ queryKey: assetShareKeys.list(assetId), queryFn: () => getShares(assetId), enabled });
+
+// Each fetch consumes a view, so never refetch in the background
+export const usePublicShare = (token?: string) =>
+	useQuery({
+		queryKey: assetShareKeys.public(token ?? ""),
+		queryFn: () => getPublicShare(token ?? ""),
+		enabled: !!token,
+		retry: false,
+		staleTime: Number.POSITIVE_INFINITY,
+		refetchOnWindowFocus: false,
+	});
+
+const useInvalidateShares = () => {
+	const queryClient = useQueryClient();
+	return () => queryClient.invalidateQueries({ queryKey: assetShareKeys.all });
+};
+
+export const useCreateAssetShare = () => {
+	const invalidate = useInvalidateShares();
+	return useMutation({ mutationFn: createShare, onSettled: invalidate });
+};
+
+export const useRevokeAssetShare = () => {
+	const invalidate = useInvalidateShares();
+	return useMutation({ mutationFn: revokeShare, onSettled: invalidate });
+};
+
+export default {
+	getShares,
+	createShare,
+	revokeShare,
+	getPublicShare,
+};
@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { AssetTemplate } from "#/entity";
+import apiClient from "../apiClient";
+
+export type AssetTemplatePayload = Omit<AssetTemplate, "id" | "createdAt" | "updatedAt">;
+
+export enum AssetTemplateApi {
+	Templates = "/asset-templates",
+}
+
+type AssetTemplateListRes = AssetTemplate[] | { data?: { templates?: AssetTemplate[] }; templates?: AssetTemplate[] };
+
+type AssetTemplateRes = { data?: { template?: AssetTemplate }; template?: AssetTemplate };
+
+const extractTemplates = (res: AssetTemplateListRes | undefined): AssetTemplate[] => {
+	if (Array.isArray(res)) return res;
+	return res?.data?.templates ?? res?.templates ?? [];
+};
+
+const extractTemplate = (res: AssetTemplateRes | undefined) => res?.template ?? res?.data?.template;
+
+const getTemplates = async () =>
+	extractTemplates(await apiClient.get<AssetTemplateListRes>({ url: AssetTemplateApi.Templates }));
+
+const createTemplate = async (data: AssetTemplatePayload) =>
+	extractTemplate(await apiClient.post<AssetTemplateRes>({ url: AssetTemplateApi.Templates, data }));
+
+const updateTemplate = async ({ id, data }: { id: string; data: AssetTemplatePayload }) =>
+	extractTemplate(await apiClient.patch<AssetTemplateRes>({ url: `${AssetTemplateApi.Templates}/${id}`, data }));
+
+const deleteTemplate = (id: string) => apiClient.delete({ url: `${AssetTemplateApi.Templates}/${id}` });
+
+export const assetTemplateKeys = {
+	all: ["asset-templates"] as const,
+};
+
+export const useAssetTemplates = () => useQuery({ queryKey: assetTemplateKeys.all, queryFn: getTemplates });
+
+const useInvalidateTemplates = () => {
+	const queryClient = useQueryClient();
+	return () => queryClient.invalidateQueries({ queryKey: assetTemplateKeys.all });
+};
+
+export const useCreateAssetTemplate = () => {
+	const invalidate = useInvalidateTemplates();
+	return useMutation({ mutationFn: createTemplate, onSettled: invalidate });
+};
+
+export const useUpdateAssetTemplate = () => {
+	const invalidate = useInvalidateTemplates();
+	return useMutation({ mutationFn: updateTemplate, onSettled: invalidate });
+};
+
+export const useDeleteAssetTemplate = () => {
+	const invalidate = useInvalidateTemplates();
+	return useMutation({ mutationFn: deleteTemplate, onSettled: invalidate });
+};
+
+export default {
+	getTemplates,
+	createTemplate,
+	updateTemplate,
+	deleteTemplate,
+};
@@ -0,0 +1,100 @@
+import type { AssetFile } from "#/entity";
+import apiClient from "../apiClient";
+import { type AssetScope, getAssetBasePath } from "./assetService";
+
+/**
+ * A chunked upload session; the server keeps the received chunks until the upload is completed or aborted
+ */
+export interface AssetUploadSession {
+	uploadId: string;
+	chunkSize: number;
+	/** Indexes of the chunks the server already holds */
+	receivedChunks: number[];
+}
+
+export interface AssetUploadPayload {
+	filename: string;
+	size: number;
+	mimeType: string;
+	chunkSize: number;
+	/** Identifies the same local file again after a reload */
+	fingerprint: string;
+	/** Folder inside the asset for files that came from a folder, e.g. "photos/2024" */
+	folderPath?: string;
+}
+
+export interface AssetUploadTarget extends AssetScope {
+	assetId: string;
+}
+
+type AssetUploadSessionRes = AssetUploadSession | { data?: AssetUploadSession; upload?: AssetUploadSession };
+type AssetUploadCompleteRes = { data?: { file?: AssetFile }; file?: AssetFile };
+
+// Same wrapped / unwrapped leniency as the asset endpoints
+const extractSession = (res: AssetUploadSessionRes | undefined) => {
+	if (!res) return undefined;
+	if ("uploadId" in res) return res;
+	return res.upload ?? res.data;
+};
+
+const getUploadsPath = ({ assetId, ...scope }: AssetUploadTarget) =>
+	`${getAssetBasePath(scope)}/${assetId}/files/uploads`;
+
+const createUpload = async (target: AssetUploadTarget, data: AssetUploadPayload) => {
+	const session = extractSession(await apiClient.post<AssetUploadSessionRes>({ url: getUploadsPath(target), data }));
+	if (!session?.uploadId) throw new Error("Upload session was not created");
+	return { ...session, receivedChunks: session.receivedChunks ?? [] };
+};
+
+/**
+ * The server's view of a session, used to skip chunks that arrived before a pause or reload
+ */
+const getUpload = async (target: AssetUploadTarget, uploadId: string) => {
+	const session = extractSession(
+		await apiClient.get<AssetUploadSessionRes>({ url: `${getUploadsPath(target)}/${uploadId}`, silent: true }),
+	);
+	if (!session?.uploadId) throw new Error("Upload session not found");
+	return { ...session, receivedChunks: session.receivedChunks ?? [] };
+};
+
+const uploadChunk = ({
+	target,
+	uploadId,
+	index,
+	chunk,
+	signal,
+	onProgress,
+}: {
+	target: AssetUploadTarget;
+	uploadId: string;
+	index: number;
+	chunk: Blob;
+	signal?: AbortSignal;
+	onProgress?: (loaded: number) => void;
+}) =>
+	apiClient.put({
+		url: `${getUploadsPath(target)}/${uploadId}/chunks/${index}`,
+		data: chunk,
+		headers: { "Content-Type": "application/octet-stream" },
+		// Chunks are retried by the caller, a slow link should not time out mid-chunk
+		timeout: 0,
+		silent: true,
+		signal,
+		onUploadProgress: (event) => onProgress?.(event.loaded),
+	});
+
+const completeUpload = async (target: AssetUploadTarget, uploadId: string) => {
+	const res = await apiClient.post<AssetUploadCompleteRes>({ url: `${getUploadsPath(target)}/${uploadId}/complete` });
+	return res?.file ?? res?.data?.file;
+};
+
+const abortUpload = (target: AssetUploadTarget, uploadId: string) =>
+	apiClient.delete({ url: `${getUploadsPath(target)}/${uploadId}`, silent: true });
+
+export default {
+	createUpload,
+	getUpload,
+	uploadChunk,
+	completeUpload,
+	abortUpload,
+};
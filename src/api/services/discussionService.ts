@@ -0,0 +1,91 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { ActivityEvent, DiscussionComment } from "#/entity";
+import apiClient from "../apiClient";
+import { assetKeys, getAssetBasePath } from "./assetService";
+import { ShowroomApi, showroomKeys } from "./showroomService";
+
+/**
+ * What a discussion belongs to: a tenant asset, an asset of a showroom, or a showroom itself
+ */
+export type DiscussionTarget = { assetId: string; showroomId?: string } | { assetId?: undefined; showroomId: string };
+
+export type DiscussionCommentPayload = Pick<DiscussionComment, "body" | "mentions">;
+
+type CommentListRes =
+	| DiscussionComment[]
+	| { data?: { comments?: DiscussionComment[] }; comments?: DiscussionComment[] };
+
+type ActivityListRes = ActivityEvent[] | { data?: { events?: ActivityEvent[] }; events?: ActivityEvent[] };
+
+const extractComments = (res: CommentListRes | undefined): DiscussionComment[] => {
+	if (Array.isArray(res)) return res;
+	return res?.data?.comments ?? res?.comments ?? [];
+};
+
+const extractEvents = (res: ActivityListRes | undefined): ActivityEvent[] => {
+	if (Array.isArray(res)) return res;
+	return res?.data?.events ?? res?.events ?? [];
+};
+
+const getTargetPath = (target: DiscussionTarget) =>
+	target.assetId ? `${getAssetBasePath(target)}/${target.assetId}` : `${ShowroomApi.Showrooms}/${target.showroomId}`;
+
+const getComments = async (target: DiscussionTarget) =>
+	extractComments(await apiClient.get<CommentListRes>({ url: `${getTargetPath(target)}/comments` }));
+
+/**
+ * Post a comment; the server notifies the mentioned users
+ */
+const createComment = (target: DiscussionTarget, data: DiscussionCommentPayload) =>
+	apiClient.post<DiscussionComment>({ url: `${getTargetPath(target)}/comments`, data });
+
+/** Authors can delete their own comments */
+const deleteComment = (target: DiscussionTarget, commentId: string) =>
+	apiClient.delete({ url: `${getTargetPath(target)}/comments/${commentId}` });
+
+const getActivity = async (target: DiscussionTarget) =>
+	extractEvents(await apiClient.get<ActivityListRes>({ url: `${getTargetPath(target)}/activity` }));
+
+/**
+ * Tenant asset discussions live under the asset detail key, so any asset invalidation refreshes the activity too
+ */
+export const discussionKeys = {
+	target: (target: DiscussionTarget) => {
+		if (!target.assetId) return [...showroomKeys.all, target.showroomId, "discussion"] as const;
+		if (target.showroomId) return ["showrooms", target.showroomId, "assets", target.assetId] as const;
+		return assetKeys.detail(target.assetId);
+	},
+	comments: (target: DiscussionTarget) => [...discussionKeys.target(target), "comments"] as const,
+	activity: (target: DiscussionTarget) => [...discussionKeys.target(target), "activity"] as const,
+};
+
+export const useComments = (target: DiscussionTarget) =>
+	useQuery({ queryKey: discussionKeys.comments(target), queryFn: () => getComments(target) });
+
+export const useActivity = (target: DiscussionTarget) =>
+	useQuery({ queryKey: discussionKeys.activity(target), queryFn: () => getActivity(target) });
+
+const useInvalidateComments = (target: DiscussionTarget) => {
+	const queryClient = useQueryClient();
+	return () => queryClient.invalidateQueries({ queryKey: discussionKeys.comments(target) });
+};
+
+export const useCreateComment = (target: DiscussionTarget) => {
+	const invalidate = useInvalidateComments(target);
+	return useMutation({
+		mutationFn: (data: DiscussionCommentPayload) => createComment(target, data),
+		onSettled: invalidate,
+	});
+};
+
+export const useDeleteComment = (target: DiscussionTarget) => {
+	const invalidate = useInvalidateComments(target);
+	return useMutation({ mutationFn: (commentId: string) => deleteComment(target, commentId), onSettled: invalidate });
+};
+
+export default {
+	getComments,
+	createComment,
+	deleteComment,
+	getActivity,
+};
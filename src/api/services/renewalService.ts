@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { AssetRenewal, ExpiringAsset } from "#/entity";
+import apiClient from "../apiClient";
+import { type AssetScope, assetKeys, getAssetBasePath } from "./assetService";
+
+export enum RenewalApi {
+	Expirations = "/expirations",
+}
+
+/** A tenant asset, or a showroom asset when `showroomId` is set */
+export type RenewalTarget = AssetScope & { assetId: string };
+
+export type RenewalPayload = Pick<AssetRenewal, "period" | "expirationDate" | "cost" | "currency" | "notes">;
+
+type RenewalListRes = AssetRenewal[] | { data?: { renewals?: AssetRenewal[] }; renewals?: AssetRenewal[] };
+type ExpiringListRes = ExpiringAsset[] | { data?: { assets?: ExpiringAsset[] }; assets?: ExpiringAsset[] };
+
+const extractRenewals = (res: RenewalListRes | undefined): AssetRenewal[] => {
+	if (Array.isArray(res)) return res;
+	return res?.data?.renewals ?? res?.renewals ?? [];
+};
+
+const extractExpiring = (res: ExpiringListRes | undefined): ExpiringAsset[] => {
+	if (Array.isArray(res)) return res;
+	return res?.data?.assets ?? res?.assets ?? [];
+};
+
+const getRenewalsPath = ({ assetId, showroomId }: RenewalTarget) =>
+	`${getAssetBasePath({ showroomId })}/${assetId}/renewals`;
+
+/**
+ * Tenant and showroom assets that have an expiration date, each with its latest renewal
+ */
+const getExpiringAssets = async () =>
+	extractExpiring(await apiClient.get<ExpiringListRes>({ url: RenewalApi.Expirations }));
+
+/** Newest first */
+const getRenewals = async (target: RenewalTarget) =>
+	extractRenewals(await apiClient.get<RenewalListRes>({ url: getRenewalsPath(target) }));
+
+/**
+ * Record a renewal; the server moves the asset's expiration date and reschedules its reminders
+ */
+const renewAsset = ({ target, data }: { target: RenewalTarget; data: RenewalPayload }) =>
+	apiClient.post<AssetRenewal>({ url: getRenewalsPath(target), data });
+
+export const renewalKeys = {
+	all: ["renewals"] as const,
+	expiring: () => [...renewalKeys.all, "expiring"] as const,
+	history: ({ assetId, showroomId }: RenewalTarget) =>
+		[...renewalKeys.all, "history", showroomId ?? "tenant", assetId] as const,
+};
+
+export const useExpiringAssets = () => useQuery({ queryKey: renewalKeys.expiring(), queryFn: getExpiringAssets });
+
+export const useRenewals = (target: RenewalTarget | null) =>
+	useQuery({
+		queryKey: target ? renewalKeys.history(target) : renewalKeys.all,
+		queryFn: () => (target ? getRenewals(target) : []),
+		enabled: !!target,
+	});
+
+/** A renewal changes the expiration date shown in the asset lists too */
+export const useRenewAsset = () => {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: renewAsset,
+		onSettled: () =>
+			Promise.all([
+				queryClient.invalidateQueries({ queryKey: renewalKeys.all }),
+				queryClient.invalidateQueries({ queryKey: assetKeys.all }),
+			]),
+	});
+};
+
+export default {
+	getExpiringAssets,
+	getRenewals,
+	renewAsset,
+};
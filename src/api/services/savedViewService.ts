@@ -0,0 +1,72 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { SavedView, SavedViewPage } from "#/entity";
+import apiClient from "../apiClient";
+
+export enum SavedViewApi {
+	SavedViews = "/saved-views",
+}
+
+export type SavedViewPayload = Pick<SavedView, "name" | "page" | "scope" | "state">;
+
+type SavedViewListRes = SavedView[] | { data?: { views?: SavedView[] }; views?: SavedView[] };
+type SavedViewRes = SavedView | { data?: { view?: SavedView }; view?: SavedView };
+
+const extractViews = (res: SavedViewListRes | undefined): SavedView[] => {
+	if (Array.isArray(res)) return res;
+	return res?.data?.views ?? res?.views ?? [];
+};
+
+const extractView = (res: SavedViewRes | undefined): SavedView | undefined => {
+	if (res && "id" in res) return res;
+	return res?.data?.view ?? res?.view;
+};
+
+/**
+ * The current user's own views of a page followed by the tenant's shared ones
+ */
+const getSavedViews = async (page: SavedViewPage) =>
+	extractViews(await apiClient.get<SavedViewListRes>({ url: SavedViewApi.SavedViews, params: { page } }));
+
+const createSavedView = async (data: SavedViewPayload) =>
+	extractView(await apiClient.post<SavedViewRes>({ url: SavedViewApi.SavedViews, data }));
+
+/** Only the creator, or a tenant admin for TENANT views, may change a view */
+const updateSavedView = async ({ id, data }: { id: string; data: Partial<SavedViewPayload> }) =>
+	extractView(await apiClient.patch<SavedViewRes>({ url: `${SavedViewApi.SavedViews}/${id}`, data }));
+
+const deleteSavedView = (id: string) => apiClient.delete({ url: `${SavedViewApi.SavedViews}/${id}` });
+
+export const savedViewKeys = {
+	all: ["saved-views"] as const,
+	list: (page: SavedViewPage) => [...savedViewKeys.all, page] as const,
+};
+
+export const useSavedViews = (page: SavedViewPage) =>
+	useQuery({ queryKey: savedViewKeys.list(page), queryFn: () => getSavedViews(page), staleTime: 60_000 });
+
+const useInvalidateSavedViews = () => {
+	const queryClient = useQueryClient();
+	return () => queryClient.invalidateQueries({ queryKey: savedViewKeys.all });
+};
+
+export const useCreateSavedView = () => {
+	const invalidate = useInvalidateSavedViews();
+	return useMutation({ mutationFn: createSavedView, onSettled: invalidate });
+};
+
+export const useUpdateSavedView = () => {
+	const invalidate = useInvalidateSavedViews();
+	return useMutation({ mutationFn: updateSavedView, onSettled: invalidate });
+};
+
+export const useDeleteSavedView = () => {
+	const invalidate = useInvalidateSavedViews();
+	return useMutation({ mutationFn: deleteSavedView, onSettled: invalidate });
+};
+
+export default {
+	getSavedViews,
+	createSavedView,
+	updateSavedView,
+	deleteSavedView,
+};
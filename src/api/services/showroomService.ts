@@ -0,0 +1,66 @@
+import { keepPreviousData, queryOptions, useQuery } from "@tanstack/react-query";
+import type { PageQuery } from "#/api";
+import type { Showroom } from "#/entity";
+import apiClient from "../apiClient";
+import { toPageParams, toPageResult } from "../pagination";
+
+export enum ShowroomApi {
+	Showrooms = "/showrooms",
+}
+
+export type ShowroomPayload = Pick<Showroom, "name" | "location" | "metaFields" | "templates">;
+
+type ShowroomRes = Showroom | { showroom?: Showroom; data?: Showroom | { showroom?: Showroom } };
+
+/** The backend uses Mongo's `_id`, some endpoints also expose `id` */
+export const getShowroomId = (showroom: Showroom) => showroom._id ?? showroom.id;
+
+const extractShowroom = (res: ShowroomRes | undefined): Showroom | undefined => {
+	if (!res) return undefined;
+	if ("name" in res) return res;
+	const data = res.data && "showroom" in res.data ? res.data.showroom : res.data;
+	return res.showroom ?? (data as Showroom | undefined);
+};
+
+const getShowrooms = async (query: PageQuery) => {
+	const res = await apiClient.get<unknown>({ url: ShowroomApi.Showrooms, params: toPageParams(query) });
+	return toPageResult<Showroom>(res, "showrooms", query);
+};
+
+const ALL_SHOWROOMS_PAGE_SIZE = 100;
+
+const getAllShowrooms = async () => {
+	const items: Showroom[] = [];
+	for (let page = 1; ; page++) {
+		const result = await getShowrooms({ page, pageSize: ALL_SHOWROOMS_PAGE_SIZE });
+		items.push(...result.items);
+		if (!result.items.length || items.length >= result.total) return items;
+	}
+};
+
+const createShowroom = async (data: ShowroomPayload) =>
+	extractShowroom(await apiClient.post<ShowroomRes>({ url: ShowroomApi.Showrooms, data }));
+
+export const showroomKeys = {
+	all: ["showrooms"] as const,
+	lists: () => [...showroomKeys.all, "list"] as const,
+	list: (query: PageQuery) => [...showroomKeys.lists(), query] as const,
+};
+
+export const showroomListQuery = (query: PageQuery) =>
+	queryOptions({
+		queryKey: showroomKeys.list(query),
+		queryFn: () => getShowrooms(query),
+		placeholderData: keepPreviousData,
+	});
+
+export const useShowroomList = (query: PageQuery) => useQuery(showroomListQuery(query));
+
+export const useAllShowrooms = (enabled = true) =>
+	useQuery({ queryKey: [...showroomKeys.lists(), "all"], queryFn: getAllShowrooms, enabled });
+
+export default {
+	getShowrooms,
+	getAllShowrooms,
+	createShowroom,
+};
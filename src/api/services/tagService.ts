@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Tag } from "#/entity";
+import apiClient from "../apiClient";
+import { assetKeys } from "./assetService";
+
+export enum TagApi {
+	Tags = "/tags",
+	Merge = "/tags/merge",
+}
+
+type TagListRes = Tag[] | { data?: { tags?: Tag[] }; tags?: Tag[] };
+
+const extractTags = (res: TagListRes | undefined): Tag[] => {
+	if (Array.isArray(res)) return res;
+	return res?.data?.tags ?? res?.tags ?? [];
+};
+
+const getTags = async () => extractTags(await apiClient.get<TagListRes>({ url: TagApi.Tags }));
+
+/**
+ * Rename and/or recolor a tag; renaming rewrites it on every asset that uses it
+ */
+const updateTag = ({ name, data }: { name: string; data: Partial<Pick<Tag, "name" | "color">> }) =>
+	apiClient.patch({ url: `${TagApi.Tags}/${encodeURIComponent(name)}`, data });
+
+/**
+ * Replace every source tag with the target tag on all assets, then drop the sources
+ */
+const mergeTags = (data: { sources: string[]; target: string }) => apiClient.post({ url: TagApi.Merge, data });
+
+export const tagKeys = {
+	all: ["tags"] as const,
+};
+
+export const useTags = () => useQuery({ queryKey: tagKeys.all, queryFn: getTags, staleTime: 60_000 });
+
+/** Tag changes rewrite asset tags too */
+const useInvalidateTags = () => {
+	const queryClient = useQueryClient();
+	return () =>
+		Promise.all([
+			queryClient.invalidateQueries({ queryKey: tagKeys.all }),
+			queryClient.invalidateQueries({ queryKey: assetKeys.all }),
+		]);
+};
+
+export const useUpdateTag = () => {
+	const invalidate = useInvalidateTags();
+	return useMutation({ mutationFn: updateTag, onSettled: invalidate });
+};
+
+export const useMergeTags = () => {
+	const invalidate = useInvalidateTags();
+	return useMutation({ mutationFn: mergeTags, onSettled: invalidate });
+};
+
+export default {
+	getTags,
+	updateTag,
+	mergeTags,
+};
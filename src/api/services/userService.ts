@@ -1,3 +1,4 @@
+import { useQuery } from "@tanstack/react-query";
 import apiClient from "../apiClient";
 
 import type { UserInfo, UserToken } from "#/entity";
@@ -18,16 +19,38 @@ export enum UserApi {
 	Logout = "/auth/logout",
 	Refresh = "/auth/refresh",
 	User = "/user",
+	Users = "/users",
 }
 
+/** A member of the current tenant, e.g. to @mention in a comment */
+export type TenantUser = Pick<UserInfo, "id" | "username" | "name" | "email" | "avatar">;
+
+type TenantUserListRes = TenantUser[] | { data?: { users?: TenantUser[] } | TenantUser[]; users?: TenantUser[] };
+
 const signin = (data: SignInReq) => apiClient.post<SignInRes>({ url: UserApi.SignIn, data });
 const signup = (data: SignUpReq) => apiClient.post<SignInRes>({ url: UserApi.SignUp, data });
 const logout = () => apiClient.get({ url: UserApi.Logout });
 const findById = (id: string) => apiClient.get<UserInfo[]>({ url: `${UserApi.User}/${id}` });
 
+const getTenantUsers = async () => {
+	const res = await apiClient.get<TenantUserListRes>({ url: UserApi.Users });
+	if (Array.isArray(res)) return res;
+	if (Array.isArray(res?.data)) return res.data;
+	return res?.data?.users ?? res?.users ?? [];
+};
+
+export const userKeys = {
+	tenant: ["users", "tenant"] as const,
+};
+
+// Tenant membership rarely changes while a page is open
+export const useTenantUsers = () =>
+	useQuery({ queryKey: userKeys.tenant, queryFn: getTenantUsers, staleTime: 5 * 60_000 });
+
 export default {
 	signin,
 	signup,
 	findById,
+	getTenantUsers,
 	logout,
 };
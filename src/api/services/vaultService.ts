@@ -0,0 +1,27 @@
+import type { VaultConfig } from "#/entity";
+import apiClient from "../apiClient";
+
+export enum VaultApi {
+	Vault = "/vault",
+}
+
+type VaultRes = VaultConfig | { vault?: VaultConfig | null; data?: { vault?: VaultConfig | null } } | null;
+
+const extractVault = (res: VaultRes | undefined): VaultConfig | null => {
+	if (!res) return null;
+	if ("keys" in res) return res;
+	return res.vault ?? res.data?.vault ?? null;
+};
+
+/**
+ * @returns null while the tenant has not enabled client-side encryption
+ */
+const getVault = async () => extractVault(await apiClient.get<VaultRes>({ url: VaultApi.Vault }));
+
+const saveVault = async (data: VaultConfig) =>
+	extractVault(await apiClient.put<VaultRes>({ url: VaultApi.Vault, data }));
+
+export default {
+	getVault,
+	saveVault,
+};
@@ -5,6 +5,11 @@ import { Badge } from "@/ui/badge";
 import { Button } from "@/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/ui/card";
 import { toast } from "sonner";
+import { ACCESS_CONTEXTS, useSecretAccessAudit } from "@/components/asset-access-log";
+import { MarkdownView } from "@/components/markdown";
+import { TotpCode } from "@/components/totp";
+import { revealSecretValue } from "@/store/vaultStore";
+import { isEncryptedValue } from "@/utils/vault";
 
 type CredentialField = {
 	key: string;
@@ -35,24 +40,58 @@ type CredentialsDrawerProps = {
 export function CredentialsDrawer({
 	open,
 	onOpenChange,
-	showroomId: _showroomId,
+	showroomId,
 	showroomName,
 	credentials,
 	isLoading = false,
 }: CredentialsDrawerProps) {
 	const [copiedField, setCopiedField] = useState<string | null>(null);
 	const [revealedFields, setRevealedFields] = useState<Record<string, boolean>>({});
+	const [decryptedValues, setDecryptedValues] = useState<Record<string, string>>({});
+	const recordSecretAccess = useSecretAccessAudit(ACCESS_CONTEXTS.QUICK_ACCESS, showroomId);
 
-	const handleToggleReveal = (fieldKey: string) => {
+	/**
+	 * Decrypt a field value once while the drawer is mounted; resolves null when the vault stays locked
+	 */
+	const decryptFieldValue = async (fieldKey: string, value: string) => {
+		if (!isEncryptedValue(value)) return value;
+		if (decryptedValues[fieldKey] !== undefined) return decryptedValues[fieldKey];
+		try {
+			const plaintext = await revealSecretValue(value);
+			if (plaintext !== null) setDecryptedValues((prev) => ({ ...prev, [fieldKey]: plaintext }));
+			return plaintext;
+		} catch (error) {
+			console.error(error);
+			toast.error(error instanceof Error ? error.message : "Failed to decrypt value", { position: "top-center" });
+			return null;
+		}
+	};
+
+	const handleToggleReveal = async (credentialId: string, fieldKey: string, field: CredentialField) => {
+		if (!revealedFields[fieldKey]) {
+			if ((await decryptFieldValue(fieldKey, field.value)) === null) return;
+			recordSecretAccess(credentialId, field, "REVEAL");
+		}
 		setRevealedFields((prev) => ({
 			...prev,
 			[fieldKey]: !prev[fieldKey],
 		}));
 	};
 
-	const handleCopy = async (value: string, fieldKey: string) => {
+	/**
+	 * Decrypt a TOTP secret to show its live code; this reveals the secret, so it is audited like one
+	 */
+	const handleShowCode = async (credentialId: string, fieldKey: string, field: CredentialField) => {
+		if ((await decryptFieldValue(fieldKey, field.value)) === null) return;
+		recordSecretAccess(credentialId, field, "REVEAL");
+	};
+
+	const handleCopy = async (credentialId: string, fieldKey: string, field: CredentialField) => {
 		try {
-			await navigator.clipboard.writeText(value);
+			const plaintext = await decryptFieldValue(fieldKey, field.value);
+			if (plaintext === null) return;
+			await navigator.clipboard.writeText(plaintext);
+			recordSecretAccess(credentialId, field, "COPY");
 			setCopiedField(fieldKey);
 			toast.success("Copied to clipboard", { position: "top-center" });
 			setTimeout(() => setCopiedField(null), 2000);
@@ -109,52 +148,81 @@ export function CredentialsDrawer({
 									</div>
 								</CardHeader>
 								<CardContent className="space-y-3">
-									{credential.fields.map((field, index) => (
-										<div
-											key={`${credential.id}-${field.key}-${index}`}
-											className="flex items-center justify-between gap-3 rounded-lg border bg-muted/30 p-3"
-										>
-											<div className="flex-1 min-w-0">
-												<div className="flex items-center gap-2 mb-1">
-													<div className="text-xs font-semibold text-muted-foreground uppercase">{field.key}</div>
-													{field.isSecret && <Lock className="h-3 w-3 text-muted-foreground" />}
-												</div>
-												<div className="text-sm font-mono break-all">
-													{field.isSecret && !revealedFields[`${credential.id}-${field.key}`]
-														? "••••••••"
-														: field.value || "-"}
-												</div>
-											</div>
-											<div className="flex items-center gap-1 shrink-0">
-												{field.isSecret && (
-													<Button
-														type="button"
-														variant="ghost"
-														size="icon"
-														onClick={() => handleToggleReveal(`${credential.id}-${field.key}`)}
-													>
-														{revealedFields[`${credential.id}-${field.key}`] ? (
-															<EyeOff className="h-4 w-4" />
-														) : (
-															<Eye className="h-4 w-4" />
-														)}
-													</Button>
-												)}
-												<Button
-													type="button"
-													variant="ghost"
-													size="icon"
-													onClick={() => void handleCopy(field.value, `${credential.id}-${field.key}`)}
-												>
-													{copiedField === `${credential.id}-${field.key}` ? (
-														<Check className="h-4 w-4 text-green-500" />
+									{credential.fields.map((field, index) => {
+										const fieldKey = `${credential.id}-${field.key}`;
+										const value = decryptedValues[fieldKey] ?? field.value ?? "";
+										const isLocked = isEncryptedValue(value);
+										return (
+											<div
+												key={`${credential.id}-${field.key}-${index}`}
+												className="flex items-center justify-between gap-3 rounded-lg border bg-muted/30 p-3"
+											>
+												<div className="flex-1 min-w-0">
+													<div className="flex items-center gap-2 mb-1">
+														<div className="text-xs font-semibold text-muted-foreground uppercase">{field.key}</div>
+														{field.isSecret && <Lock className="h-3 w-3 text-muted-foreground" />}
+													</div>
+													{field.type === "TOTP" ? (
+														<>
+															{isLocked ? (
+																<Button
+																	type="button"
+																	variant="outline"
+																	size="sm"
+																	onClick={() => void handleShowCode(credential.id, fieldKey, field)}
+																>
+																	Show code
+																</Button>
+															) : (
+																<TotpCode
+																	value={value}
+																	onCopy={() => recordSecretAccess(credential.id, field, "COPY")}
+																/>
+															)}
+															{revealedFields[fieldKey] && (
+																<div className="text-xs font-mono break-all text-muted-foreground">{value}</div>
+															)}
+														</>
+													) : field.type === "NOTE" &&
+														value &&
+														!isLocked &&
+														(!field.isSecret || revealedFields[fieldKey]) ? (
+														<MarkdownView source={value} />
 													) : (
-														<Copy className="h-4 w-4" />
+														<div className="text-sm font-mono break-all">
+															{(field.isSecret && !revealedFields[fieldKey]) || isLocked ? "••••••••" : value || "-"}
+														</div>
+													)}
+												</div>
+												<div className="flex items-center gap-1 shrink-0">
+													{field.isSecret && (
+														<Button
+															type="button"
+															variant="ghost"
+															size="icon"
+															onClick={() => void handleToggleReveal(credential.id, fieldKey, field)}
+														>
+															{revealedFields[fieldKey] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+														</Button>
+													)}
+													{field.type !== "TOTP" && (
+														<Button
+															type="button"
+															variant="ghost"
+															size="icon"
+															onClick={() => void handleCopy(credential.id, fieldKey, field)}
+														>
+															{copiedField === fieldKey ? (
+																<Check className="h-4 w-4 text-green-500" />
+															) : (
+																<Copy className="h-4 w-4" />
+															)}
+														</Button>
 													)}
-												</Button>
+												</div>
 											</div>
-										</div>
-									))}
+										);
+									})}
 								</CardContent>
 							</Card>
 						))
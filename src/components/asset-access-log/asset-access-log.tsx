@@ -0,0 +1,103 @@
+import { formatDistanceToNow } from "date-fns";
+import { Copy, Eye } from "lucide-react";
+import { useMemo, useState } from "react";
+import type { AssetAccessAction, AssetAccessEvent } from "#/entity";
+import { useAssetAccessEvents } from "@/api/services/assetAccessService";
+import { Badge } from "@/ui/badge";
+import { Button } from "@/ui/button";
+
+type AssetAccessLogProps = {
+	assetId: string;
+	/** Set for showroom assets, omitted for tenant assets */
+	showroomId?: string;
+};
+
+type ActionFilter = AssetAccessAction | "ALL";
+
+const ACTION_FILTERS: { value: ActionFilter; label: string }[] = [
+	{ value: "ALL", label: "All" },
+	{ value: "REVEAL", label: "Reveals" },
+	{ value: "COPY", label: "Copies" },
+];
+
+const getUserName = (event: AssetAccessEvent) =>
+	event.user?.name || event.user?.email || event.user?.id || "Unknown user";
+
+const formatTimestamp = (value: string) => {
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) return "-";
+	return `${date.toLocaleString()} (${formatDistanceToNow(date, { addSuffix: true })})`;
+};
+
+export function AssetAccessLog({ assetId, showroomId }: AssetAccessLogProps) {
+	const scope = useMemo(() => ({ showroomId }), [showroomId]);
+	const { data, isLoading, isError } = useAssetAccessEvents(scope, assetId);
+	const [filter, setFilter] = useState<ActionFilter>("ALL");
+
+	const events = useMemo(
+		() =>
+			[...(data ?? [])]
+				.filter((event) => filter === "ALL" || event.action === filter)
+				.sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+		[data, filter],
+	);
+
+	if (isLoading) {
+		return <div className="py-8 text-center text-sm text-muted-foreground">Loading access log...</div>;
+	}
+	if (isError) {
+		return <div className="py-8 text-center text-sm text-muted-foreground">Failed to load access log.</div>;
+	}
+
+	return (
+		<div className="space-y-3">
+			<div className="flex flex-wrap items-center justify-between gap-2">
+				<div className="text-xs text-muted-foreground">Every reveal and copy of a secret field on this asset.</div>
+				<div className="flex items-center gap-1">
+					{ACTION_FILTERS.map((option) => (
+						<Button
+							key={option.value}
+							type="button"
+							size="sm"
+							variant={filter === option.value ? "secondary" : "ghost"}
+							onClick={() => setFilter(option.value)}
+						>
+							{option.label}
+						</Button>
+					))}
+				</div>
+			</div>
+			{events.length ? (
+				<div className="max-h-[55vh] space-y-2 overflow-y-auto pr-1">
+					{events.map((event) => (
+						<div
+							key={event.id}
+							className="flex flex-wrap items-center justify-between gap-3 rounded-md border px-3 py-2 text-xs"
+						>
+							<div className="flex min-w-0 items-center gap-3">
+								{event.action === "COPY" ? (
+									<Copy className="h-4 w-4 shrink-0 text-muted-foreground" />
+								) : (
+									<Eye className="h-4 w-4 shrink-0 text-muted-foreground" />
+								)}
+								<div className="min-w-0">
+									<div className="truncate text-sm font-semibold text-foreground">{getUserName(event)}</div>
+									<div className="text-muted-foreground">
+										{event.action === "COPY" ? "Copied" : "Revealed"}{" "}
+										<span className="font-medium uppercase text-foreground">{event.fieldKey}</span>
+									</div>
+								</div>
+							</div>
+							<div className="flex items-center gap-3">
+								{event.context && <Badge variant="outline">{event.context}</Badge>}
+								<span className="text-muted-foreground">{formatTimestamp(event.createdAt)}</span>
+							</div>
+						</div>
+					))}
+				</div>
+			) : (
+				<div className="py-8 text-center text-sm text-muted-foreground">No secret access recorded yet.</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,2 @@
+export * from "./asset-access-log";
+export * from "./use-secret-access-audit";
@@ -0,0 +1,35 @@
+import { useCallback, useMemo } from "react";
+import type { AssetAccessAction, AssetField } from "#/entity";
+import { useRecordAssetAccess } from "@/api/services/assetAccessService";
+import { useUserInfo } from "@/store/userStore";
+
+/** Screens that reveal or copy secrets, recorded as the event context */
+export const ACCESS_CONTEXTS = {
+	ASSETS: "Assets",
+	SHOWROOM_ASSETS: "Showroom assets",
+	QUICK_ACCESS: "Quick Access",
+	HISTORY: "History",
+} as const;
+
+type AuditedField = Pick<AssetField, "key"> & { isSecret?: boolean };
+
+/**
+ * Returns a callback that records a reveal or copy of a secret field; non-secret fields are ignored.
+ * Recording never blocks the reveal or copy itself.
+ */
+export function useSecretAccessAudit(context: string, showroomId?: string) {
+	const scope = useMemo(() => ({ showroomId }), [showroomId]);
+	const { mutate } = useRecordAssetAccess(scope);
+	const { id: userId } = useUserInfo();
+
+	return useCallback(
+		(assetId: string, field: AuditedField, action: AssetAccessAction) => {
+			if (!field.isSecret) return;
+			mutate({
+				assetId,
+				data: { fieldKey: field.key, action, context, userId, occurredAt: new Date().toISOString() },
+			});
+		},
+		[mutate, context, userId],
+	);
+}
@@ -0,0 +1,59 @@
+import { Bell, BellOff, CalendarClock, CopyPlus, Download, FolderInput, Tags, Trash2, X } from "lucide-react";
+import { Button } from "@/ui/button";
+import type { BulkAction } from "./utils";
+
+type BulkActionBarProps = {
+	count: number;
+	onAction: (action: BulkAction, notificationsEnabled?: boolean) => void;
+	onExport: () => void;
+	onClear: () => void;
+};
+
+/**
+ * Sticks to the bottom of the table while rows are selected
+ */
+export function BulkActionBar({ count, onAction, onExport, onClear }: BulkActionBarProps) {
+	if (!count) return null;
+
+	return (
+		<div className="sticky bottom-4 z-20 mt-4 flex flex-wrap items-center gap-2 rounded-lg border bg-background/95 px-4 py-2 shadow-lg backdrop-blur">
+			<span className="mr-2 text-sm font-semibold">{count} selected</span>
+			<Button type="button" size="sm" variant="outline" onClick={() => onAction("RETAG")}>
+				<Tags className="mr-1 h-4 w-4" />
+				Retag
+			</Button>
+			<Button type="button" size="sm" variant="outline" onClick={() => onAction("EXPIRATION")}>
+				<CalendarClock className="mr-1 h-4 w-4" />
+				Expiration
+			</Button>
+			<Button type="button" size="sm" variant="outline" onClick={() => onAction("NOTIFICATIONS", true)}>
+				<Bell className="mr-1 h-4 w-4" />
+				Notify on
+			</Button>
+			<Button type="button" size="sm" variant="outline" onClick={() => onAction("NOTIFICATIONS", false)}>
+				<BellOff className="mr-1 h-4 w-4" />
+				Notify off
+			</Button>
+			<Button type="button" size="sm" variant="outline" onClick={() => onAction("COPY")}>
+				<CopyPlus className="mr-1 h-4 w-4" />
+				Copy to showroom
+			</Button>
+			<Button type="button" size="sm" variant="outline" onClick={() => onAction("MOVE")}>
+				<FolderInput className="mr-1 h-4 w-4" />
+				Move to showroom
+			</Button>
+			<Button type="button" size="sm" variant="outline" onClick={onExport}>
+				<Download className="mr-1 h-4 w-4" />
+				Export
+			</Button>
+			<Button type="button" size="sm" variant="destructive" onClick={() => onAction("DELETE")}>
+				<Trash2 className="mr-1 h-4 w-4" />
+				Delete
+			</Button>
+			<Button type="button" size="sm" variant="ghost" className="ml-auto" onClick={onClear}>
+				<X className="mr-1 h-4 w-4" />
+				Clear selection
+			</Button>
+		</div>
+	);
+}
@@ -0,0 +1,251 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { Check, Circle, Loader2, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { assetKeys } from "@/api/services/assetService";
+import { DependentsWarning } from "@/components/asset-relations";
+import { ShowroomPicker, usePickableShowrooms } from "@/components/asset-transfer";
+import { TagInput } from "@/components/tags";
+import { Button } from "@/ui/button";
+import { DatePicker } from "@/ui/date-picker";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Label } from "@/ui/label";
+import { Progress } from "@/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
+import { Switch } from "@/ui/switch";
+import {
+	BULK_ACTION_LABELS,
+	type BulkAction,
+	type BulkItem,
+	type BulkItemStatus,
+	type BulkOperation,
+	type BulkTarget,
+	type RetagMode,
+	runBulkOperation,
+} from "./utils";
+
+type BulkActionDialogProps = {
+	/** The dialog is open while an action is set */
+	action: BulkAction | null;
+	/** Target state for the NOTIFICATIONS action */
+	notificationsEnabled?: boolean;
+	targets: BulkTarget[];
+	onClose: () => void;
+	/** Called after each run with the ids that failed, so the caller can keep just those selected */
+	onFinished: (failedIds: string[]) => void;
+};
+
+const RETAG_MODES: { value: RetagMode; label: string }[] = [
+	{ value: "ADD", label: "Add tags" },
+	{ value: "REMOVE", label: "Remove tags" },
+	{ value: "REPLACE", label: "Replace all tags" },
+];
+
+const STATUS_ICONS: Record<BulkItemStatus, React.ReactNode> = {
+	PENDING: <Circle className="h-3 w-3 text-muted-foreground" />,
+	RUNNING: <Loader2 className="h-3 w-3 animate-spin text-primary" />,
+	DONE: <Check className="h-3 w-3 text-success" />,
+	FAILED: <X className="h-3 w-3 text-error" />,
+};
+
+export function BulkActionDialog({
+	action,
+	notificationsEnabled,
+	targets,
+	onClose,
+	onFinished,
+}: BulkActionDialogProps) {
+	const queryClient = useQueryClient();
+	const [items, setItems] = useState<BulkItem[] | null>(null);
+	const [isRunning, setIsRunning] = useState(false);
+	const [retagMode, setRetagMode] = useState<RetagMode>("ADD");
+	const [retagTags, setRetagTags] = useState<string[]>([]);
+	const [expirationDate, setExpirationDate] = useState<Date | undefined>();
+	const [expirationNotify, setExpirationNotify] = useState(true);
+	const [showroomIds, setShowroomIds] = useState<string[]>([]);
+	const isTransfer = action === "COPY" || action === "MOVE";
+	const { showrooms } = usePickableShowrooms(undefined, isTransfer);
+
+	const doneCount = items?.filter((item) => item.status === "DONE" || item.status === "FAILED").length ?? 0;
+	const failedItems = items?.filter((item) => item.status === "FAILED") ?? [];
+
+	const operation = ((): BulkOperation | null => {
+		switch (action) {
+			case "DELETE":
+				return { action };
+			case "RETAG":
+				return retagTags.length || retagMode === "REPLACE" ? { action, mode: retagMode, tags: retagTags } : null;
+			case "EXPIRATION":
+				return expirationDate ? { action, date: expirationDate, notificationsEnabled: expirationNotify } : null;
+			case "NOTIFICATIONS":
+				return { action, enabled: !!notificationsEnabled };
+			case "COPY":
+			case "MOVE": {
+				const destinations = showrooms
+					.filter((showroom) => showroomIds.includes(showroom.id))
+					.map((showroom) => ({ showroomId: showroom.id, name: showroom.name }));
+				return destinations.length ? { action, destinations } : null;
+			}
+			default:
+				return null;
+		}
+	})();
+
+	const handleOpenChange = (open: boolean) => {
+		if (open || isRunning) return;
+		onClose();
+		setItems(null);
+		setRetagTags([]);
+		setRetagMode("ADD");
+		setExpirationDate(undefined);
+		setExpirationNotify(true);
+		setShowroomIds([]);
+	};
+
+	const run = async (runTargets: BulkTarget[]) => {
+		if (!operation) return;
+		const runIds = new Set(runTargets.map((target) => target.id));
+		const failed: string[] = [];
+		setIsRunning(true);
+		setItems((prev) =>
+			targets.map((target) => {
+				const existing = prev?.find((item) => item.id === target.id);
+				return runIds.has(target.id) || !existing ? { ...target, status: "PENDING" } : existing;
+			}),
+		);
+		await runBulkOperation(runTargets, operation, (id, update) => {
+			if (update.status === "FAILED") failed.push(id);
+			setItems((prev) => prev?.map((item) => (item.id === id ? { ...item, ...update } : item)) ?? null);
+		});
+		setIsRunning(false);
+		await queryClient.invalidateQueries({ queryKey: assetKeys.all });
+		onFinished(failed);
+		if (failed.length) {
+			toast.warning(`${failed.length} of ${runTargets.length} assets failed`, { position: "top-center" });
+		} else {
+			toast.success(`${BULK_ACTION_LABELS[operation.action]}: ${runTargets.length} assets done`, {
+				position: "top-center",
+			});
+		}
+	};
+
+	const description =
+		action === "DELETE"
+			? `Delete ${targets.length} assets? This cannot be undone.`
+			: action === "NOTIFICATIONS"
+				? `Turn expiration notifications ${notificationsEnabled ? "on" : "off"} for ${targets.length} assets.`
+				: `Apply to ${targets.length} selected assets.`;
+
+	return (
+		<Dialog open={!!action} onOpenChange={handleOpenChange}>
+			<DialogContent className="sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle>{action ? BULK_ACTION_LABELS[action] : ""}</DialogTitle>
+					<DialogDescription>{description}</DialogDescription>
+				</DialogHeader>
+				{!items && (
+					<div className="space-y-4">
+						{action === "RETAG" && (
+							<>
+								<div className="space-y-2">
+									<Label>Mode</Label>
+									<Select value={retagMode} onValueChange={(value) => setRetagMode(value as RetagMode)}>
+										<SelectTrigger className="w-full">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{RETAG_MODES.map((mode) => (
+												<SelectItem key={mode.value} value={mode.value}>
+													{mode.label}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								</div>
+								<div className="space-y-2">
+									<Label>Tags</Label>
+									<TagInput value={retagTags} onChange={setRetagTags} />
+									{retagMode === "REPLACE" && !retagTags.length && (
+										<div className="text-xs text-muted-foreground">
+											No tags clears the tags of every selected asset.
+										</div>
+									)}
+								</div>
+							</>
+						)}
+						{action === "EXPIRATION" && (
+							<>
+								<div className="space-y-2">
+									<Label>Expiration date</Label>
+									<DatePicker value={expirationDate} onChange={setExpirationDate} minDate={new Date()} />
+								</div>
+								<div className="flex items-center justify-between rounded-md border px-3 py-2">
+									<Label>Enable expiration notifications</Label>
+									<Switch checked={expirationNotify} onCheckedChange={setExpirationNotify} />
+								</div>
+							</>
+						)}
+						{action === "NOTIFICATIONS" && notificationsEnabled && (
+							<div className="text-xs text-muted-foreground">
+								Assets without an expiration date cannot notify and are listed as failed.
+							</div>
+						)}
+						{isTransfer && (
+							<div className="space-y-2">
+								<Label>Showrooms</Label>
+								<ShowroomPicker value={showroomIds} onChange={setShowroomIds} />
+								<div className="text-xs text-muted-foreground">
+									Fields, tags, expiration settings and files are copied into every selected showroom
+									{action === "MOVE" ? ", then the assets are removed from the vault." : "."}
+								</div>
+							</div>
+						)}
+						{action === "DELETE" && <DependentsWarning targets={targets.map((target) => ({ assetId: target.id }))} />}
+					</div>
+				)}
+				{items && (
+					<div className="space-y-3">
+						<div className="space-y-1">
+							<Progress value={items.length ? (doneCount / items.length) * 100 : 0} />
+							<div className="text-xs text-muted-foreground">
+								{doneCount} of {items.length} processed
+								{failedItems.length > 0 && `, ${failedItems.length} failed`}
+							</div>
+						</div>
+						<div className="max-h-64 space-y-1 overflow-y-auto rounded-md border p-2 text-xs">
+							{items.map((item) => (
+								<div key={item.id} className="flex items-start gap-2 px-1 py-0.5">
+									<span className="mt-0.5">{STATUS_ICONS[item.status]}</span>
+									<div className="min-w-0 flex-1">
+										<div className="truncate font-medium">{item.name}</div>
+										{item.message && <div className="text-error">{item.message}</div>}
+									</div>
+								</div>
+							))}
+						</div>
+					</div>
+				)}
+				<DialogFooter className="mt-4">
+					<Button type="button" variant="outline" disabled={isRunning} onClick={() => handleOpenChange(false)}>
+						{items ? "Close" : "Cancel"}
+					</Button>
+					{!items && (
+						<Button
+							type="button"
+							variant={action === "DELETE" ? "destructive" : "default"}
+							disabled={!operation || !targets.length}
+							onClick={() => void run(targets)}
+						>
+							{action === "DELETE" ? `Delete ${targets.length} assets` : "Apply"}
+						</Button>
+					)}
+					{items && !isRunning && failedItems.length > 0 && (
+						<Button type="button" onClick={() => void run(failedItems)}>
+							Retry failed
+						</Button>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
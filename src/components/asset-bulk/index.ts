@@ -0,0 +1,3 @@
+export * from "./bulk-action-bar";
+export * from "./bulk-action-dialog";
+export * from "./utils";
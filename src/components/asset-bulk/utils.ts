@@ -0,0 +1,92 @@
+import assetService, { type AssetPayload, type AssetRequestOptions, toAssetPayload } from "@/api/services/assetService";
+import { type TransferDestination, transferAsset } from "@/components/asset-transfer/utils";
+import { dedupeTags } from "@/components/tags/utils";
+
+export type BulkAction = "DELETE" | "RETAG" | "EXPIRATION" | "NOTIFICATIONS" | "COPY" | "MOVE";
+
+export type RetagMode = "ADD" | "REMOVE" | "REPLACE";
+
+export type BulkOperation =
+	| { action: "DELETE" }
+	| { action: "RETAG"; mode: RetagMode; tags: string[] }
+	| { action: "EXPIRATION"; date: Date; notificationsEnabled: boolean }
+	| { action: "NOTIFICATIONS"; enabled: boolean }
+	| { action: "COPY" | "MOVE"; destinations: TransferDestination[] };
+
+export type BulkTarget = { id: string; name: string };
+
+export type BulkItemStatus = "PENDING" | "RUNNING" | "DONE" | "FAILED";
+
+export type BulkItem = BulkTarget & { status: BulkItemStatus; message?: string };
+
+export const BULK_ACTION_LABELS: Record<BulkAction, string> = {
+	DELETE: "Delete",
+	RETAG: "Retag",
+	EXPIRATION: "Set expiration",
+	NOTIFICATIONS: "Expiration notifications",
+	COPY: "Copy to showroom",
+	MOVE: "Move to showroom",
+};
+
+const toErrorMessage = (error: unknown) => (error instanceof Error ? error.message : "Request failed");
+
+export const retag = (tags: string[], mode: RetagMode, changes: string[]) => {
+	if (mode === "REPLACE") return dedupeTags(changes);
+	if (mode === "ADD") return dedupeTags([...tags, ...changes]);
+	const removed = new Set(changes.map((tag) => tag.toLowerCase()));
+	return tags.filter((tag) => !removed.has(tag.toLowerCase()));
+};
+
+const updatePayload = (payload: AssetPayload, operation: BulkOperation): AssetPayload => {
+	switch (operation.action) {
+		case "RETAG":
+			return { ...payload, tags: retag(payload.tags, operation.mode, operation.tags) };
+		case "EXPIRATION":
+			return {
+				...payload,
+				expirationDate: operation.date.toISOString(),
+				expirationNotificationsEnabled: operation.notificationsEnabled,
+			};
+		case "NOTIFICATIONS":
+			if (operation.enabled && !payload.expirationDate) throw new Error("No expiration date set");
+			return { ...payload, expirationNotificationsEnabled: operation.enabled };
+		default:
+			return payload;
+	}
+};
+
+// Failures are reported per item, so the requests skip the global error toast
+const BULK_REQUEST: AssetRequestOptions = { silent: true };
+
+const applyBulkOperation = async (id: string, operation: BulkOperation) => {
+	if (operation.action === "DELETE") {
+		await assetService.deleteAsset(id, {}, BULK_REQUEST);
+		return;
+	}
+	if (operation.action === "COPY" || operation.action === "MOVE") {
+		await transferAsset(id, {}, operation.destinations, operation.action === "MOVE", BULK_REQUEST);
+		return;
+	}
+	// Fields are sent back as stored, so encrypted values round-trip without unlocking the vault
+	const asset = await assetService.getAsset(id, {}, BULK_REQUEST);
+	await assetService.updateAsset({ id, data: updatePayload(toAssetPayload(asset), operation), ...BULK_REQUEST });
+};
+
+/**
+ * Apply an operation to each target in turn, reporting every item's status; keeps going after failures
+ */
+export const runBulkOperation = async (
+	targets: BulkTarget[],
+	operation: BulkOperation,
+	onItem: (id: string, update: Pick<BulkItem, "status" | "message">) => void,
+) => {
+	for (const target of targets) {
+		onItem(target.id, { status: "RUNNING" });
+		try {
+			await applyBulkOperation(target.id, operation);
+			onItem(target.id, { status: "DONE" });
+		} catch (error) {
+			onItem(target.id, { status: "FAILED", message: toErrorMessage(error) });
+		}
+	}
+};
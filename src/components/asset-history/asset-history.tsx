@@ -0,0 +1,226 @@
+import { formatDistanceToNow } from "date-fns";
+import { Eye, EyeOff, History, RotateCcw } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import type { AssetField, AssetRevision } from "#/entity";
+import { useAssetRevisions, useRestoreAssetRevision } from "@/api/services/assetRevisionService";
+import { ACCESS_CONTEXTS, useSecretAccessAudit } from "@/components/asset-access-log";
+import { openSecretFields } from "@/store/vaultStore";
+import { Badge } from "@/ui/badge";
+import { Button } from "@/ui/button";
+import { cn } from "@/utils";
+import { hasEncryptedFields, isEncryptedValue } from "@/utils/vault";
+import { diffAssetFields, type FieldChangeStatus } from "./utils";
+
+type AssetHistoryProps = {
+	assetId: string;
+	/** Set for showroom assets, omitted for tenant assets */
+	showroomId?: string;
+	/** Called after a revision has been restored */
+	onRestored?: () => void;
+};
+
+const STATUS_BADGE: Record<FieldChangeStatus, { label: string; variant: "success" | "error" | "warning" | "outline" }> =
+	{
+		added: { label: "Added", variant: "success" },
+		removed: { label: "Removed", variant: "error" },
+		changed: { label: "Changed", variant: "warning" },
+		unchanged: { label: "Unchanged", variant: "outline" },
+	};
+
+const getAuthorName = (revision: AssetRevision) =>
+	revision.author?.name || revision.author?.email || revision.author?.id || "Unknown user";
+
+const formatTimestamp = (value: string) => {
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) return "-";
+	return `${date.toLocaleString()} (${formatDistanceToNow(date, { addSuffix: true })})`;
+};
+
+export function AssetHistory({ assetId, showroomId, onRestored }: AssetHistoryProps) {
+	const scope = useMemo(() => ({ showroomId }), [showroomId]);
+	const { data, isLoading, isError } = useAssetRevisions(scope, assetId);
+	const restoreMutation = useRestoreAssetRevision(scope);
+	const recordSecretAccess = useSecretAccessAudit(ACCESS_CONTEXTS.HISTORY, showroomId);
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const [revealed, setRevealed] = useState<Record<string, boolean>>({});
+	// Decrypted fields per revision; ciphertext differs on every save, so diffs are only exact once decrypted
+	const [openedFields, setOpenedFields] = useState<Record<string, AssetField[]>>({});
+
+	const revisions = useMemo(() => [...(data ?? [])].sort((a, b) => b.version - a.version), [data]);
+	const selectedIndex = Math.max(
+		0,
+		revisions.findIndex((revision) => revision.id === selectedId),
+	);
+	const selected = revisions[selectedIndex];
+	const previous = revisions[selectedIndex + 1];
+	const changes = useMemo(
+		() =>
+			selected
+				? diffAssetFields(
+						(previous && openedFields[previous.id]) ?? previous?.fields ?? [],
+						openedFields[selected.id] ?? selected.fields ?? [],
+					)
+				: [],
+		[selected, previous, openedFields],
+	);
+
+	const handleToggleReveal = async (key: string, isSecret: boolean) => {
+		if (!revealed[key]) {
+			const pending = [selected, previous].filter(
+				(revision): revision is AssetRevision =>
+					!!revision && !openedFields[revision.id] && hasEncryptedFields(revision.fields),
+			);
+			try {
+				for (const revision of pending) {
+					const fields = await openSecretFields(revision.fields);
+					if (!fields) return;
+					setOpenedFields((prev) => ({ ...prev, [revision.id]: fields }));
+				}
+			} catch (error) {
+				console.error(error);
+				toast.error(error instanceof Error ? error.message : "Failed to decrypt value", { position: "top-center" });
+				return;
+			}
+			recordSecretAccess(assetId, { key, isSecret }, "REVEAL");
+		}
+		setRevealed((prev) => ({ ...prev, [key]: !prev[key] }));
+	};
+
+	const handleSelect = (revisionId: string) => {
+		setSelectedId(revisionId);
+		setRevealed({});
+	};
+
+	const handleRestore = async (revision: AssetRevision) => {
+		try {
+			await restoreMutation.mutateAsync({ assetId, revisionId: revision.id });
+			toast.success(`Restored version ${revision.version}`, { position: "top-center" });
+			setSelectedId(null);
+			onRestored?.();
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to restore revision", { position: "top-center" });
+		}
+	};
+
+	const renderValue = (field: AssetField | undefined, revealKey: string) => {
+		if (!field) return <span className="text-muted-foreground">-</span>;
+		if ((field.isSecret && !revealed[revealKey]) || isEncryptedValue(field.value)) {
+			return <span className="font-mono">••••••</span>;
+		}
+		return <span className="break-all font-mono">{field.value || "-"}</span>;
+	};
+
+	if (isLoading) {
+		return <div className="py-8 text-center text-sm text-muted-foreground">Loading history...</div>;
+	}
+	if (isError) {
+		return <div className="py-8 text-center text-sm text-muted-foreground">Failed to load history.</div>;
+	}
+	if (!revisions.length || !selected) {
+		return <div className="py-8 text-center text-sm text-muted-foreground">No revisions recorded yet.</div>;
+	}
+
+	return (
+		<div className="grid gap-4 md:grid-cols-[240px_1fr]">
+			<div className="max-h-[55vh] space-y-2 overflow-y-auto pr-1">
+				{revisions.map((revision, index) => (
+					<button
+						key={revision.id}
+						type="button"
+						onClick={() => handleSelect(revision.id)}
+						className={cn(
+							"w-full rounded-md border px-3 py-2 text-left text-xs transition",
+							revision.id === selected.id ? "border-primary/40 bg-primary/10" : "hover:border-primary/30",
+						)}
+					>
+						<div className="flex items-center justify-between gap-2">
+							<span className="text-sm font-semibold text-foreground">Version {revision.version}</span>
+							{index === 0 && <Badge variant="info">Current</Badge>}
+						</div>
+						<div className="mt-1 text-muted-foreground">{getAuthorName(revision)}</div>
+						<div className="text-muted-foreground">{formatTimestamp(revision.createdAt)}</div>
+						{revision.restoredFrom !== undefined && (
+							<div className="mt-1 text-muted-foreground">Restored from version {revision.restoredFrom}</div>
+						)}
+					</button>
+				))}
+			</div>
+			<div className="min-w-0 space-y-3">
+				<div className="flex flex-wrap items-center justify-between gap-2">
+					<div className="flex items-center gap-2 text-sm font-semibold">
+						<History className="h-4 w-4" />
+						{previous ? `Changes from version ${previous.version}` : "Initial version"}
+					</div>
+					{selectedIndex > 0 && (
+						<Button
+							type="button"
+							size="sm"
+							variant="outline"
+							disabled={restoreMutation.isPending}
+							onClick={() => void handleRestore(selected)}
+						>
+							<RotateCcw className="mr-1 h-3 w-3" />
+							{restoreMutation.isPending ? "Restoring..." : "Restore this version"}
+						</Button>
+					)}
+				</div>
+				{previous && (previous.name !== selected.name || previous.type !== selected.type) && (
+					<div className="rounded-md border bg-muted/30 px-3 py-2 text-xs text-muted-foreground">
+						{previous.name !== selected.name && (
+							<div>
+								Name: <span className="line-through">{previous.name}</span>{" "}
+								<span className="text-foreground">{selected.name}</span>
+							</div>
+						)}
+						{previous.type !== selected.type && (
+							<div>
+								Type: <span className="line-through">{previous.type}</span>{" "}
+								<span className="text-foreground">{selected.type}</span>
+							</div>
+						)}
+					</div>
+				)}
+				{changes.length ? (
+					<div className="space-y-2">
+						{changes.map((change) => {
+							const isSecret = !!(change.before?.isSecret || change.after?.isSecret);
+							const badge = STATUS_BADGE[change.status];
+							return (
+								<div key={change.key} className="rounded-md border px-3 py-2 text-xs">
+									<div className="mb-2 flex items-center justify-between gap-2">
+										<div className="flex items-center gap-2">
+											<span className="font-semibold uppercase text-muted-foreground">{change.key}</span>
+											<Badge variant={badge.variant}>{badge.label}</Badge>
+										</div>
+										{isSecret && (
+											<Button
+												type="button"
+												variant="ghost"
+												size="icon"
+												onClick={() => void handleToggleReveal(change.key, isSecret)}
+											>
+												{revealed[change.key] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+											</Button>
+										)}
+									</div>
+									{change.status === "unchanged" ? (
+										<div>{renderValue(change.after, change.key)}</div>
+									) : (
+										<div className="grid gap-2 sm:grid-cols-2">
+											<div className="rounded bg-error/10 px-2 py-1">{renderValue(change.before, change.key)}</div>
+											<div className="rounded bg-success/10 px-2 py-1">{renderValue(change.after, change.key)}</div>
+										</div>
+									)}
+								</div>
+							);
+						})}
+					</div>
+				) : (
+					<div className="text-xs text-muted-foreground">No fields in this version.</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,2 @@
+export * from "./asset-history";
+export * from "./utils";
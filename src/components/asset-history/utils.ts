@@ -0,0 +1,35 @@
+import type { AssetField } from "#/entity";
+
+export type FieldChangeStatus = "added" | "removed" | "changed" | "unchanged";
+
+export type FieldChange = {
+	key: string;
+	status: FieldChangeStatus;
+	before?: AssetField;
+	after?: AssetField;
+};
+
+const getFieldKey = (field: AssetField, index: number) => field.key || `Field ${index + 1}`;
+
+const isSameField = (a: AssetField, b: AssetField) =>
+	a.value === b.value && a.type === b.type && !!a.isSecret === !!b.isSecret;
+
+/**
+ * Compare two field lists by key
+ *
+ * @returns one entry per key, in the order of `after`, followed by removed fields
+ */
+export const diffAssetFields = (before: AssetField[], after: AssetField[]): FieldChange[] => {
+	const remaining = new Map(before.map((field, index) => [getFieldKey(field, index), field]));
+	const changes: FieldChange[] = after.map((field, index) => {
+		const key = getFieldKey(field, index);
+		const previous = remaining.get(key);
+		remaining.delete(key);
+		if (!previous) return { key, status: "added", after: field };
+		return { key, status: isSameField(previous, field) ? "unchanged" : "changed", before: previous, after: field };
+	});
+	for (const [key, field] of remaining) {
+		changes.push({ key, status: "removed", before: field });
+	}
+	return changes;
+};
@@ -0,0 +1,460 @@
+import { useQueryClient } from "@tanstack/react-query";
+import type { TableColumnsType } from "antd";
+import { Table } from "antd";
+import { FileUp } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import assetService, { assetKeys, useAllAssets } from "@/api/services/assetService";
+import { ensureVaultUnlocked, sealSecretFields } from "@/store/vaultStore";
+import { Badge } from "@/ui/badge";
+import { Button } from "@/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Input } from "@/ui/input";
+import { Label } from "@/ui/label";
+import { Progress } from "@/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
+import { Switch } from "@/ui/switch";
+import { IMPORT_FORMATS, type ImportFormat, type ImportTable, parseImportFile } from "./parsers";
+import {
+	buildImportRows,
+	type ColumnMapping,
+	type ColumnTarget,
+	guessColumnMapping,
+	IMPORT_FIELD_TYPES,
+	type ImportRow,
+	type ImportRowStatus,
+	normalizeAssetName,
+} from "./utils";
+
+type AssetImportDialogProps = {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+};
+
+type ImportStep = "SOURCE" | "MAPPING" | "PREVIEW" | "RESULT";
+
+type ImportFailure = { line: number; name: string; message: string };
+
+const COLUMN_TARGETS: { value: ColumnTarget; label: string }[] = [
+	{ value: "name", label: "Asset name" },
+	{ value: "type", label: "Asset type" },
+	{ value: "tags", label: "Tags" },
+	{ value: "field", label: "Field" },
+	{ value: "ignore", label: "Ignore" },
+];
+
+const STATUS_BADGE: Record<ImportRowStatus, { label: string; variant: "success" | "warning" | "error" }> = {
+	new: { label: "New", variant: "success" },
+	duplicate: { label: "Duplicate", variant: "warning" },
+	invalid: { label: "Invalid", variant: "error" },
+};
+
+const parseTagInput = (value: string) =>
+	value
+		.split(",")
+		.map((tag) => tag.trim())
+		.filter(Boolean);
+
+export function AssetImportDialog({ open, onOpenChange }: AssetImportDialogProps) {
+	const queryClient = useQueryClient();
+	const [step, setStep] = useState<ImportStep>("SOURCE");
+	const [format, setFormat] = useState<ImportFormat>("CSV");
+	const [file, setFile] = useState<File | null>(null);
+	const [table, setTable] = useState<ImportTable | null>(null);
+	const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+	const [defaultType, setDefaultType] = useState("CREDENTIALS");
+	const [extraTags, setExtraTags] = useState("imported");
+	const [selectedLines, setSelectedLines] = useState<number[]>([]);
+	const [isParsing, setIsParsing] = useState(false);
+	const [isImporting, setIsImporting] = useState(false);
+	const [progress, setProgress] = useState({ done: 0, total: 0 });
+	const [failures, setFailures] = useState<ImportFailure[]>([]);
+
+	const existingQuery = useAllAssets(undefined, open && step !== "SOURCE");
+	const existingNames = useMemo(
+		() => new Set((existingQuery.data ?? []).map((asset) => normalizeAssetName(asset.name))),
+		[existingQuery.data],
+	);
+
+	const rows = useMemo(
+		() =>
+			table
+				? buildImportRows(
+						table,
+						mappings,
+						{ type: defaultType.trim() || "GENERAL", tags: parseTagInput(extraTags) },
+						existingNames,
+					)
+				: [],
+		[table, mappings, defaultType, extraTags, existingNames],
+	);
+
+	const counts = useMemo(
+		() =>
+			rows.reduce<Record<ImportRowStatus, number>>(
+				(acc, row) => {
+					acc[row.status] += 1;
+					return acc;
+				},
+				{ new: 0, duplicate: 0, invalid: 0 },
+			),
+		[rows],
+	);
+
+	const reset = () => {
+		setStep("SOURCE");
+		setFile(null);
+		setTable(null);
+		setMappings([]);
+		setSelectedLines([]);
+		setProgress({ done: 0, total: 0 });
+		setFailures([]);
+	};
+
+	const handleOpenChange = (next: boolean) => {
+		if (isImporting) return;
+		onOpenChange(next);
+		if (!next) reset();
+	};
+
+	const handleParse = async () => {
+		if (!file) return;
+		setIsParsing(true);
+		try {
+			const parsed = await parseImportFile(file, format);
+			if (!parsed.rows.length) {
+				toast.error("No entries found in this file", { position: "top-center" });
+				return;
+			}
+			setTable(parsed);
+			setMappings(parsed.columns.map((column) => guessColumnMapping(column, parsed.secretColumns)));
+			setStep("MAPPING");
+		} catch (error) {
+			console.error(error);
+			toast.error(error instanceof Error ? error.message : "Failed to read file", { position: "top-center" });
+		} finally {
+			setIsParsing(false);
+		}
+	};
+
+	const updateMapping = (column: string, patch: Partial<ColumnMapping>) => {
+		setMappings((prev) => prev.map((mapping) => (mapping.column === column ? { ...mapping, ...patch } : mapping)));
+	};
+
+	const handlePreview = () => {
+		// Duplicates are pre-deselected, so the existing assets have to be known first
+		if (!existingQuery.isSuccess) return;
+		if (!mappings.some((mapping) => mapping.target === "name")) {
+			toast.error("Map at least one column to the asset name", { position: "top-center" });
+			return;
+		}
+		setSelectedLines(rows.filter((row) => row.status === "new").map((row) => row.line));
+		setStep("PREVIEW");
+	};
+
+	const handleImport = async () => {
+		const selected = rows.filter((row) => row.status !== "invalid" && selectedLines.includes(row.line));
+		if (!selected.length) return;
+		if (!(await ensureVaultUnlocked())) {
+			toast.error("Unlock the vault to import secret fields", { position: "top-center" });
+			return;
+		}
+		setIsImporting(true);
+		setFailures([]);
+		setProgress({ done: 0, total: selected.length });
+		setStep("RESULT");
+
+		const failed: ImportFailure[] = [];
+		for (const row of selected) {
+			try {
+				const fields = await sealSecretFields(row.payload.fields);
+				if (!fields) throw new Error("Vault is locked");
+				await assetService.createAsset({ ...row.payload, fields });
+			} catch (error) {
+				failed.push({
+					line: row.line,
+					name: row.payload.name,
+					message: error instanceof Error ? error.message : "Request failed",
+				});
+			}
+			setProgress((prev) => ({ ...prev, done: prev.done + 1 }));
+		}
+
+		setFailures(failed);
+		setIsImporting(false);
+		await queryClient.invalidateQueries({ queryKey: assetKeys.all });
+		const created = selected.length - failed.length;
+		if (failed.length) {
+			toast.warning(`Imported ${created} of ${selected.length} assets`, { position: "top-center" });
+		} else {
+			toast.success(`Imported ${created} assets`, { position: "top-center" });
+		}
+	};
+
+	const previewColumns: TableColumnsType<ImportRow> = [
+		{ title: "#", dataIndex: "line", key: "line", width: 56 },
+		{ title: "Name", key: "name", render: (_, row) => row.payload.name || "-" },
+		{ title: "Type", key: "type", render: (_, row) => row.payload.type },
+		{
+			title: "Tags",
+			key: "tags",
+			render: (_, row) =>
+				row.payload.tags.length ? (
+					<div className="flex flex-wrap gap-1">
+						{row.payload.tags.map((tag) => (
+							<Badge key={tag} variant="outline">
+								{tag}
+							</Badge>
+						))}
+					</div>
+				) : (
+					"-"
+				),
+		},
+		{
+			title: "Fields",
+			key: "fields",
+			render: (_, row) =>
+				row.payload.fields.map((field) => `${field.key}${field.isSecret ? " (secret)" : ""}`).join(", ") || "-",
+		},
+		{
+			title: "Status",
+			key: "status",
+			render: (_, row) => (
+				<div className="flex flex-col items-start gap-1">
+					<Badge variant={STATUS_BADGE[row.status].variant}>{STATUS_BADGE[row.status].label}</Badge>
+					{row.reason && <span className="text-xs text-muted-foreground">{row.reason}</span>}
+				</div>
+			),
+		},
+	];
+
+	const selectedCount = rows.filter((row) => row.status !== "invalid" && selectedLines.includes(row.line)).length;
+	const sampleRow = table?.rows[0] ?? {};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent className="sm:max-w-5xl">
+				<DialogHeader>
+					<DialogTitle>Import assets</DialogTitle>
+					<DialogDescription>
+						{step === "SOURCE" && "Upload an export from a password manager or a CSV file."}
+						{step === "MAPPING" && "Choose where each column goes. Nothing is created yet."}
+						{step === "PREVIEW" && "Dry run: review what will be created and pick the rows to import."}
+						{step === "RESULT" && (isImporting ? "Creating assets..." : "Import finished.")}
+					</DialogDescription>
+				</DialogHeader>
+
+				{step === "SOURCE" && (
+					<div className="space-y-4">
+						<div className="space-y-2">
+							<Label>Format</Label>
+							<Select value={format} onValueChange={(value) => setFormat(value as ImportFormat)}>
+								<SelectTrigger className="w-full sm:w-72">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{IMPORT_FORMATS.map((option) => (
+										<SelectItem key={option.value} value={option.value}>
+											{option.label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<label className="flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border border-dashed px-4 py-10 text-sm text-muted-foreground hover:border-primary/40">
+							<FileUp className="h-6 w-6" />
+							{file ? <span className="font-medium text-foreground">{file.name}</span> : "Choose a file"}
+							<input
+								type="file"
+								className="hidden"
+								accept={IMPORT_FORMATS.find((option) => option.value === format)?.accept}
+								onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+							/>
+						</label>
+						<div className="text-xs text-muted-foreground">
+							Files are read in the browser; only the assets you confirm are sent to the server.
+						</div>
+					</div>
+				)}
+
+				{step === "MAPPING" && table && (
+					<div className="space-y-4">
+						<div className="grid gap-4 sm:grid-cols-2">
+							<div className="space-y-2">
+								<Label>Default asset type</Label>
+								<Input value={defaultType} onChange={(event) => setDefaultType(event.target.value)} />
+							</div>
+							<div className="space-y-2">
+								<Label>Add tags to every asset</Label>
+								<Input
+									value={extraTags}
+									placeholder="imported, client-x"
+									onChange={(event) => setExtraTags(event.target.value)}
+								/>
+							</div>
+						</div>
+						<div className="max-h-[50vh] space-y-2 overflow-y-auto pr-1">
+							{mappings.map((mapping) => (
+								<div
+									key={mapping.column}
+									className="grid items-center gap-3 rounded-md border px-3 py-2 md:grid-cols-[1.2fr_1fr_1fr_1fr_auto]"
+								>
+									<div className="min-w-0">
+										<div className="truncate text-sm font-medium">{mapping.column}</div>
+										<div className="truncate text-xs text-muted-foreground">
+											{mapping.isSecret && sampleRow[mapping.column] ? "••••••" : sampleRow[mapping.column] || "-"}
+										</div>
+									</div>
+									<Select
+										value={mapping.target}
+										onValueChange={(value) => updateMapping(mapping.column, { target: value as ColumnTarget })}
+									>
+										<SelectTrigger className="w-full">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{COLUMN_TARGETS.map((target) => (
+												<SelectItem key={target.value} value={target.value}>
+													{target.label}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+									{mapping.target === "field" ? (
+										<>
+											<Input
+												value={mapping.fieldKey}
+												placeholder="Field key"
+												onChange={(event) => updateMapping(mapping.column, { fieldKey: event.target.value })}
+											/>
+											<Select
+												value={mapping.fieldType}
+												onValueChange={(value) => updateMapping(mapping.column, { fieldType: value })}
+											>
+												<SelectTrigger className="w-full">
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													{IMPORT_FIELD_TYPES.map((type) => (
+														<SelectItem key={type} value={type}>
+															{type}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</Select>
+											<div className="flex items-center gap-2">
+												<Switch
+													checked={mapping.isSecret}
+													onCheckedChange={(checked) => updateMapping(mapping.column, { isSecret: checked })}
+												/>
+												<span className="text-xs text-muted-foreground">Secret</span>
+											</div>
+										</>
+									) : (
+										<div className="md:col-span-3" />
+									)}
+								</div>
+							))}
+						</div>
+					</div>
+				)}
+
+				{step === "PREVIEW" && (
+					<div className="space-y-3">
+						<div className="flex flex-wrap items-center gap-2 text-sm">
+							<Badge variant="success">{counts.new} new</Badge>
+							<Badge variant="warning">{counts.duplicate} duplicates</Badge>
+							<Badge variant="error">{counts.invalid} invalid</Badge>
+							{existingQuery.isFetching && (
+								<span className="text-xs text-muted-foreground">Checking existing assets...</span>
+							)}
+						</div>
+						<Table<ImportRow>
+							rowKey="line"
+							size="small"
+							columns={previewColumns}
+							dataSource={rows}
+							pagination={{ pageSize: 8, showSizeChanger: false }}
+							scroll={{ x: "max-content", y: 360 }}
+							rowSelection={{
+								selectedRowKeys: selectedLines,
+								onChange: (keys) => setSelectedLines(keys.map(Number)),
+								getCheckboxProps: (row) => ({ disabled: row.status === "invalid" }),
+							}}
+						/>
+						<div className="text-xs text-muted-foreground">
+							Duplicates are unselected by default; select them to create them anyway.
+						</div>
+					</div>
+				)}
+
+				{step === "RESULT" && (
+					<div className="space-y-4">
+						<Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+						<div className="text-sm">
+							{progress.done} of {progress.total} processed
+							{!isImporting && `, ${progress.total - failures.length} created`}
+						</div>
+						{failures.length > 0 && (
+							<div className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-3 text-xs">
+								{failures.map((failure) => (
+									<div key={failure.line}>
+										<span className="font-medium">
+											#{failure.line} {failure.name}
+										</span>
+										<span className="text-muted-foreground">: {failure.message}</span>
+									</div>
+								))}
+							</div>
+						)}
+					</div>
+				)}
+
+				<DialogFooter className="mt-4">
+					{step === "SOURCE" && (
+						<>
+							<Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+								Cancel
+							</Button>
+							<Button type="button" disabled={!file || isParsing} onClick={() => void handleParse()}>
+								{isParsing ? "Reading..." : "Next"}
+							</Button>
+						</>
+					)}
+					{step === "MAPPING" && (
+						<>
+							<Button type="button" variant="outline" onClick={() => setStep("SOURCE")}>
+								Back
+							</Button>
+							{existingQuery.isError ? (
+								<Button type="button" onClick={() => void existingQuery.refetch()}>
+									Retry duplicate check
+								</Button>
+							) : (
+								<Button type="button" disabled={!existingQuery.isSuccess} onClick={handlePreview}>
+									{existingQuery.isSuccess ? "Preview" : "Checking existing assets..."}
+								</Button>
+							)}
+						</>
+					)}
+					{step === "PREVIEW" && (
+						<>
+							<Button type="button" variant="outline" onClick={() => setStep("MAPPING")}>
+								Back
+							</Button>
+							<Button type="button" disabled={!selectedCount} onClick={() => void handleImport()}>
+								Import {selectedCount} assets
+							</Button>
+						</>
+					)}
+					{step === "RESULT" && (
+						<Button type="button" disabled={isImporting} onClick={() => handleOpenChange(false)}>
+							Done
+						</Button>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
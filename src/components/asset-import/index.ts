@@ -0,0 +1,3 @@
+export * from "./asset-import-dialog";
+export * from "./parsers";
+export * from "./utils";
@@ -0,0 +1,192 @@
+export type ImportFormat = "CSV" | "BITWARDEN_JSON" | "ONEPASSWORD_CSV" | "KEEPASS_XML";
+
+/**
+ * Flat view of any supported export: one record per entry, keyed by source column
+ */
+export type ImportTable = {
+	columns: string[];
+	rows: Record<string, string>[];
+	/** Columns the source marks as protected/hidden, pre-flagged as secrets */
+	secretColumns: string[];
+};
+
+export const IMPORT_FORMATS: { value: ImportFormat; label: string; accept: string }[] = [
+	{ value: "CSV", label: "Generic CSV", accept: ".csv,text/csv" },
+	{ value: "BITWARDEN_JSON", label: "Bitwarden (JSON)", accept: ".json,application/json" },
+	{ value: "ONEPASSWORD_CSV", label: "1Password (CSV)", accept: ".csv,text/csv" },
+	{ value: "KEEPASS_XML", label: "KeePass 2 (XML)", accept: ".xml,text/xml" },
+];
+
+/**
+ * Split RFC 4180 CSV into rows of cells: quoted cells, escaped quotes and CRLF/LF line breaks are supported
+ */
+export const parseCsv = (text: string) => {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = "";
+	let inQuotes = false;
+	const input = text.replace(/^\uFEFF/, "");
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+		if (inQuotes) {
+			if (char === '"' && input[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === ",") {
+			row.push(cell);
+			cell = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && input[i + 1] === "\n") i++;
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = "";
+		} else {
+			cell += char;
+		}
+	}
+	if (cell || row.length) {
+		row.push(cell);
+		rows.push(row);
+	}
+	return rows.filter((cells) => cells.some((value) => value.trim()));
+};
+
+const csvToTable = (text: string): ImportTable => {
+	const [header = [], ...body] = parseCsv(text);
+	const columns = header.map((column, index) => column.trim() || `Column ${index + 1}`);
+	const rows = body.map((cells) => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""])));
+	return { columns, rows, secretColumns: [] };
+};
+
+type BitwardenField = { name?: string; value?: string | null; type?: number };
+
+type BitwardenItem = {
+	type?: number;
+	name?: string;
+	notes?: string | null;
+	folderId?: string | null;
+	login?: {
+		username?: string | null;
+		password?: string | null;
+		totp?: string | null;
+		uris?: { uri?: string | null }[] | null;
+	} | null;
+	card?: Record<string, string | null> | null;
+	identity?: Record<string, string | null> | null;
+	fields?: BitwardenField[] | null;
+};
+
+type BitwardenExport = {
+	encrypted?: boolean;
+	folders?: { id: string; name: string }[];
+	items?: BitwardenItem[];
+};
+
+const BITWARDEN_TYPES: Record<number, string> = { 1: "LOGIN", 2: "NOTE", 3: "CARD", 4: "IDENTITY" };
+
+/** Bitwarden custom field type 1 is "hidden" */
+const BITWARDEN_HIDDEN_FIELD = 1;
+
+const BITWARDEN_SECRET_COLUMNS = ["login.password", "login.totp", "card.number", "card.code"];
+
+const bitwardenToTable = (text: string): ImportTable => {
+	const data = JSON.parse(text) as BitwardenExport;
+	if (data.encrypted) {
+		throw new Error("Encrypted Bitwarden exports are not supported, export as unencrypted JSON");
+	}
+	if (!Array.isArray(data.items)) throw new Error("No items found in Bitwarden export");
+
+	const folders = new Map((data.folders ?? []).map((folder) => [folder.id, folder.name]));
+	const columns = new Set<string>(["name", "type", "folder"]);
+	const secretColumns = new Set<string>();
+
+	const rows = data.items.map((item) => {
+		const row: Record<string, string> = {
+			name: item.name ?? "",
+			type: BITWARDEN_TYPES[item.type ?? 0] ?? "",
+			folder: (item.folderId && folders.get(item.folderId)) || "",
+		};
+		const set = (column: string, value: string | null | undefined, isSecret = false) => {
+			if (value === null || value === undefined || value === "") return;
+			row[column] = String(value);
+			columns.add(column);
+			if (isSecret || BITWARDEN_SECRET_COLUMNS.includes(column)) secretColumns.add(column);
+		};
+
+		set("login.username", item.login?.username);
+		set("login.password", item.login?.password);
+		set("login.uri", item.login?.uris?.[0]?.uri);
+		set("login.totp", item.login?.totp);
+		for (const [key, value] of Object.entries(item.card ?? {})) set(`card.${key}`, value);
+		for (const [key, value] of Object.entries(item.identity ?? {})) set(`identity.${key}`, value);
+		for (const field of item.fields ?? []) {
+			if (field.name) set(`field.${field.name}`, field.value, field.type === BITWARDEN_HIDDEN_FIELD);
+		}
+		set("notes", item.notes);
+		return row;
+	});
+
+	return { columns: [...columns], rows, secretColumns: [...secretColumns] };
+};
+
+const KEEPASS_STANDARD_KEYS = ["Title", "UserName", "Password", "URL", "Notes"];
+
+const keepassToTable = (text: string): ImportTable => {
+	const doc = new DOMParser().parseFromString(text, "application/xml");
+	if (doc.getElementsByTagName("parsererror").length) throw new Error("Invalid XML file");
+	const root = doc.querySelector("KeePassFile > Root");
+	if (!root) throw new Error("Not a KeePass 2 XML export");
+
+	const columns = new Set<string>([...KEEPASS_STANDARD_KEYS, "Group", "Tags"]);
+	const secretColumns = new Set<string>(["Password"]);
+	const rows: Record<string, string>[] = [];
+
+	// The top-level group is the database itself, so its name is left out of the group path
+	const walk = (group: Element, path: string[], isDatabaseRoot: boolean) => {
+		const name = group.querySelector(":scope > Name")?.textContent ?? "";
+		const groupPath = isDatabaseRoot || !name ? path : [...path, name];
+		for (const entry of group.querySelectorAll(":scope > Entry")) {
+			const row: Record<string, string> = { Group: groupPath.join("/") };
+			for (const item of entry.querySelectorAll(":scope > String")) {
+				const key = item.querySelector(":scope > Key")?.textContent ?? "";
+				const valueNode = item.querySelector(":scope > Value");
+				if (!key || !valueNode?.textContent) continue;
+				row[key] = valueNode.textContent;
+				columns.add(key);
+				if (valueNode.getAttribute("ProtectInMemory") === "True") secretColumns.add(key);
+			}
+			row.Tags = entry.querySelector(":scope > Tags")?.textContent ?? "";
+			rows.push(row);
+		}
+		for (const child of group.querySelectorAll(":scope > Group")) walk(child, groupPath, false);
+	};
+	for (const group of root.querySelectorAll(":scope > Group")) walk(group, [], true);
+
+	return { columns: [...columns], rows, secretColumns: [...secretColumns] };
+};
+
+/**
+ * Read a password-manager or CSV export into a flat table
+ *
+ * @throws Error with a user-facing message when the file does not match the format
+ */
+export const parseImportFile = async (file: File, format: ImportFormat): Promise<ImportTable> => {
+	const text = await file.text();
+	switch (format) {
+		case "BITWARDEN_JSON":
+			return bitwardenToTable(text);
+		case "KEEPASS_XML":
+			return keepassToTable(text);
+		default:
+			return csvToTable(text);
+	}
+};
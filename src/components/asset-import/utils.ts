@@ -0,0 +1,152 @@
+import type { AssetField } from "#/entity";
+import type { AssetPayload } from "@/api/services/assetService";
+import type { ImportTable } from "./parsers";
+
+export type ColumnTarget = "name" | "type" | "tags" | "field" | "ignore";
+
+export type ColumnMapping = {
+	column: string;
+	target: ColumnTarget;
+	/** AssetField key when target is "field" */
+	fieldKey: string;
+	fieldType: string;
+	isSecret: boolean;
+};
+
+export type ImportDefaults = {
+	/** Asset type used when no column is mapped to type or the cell is empty */
+	type: string;
+	/** Tags added to every imported asset */
+	tags: string[];
+};
+
+export type ImportRowStatus = "new" | "duplicate" | "invalid";
+
+export type ImportRow = {
+	/** Position in the source file, 1-based */
+	line: number;
+	payload: AssetPayload;
+	status: ImportRowStatus;
+	reason?: string;
+};
+
+export const IMPORT_FIELD_TYPES = ["TEXT", "USERNAME", "PASSWORD", "URL", "EMAIL", "NOTE", "NUMBER", "TOTP"];
+
+const NAME_COLUMNS = ["name", "title"];
+const TYPE_COLUMNS = ["type", "category"];
+const TAG_COLUMNS = ["tags", "tag", "folder", "group", "grouping"];
+const IGNORED_COLUMNS = ["id", "uuid", "folderid", "favorite", "archived", "reprompt", "revisiondate", "creationdate"];
+
+const FIELD_TYPE_HINTS: { pattern: RegExp; type: string; isSecret?: boolean }[] = [
+	{ pattern: /otpauth|totp|^otp$/, type: "TOTP", isSecret: true },
+	{ pattern: /password|passphrase|secret|pin$|card\.code|card\.number/, type: "PASSWORD", isSecret: true },
+	{ pattern: /user ?name|login\.username|^login$/, type: "USERNAME" },
+	{ pattern: /e-?mail/, type: "EMAIL" },
+	{ pattern: /url|uri|website|link/, type: "URL" },
+	{ pattern: /notes?$/, type: "NOTE" },
+];
+
+/** "login.password" -> "password", "field.API Key" -> "API Key" */
+const toFieldKey = (column: string) => {
+	const key = column.includes(".") ? column.slice(column.indexOf(".") + 1) : column;
+	return key.trim();
+};
+
+/**
+ * Pick a sensible default target for a source column from its name
+ */
+export const guessColumnMapping = (column: string, secretColumns: string[] = []): ColumnMapping => {
+	const normalized = column.trim().toLowerCase();
+	const base: ColumnMapping = {
+		column,
+		target: "field",
+		fieldKey: toFieldKey(column),
+		fieldType: "TEXT",
+		isSecret: false,
+	};
+
+	if (NAME_COLUMNS.includes(normalized)) return { ...base, target: "name" };
+	if (TYPE_COLUMNS.includes(normalized)) return { ...base, target: "type" };
+	if (TAG_COLUMNS.includes(normalized)) return { ...base, target: "tags" };
+	if (IGNORED_COLUMNS.includes(normalized)) return { ...base, target: "ignore" };
+
+	const hint = FIELD_TYPE_HINTS.find(({ pattern }) => pattern.test(normalized));
+	return {
+		...base,
+		fieldType: hint?.type ?? "TEXT",
+		isSecret: secretColumns.includes(column) || !!hint?.isSecret,
+	};
+};
+
+export const normalizeAssetName = (name: string) => name.trim().toLowerCase();
+
+const splitTags = (value: string) =>
+	value
+		.split(/[,;/]/)
+		.map((tag) => tag.trim())
+		.filter(Boolean);
+
+/** Whitespace can be part of a password, secret or note, so these values are imported exactly as exported */
+const WHITESPACE_SIGNIFICANT_TYPES = new Set(["PASSWORD", "NOTE"]);
+
+const keepsWhitespace = (mapping: ColumnMapping) =>
+	mapping.isSecret || WHITESPACE_SIGNIFICANT_TYPES.has(mapping.fieldType);
+
+const toPayload = (row: Record<string, string>, mappings: ColumnMapping[], defaults: ImportDefaults): AssetPayload => {
+	const names: string[] = [];
+	const fields: AssetField[] = [];
+	const tags = new Set(defaults.tags);
+	let type = "";
+
+	for (const mapping of mappings) {
+		const raw = row[mapping.column] ?? "";
+		const value = raw.trim();
+		if (!value) continue;
+		switch (mapping.target) {
+			case "name":
+				names.push(value);
+				break;
+			case "type":
+				type ||= value.toUpperCase().replace(/\s+/g, "_");
+				break;
+			case "tags":
+				for (const tag of splitTags(value)) tags.add(tag);
+				break;
+			case "field":
+				fields.push({
+					key: mapping.fieldKey || mapping.column,
+					type: mapping.fieldType,
+					value: keepsWhitespace(mapping) ? raw : value,
+					isSecret: mapping.isSecret,
+				});
+				break;
+		}
+	}
+
+	return { name: names.join(" "), type: type || defaults.type, tags: [...tags], fields };
+};
+
+/**
+ * Dry run: turn the parsed table into asset payloads and flag invalid rows and duplicates,
+ * both against `existingNames` (normalized names already in the vault) and within the file itself
+ */
+export const buildImportRows = (
+	table: ImportTable,
+	mappings: ColumnMapping[],
+	defaults: ImportDefaults,
+	existingNames: Set<string>,
+): ImportRow[] => {
+	const seen = new Set<string>();
+	return table.rows.map((row, index) => {
+		const payload = toPayload(row, mappings, defaults);
+		const line = index + 1;
+		if (!payload.name) return { line, payload, status: "invalid", reason: "Missing name" };
+		if (!payload.fields.length) return { line, payload, status: "invalid", reason: "No fields mapped" };
+
+		const key = normalizeAssetName(payload.name);
+		if (existingNames.has(key)) return { line, payload, status: "duplicate", reason: "Already exists" };
+		if (seen.has(key)) return { line, payload, status: "duplicate", reason: "Duplicate in file" };
+		seen.add(key);
+		return { line, payload, status: "new" };
+	});
+};
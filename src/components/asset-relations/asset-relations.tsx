@@ -0,0 +1,228 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link2, Plus, X } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import type { AssetRelationEndpoint } from "#/entity";
+import { useAssetRelations, useCreateAssetRelation, useDeleteAssetRelation } from "@/api/services/assetRelationService";
+import assetService, { assetKeys } from "@/api/services/assetService";
+import { getShowroomId, useAllShowrooms } from "@/api/services/showroomService";
+import { Badge } from "@/ui/badge";
+import { Button } from "@/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
+import {
+	describeRelation,
+	getEndpointLabel,
+	isSameEndpoint,
+	RELATION_DIRECTIONS,
+	type RelationDirection,
+} from "./utils";
+
+type AssetRelationsProps = {
+	assetId: string;
+	/** Set for showroom assets, omitted for tenant assets */
+	showroomId?: string;
+	onNavigate: (endpoint: AssetRelationEndpoint) => void;
+	/** Opens the client graph, centered on this asset */
+	onShowGraph?: () => void;
+};
+
+const VAULT_SCOPE = "vault";
+
+/**
+ * "Related" section of the view dialog: typed links to other assets and showroom assets
+ */
+export function AssetRelations({ assetId, showroomId, onNavigate, onShowGraph }: AssetRelationsProps) {
+	const self = useMemo(() => ({ assetId, showroomId }), [assetId, showroomId]);
+	const { data: relations = [], isLoading } = useAssetRelations(self);
+	const createMutation = useCreateAssetRelation();
+	const deleteMutation = useDeleteAssetRelation();
+	const [isAdding, setIsAdding] = useState(false);
+	const [direction, setDirection] = useState<RelationDirection>("DEPENDS_ON");
+	const [targetScope, setTargetScope] = useState(showroomId ?? VAULT_SCOPE);
+	const [targetId, setTargetId] = useState("");
+
+	const { data: showrooms = [] } = useAllShowrooms(isAdding);
+	const targetShowroomId = targetScope === VAULT_SCOPE ? undefined : targetScope;
+	const { data: candidates = [], isLoading: isCandidatesLoading } = useQuery({
+		queryKey: targetShowroomId
+			? ["showrooms", targetShowroomId, "assets", "all"]
+			: [...assetKeys.lists(), "all", "ANY"],
+		queryFn: () => assetService.getAllAssets(undefined, { showroomId: targetShowroomId }),
+		enabled: isAdding,
+	});
+
+	const items = useMemo(
+		() =>
+			relations
+				.map((relation) => ({ relation, ...describeRelation(relation, self) }))
+				.sort(
+					(a, b) =>
+						a.label.localeCompare(b.label) || getEndpointLabel(a.other).localeCompare(getEndpointLabel(b.other)),
+				),
+		[relations, self],
+	);
+	const targets = candidates.filter(
+		(candidate) =>
+			!isSameEndpoint({ assetId: candidate.id, showroomId: targetShowroomId }, self) &&
+			!items.some(({ other }) => isSameEndpoint(other, { assetId: candidate.id, showroomId: targetShowroomId })),
+	);
+
+	const resetForm = () => {
+		setIsAdding(false);
+		setDirection("DEPENDS_ON");
+		setTargetScope(showroomId ?? VAULT_SCOPE);
+		setTargetId("");
+	};
+
+	const handleAdd = async () => {
+		const option = RELATION_DIRECTIONS.find((item) => item.value === direction);
+		if (!option || !targetId) return;
+		const other = { assetId: targetId, showroomId: targetShowroomId };
+		try {
+			await createMutation.mutateAsync({
+				type: option.type,
+				source: option.reversed ? other : self,
+				target: option.reversed ? self : other,
+			});
+			toast.success("Relation added", { position: "top-center" });
+			resetForm();
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to add relation", { position: "top-center" });
+		}
+	};
+
+	const handleRemove = async (id: string) => {
+		try {
+			await deleteMutation.mutateAsync(id);
+			toast.success("Relation removed", { position: "top-center" });
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to remove relation", { position: "top-center" });
+		}
+	};
+
+	return (
+		<div className="space-y-3">
+			<div className="flex items-center justify-between gap-2">
+				<div className="text-sm font-semibold">Related</div>
+				<div className="flex items-center gap-2">
+					{onShowGraph && (
+						<Button type="button" variant="ghost" size="sm" onClick={onShowGraph}>
+							Graph
+						</Button>
+					)}
+					{!isAdding && (
+						<Button type="button" variant="outline" size="sm" onClick={() => setIsAdding(true)}>
+							<Plus className="mr-1 h-3 w-3" />
+							Add relation
+						</Button>
+					)}
+				</div>
+			</div>
+			{isAdding && (
+				<div className="grid gap-2 rounded-md border p-3 sm:grid-cols-[160px_180px_1fr]">
+					<Select value={direction} onValueChange={(value) => setDirection(value as RelationDirection)}>
+						<SelectTrigger className="w-full">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{RELATION_DIRECTIONS.map((option) => (
+								<SelectItem key={option.value} value={option.value}>
+									{option.label}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Select
+						value={targetScope}
+						onValueChange={(value) => {
+							setTargetScope(value);
+							setTargetId("");
+						}}
+					>
+						<SelectTrigger className="w-full">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={VAULT_SCOPE}>Vault</SelectItem>
+							{showrooms.map((showroom) => {
+								const id = getShowroomId(showroom);
+								return id ? (
+									<SelectItem key={id} value={id}>
+										{showroom.name}
+									</SelectItem>
+								) : null;
+							})}
+						</SelectContent>
+					</Select>
+					<Select value={targetId} onValueChange={setTargetId} disabled={isCandidatesLoading}>
+						<SelectTrigger className="w-full">
+							<SelectValue placeholder={isCandidatesLoading ? "Loading assets..." : "Select an asset"} />
+						</SelectTrigger>
+						<SelectContent>
+							{targets.map((candidate) => (
+								<SelectItem key={candidate.id} value={candidate.id}>
+									{candidate.type ? `${candidate.name} (${candidate.type})` : candidate.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<div className="flex justify-end gap-2 sm:col-span-3">
+						<Button type="button" variant="ghost" size="sm" onClick={resetForm}>
+							Cancel
+						</Button>
+						<Button
+							type="button"
+							size="sm"
+							disabled={!targetId || createMutation.isPending}
+							onClick={() => void handleAdd()}
+						>
+							{createMutation.isPending ? "Adding..." : "Add"}
+						</Button>
+					</div>
+				</div>
+			)}
+			{isLoading ? (
+				<div className="text-xs text-muted-foreground">Loading relations...</div>
+			) : items.length ? (
+				<div className="space-y-2">
+					{items.map(({ relation, other, label }) => (
+						<div key={relation.id} className="flex items-center justify-between gap-3 rounded-md border px-3 py-2">
+							<div className="flex min-w-0 items-center gap-2">
+								<Badge variant="outline" className="shrink-0">
+									{label}
+								</Badge>
+								<button
+									type="button"
+									className="flex min-w-0 items-center gap-1 truncate font-medium text-primary hover:underline"
+									onClick={() => onNavigate(other)}
+								>
+									<Link2 className="h-3 w-3 shrink-0" />
+									<span className="truncate">{getEndpointLabel(other)}</span>
+								</button>
+								{other.type && <span className="truncate text-xs text-muted-foreground">{other.type}</span>}
+								{other.showroomId && (
+									<Badge variant="secondary" className="shrink-0">
+										{other.showroomName ?? "Showroom"}
+									</Badge>
+								)}
+							</div>
+							<Button
+								type="button"
+								variant="ghost"
+								size="icon"
+								disabled={deleteMutation.isPending}
+								onClick={() => void handleRemove(relation.id)}
+							>
+								<X className="h-4 w-4" />
+							</Button>
+						</div>
+					))}
+				</div>
+			) : (
+				<div className="text-xs text-muted-foreground">No related assets.</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,52 @@
+import { useQueries } from "@tanstack/react-query";
+import { TriangleAlert } from "lucide-react";
+import type { AssetRelationEndpoint } from "#/entity";
+import { assetRelationsQuery } from "@/api/services/assetRelationService";
+import { getDependents, getEndpointKey, getEndpointLabel, isSameEndpoint } from "./utils";
+
+type DependentsWarningProps = {
+	/** Assets about to be deleted */
+	targets: Pick<AssetRelationEndpoint, "assetId" | "showroomId">[];
+};
+
+const MAX_LISTED = 8;
+
+/**
+ * Lists assets that depend on, or are children of, the assets about to be deleted; renders nothing when there are none
+ */
+export function DependentsWarning({ targets }: DependentsWarningProps) {
+	const results = useQueries({
+		queries: targets.map(({ assetId, showroomId }) => assetRelationsQuery({ assetId, showroomId })),
+	});
+
+	const dependents = new Map<string, AssetRelationEndpoint>();
+	results.forEach((result, index) => {
+		for (const dependent of getDependents(result.data ?? [], targets[index])) {
+			// Dependents deleted in the same go are not left dangling
+			if (targets.some((target) => isSameEndpoint(target, dependent))) continue;
+			dependents.set(getEndpointKey(dependent), dependent);
+		}
+	});
+	const items = [...dependents.values()];
+
+	if (!items.length) return null;
+
+	return (
+		<div className="space-y-1 rounded-md border border-warning/40 bg-warning/10 px-3 py-2 text-xs text-foreground">
+			<div className="flex items-center gap-2 font-semibold">
+				<TriangleAlert className="h-4 w-4 text-warning" />
+				{items.length === 1 ? "1 asset depends on" : `${items.length} assets depend on`} what you are deleting
+			</div>
+			<ul className="list-disc pl-6 text-muted-foreground">
+				{items.slice(0, MAX_LISTED).map((dependent) => (
+					<li key={getEndpointKey(dependent)}>
+						{getEndpointLabel(dependent)}
+						{dependent.showroomId && ` (${dependent.showroomName ?? "showroom"})`}
+					</li>
+				))}
+				{items.length > MAX_LISTED && <li>and {items.length - MAX_LISTED} more</li>}
+			</ul>
+			<div className="text-muted-foreground">Their relations to the deleted assets are removed.</div>
+		</div>
+	);
+}
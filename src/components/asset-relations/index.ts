@@ -0,0 +1,5 @@
+export * from "./asset-relations";
+export * from "./dependents-warning";
+export * from "./relation-graph";
+export * from "./relation-graph-dialog";
+export * from "./utils";
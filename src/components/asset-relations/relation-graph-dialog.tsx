@@ -0,0 +1,102 @@
+import { useMemo, useState } from "react";
+import type { AssetRelation, AssetRelationEndpoint } from "#/entity";
+import { useAssetRelations } from "@/api/services/assetRelationService";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Label } from "@/ui/label";
+import { Switch } from "@/ui/switch";
+import { RelationGraph } from "./relation-graph";
+import { getEndpointKey } from "./utils";
+
+type RelationGraphDialogProps = {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	/** Another client's graph, for superadmins; the current tenant when omitted */
+	clientId?: string;
+	clientName?: string;
+	/** Asset the graph is opened from */
+	focus?: Pick<AssetRelationEndpoint, "assetId" | "showroomId">;
+	onNavigate?: (endpoint: AssetRelationEndpoint) => void;
+};
+
+/**
+ * Relations reachable from `startKey`, following links in both directions
+ */
+const getConnectedRelations = (relations: AssetRelation[], startKey: string) => {
+	const reached = new Set([startKey]);
+	let isGrowing = true;
+	while (isGrowing) {
+		isGrowing = false;
+		for (const relation of relations) {
+			const sourceKey = getEndpointKey(relation.source);
+			const targetKey = getEndpointKey(relation.target);
+			if (reached.has(sourceKey) !== reached.has(targetKey)) {
+				reached.add(sourceKey);
+				reached.add(targetKey);
+				isGrowing = true;
+			}
+		}
+	}
+	return relations.filter((relation) => reached.has(getEndpointKey(relation.source)));
+};
+
+export function RelationGraphDialog({
+	open,
+	onOpenChange,
+	clientId,
+	clientName,
+	focus,
+	onNavigate,
+}: RelationGraphDialogProps) {
+	const query = useMemo(() => (clientId ? { clientId } : {}), [clientId]);
+	const { data, isLoading, isError } = useAssetRelations(query, open);
+	const [showAll, setShowAll] = useState(false);
+	const focusKey = focus ? getEndpointKey(focus) : undefined;
+
+	const relations = useMemo(() => {
+		const all = data ?? [];
+		return focusKey && !showAll ? getConnectedRelations(all, focusKey) : all;
+	}, [data, focusKey, showAll]);
+
+	const handleSelect = onNavigate
+		? (endpoint: AssetRelationEndpoint) => {
+				onOpenChange(false);
+				onNavigate(endpoint);
+			}
+		: undefined;
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={(nextOpen) => {
+				onOpenChange(nextOpen);
+				if (!nextOpen) setShowAll(false);
+			}}
+		>
+			<DialogContent className="w-[95vw] max-w-4xl">
+				<DialogHeader>
+					<DialogTitle>Relationships{clientName ? ` of ${clientName}` : ""}</DialogTitle>
+					<DialogDescription>
+						How assets and showroom assets are linked.{handleSelect ? " Click an asset to open it." : ""}
+					</DialogDescription>
+				</DialogHeader>
+				{focusKey && (
+					<div className="flex items-center justify-end gap-2">
+						<Label htmlFor="relation-graph-all" className="text-xs text-muted-foreground">
+							Show every relation
+						</Label>
+						<Switch id="relation-graph-all" checked={showAll} onCheckedChange={setShowAll} />
+					</div>
+				)}
+				{isLoading ? (
+					<div className="py-8 text-center text-sm text-muted-foreground">Loading relationships...</div>
+				) : isError ? (
+					<div className="py-8 text-center text-sm text-muted-foreground">Failed to load relationships.</div>
+				) : relations.length ? (
+					<RelationGraph relations={relations} focusKey={focusKey} onSelect={handleSelect} />
+				) : (
+					<div className="py-8 text-center text-sm text-muted-foreground">No relationships yet.</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,164 @@
+import { useId, useMemo } from "react";
+import type { AssetRelation, AssetRelationEndpoint, AssetRelationType } from "#/entity";
+import { cn } from "@/utils";
+import { getEndpointKey, getEndpointLabel, RELATION_TYPE_LABELS } from "./utils";
+
+type RelationGraphProps = {
+	relations: AssetRelation[];
+	/** Endpoint drawn in the middle and highlighted */
+	focusKey?: string;
+	onSelect?: (endpoint: AssetRelationEndpoint) => void;
+	className?: string;
+};
+
+const WIDTH = 720;
+const HEIGHT = 480;
+const NODE_RADIUS = 10;
+const LABEL_MAX_LENGTH = 22;
+
+const EDGE_CLASSES: Record<AssetRelationType, { stroke: string; fill: string }> = {
+	DEPENDS_ON: { stroke: "stroke-warning", fill: "fill-warning" },
+	PARENT_OF: { stroke: "stroke-primary", fill: "fill-primary" },
+	RELATED: { stroke: "stroke-muted-foreground", fill: "fill-muted-foreground" },
+};
+
+const truncate = (value: string) =>
+	value.length > LABEL_MAX_LENGTH ? `${value.slice(0, LABEL_MAX_LENGTH - 1)}…` : value;
+
+/**
+ * Circular layout: the focused node sits in the middle, the others are spread evenly around it.
+ * Good enough for the tens of assets a client usually has, without pulling in a graph library.
+ */
+const layoutNodes = (keys: string[], focusKey?: string) => {
+	const positions = new Map<string, { x: number; y: number }>();
+	const ring = keys.filter((key) => key !== focusKey);
+	const radius = Math.min(WIDTH, HEIGHT) / 2 - 60;
+	if (focusKey && keys.includes(focusKey)) positions.set(focusKey, { x: WIDTH / 2, y: HEIGHT / 2 });
+	ring.forEach((key, index) => {
+		const angle = (2 * Math.PI * index) / ring.length - Math.PI / 2;
+		positions.set(key, { x: WIDTH / 2 + radius * Math.cos(angle), y: HEIGHT / 2 + radius * Math.sin(angle) });
+	});
+	return positions;
+};
+
+export function RelationGraph({ relations, focusKey, onSelect, className }: RelationGraphProps) {
+	const markerId = useId();
+
+	const { nodes, positions } = useMemo(() => {
+		const endpoints = new Map<string, AssetRelationEndpoint>();
+		for (const relation of relations) {
+			endpoints.set(getEndpointKey(relation.source), relation.source);
+			endpoints.set(getEndpointKey(relation.target), relation.target);
+		}
+		return { nodes: [...endpoints.entries()], positions: layoutNodes([...endpoints.keys()], focusKey) };
+	}, [relations, focusKey]);
+
+	return (
+		<div className={cn("space-y-2", className)}>
+			<svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full rounded-md border bg-muted/20" role="img">
+				<title>Asset relationships</title>
+				<defs>
+					{(Object.keys(EDGE_CLASSES) as AssetRelationType[]).map((type) => (
+						<marker
+							key={type}
+							id={`${markerId}-${type}`}
+							viewBox="0 0 8 8"
+							refX="8"
+							refY="4"
+							markerWidth="8"
+							markerHeight="8"
+							orient="auto-start-reverse"
+						>
+							<path d="M0,0 L8,4 L0,8 z" className={EDGE_CLASSES[type].fill} />
+						</marker>
+					))}
+				</defs>
+				{relations.map((relation) => {
+					const from = positions.get(getEndpointKey(relation.source));
+					const to = positions.get(getEndpointKey(relation.target));
+					if (!from || !to) return null;
+					// Stop the line at the node's edge so the arrow head stays visible
+					const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+					const endX = to.x - ((to.x - from.x) / length) * (NODE_RADIUS + 2);
+					const endY = to.y - ((to.y - from.y) / length) * (NODE_RADIUS + 2);
+					return (
+						<g key={relation.id}>
+							<line
+								x1={from.x}
+								y1={from.y}
+								x2={endX}
+								y2={endY}
+								strokeWidth={1.5}
+								className={EDGE_CLASSES[relation.type].stroke}
+								markerEnd={relation.type === "RELATED" ? undefined : `url(#${markerId}-${relation.type})`}
+							/>
+							<text
+								x={(from.x + to.x) / 2}
+								y={(from.y + to.y) / 2 - 4}
+								textAnchor="middle"
+								className="fill-muted-foreground text-[10px]"
+							>
+								{RELATION_TYPE_LABELS[relation.type]}
+							</text>
+						</g>
+					);
+				})}
+				{nodes.map(([key, endpoint]) => {
+					const position = positions.get(key);
+					if (!position) return null;
+					const isFocus = key === focusKey;
+					return (
+						// biome-ignore lint/a11y/useSemanticElements: SVG has no button element
+						<g
+							key={key}
+							role="button"
+							tabIndex={0}
+							className={cn(onSelect && "cursor-pointer")}
+							onClick={() => onSelect?.(endpoint)}
+							onKeyDown={(event) => event.key === "Enter" && onSelect?.(endpoint)}
+						>
+							<title>
+								{getEndpointLabel(endpoint)}
+								{endpoint.showroomId ? ` (${endpoint.showroomName ?? "showroom"})` : ""}
+							</title>
+							<circle
+								cx={position.x}
+								cy={position.y}
+								r={isFocus ? NODE_RADIUS + 3 : NODE_RADIUS}
+								strokeWidth={2}
+								className={cn(
+									"stroke-primary",
+									isFocus ? "fill-primary" : endpoint.showroomId ? "fill-secondary" : "fill-background",
+								)}
+							/>
+							<text
+								x={position.x}
+								y={position.y + NODE_RADIUS + 14}
+								textAnchor="middle"
+								className={cn("fill-foreground text-[11px]", isFocus && "font-semibold")}
+							>
+								{truncate(getEndpointLabel(endpoint))}
+							</text>
+						</g>
+					);
+				})}
+			</svg>
+			<div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+				{(Object.keys(EDGE_CLASSES) as AssetRelationType[]).map((type) => (
+					<span key={type} className="flex items-center gap-1">
+						<svg width="18" height="6" aria-hidden="true">
+							<line x1="0" y1="3" x2="18" y2="3" strokeWidth={2} className={EDGE_CLASSES[type].stroke} />
+						</svg>
+						{RELATION_TYPE_LABELS[type]}
+					</span>
+				))}
+				<span className="flex items-center gap-1">
+					<svg width="10" height="10" aria-hidden="true">
+						<circle cx="5" cy="5" r="4" strokeWidth={1.5} className="fill-secondary stroke-primary" />
+					</svg>
+					showroom asset
+				</span>
+			</div>
+		</div>
+	);
+}
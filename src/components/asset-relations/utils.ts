@@ -0,0 +1,62 @@
+import type { AssetRelation, AssetRelationEndpoint, AssetRelationType } from "#/entity";
+
+/**
+ * How a relation reads from the asset being viewed; `reversed` puts that asset on the target side
+ */
+export type RelationDirection = "DEPENDS_ON" | "REQUIRED_BY" | "PARENT_OF" | "CHILD_OF" | "RELATED";
+
+export const RELATION_DIRECTIONS: {
+	value: RelationDirection;
+	label: string;
+	type: AssetRelationType;
+	reversed: boolean;
+}[] = [
+	{ value: "DEPENDS_ON", label: "Depends on", type: "DEPENDS_ON", reversed: false },
+	{ value: "REQUIRED_BY", label: "Required by", type: "DEPENDS_ON", reversed: true },
+	{ value: "PARENT_OF", label: "Parent of", type: "PARENT_OF", reversed: false },
+	{ value: "CHILD_OF", label: "Child of", type: "PARENT_OF", reversed: true },
+	{ value: "RELATED", label: "Related to", type: "RELATED", reversed: false },
+];
+
+export const RELATION_TYPE_LABELS: Record<AssetRelationType, string> = {
+	DEPENDS_ON: "depends on",
+	PARENT_OF: "parent of",
+	RELATED: "related",
+};
+
+export const isSameEndpoint = (a: Pick<AssetRelationEndpoint, "assetId" | "showroomId">, b: typeof a) =>
+	a.assetId === b.assetId && (a.showroomId ?? "") === (b.showroomId ?? "");
+
+/** Stable id for an endpoint, as the same asset id may not repeat across the vault and showrooms */
+export const getEndpointKey = ({ assetId, showroomId }: Pick<AssetRelationEndpoint, "assetId" | "showroomId">) =>
+	`${showroomId ?? "vault"}:${assetId}`;
+
+export const getEndpointLabel = (endpoint: AssetRelationEndpoint) => endpoint.name || endpoint.assetId;
+
+/**
+ * The other side of a relation and the label that reads from `self`, e.g. "Required by" when `self` is the target
+ */
+export const describeRelation = (
+	relation: AssetRelation,
+	self: Pick<AssetRelationEndpoint, "assetId" | "showroomId">,
+) => {
+	const isSource = isSameEndpoint(relation.source, self);
+	const other = isSource ? relation.target : relation.source;
+	const direction = RELATION_DIRECTIONS.find(
+		(option) => option.type === relation.type && (relation.type === "RELATED" || option.reversed !== isSource),
+	);
+	return { other, label: direction?.label ?? relation.type };
+};
+
+/**
+ * Assets that would be left dangling if `self` went away: the ones depending on it and its children
+ */
+export const getDependents = (
+	relations: AssetRelation[],
+	self: Pick<AssetRelationEndpoint, "assetId" | "showroomId">,
+) =>
+	relations.flatMap((relation) => {
+		if (relation.type === "DEPENDS_ON" && isSameEndpoint(relation.target, self)) return [relation.source];
+		if (relation.type === "PARENT_OF" && isSameEndpoint(relation.source, self)) return [relation.target];
+		return [];
+	});
@@ -0,0 +1,3 @@
+export * from "./renew-asset-dialog";
+export * from "./renewal-history";
+export * from "./utils";
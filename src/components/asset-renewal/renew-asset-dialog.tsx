@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import type { RenewalPeriod } from "#/entity";
+import { useRenewAsset } from "@/api/services/renewalService";
+import { Button } from "@/ui/button";
+import { DatePicker } from "@/ui/date-picker";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Input } from "@/ui/input";
+import { Label } from "@/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
+import { Textarea } from "@/ui/textarea";
+import { RenewalHistory } from "./renewal-history";
+import {
+	describeDaysUntilExpiry,
+	formatExpirationDate,
+	getDaysUntilExpiry,
+	getRenewedExpiration,
+	RENEWAL_PERIOD_LABELS,
+} from "./utils";
+
+export type RenewableAsset = {
+	id: string;
+	name: string;
+	/** Set for showroom assets */
+	showroomId?: string;
+	expirationDate?: string;
+	renewalPeriod?: RenewalPeriod;
+};
+
+type RenewAssetDialogProps = {
+	/** The dialog is open while an asset is set */
+	asset: RenewableAsset | null;
+	onClose: () => void;
+	/** Called after the renewal was saved, for lists that are not refreshed through react-query */
+	onRenewed?: () => void;
+};
+
+const CURRENCY_PATTERN = /^[A-Za-z]{3}$/;
+
+export function RenewAssetDialog({ asset, onClose, onRenewed }: RenewAssetDialogProps) {
+	const renewMutation = useRenewAsset();
+	const [period, setPeriod] = useState<RenewalPeriod>("YEARLY");
+	const [customDate, setCustomDate] = useState<Date | undefined>();
+	const [cost, setCost] = useState("");
+	const [currency, setCurrency] = useState("");
+	const [notes, setNotes] = useState("");
+
+	useEffect(() => {
+		setPeriod(asset?.renewalPeriod ?? "YEARLY");
+		setCustomDate(undefined);
+		setCost("");
+		setCurrency("");
+		setNotes("");
+	}, [asset]);
+
+	const nextExpiration =
+		period === "CUSTOM" ? customDate : asset ? getRenewedExpiration(asset.expirationDate, period) : undefined;
+	const costNumber = cost ? Number(cost) : undefined;
+	const costError =
+		costNumber !== undefined && (!Number.isFinite(costNumber) || costNumber < 0) ? "Use a positive amount" : "";
+	const currencyError = currency && !CURRENCY_PATTERN.test(currency) ? "Use a 3-letter code like USD" : "";
+	const currentDays = asset?.expirationDate ? getDaysUntilExpiry(asset.expirationDate) : undefined;
+
+	const handleOpenChange = (open: boolean) => {
+		if (open || renewMutation.isPending) return;
+		onClose();
+	};
+
+	const handleRenew = async () => {
+		if (!asset || !nextExpiration || costError || currencyError) return;
+		try {
+			await renewMutation.mutateAsync({
+				target: { assetId: asset.id, showroomId: asset.showroomId },
+				data: {
+					period,
+					expirationDate: nextExpiration.toISOString(),
+					cost: costNumber,
+					currency: currency ? currency.toUpperCase() : undefined,
+					notes: notes.trim() || undefined,
+				},
+			});
+			toast.success(`Renewed ${asset.name} until ${formatExpirationDate(nextExpiration.toISOString())}`, {
+				position: "top-center",
+			});
+			onRenewed?.();
+			onClose();
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to renew asset", { position: "top-center" });
+		}
+	};
+
+	return (
+		<Dialog open={!!asset} onOpenChange={handleOpenChange}>
+			<DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle>Renew {asset?.name}</DialogTitle>
+					<DialogDescription>
+						{asset?.expirationDate && currentDays !== undefined
+							? `Currently expires on ${formatExpirationDate(asset.expirationDate)}. ${describeDaysUntilExpiry(currentDays)}.`
+							: "This asset has no expiration date yet."}
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4">
+					<div className="grid gap-4 sm:grid-cols-2">
+						<div className="space-y-2">
+							<Label>Renew for</Label>
+							<Select value={period} onValueChange={(value) => setPeriod(value as RenewalPeriod)}>
+								<SelectTrigger className="w-full">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{(Object.keys(RENEWAL_PERIOD_LABELS) as RenewalPeriod[]).map((value) => (
+										<SelectItem key={value} value={value}>
+											{RENEWAL_PERIOD_LABELS[value]}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className="space-y-2">
+							<Label>New expiration date</Label>
+							{period === "CUSTOM" ? (
+								<DatePicker value={customDate} onChange={setCustomDate} minDate={new Date()} />
+							) : (
+								<div className="flex h-9 items-center text-sm font-medium">
+									{nextExpiration ? formatExpirationDate(nextExpiration.toISOString()) : "-"}
+								</div>
+							)}
+						</div>
+					</div>
+					<div className="grid gap-4 sm:grid-cols-[minmax(0,1fr)_8rem]">
+						<div className="space-y-2">
+							<Label>Cost (optional)</Label>
+							<Input
+								type="number"
+								min={0}
+								step="0.01"
+								placeholder="0.00"
+								value={cost}
+								onChange={(event) => setCost(event.target.value)}
+							/>
+							{costError && <div className="text-xs text-error">{costError}</div>}
+						</div>
+						<div className="space-y-2">
+							<Label>Currency</Label>
+							<Input
+								placeholder="USD"
+								maxLength={3}
+								value={currency}
+								onChange={(event) => setCurrency(event.target.value)}
+							/>
+							{currencyError && <div className="text-xs text-error">{currencyError}</div>}
+						</div>
+					</div>
+					<div className="space-y-2">
+						<Label>Notes (optional)</Label>
+						<Textarea
+							placeholder="Invoice number, plan, who approved it..."
+							value={notes}
+							onChange={(event) => setNotes(event.target.value)}
+						/>
+					</div>
+					<div className="space-y-2">
+						<div className="text-sm font-semibold">Renewal history</div>
+						{asset && <RenewalHistory target={{ assetId: asset.id, showroomId: asset.showroomId }} />}
+					</div>
+				</div>
+				<DialogFooter className="mt-2">
+					<Button
+						type="button"
+						variant="outline"
+						disabled={renewMutation.isPending}
+						onClick={() => handleOpenChange(false)}
+					>
+						Cancel
+					</Button>
+					<Button
+						type="button"
+						disabled={renewMutation.isPending || !nextExpiration || !!costError || !!currencyError}
+						onClick={() => void handleRenew()}
+					>
+						{renewMutation.isPending ? "Renewing..." : "Renew"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
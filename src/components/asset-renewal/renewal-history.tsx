@@ -0,0 +1,49 @@
+import { formatDistanceToNow } from "date-fns";
+import { type RenewalTarget, useRenewals } from "@/api/services/renewalService";
+import { getAuthorName } from "@/components/discussion";
+import { Badge } from "@/ui/badge";
+import { formatExpirationDate, formatRenewalCost, RENEWAL_PERIOD_LABELS } from "./utils";
+
+type RenewalHistoryProps = {
+	target: RenewalTarget;
+};
+
+export function RenewalHistory({ target }: RenewalHistoryProps) {
+	const { data: renewals = [], isLoading, isError } = useRenewals(target);
+
+	if (isLoading) {
+		return <div className="py-4 text-center text-sm text-muted-foreground">Loading renewals...</div>;
+	}
+	if (isError) {
+		return <div className="py-4 text-center text-sm text-muted-foreground">Failed to load renewals.</div>;
+	}
+	if (!renewals.length) {
+		return <div className="py-4 text-center text-sm text-muted-foreground">Not renewed yet.</div>;
+	}
+
+	return (
+		<ul className="space-y-2">
+			{renewals.map((renewal) => {
+				const cost = formatRenewalCost(renewal);
+				return (
+					<li key={renewal.id} className="space-y-1 rounded-md border p-3 text-sm">
+						<div className="flex flex-wrap items-center justify-between gap-2">
+							<div className="font-medium">
+								{formatExpirationDate(renewal.previousExpirationDate)} → {formatExpirationDate(renewal.expirationDate)}
+							</div>
+							<div className="flex items-center gap-2">
+								{cost && <span className="font-medium">{cost}</span>}
+								<Badge variant="outline">{RENEWAL_PERIOD_LABELS[renewal.period] ?? renewal.period}</Badge>
+							</div>
+						</div>
+						{renewal.notes && <div className="whitespace-pre-wrap text-muted-foreground">{renewal.notes}</div>}
+						<div className="text-xs text-muted-foreground">
+							{getAuthorName(renewal.renewedBy)} ·{" "}
+							{formatDistanceToNow(new Date(renewal.renewedAt), { addSuffix: true })}
+						</div>
+					</li>
+				);
+			})}
+		</ul>
+	);
+}
@@ -0,0 +1,83 @@
+import { addMonths, addYears, differenceInCalendarDays, format } from "date-fns";
+import type { AssetRenewal, ExpiringAsset, RenewalPeriod } from "#/entity";
+
+export type ExpirationStatus = "OVERDUE" | "DUE_TODAY" | "DUE_SOON" | "RENEWED" | "UPCOMING";
+
+export const RENEWAL_PERIOD_LABELS: Record<RenewalPeriod, string> = {
+	MONTHLY: "Monthly",
+	YEARLY: "Yearly",
+	CUSTOM: "Custom date",
+};
+
+export const EXPIRATION_STATUS_LABELS: Record<ExpirationStatus, string> = {
+	OVERDUE: "Overdue",
+	DUE_TODAY: "Due today",
+	DUE_SOON: "Due soon",
+	RENEWED: "Renewed",
+	UPCOMING: "Upcoming",
+};
+
+/** Days before the expiration date that EXPIRATION_REMINDER notifications go out; EXPIRATION_TODAY follows on the day */
+export const EXPIRATION_REMINDER_DAYS = [5, 3, 2];
+
+/** An asset counts as due soon from its first reminder on */
+export const DUE_SOON_DAYS = Math.max(...EXPIRATION_REMINDER_DAYS);
+
+/** How long a renewal keeps an asset in the Renewed group */
+export const RECENTLY_RENEWED_DAYS = 30;
+
+/**
+ * Whole calendar days until the expiration date, negative once it passed; the same count the
+ * notifications carry as `daysUntilExpiry`
+ */
+export const getDaysUntilExpiry = (expirationDate: string, now = new Date()) =>
+	differenceInCalendarDays(new Date(expirationDate), now);
+
+/**
+ * Overdue and due states win over Renewed, so an asset renewed last month that is due again still shows up
+ */
+export const getExpirationStatus = (asset: ExpiringAsset, now = new Date()): ExpirationStatus => {
+	const days = getDaysUntilExpiry(asset.expirationDate, now);
+	if (days < 0) return "OVERDUE";
+	if (days === 0) return "DUE_TODAY";
+	if (days <= DUE_SOON_DAYS) return "DUE_SOON";
+	const renewedAt = asset.lastRenewal?.renewedAt;
+	if (renewedAt && differenceInCalendarDays(now, new Date(renewedAt)) <= RECENTLY_RENEWED_DAYS) return "RENEWED";
+	return "UPCOMING";
+};
+
+/**
+ * The expiration date after renewing by one period. Counts from the current date so the billing day is kept,
+ * or from today when that date has already passed.
+ */
+export const getRenewedExpiration = (
+	current: string | undefined,
+	period: Exclude<RenewalPeriod, "CUSTOM">,
+	now = new Date(),
+) => {
+	const currentDate = current ? new Date(current) : null;
+	const base = currentDate && !Number.isNaN(currentDate.getTime()) && currentDate > now ? currentDate : now;
+	return period === "MONTHLY" ? addMonths(base, 1) : addYears(base, 1);
+};
+
+export const describeDaysUntilExpiry = (days: number) => {
+	if (days === 0) return "Expires today";
+	if (days === 1) return "Expires tomorrow";
+	if (days > 0) return `Expires in ${days} days`;
+	return days === -1 ? "Expired yesterday" : `Expired ${-days} days ago`;
+};
+
+export const formatExpirationDate = (value?: string) => {
+	const date = value ? new Date(value) : null;
+	return date && !Number.isNaN(date.getTime()) ? format(date, "yyyy-MM-dd") : "-";
+};
+
+export const formatRenewalCost = (renewal: Pick<AssetRenewal, "cost" | "currency">) => {
+	if (renewal.cost === undefined || renewal.cost === null) return "";
+	if (!renewal.currency) return renewal.cost.toLocaleString();
+	try {
+		return renewal.cost.toLocaleString(undefined, { style: "currency", currency: renewal.currency });
+	} catch {
+		return `${renewal.cost.toLocaleString()} ${renewal.currency}`;
+	}
+};
@@ -0,0 +1,165 @@
+import { CircleHelp, Search, X } from "lucide-react";
+import { type KeyboardEvent, useMemo, useRef, useState } from "react";
+import { Badge } from "@/ui/badge";
+import { Input } from "@/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/ui/popover";
+import { cn } from "@/utils";
+import {
+	applySearchSuggestion,
+	getSearchSuggestions,
+	parseAssetSearch,
+	removeSearchToken,
+	SEARCH_KEYS,
+	type SearchKey,
+	type SearchSuggestionSource,
+} from "./query";
+
+type AssetSearchInputProps = {
+	value: string;
+	onChange: (value: string) => void;
+	suggestions?: SearchSuggestionSource;
+	placeholder?: string;
+	className?: string;
+};
+
+/**
+ * Search box for the asset query language. Suggests qualifiers and their values while typing and shows
+ * the qualifiers in use as chips below the box; a chip can be removed without editing the text.
+ */
+export function AssetSearchInput({
+	value,
+	onChange,
+	suggestions = {},
+	placeholder = "Search, or type tag:, type:, expires:<30d…",
+	className,
+}: AssetSearchInputProps) {
+	const inputRef = useRef<HTMLInputElement>(null);
+	const [caret, setCaret] = useState<number | null>(null);
+	const [activeIndex, setActiveIndex] = useState(0);
+	const tokens = useMemo(() => parseAssetSearch(value).tokens.filter((token) => token.key), [value]);
+	const menu = caret === null ? null : getSearchSuggestions(value, caret, suggestions);
+	const items = menu?.items ?? [];
+
+	const updateCaret = (next: number | null) => {
+		setCaret(next);
+		setActiveIndex(0);
+	};
+
+	const pick = (index: number) => {
+		const input = inputRef.current;
+		const item = items[index];
+		if (!input || !menu || !item) return;
+		const next = applySearchSuggestion(value, menu, item);
+		onChange(next.value);
+		updateCaret(next.caret);
+		requestAnimationFrame(() => {
+			input.focus();
+			input.setSelectionRange(next.caret, next.caret);
+		});
+	};
+
+	const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+		if (!items.length) return;
+		if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+			event.preventDefault();
+			const step = event.key === "ArrowDown" ? 1 : -1;
+			setActiveIndex((index) => (index + step + items.length) % items.length);
+		} else if (event.key === "Enter" || event.key === "Tab") {
+			event.preventDefault();
+			pick(activeIndex);
+		} else if (event.key === "Escape") {
+			event.preventDefault();
+			event.stopPropagation();
+			updateCaret(null);
+		}
+	};
+
+	return (
+		<div className={cn("space-y-2", className)}>
+			<div className="relative">
+				<Search className="pointer-events-none absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+				<Input
+					ref={inputRef}
+					value={value}
+					placeholder={placeholder}
+					className="pl-8 pr-9"
+					onChange={(event) => {
+						onChange(event.target.value);
+						updateCaret(event.target.selectionStart);
+					}}
+					onKeyDown={handleKeyDown}
+					onClick={(event) => updateCaret(event.currentTarget.selectionStart)}
+					onBlur={() => updateCaret(null)}
+				/>
+				<Popover>
+					<PopoverTrigger asChild>
+						<button
+							type="button"
+							aria-label="Search syntax"
+							className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+						>
+							<CircleHelp className="h-4 w-4" />
+						</button>
+					</PopoverTrigger>
+					<PopoverContent align="end" className="w-80 space-y-2 text-sm">
+						<div className="font-medium">Search syntax</div>
+						<p className="text-xs text-muted-foreground">
+							Words match names, descriptions, tags and field values; secret values are never searched. Combine them
+							with qualifiers, quoting values with spaces.
+						</p>
+						<ul className="space-y-1">
+							{(Object.keys(SEARCH_KEYS) as SearchKey[]).map((key) => (
+								<li key={key} className="text-xs">
+									<code className="font-mono">{key}:</code>{" "}
+									<span className="text-muted-foreground">{SEARCH_KEYS[key]}</span>
+								</li>
+							))}
+						</ul>
+					</PopoverContent>
+				</Popover>
+				{items.length > 0 && (
+					<div className="absolute left-0 top-full z-50 mt-1 w-full min-w-64 overflow-hidden rounded-md border bg-popover p-1 shadow-md">
+						{items.map((item, index) => (
+							<button
+								key={item.label}
+								type="button"
+								className={cn(
+									"flex w-full items-baseline justify-between gap-3 rounded px-2 py-1 text-left text-sm",
+									index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-muted",
+								)}
+								// Keep the input focused so the caret position is still known when picking
+								onMouseDown={(event) => event.preventDefault()}
+								onClick={() => pick(index)}
+							>
+								<span className="font-mono text-xs">{item.label}</span>
+								{item.description && <span className="truncate text-xs text-muted-foreground">{item.description}</span>}
+							</button>
+						))}
+					</div>
+				)}
+			</div>
+			{tokens.length > 0 && (
+				<div className="flex flex-wrap gap-1.5">
+					{tokens.map((token) => (
+						<Badge
+							key={`${token.start}-${token.raw}`}
+							variant={token.error ? "destructive" : "info"}
+							title={token.error}
+							className="gap-1 font-mono"
+						>
+							{token.key}:{token.value || "…"}
+							<button
+								type="button"
+								aria-label={`Remove ${token.raw}`}
+								className="rounded-sm opacity-70 hover:opacity-100"
+								onClick={() => onChange(removeSearchToken(value, token))}
+							>
+								<X className="h-3 w-3" />
+							</button>
+						</Badge>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,3 @@
+export * from "./asset-search-input";
+export * from "./match";
+export * from "./query";
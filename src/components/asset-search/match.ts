@@ -0,0 +1,89 @@
+import type { AssetSearchFlag, DateRange, SizeRange } from "@/api/services/assetService";
+import { isEncryptedValue } from "@/utils/vault";
+import type { ParsedAssetSearch } from "./query";
+
+/** What a search looks at; tenant assets, showroom assets and their table rows all fit */
+export type SearchableAsset = {
+	name: string;
+	type: string;
+	description?: string;
+	tags?: string[];
+	fields?: { key: string; type: string; value: string; isSecret?: boolean }[];
+	fileCount?: number;
+	/** Total size of the files in bytes */
+	size?: number;
+	expirationDate?: string;
+	createdAt?: string;
+	updatedAt?: string;
+};
+
+const includes = (value: string | undefined, term: string) => !!value && value.toLowerCase().includes(term);
+
+const inRange = (value: string | undefined, range?: DateRange) => {
+	if (!range) return true;
+	const time = value ? new Date(value).getTime() : Number.NaN;
+	if (Number.isNaN(time)) return false;
+	if (range.after && time <= new Date(range.after).getTime()) return false;
+	if (range.before && time >= new Date(range.before).getTime()) return false;
+	return true;
+};
+
+const inSizeRange = (value: number | undefined, range?: SizeRange) => {
+	if (!range) return true;
+	if (value === undefined) return false;
+	return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+};
+
+const hasFlag = (asset: SearchableAsset, flag: AssetSearchFlag) => {
+	const fields = asset.fields ?? [];
+	switch (flag) {
+		case "file":
+			return !!asset.fileCount;
+		case "expiration":
+			return !!asset.expirationDate;
+		case "secret":
+			return fields.some((field) => field.isSecret);
+		case "totp":
+			return fields.some((field) => field.type === "TOTP");
+		case "note":
+			return fields.some((field) => field.type === "NOTE");
+		case "tags":
+			return !!asset.tags?.length;
+	}
+};
+
+/**
+ * The text a free search term may match. Values of secret fields, TOTP seeds and sealed values are left
+ * out, so a search can never reveal them by which assets it finds.
+ */
+const getSearchableText = (asset: SearchableAsset) => [
+	asset.name,
+	asset.type,
+	asset.description,
+	...(asset.tags ?? []),
+	...(asset.fields ?? []).flatMap((field) =>
+		field.isSecret || field.type === "TOTP" || isEncryptedValue(field.value) ? [field.key] : [field.key, field.value],
+	),
+];
+
+/**
+ * Client-side counterpart of the server search, for lists that are loaded in full
+ */
+export const matchesAssetSearch = (asset: SearchableAsset, { terms, filter }: ParsedAssetSearch) => {
+	const fields = asset.fields ?? [];
+	if (filter.types.length && !filter.types.some((type) => type.toLowerCase() === asset.type.toLowerCase())) {
+		return false;
+	}
+	const tags = (asset.tags ?? []).map((tag) => tag.toLowerCase());
+	if (!filter.tags.every((tag) => tags.includes(tag.toLowerCase()))) return false;
+	if (!filter.fields.every((key) => fields.some((field) => includes(field.key, key.toLowerCase())))) return false;
+	if (!filter.has.every((flag) => hasFlag(asset, flag))) return false;
+	if (filter.no.some((flag) => hasFlag(asset, flag))) return false;
+	if (!inSizeRange(asset.size, filter.size)) return false;
+	if (!inRange(asset.expirationDate, filter.expires)) return false;
+	if (!inRange(asset.updatedAt, filter.updated)) return false;
+	if (!inRange(asset.createdAt, filter.created)) return false;
+	if (!terms.length) return true;
+	const haystack = getSearchableText(asset);
+	return terms.every((term) => haystack.some((value) => includes(value, term.toLowerCase())));
+};
@@ -0,0 +1,257 @@
+import type { AssetSearchFilter, AssetSearchFlag, DateRange, SizeRange } from "@/api/services/assetService";
+
+export type SearchKey = "type" | "tag" | "field" | "has" | "no" | "size" | "expires" | "updated" | "created";
+
+/** A word of the query; qualifiers have a `key`, free text does not */
+export type SearchToken = {
+	raw: string;
+	start: number;
+	end: number;
+	key?: SearchKey;
+	value: string;
+	/** Why a qualifier could not be applied; it is ignored by the filter */
+	error?: string;
+};
+
+export type ParsedAssetSearch = {
+	/** The free text, qualifiers removed */
+	text: string;
+	/** Free text words and quoted phrases, each must match */
+	terms: string[];
+	filter: AssetSearchFilter;
+	tokens: SearchToken[];
+};
+
+export const SEARCH_KEYS: Record<SearchKey, string> = {
+	type: "Asset type, e.g. type:CREDENTIALS",
+	tag: "Has the tag, e.g. tag:tabby",
+	field: "Has a field with this key, e.g. field:portal",
+	has: "has:file, expiration, secret, totp, note or tags",
+	no: "The opposite of has:, e.g. no:tags",
+	size: "Total file size, e.g. size:>50MB",
+	expires: "Expiration date, e.g. expires:<30d or expires:>2026-06-01",
+	updated: "Last update, e.g. updated:<7d or updated:>2026-01-01",
+	created: "Creation date, e.g. created:>2025-12-31",
+};
+
+export const SEARCH_FLAGS: AssetSearchFlag[] = ["file", "expiration", "secret", "totp", "note", "tags"];
+
+export const EMPTY_SEARCH_FILTER: AssetSearchFilter = { types: [], tags: [], fields: [], has: [], no: [] };
+
+/** Dates in the past: a relative `<7d` means "less than 7 days ago" */
+const PAST_KEYS = new Set<SearchKey>(["updated", "created"]);
+
+const TOKEN = /(?:[^\s"]*"[^"]*"?|\S)+/g;
+const DATE_VALUE = /^(<=|>=|<|>|=)?(.+)$/;
+const RELATIVE = /^(\d+)([dwmy])$/i;
+const ABSOLUTE = /^\d{4}-\d{2}-\d{2}$/;
+const SIZE_VALUE = /^(<=|>=|<|>|=)?(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/i;
+const DAY = 24 * 60 * 60 * 1000;
+/** Decimal units, like the sizes shown in the tables */
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12 };
+
+const unquote = (value: string) => value.replace(/^"|"$/g, "");
+
+export const quoteSearchValue = (value: string) => (/[\s"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value);
+
+const shiftDate = (now: Date, amount: number, unit: string) => {
+	const date = new Date(now);
+	if (unit === "d") date.setDate(date.getDate() + amount);
+	else if (unit === "w") date.setDate(date.getDate() + amount * 7);
+	else if (unit === "m") date.setMonth(date.getMonth() + amount);
+	else date.setFullYear(date.getFullYear() + amount);
+	return date;
+};
+
+/**
+ * Turn `<30d`, `>=2026-01-01` or `2026-01-01` into a date range. Relative amounts count forward for
+ * `expires` (so `expires:<30d` also finds assets that expired already) and backward for past dates.
+ */
+const parseDateRange = (key: SearchKey, value: string, now: Date): DateRange | string => {
+	const match = DATE_VALUE.exec(value);
+	const operand = match?.[2] ?? "";
+	let op = match?.[1] ?? "";
+	const relative = RELATIVE.exec(operand);
+	if (relative) {
+		const isPast = PAST_KEYS.has(key);
+		const amount = Number(relative[1]) * (isPast ? -1 : 1);
+		const bound = shiftDate(now, amount, relative[2].toLowerCase()).toISOString();
+		if (!op || op === "=") op = "<";
+		// "Less than 7 days ago" is a date after the bound
+		const isBefore = op.startsWith("<") !== isPast;
+		return isBefore ? { before: bound } : { after: bound };
+	}
+	if (!ABSOLUTE.test(operand)) return `Use a date like 2026-01-01 or an amount like 30d, not "${operand}"`;
+	const dayStart = new Date(`${operand}T00:00:00`);
+	if (Number.isNaN(dayStart.getTime())) return `"${operand}" is not a valid date`;
+	const start = dayStart.toISOString();
+	const end = new Date(dayStart.getTime() + DAY).toISOString();
+	switch (op) {
+		case "<":
+			return { before: start };
+		case "<=":
+			return { before: end };
+		case ">":
+			return { after: end };
+		case ">=":
+			return { after: start };
+		default:
+			return { after: start, before: end };
+	}
+};
+
+/**
+ * Turn `>50MB` or `<=1.5gb` into a byte range; a bare size means "at least"
+ */
+const parseSizeRange = (value: string): SizeRange | string => {
+	const match = SIZE_VALUE.exec(value);
+	if (!match) return `Use a size like >50MB or <1GB, not "${value}"`;
+	const bytes = Math.round(Number(match[2]) * SIZE_UNITS[(match[3] ?? "b").toLowerCase()]);
+	return match[1]?.startsWith("<") ? { max: bytes } : { min: bytes };
+};
+
+/** Several qualifiers on the same date all have to hold */
+const intersectRanges = (current: DateRange | undefined, next: DateRange): DateRange => ({
+	after: [current?.after, next.after].filter(Boolean).sort().at(-1),
+	before: [current?.before, next.before].filter(Boolean).sort()[0],
+});
+
+const isSearchKey = (key: string): key is SearchKey => key in SEARCH_KEYS;
+
+/**
+ * Parse a search such as `type:CREDENTIALS tag:tabby expires:<30d has:file field:portal updated:>2026-01-01 vpn`.
+ * Words with an unknown prefix (like urls) stay free text; qualifiers with a bad value are reported on their token.
+ */
+export const parseAssetSearch = (query: string, now = new Date()): ParsedAssetSearch => {
+	const tokens: SearchToken[] = [];
+	const filter: AssetSearchFilter = { types: [], tags: [], fields: [], has: [], no: [] };
+	const terms: string[] = [];
+	for (const match of query.matchAll(TOKEN)) {
+		const raw = match[0];
+		const token: SearchToken = { raw, start: match.index, end: match.index + raw.length, value: unquote(raw) };
+		tokens.push(token);
+		const colon = raw.indexOf(":");
+		const key = colon > 0 ? raw.slice(0, colon).toLowerCase() : "";
+		if (!isSearchKey(key)) {
+			if (token.value) terms.push(token.value);
+			continue;
+		}
+		token.key = key;
+		token.value = unquote(raw.slice(colon + 1)).trim();
+		if (!token.value) {
+			token.error = "Missing value";
+			continue;
+		}
+		if (key === "type") filter.types.push(token.value);
+		else if (key === "tag") filter.tags.push(token.value);
+		else if (key === "field") filter.fields.push(token.value);
+		else if (key === "has" || key === "no") {
+			const flag = token.value.toLowerCase() as AssetSearchFlag;
+			if (SEARCH_FLAGS.includes(flag)) filter[key].push(flag);
+			else token.error = `Use ${key}:${SEARCH_FLAGS.join(`, ${key}:`)}`;
+		} else if (key === "size") {
+			const range = parseSizeRange(token.value);
+			if (typeof range === "string") token.error = range;
+			else filter.size = { ...filter.size, ...range };
+		} else {
+			const range = parseDateRange(key, token.value, now);
+			if (typeof range === "string") token.error = range;
+			else filter[key] = intersectRanges(filter[key], range);
+		}
+	}
+	return { text: terms.join(" "), terms, filter, tokens };
+};
+
+/**
+ * The query without one of its tokens, e.g. when a chip is removed
+ */
+export const removeSearchToken = (query: string, token: SearchToken) =>
+	`${query.slice(0, token.start)} ${query.slice(token.end)}`.replace(/\s+/g, " ").trim();
+
+export type SearchSuggestion = {
+	label: string;
+	description?: string;
+	/** Text that replaces the word at the caret */
+	insert: string;
+};
+
+export type SearchSuggestionSource = {
+	types?: string[];
+	tags?: string[];
+	fields?: string[];
+};
+
+export const MAX_SEARCH_SUGGESTIONS = 8;
+
+const SIZE_PRESETS: [string, string][] = [
+	[">10MB", "Larger than 10 MB"],
+	[">50MB", "Larger than 50 MB"],
+	[">100MB", "Larger than 100 MB"],
+	["<1MB", "Smaller than 1 MB"],
+];
+
+const DATE_PRESETS: Record<"expires" | "past", [string, string][]> = {
+	expires: [
+		["<7d", "Expires within 7 days"],
+		["<30d", "Expires within 30 days"],
+		["<90d", "Expires within 90 days"],
+		[">90d", "Expires in more than 90 days"],
+	],
+	past: [
+		["<7d", "In the last 7 days"],
+		["<30d", "In the last 30 days"],
+		[">90d", "More than 90 days ago"],
+	],
+};
+
+/**
+ * Suggestions for the word at the caret: qualifier keys for a bare word, values once the key is typed
+ */
+export const getSearchSuggestions = (query: string, caret: number, source: SearchSuggestionSource) => {
+	const start = query.slice(0, caret).search(/\S*$/);
+	const rest = query.slice(caret).search(/\s|$/);
+	const word = query.slice(start, caret + rest);
+	const range = { start, end: caret + rest };
+	const colon = word.indexOf(":");
+	if (colon < 0) {
+		const search = word.toLowerCase();
+		const items: SearchSuggestion[] = search
+			? (Object.keys(SEARCH_KEYS) as SearchKey[])
+					.filter((key) => key.startsWith(search))
+					.map((key) => ({ label: `${key}:`, description: SEARCH_KEYS[key], insert: `${key}:` }))
+			: [];
+		return { ...range, items };
+	}
+	const key = word.slice(0, colon).toLowerCase();
+	if (!isSearchKey(key)) return { ...range, items: [] };
+	const search = unquote(word.slice(colon + 1)).toLowerCase();
+	let values: [string, string?][];
+	if (key === "type") values = (source.types ?? []).map((value) => [value]);
+	else if (key === "tag") values = (source.tags ?? []).map((value) => [value]);
+	else if (key === "field") values = (source.fields ?? []).map((value) => [value]);
+	else if (key === "has" || key === "no") values = SEARCH_FLAGS.map((value) => [value]);
+	else if (key === "size") values = SIZE_PRESETS;
+	else values = DATE_PRESETS[key === "expires" ? "expires" : "past"];
+	const items = values
+		.filter(([value]) => value.toLowerCase().includes(search) && value.toLowerCase() !== search)
+		.slice(0, MAX_SEARCH_SUGGESTIONS)
+		.map(([value, description]) => ({
+			label: `${key}:${value}`,
+			description,
+			insert: `${key}:${quoteSearchValue(value)}`,
+		}));
+	return { ...range, items };
+};
+
+/**
+ * Put a suggestion in place of the word it was made for and return the caret after it
+ */
+export const applySearchSuggestion = (
+	query: string,
+	range: { start: number; end: number },
+	suggestion: SearchSuggestion,
+) => {
+	const suffix = suggestion.insert.endsWith(":") ? "" : " ";
+	const before = `${query.slice(0, range.start)}${suggestion.insert}${suffix}`;
+	return { value: `${before}${query.slice(range.end).replace(/^\s/, "")}`, caret: before.length };
+};
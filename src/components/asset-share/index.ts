@@ -0,0 +1,4 @@
+export * from "./share-asset-dialog";
+export * from "./share-link-list";
+export * from "./share-links-dialog";
+export * from "./utils";
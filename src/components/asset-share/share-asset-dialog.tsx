@@ -0,0 +1,227 @@
+import { Check, Copy } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import type { Asset } from "#/entity";
+import { useAssetShares, useCreateAssetShare } from "@/api/services/assetShareService";
+import { openSecretFields } from "@/store/vaultStore";
+import { Button } from "@/ui/button";
+import { Checkbox } from "@/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Input } from "@/ui/input";
+import { Label } from "@/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
+import { ShareLinkList } from "./share-link-list";
+import {
+	buildShareUrl,
+	createShareKey,
+	DEFAULT_SHARE_EXPIRY,
+	getShareStatus,
+	MIN_SHARE_PASSPHRASE_LENGTH,
+	SHARE_EXPIRY_OPTIONS,
+	sealShareContent,
+} from "./utils";
+
+export type ShareableAsset = Pick<Asset, "id" | "name" | "type" | "fields">;
+
+type ShareAssetDialogProps = {
+	/** The dialog is open while an asset is set */
+	asset: ShareableAsset | null;
+	onClose: () => void;
+};
+
+export function ShareAssetDialog({ asset, onClose }: ShareAssetDialogProps) {
+	const sharesQuery = useAssetShares(asset?.id, !!asset);
+	const createMutation = useCreateAssetShare();
+	// Keys left out of the share; every field is shared by default
+	const [excludedKeys, setExcludedKeys] = useState<string[]>([]);
+	const [expiry, setExpiry] = useState(DEFAULT_SHARE_EXPIRY);
+	const [maxViews, setMaxViews] = useState("");
+	const [passphrase, setPassphrase] = useState("");
+	const [shareUrl, setShareUrl] = useState<string | null>(null);
+	const [isCopied, setIsCopied] = useState(false);
+	const [isCreating, setIsCreating] = useState(false);
+
+	const fields = (asset?.fields ?? []).filter((field) => field.key.trim());
+	const selectedFields = fields.filter((field) => !excludedKeys.includes(field.key));
+	const maxViewsNumber = maxViews ? Number(maxViews) : undefined;
+	const maxViewsError =
+		maxViewsNumber !== undefined && (!Number.isInteger(maxViewsNumber) || maxViewsNumber < 1)
+			? "Use a whole number of at least 1"
+			: "";
+	const passphraseError =
+		passphrase && passphrase.length < MIN_SHARE_PASSPHRASE_LENGTH
+			? `Use at least ${MIN_SHARE_PASSPHRASE_LENGTH} characters`
+			: "";
+	const activeShares = (sharesQuery.data ?? []).filter((share) => getShareStatus(share) === "ACTIVE");
+
+	const handleOpenChange = (open: boolean) => {
+		if (open || isCreating) return;
+		onClose();
+		setExcludedKeys([]);
+		setExpiry(DEFAULT_SHARE_EXPIRY);
+		setMaxViews("");
+		setPassphrase("");
+		setShareUrl(null);
+		setIsCopied(false);
+	};
+
+	const toggleField = (key: string, checked: boolean) =>
+		setExcludedKeys((prev) => (checked ? prev.filter((item) => item !== key) : [...prev, key]));
+
+	const handleCreate = async () => {
+		if (!asset || !selectedFields.length || maxViewsError || passphraseError) return;
+		setIsCreating(true);
+		try {
+			// The link carries plaintext, so vault-encrypted values are opened first
+			const opened = await openSecretFields(selectedFields);
+			if (!opened) return;
+			const linkKey = createShareKey();
+			const expiresInMs = SHARE_EXPIRY_OPTIONS.find((option) => option.value === expiry)?.ms ?? 0;
+			const payload = await sealShareContent(
+				{
+					name: asset.name,
+					type: asset.type,
+					fields: opened.map(({ key, type, value, isSecret }) => ({ key, type, value, isSecret })),
+					sharedAt: new Date().toISOString(),
+				},
+				linkKey,
+				passphrase || undefined,
+			);
+			const share = await createMutation.mutateAsync({
+				assetId: asset.id,
+				fieldKeys: opened.map((field) => field.key),
+				expiresAt: new Date(Date.now() + expiresInMs).toISOString(),
+				maxViews: maxViewsNumber,
+				passphraseRequired: !!passphrase,
+				payload,
+			});
+			if (!share?.token) throw new Error("No share token returned");
+			setShareUrl(buildShareUrl(share.token, linkKey));
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to create share link", { position: "top-center" });
+		} finally {
+			setIsCreating(false);
+		}
+	};
+
+	const handleCopy = async () => {
+		if (!shareUrl) return;
+		await navigator.clipboard.writeText(shareUrl);
+		setIsCopied(true);
+		toast.success("Link copied to clipboard", { position: "top-center" });
+		setTimeout(() => setIsCopied(false), 2000);
+	};
+
+	return (
+		<Dialog open={!!asset} onOpenChange={handleOpenChange}>
+			<DialogContent className="sm:max-w-xl">
+				<DialogHeader>
+					<DialogTitle>Share {asset?.name}</DialogTitle>
+					<DialogDescription>
+						Create a read-only link that expires. The values are encrypted in your browser; the key is only part of the
+						link.
+					</DialogDescription>
+				</DialogHeader>
+				{shareUrl ? (
+					<div className="space-y-3">
+						<Label>Share link</Label>
+						<div className="flex items-center gap-2">
+							<Input readOnly value={shareUrl} onFocus={(event) => event.target.select()} />
+							<Button type="button" variant="outline" size="icon" onClick={() => void handleCopy()}>
+								{isCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+							</Button>
+						</div>
+						<div className="rounded-md border border-warning/40 bg-warning/10 px-3 py-2 text-xs">
+							Copy the link now, it cannot be shown again.
+							{passphrase && " Send the passphrase through a different channel."}
+						</div>
+					</div>
+				) : (
+					<div className="space-y-4">
+						<div className="space-y-2">
+							<Label>Fields</Label>
+							{fields.length ? (
+								<div className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2">
+									{fields.map((field) => (
+										<div key={field.key} className="flex items-center gap-2 px-1 py-0.5 text-sm">
+											<Checkbox
+												id={`share-field-${field.key}`}
+												checked={!excludedKeys.includes(field.key)}
+												onCheckedChange={(checked) => toggleField(field.key, checked === true)}
+											/>
+											<Label htmlFor={`share-field-${field.key}`} className="font-normal">
+												{field.key}
+											</Label>
+											{field.isSecret && <span className="text-xs text-muted-foreground">secret</span>}
+										</div>
+									))}
+								</div>
+							) : (
+								<div className="text-xs text-muted-foreground">This asset has no fields to share.</div>
+							)}
+						</div>
+						<div className="grid gap-4 sm:grid-cols-2">
+							<div className="space-y-2">
+								<Label>Expires after</Label>
+								<Select value={expiry} onValueChange={setExpiry}>
+									<SelectTrigger className="w-full">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{SHARE_EXPIRY_OPTIONS.map((option) => (
+											<SelectItem key={option.value} value={option.value}>
+												{option.label}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+							<div className="space-y-2">
+								<Label>Maximum views</Label>
+								<Input
+									type="number"
+									min={1}
+									placeholder="Unlimited"
+									value={maxViews}
+									onChange={(event) => setMaxViews(event.target.value)}
+								/>
+								{maxViewsError && <div className="text-xs text-error">{maxViewsError}</div>}
+							</div>
+						</div>
+						<div className="space-y-2">
+							<Label>Passphrase (optional)</Label>
+							<Input
+								type="password"
+								autoComplete="new-password"
+								value={passphrase}
+								onChange={(event) => setPassphrase(event.target.value)}
+							/>
+							{passphraseError && <div className="text-xs text-error">{passphraseError}</div>}
+						</div>
+					</div>
+				)}
+				<div className="space-y-2">
+					<div className="text-sm font-semibold">Active links for this asset</div>
+					<div className="max-h-48 overflow-y-auto">
+						<ShareLinkList shares={activeShares} emptyText="No active links." />
+					</div>
+				</div>
+				<DialogFooter className="mt-2">
+					<Button type="button" variant="outline" disabled={isCreating} onClick={() => handleOpenChange(false)}>
+						Close
+					</Button>
+					{!shareUrl && (
+						<Button
+							type="button"
+							disabled={isCreating || !selectedFields.length || !!maxViewsError || !!passphraseError}
+							onClick={() => void handleCreate()}
+						>
+							{isCreating ? "Creating..." : "Create link"}
+						</Button>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,88 @@
+import { formatDistanceToNow } from "date-fns";
+import { Lock } from "lucide-react";
+import { toast } from "sonner";
+import type { AssetShare } from "#/entity";
+import { useRevokeAssetShare } from "@/api/services/assetShareService";
+import { Badge } from "@/ui/badge";
+import { Button } from "@/ui/button";
+import { getShareStatus, SHARE_STATUS_BADGE } from "./utils";
+
+type ShareLinkListProps = {
+	shares: AssetShare[];
+	/** Show which asset each link belongs to, for the tenant-wide list */
+	showAsset?: boolean;
+	emptyText?: string;
+};
+
+const formatRelative = (value: string) => {
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? "-" : formatDistanceToNow(date, { addSuffix: true });
+};
+
+export function ShareLinkList({ shares, showAsset, emptyText = "No share links." }: ShareLinkListProps) {
+	const revokeMutation = useRevokeAssetShare();
+
+	const handleRevoke = async (share: AssetShare) => {
+		try {
+			await revokeMutation.mutateAsync(share.id);
+			toast.success("Share link revoked", { position: "top-center" });
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to revoke share link", { position: "top-center" });
+		}
+	};
+
+	if (!shares.length) {
+		return <div className="rounded-md border px-3 py-4 text-center text-xs text-muted-foreground">{emptyText}</div>;
+	}
+
+	return (
+		<div className="space-y-2">
+			{shares.map((share) => {
+				const status = getShareStatus(share);
+				const badge = SHARE_STATUS_BADGE[status];
+				return (
+					<div
+						key={share.id}
+						className="flex flex-wrap items-center justify-between gap-3 rounded-md border px-3 py-2 text-xs"
+					>
+						<div className="min-w-0 space-y-1">
+							<div className="flex items-center gap-2">
+								{showAsset && (
+									<span className="truncate text-sm font-semibold text-foreground">
+										{share.assetName ?? share.assetId}
+									</span>
+								)}
+								<Badge variant={badge.variant}>{badge.label}</Badge>
+								{share.passphraseRequired && <Lock className="h-3 w-3 text-muted-foreground" />}
+							</div>
+							<div className="text-muted-foreground">
+								{share.fieldKeys.length ? share.fieldKeys.join(", ") : "No fields"}
+							</div>
+							<div className="text-muted-foreground">
+								Created {formatRelative(share.createdAt)}
+								{share.createdBy && ` by ${share.createdBy.name || share.createdBy.email || share.createdBy.id}`}
+								{" · "}
+								{status === "EXPIRED" ? "expired" : "expires"} {formatRelative(share.expiresAt)}
+								{" · "}
+								{share.viewCount}
+								{share.maxViews !== undefined ? ` of ${share.maxViews}` : ""} views
+							</div>
+						</div>
+						{status === "ACTIVE" && (
+							<Button
+								type="button"
+								size="sm"
+								variant="outline"
+								disabled={revokeMutation.isPending}
+								onClick={() => void handleRevoke(share)}
+							>
+								Revoke
+							</Button>
+						)}
+					</div>
+				);
+			})}
+		</div>
+	);
+}
@@ -0,0 +1,58 @@
+import { useMemo, useState } from "react";
+import { useAssetShares } from "@/api/services/assetShareService";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Label } from "@/ui/label";
+import { Switch } from "@/ui/switch";
+import { ShareLinkList } from "./share-link-list";
+import { getShareStatus } from "./utils";
+
+type ShareLinksDialogProps = {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+};
+
+/**
+ * Tenant-wide list of share links, for owners to review and revoke
+ */
+export function ShareLinksDialog({ open, onOpenChange }: ShareLinksDialogProps) {
+	const { data, isLoading } = useAssetShares(undefined, open);
+	const [showInactive, setShowInactive] = useState(false);
+
+	const shares = useMemo(
+		() =>
+			[...(data ?? [])]
+				.filter((share) => showInactive || getShareStatus(share) === "ACTIVE")
+				.sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+		[data, showInactive],
+	);
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-2xl">
+				<DialogHeader>
+					<DialogTitle>Share links</DialogTitle>
+					<DialogDescription>
+						Links created for assets of this tenant. Revoked links stop working at once.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="flex items-center justify-end gap-2">
+					<Label htmlFor="share-links-inactive" className="text-xs text-muted-foreground">
+						Show expired and revoked
+					</Label>
+					<Switch id="share-links-inactive" checked={showInactive} onCheckedChange={setShowInactive} />
+				</div>
+				<div className="max-h-[60vh] overflow-y-auto pr-1">
+					{isLoading ? (
+						<div className="py-8 text-center text-sm text-muted-foreground">Loading share links...</div>
+					) : (
+						<ShareLinkList
+							shares={shares}
+							showAsset
+							emptyText={showInactive ? "No share links yet." : "No active share links."}
+						/>
+					)}
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,70 @@
+import type { AssetField, AssetShare } from "#/entity";
+import {
+	decryptWithPassphrase,
+	type EncryptedEnvelope,
+	encryptWithPassphrase,
+	randomBytes,
+	toBase64,
+} from "@/utils/crypto";
+
+export const SHARE_EXPIRY_OPTIONS = [
+	{ value: "1h", label: "1 hour", ms: 60 * 60 * 1000 },
+	{ value: "24h", label: "24 hours", ms: 24 * 60 * 60 * 1000 },
+	{ value: "7d", label: "7 days", ms: 7 * 24 * 60 * 60 * 1000 },
+	{ value: "30d", label: "30 days", ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+export const DEFAULT_SHARE_EXPIRY = "24h";
+
+export const MIN_SHARE_PASSPHRASE_LENGTH = 6;
+
+/**
+ * The decrypted content behind a share link
+ */
+export type SharedAssetContent = {
+	name: string;
+	type: string;
+	fields: Pick<AssetField, "key" | "type" | "value" | "isSecret">[];
+	sharedAt: string;
+};
+
+export type ShareStatus = "ACTIVE" | "EXPIRED" | "REVOKED" | "USED_UP";
+
+export const SHARE_STATUS_BADGE: Record<
+	ShareStatus,
+	{ label: string; variant: "success" | "warning" | "error" | "outline" }
+> = {
+	ACTIVE: { label: "Active", variant: "success" },
+	EXPIRED: { label: "Expired", variant: "outline" },
+	REVOKED: { label: "Revoked", variant: "error" },
+	USED_UP: { label: "Used up", variant: "warning" },
+};
+
+export const getShareStatus = (share: AssetShare, now = Date.now()): ShareStatus => {
+	if (share.revokedAt) return "REVOKED";
+	if (new Date(share.expiresAt).getTime() <= now) return "EXPIRED";
+	if (share.maxViews !== undefined && share.viewCount >= share.maxViews) return "USED_UP";
+	return "ACTIVE";
+};
+
+/** base64url, so the key survives in a URL fragment untouched */
+export const createShareKey = () =>
+	toBase64(randomBytes(24)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+// The optional passphrase is mixed into the link key, so the link alone is not enough
+const toSecret = (linkKey: string, passphrase?: string) => (passphrase ? `${linkKey}:${passphrase}` : linkKey);
+
+export const sealShareContent = (content: SharedAssetContent, linkKey: string, passphrase?: string) =>
+	encryptWithPassphrase(JSON.stringify(content), toSecret(linkKey, passphrase));
+
+/**
+ * @throws Error when the link key or passphrase is wrong
+ */
+export const openShareContent = async (
+	envelope: EncryptedEnvelope,
+	linkKey: string,
+	passphrase?: string,
+): Promise<SharedAssetContent> => JSON.parse(await decryptWithPassphrase(envelope, toSecret(linkKey, passphrase)));
+
+export const buildShareUrl = (token: string, linkKey: string) =>
+	`${window.location.origin}/share/${encodeURIComponent(token)}#${linkKey}`;
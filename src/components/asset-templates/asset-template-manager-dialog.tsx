@@ -0,0 +1,323 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { toast } from "sonner";
+import type { AssetTemplate } from "#/entity";
+import {
+	useAssetTemplates,
+	useCreateAssetTemplate,
+	useDeleteAssetTemplate,
+	useUpdateAssetTemplate,
+} from "@/api/services/assetTemplateService";
+import { Badge } from "@/ui/badge";
+import { Button } from "@/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/ui/form";
+import { Input } from "@/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
+import { Switch } from "@/ui/switch";
+import { cn } from "@/utils";
+import { ASSET_FIELD_TYPES, type AssetTemplateFormValues, assetTemplateSchema, DEFAULT_ASSET_TEMPLATES } from "./utils";
+
+type AssetTemplateManagerDialogProps = {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+};
+
+const EMPTY_TEMPLATE: AssetTemplateFormValues = { name: "", description: "", fields: [] };
+
+const toFormValues = (template: AssetTemplate): AssetTemplateFormValues => ({
+	name: template.name,
+	description: template.description ?? "",
+	fields: template.fields.map((field) => ({ ...field, placeholder: field.placeholder ?? "" })),
+});
+
+export function AssetTemplateManagerDialog({ open, onOpenChange }: AssetTemplateManagerDialogProps) {
+	const { data: templates = [], isLoading } = useAssetTemplates();
+	const createMutation = useCreateAssetTemplate();
+	const updateMutation = useUpdateAssetTemplate();
+	const deleteMutation = useDeleteAssetTemplate();
+	// null while creating a new template
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const [isSeeding, setIsSeeding] = useState(false);
+	const form = useForm<AssetTemplateFormValues>({
+		resolver: zodResolver(assetTemplateSchema),
+		defaultValues: EMPTY_TEMPLATE,
+	});
+	const fieldsArray = useFieldArray({ control: form.control, name: "fields" });
+	const isSaving = createMutation.isPending || updateMutation.isPending;
+
+	const handleSelect = (template: AssetTemplate | null) => {
+		setSelectedId(template?.id ?? null);
+		form.reset(template ? toFormValues(template) : EMPTY_TEMPLATE);
+	};
+
+	const handleOpenChange = (next: boolean) => {
+		onOpenChange(next);
+		if (!next) handleSelect(null);
+	};
+
+	const handleSeedDefaults = async () => {
+		setIsSeeding(true);
+		try {
+			for (const { id: _id, ...template } of DEFAULT_ASSET_TEMPLATES) {
+				await createMutation.mutateAsync(template);
+			}
+			toast.success("Built-in templates added", { position: "top-center" });
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to add built-in templates", { position: "top-center" });
+		} finally {
+			setIsSeeding(false);
+		}
+	};
+
+	const handleSubmit = async (values: AssetTemplateFormValues) => {
+		const name = values.name.trim();
+		if (templates.some((template) => template.name === name && template.id !== selectedId)) {
+			form.setError("name", { message: "A template with this name already exists" });
+			return;
+		}
+		const data = {
+			name,
+			description: values.description?.trim() || undefined,
+			fields: values.fields.map((field) => ({
+				...field,
+				key: field.key.trim(),
+				placeholder: field.placeholder?.trim() || undefined,
+			})),
+		};
+		try {
+			if (selectedId) {
+				await updateMutation.mutateAsync({ id: selectedId, data });
+				toast.success("Template updated", { position: "top-center" });
+			} else {
+				const created = await createMutation.mutateAsync(data);
+				if (created) handleSelect(created);
+				toast.success("Template created", { position: "top-center" });
+			}
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to save template", { position: "top-center" });
+		}
+	};
+
+	const handleDelete = async () => {
+		if (!selectedId) return;
+		try {
+			await deleteMutation.mutateAsync(selectedId);
+			handleSelect(null);
+			toast.success("Template deleted. Existing assets keep their type.", { position: "top-center" });
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to delete template", { position: "top-center" });
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent className="sm:max-w-5xl">
+				<DialogHeader>
+					<DialogTitle>Asset templates</DialogTitle>
+					<DialogDescription>
+						Templates define the asset types of this tenant and the fields each one starts with.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="grid gap-4 md:grid-cols-[220px_1fr]">
+					<div className="max-h-[60vh] space-y-2 overflow-y-auto pr-1">
+						<Button
+							type="button"
+							variant={selectedId ? "outline" : "secondary"}
+							size="sm"
+							className="w-full"
+							onClick={() => handleSelect(null)}
+						>
+							<Plus className="mr-1 h-3 w-3" />
+							New template
+						</Button>
+						{isLoading && <div className="text-xs text-muted-foreground">Loading templates...</div>}
+						{!isLoading && !templates.length && (
+							<div className="space-y-2 rounded-md border p-3 text-xs text-muted-foreground">
+								<div>No templates yet, the built-in GENERAL, CREDENTIALS, FILES and LINKS types are used.</div>
+								<Button
+									type="button"
+									size="sm"
+									variant="outline"
+									disabled={isSeeding}
+									onClick={() => void handleSeedDefaults()}
+								>
+									{isSeeding ? "Adding..." : "Start from built-ins"}
+								</Button>
+							</div>
+						)}
+						{templates.map((template) => (
+							<button
+								key={template.id}
+								type="button"
+								onClick={() => handleSelect(template)}
+								className={cn(
+									"w-full rounded-md border px-3 py-2 text-left text-xs transition",
+									template.id === selectedId ? "border-primary/40 bg-primary/10" : "hover:border-primary/30",
+								)}
+							>
+								<div className="text-sm font-semibold text-foreground">{template.name}</div>
+								<div className="text-muted-foreground">
+									{template.fields.length} fields, {template.fields.filter((field) => field.required).length} required
+								</div>
+							</button>
+						))}
+					</div>
+					<Form {...form}>
+						<form className="min-w-0 space-y-4" onSubmit={form.handleSubmit(handleSubmit)}>
+							<div className="grid gap-4 md:grid-cols-2">
+								<FormField
+									control={form.control}
+									name="name"
+									render={({ field }) => (
+										<FormItem>
+											<FormLabel>Name</FormLabel>
+											<FormControl>
+												<Input placeholder="Domain" {...field} />
+											</FormControl>
+											<FormMessage />
+										</FormItem>
+									)}
+								/>
+								<FormField
+									control={form.control}
+									name="description"
+									render={({ field }) => (
+										<FormItem>
+											<FormLabel>Description</FormLabel>
+											<FormControl>
+												<Input placeholder="Registrar login and renewal details" {...field} />
+											</FormControl>
+										</FormItem>
+									)}
+								/>
+							</div>
+							<div className="flex items-center justify-between">
+								<div className="text-sm font-semibold">Fields</div>
+								<Button
+									type="button"
+									size="sm"
+									variant="outline"
+									onClick={() => fieldsArray.append({ key: "", type: "TEXT", required: false, isSecret: false })}
+								>
+									Add Field
+								</Button>
+							</div>
+							<div className="max-h-[40vh] space-y-2 overflow-y-auto">
+								{!fieldsArray.fields.length && (
+									<div className="rounded-md border px-3 py-4 text-center text-xs text-muted-foreground">
+										No predefined fields. Users add their own.
+									</div>
+								)}
+								{fieldsArray.fields.map((fieldItem, index) => (
+									<div
+										key={fieldItem.id}
+										className="grid items-start gap-3 rounded-md border p-3 md:grid-cols-[1.2fr_1fr_1.2fr_auto_auto_auto]"
+									>
+										<FormField
+											control={form.control}
+											name={`fields.${index}.key`}
+											render={({ field }) => (
+												<FormItem>
+													<FormControl>
+														<Input placeholder="registrar" {...field} />
+													</FormControl>
+													<FormMessage />
+												</FormItem>
+											)}
+										/>
+										<FormField
+											control={form.control}
+											name={`fields.${index}.type`}
+											render={({ field }) => (
+												<FormItem>
+													<Select value={field.value} onValueChange={field.onChange}>
+														<FormControl>
+															<SelectTrigger className="w-full">
+																<SelectValue />
+															</SelectTrigger>
+														</FormControl>
+														<SelectContent>
+															{ASSET_FIELD_TYPES.map((type) => (
+																<SelectItem key={type} value={type}>
+																	{type}
+																</SelectItem>
+															))}
+														</SelectContent>
+													</Select>
+												</FormItem>
+											)}
+										/>
+										<FormField
+											control={form.control}
+											name={`fields.${index}.placeholder`}
+											render={({ field }) => (
+												<FormItem>
+													<FormControl>
+														<Input placeholder="Placeholder" {...field} value={field.value ?? ""} />
+													</FormControl>
+												</FormItem>
+											)}
+										/>
+										<FormField
+											control={form.control}
+											name={`fields.${index}.required`}
+											render={({ field }) => (
+												<FormItem className="flex items-center gap-2 pt-2">
+													<FormControl>
+														<Switch checked={field.value} onCheckedChange={field.onChange} />
+													</FormControl>
+													<span className="text-xs text-muted-foreground">Required</span>
+												</FormItem>
+											)}
+										/>
+										<FormField
+											control={form.control}
+											name={`fields.${index}.isSecret`}
+											render={({ field }) => (
+												<FormItem className="flex items-center gap-2 pt-2">
+													<FormControl>
+														<Switch checked={field.value} onCheckedChange={field.onChange} />
+													</FormControl>
+													<span className="text-xs text-muted-foreground">Secret</span>
+												</FormItem>
+											)}
+										/>
+										<Button type="button" variant="ghost" size="icon" onClick={() => fieldsArray.remove(index)}>
+											<Trash2 className="h-4 w-4" />
+										</Button>
+									</div>
+								))}
+							</div>
+							<div className="flex flex-wrap items-center justify-between gap-2">
+								<div>
+									{selectedId && (
+										<Button
+											type="button"
+											variant="destructive"
+											disabled={deleteMutation.isPending}
+											onClick={() => void handleDelete()}
+										>
+											Delete template
+										</Button>
+									)}
+								</div>
+								<div className="flex items-center gap-2">
+									{selectedId && <Badge variant="outline">Editing</Badge>}
+									<Button type="submit" disabled={isSaving}>
+										{isSaving ? "Saving..." : selectedId ? "Save template" : "Create template"}
+									</Button>
+								</div>
+							</div>
+						</form>
+					</Form>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
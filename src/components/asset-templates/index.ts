@@ -0,0 +1,2 @@
+export * from "./asset-template-manager-dialog";
+export * from "./utils";
@@ -0,0 +1,145 @@
+import { z } from "zod";
+import type { AssetField, AssetTemplate, AssetTemplateField } from "#/entity";
+
+export const ASSET_FIELD_TYPES = ["TEXT", "USERNAME", "PASSWORD", "URL", "EMAIL", "NOTE", "NUMBER", "TOTP"];
+
+/**
+ * Used until the tenant defines its own templates; matches the asset types that existed before templates
+ */
+export const DEFAULT_ASSET_TEMPLATES: AssetTemplate[] = [
+	{ id: "builtin-general", name: "GENERAL", fields: [] },
+	{
+		id: "builtin-credentials",
+		name: "CREDENTIALS",
+		description: "Login for a website or service",
+		fields: [
+			{ key: "username", type: "USERNAME", required: true, isSecret: false },
+			{ key: "password", type: "PASSWORD", required: true, isSecret: true },
+			{ key: "portal", type: "URL", required: false, isSecret: false, placeholder: "https://example.com" },
+		],
+	},
+	{ id: "builtin-files", name: "FILES", fields: [] },
+	{
+		id: "builtin-links",
+		name: "LINKS",
+		fields: [{ key: "url", type: "URL", required: true, isSecret: false, placeholder: "https://example.com" }],
+	},
+];
+
+export const resolveAssetTemplates = (templates?: AssetTemplate[]) =>
+	templates?.length ? templates : DEFAULT_ASSET_TEMPLATES;
+
+export const findAssetTemplate = (templates: AssetTemplate[] | undefined, type: string) =>
+	resolveAssetTemplates(templates).find((template) => template.name === type);
+
+export const findTemplateField = (template: AssetTemplate | undefined, key: string) =>
+	template?.fields.find((field) => field.key === key.trim());
+
+/** Tenant and showroom asset forms type `isSecret` slightly differently */
+type TemplateFormField = Pick<AssetField, "key" | "type" | "value"> & { isSecret?: boolean };
+
+const toAssetField = (field: AssetTemplateField): AssetField => ({
+	key: field.key,
+	type: field.type,
+	value: "",
+	isSecret: field.isSecret,
+});
+
+/**
+ * Template fields first (keeping values already typed for the same key), then any other non-empty fields
+ */
+export const applyTemplateFields = <T extends TemplateFormField>(
+	template: AssetTemplate | undefined,
+	fields: T[],
+): (T | AssetField)[] => {
+	if (!template) return fields;
+	const byKey = new Map(fields.filter((field) => field.key.trim()).map((field) => [field.key.trim(), field]));
+	const templated = template.fields.map((field) => {
+		const existing = byKey.get(field.key);
+		return existing ? { ...existing, type: field.type } : toAssetField(field);
+	});
+	const rest = fields.filter((field) => (field.key.trim() || field.value) && !findTemplateField(template, field.key));
+	return [...templated, ...rest];
+};
+
+export const assetFieldSchema = z.object({
+	key: z.string(),
+	type: z.string(),
+	value: z.string(),
+	isSecret: z.boolean(),
+});
+
+const VALUE_SCHEMAS: Record<string, { schema: z.ZodTypeAny; message: string }> = {
+	URL: { schema: z.string().url(), message: "Enter a valid URL" },
+	EMAIL: { schema: z.string().email(), message: "Enter a valid email" },
+	NUMBER: { schema: z.coerce.number().finite(), message: "Enter a number" },
+};
+
+/**
+ * Zod refinement for an asset's field list: keys are set and unique, values match their type,
+ * and every required template field has a value
+ */
+export const refineTemplateFields = (
+	fields: TemplateFormField[],
+	template: AssetTemplate | undefined,
+	ctx: z.RefinementCtx,
+	path: (string | number)[] = ["fields"],
+) => {
+	const seen = new Set<string>();
+	fields.forEach((field, index) => {
+		const key = field.key.trim();
+		const value = field.value.trim();
+		if (!key && !value) return;
+		if (!key) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Key is required", path: [...path, index, "key"] });
+			return;
+		}
+		if (seen.has(key)) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Duplicate key", path: [...path, index, "key"] });
+		}
+		seen.add(key);
+		const templateField = findTemplateField(template, key);
+		if (templateField?.required && !value) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Required", path: [...path, index, "value"] });
+		}
+		const valueSchema = VALUE_SCHEMAS[field.type];
+		if (value && valueSchema && !valueSchema.schema.safeParse(value).success) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: valueSchema.message, path: [...path, index, "value"] });
+		}
+	});
+
+	const missing = template?.fields.filter((field) => field.required && !seen.has(field.key)) ?? [];
+	if (missing.length) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: `${template?.name} requires ${missing.map((field) => field.key).join(", ")}`,
+			path,
+		});
+	}
+};
+
+export const assetTemplateSchema = z
+	.object({
+		name: z.string().trim().min(1, "Name is required"),
+		description: z.string().optional(),
+		fields: z.array(
+			z.object({
+				key: z.string().trim().min(1, "Key is required"),
+				type: z.string().min(1),
+				required: z.boolean(),
+				isSecret: z.boolean(),
+				placeholder: z.string().optional(),
+			}),
+		),
+	})
+	.superRefine((template, ctx) => {
+		const seen = new Set<string>();
+		template.fields.forEach((field, index) => {
+			if (seen.has(field.key.trim())) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Duplicate key", path: ["fields", index, "key"] });
+			}
+			seen.add(field.key.trim());
+		});
+	});
+
+export type AssetTemplateFormValues = z.infer<typeof assetTemplateSchema>;
@@ -0,0 +1,4 @@
+export * from "./showroom-picker";
+export * from "./transfer-asset-dialog";
+export * from "./transfer-menu";
+export * from "./utils";
@@ -0,0 +1,104 @@
+import { Search } from "lucide-react";
+import { useMemo, useState } from "react";
+import type { Showroom } from "#/entity";
+import { getShowroomId, useAllShowrooms } from "@/api/services/showroomService";
+import { Button } from "@/ui/button";
+import { Checkbox } from "@/ui/checkbox";
+import { Input } from "@/ui/input";
+import { Label } from "@/ui/label";
+
+type ShowroomPickerProps = {
+	/** Selected showroom ids */
+	value: string[];
+	onChange: (value: string[]) => void;
+	/** The showroom the assets already live in */
+	excludeId?: string;
+	disabled?: boolean;
+};
+
+export type PickableShowroom = Showroom & { id: string };
+
+/**
+ * Showrooms that can be picked, keyed by their resolved id
+ */
+export const usePickableShowrooms = (excludeId?: string, enabled = true) => {
+	const query = useAllShowrooms(enabled);
+	const showrooms = useMemo(
+		() =>
+			(query.data ?? []).flatMap((showroom): PickableShowroom[] => {
+				const id = getShowroomId(showroom);
+				return id && id !== excludeId ? [{ ...showroom, id }] : [];
+			}),
+		[query.data, excludeId],
+	);
+	return { showrooms, isLoading: query.isLoading };
+};
+
+export function ShowroomPicker({ value, onChange, excludeId, disabled }: ShowroomPickerProps) {
+	const { showrooms, isLoading } = usePickableShowrooms(excludeId);
+	const [search, setSearch] = useState("");
+
+	const visible = showrooms.filter((showroom) => {
+		const query = search.trim().toLowerCase();
+		return !query || showroom.name.toLowerCase().includes(query) || showroom.location?.toLowerCase().includes(query);
+	});
+	const allVisibleSelected = !!visible.length && visible.every((showroom) => value.includes(showroom.id));
+
+	const toggle = (id: string, checked: boolean) =>
+		onChange(checked ? [...value, id] : value.filter((item) => item !== id));
+
+	const toggleVisible = () => {
+		const ids = visible.map((showroom) => showroom.id);
+		onChange(allVisibleSelected ? value.filter((id) => !ids.includes(id)) : [...new Set([...value, ...ids])]);
+	};
+
+	if (isLoading) {
+		return <div className="py-4 text-center text-xs text-muted-foreground">Loading showrooms...</div>;
+	}
+	if (!showrooms.length) {
+		return <div className="py-4 text-center text-xs text-muted-foreground">No other showrooms available.</div>;
+	}
+
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center gap-2">
+				<div className="relative flex-1">
+					<Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+					<Input
+						className="h-9 pl-9"
+						placeholder="Search showrooms..."
+						value={search}
+						disabled={disabled}
+						onChange={(event) => setSearch(event.target.value)}
+					/>
+				</div>
+				<Button type="button" variant="ghost" size="sm" disabled={disabled || !visible.length} onClick={toggleVisible}>
+					{allVisibleSelected ? "Clear" : "Select all"}
+				</Button>
+			</div>
+			<div className="max-h-56 space-y-1 overflow-y-auto rounded-md border p-2">
+				{visible.length ? (
+					visible.map((showroom) => (
+						<div key={showroom.id} className="flex items-center gap-2 px-1 py-0.5 text-sm">
+							<Checkbox
+								id={`showroom-pick-${showroom.id}`}
+								checked={value.includes(showroom.id)}
+								disabled={disabled}
+								onCheckedChange={(checked) => toggle(showroom.id, checked === true)}
+							/>
+							<Label htmlFor={`showroom-pick-${showroom.id}`} className="font-normal">
+								{showroom.name}
+							</Label>
+							{showroom.location && <span className="truncate text-xs text-muted-foreground">{showroom.location}</span>}
+						</div>
+					))
+				) : (
+					<div className="py-2 text-center text-xs text-muted-foreground">No showrooms match your search.</div>
+				)}
+			</div>
+			<div className="text-xs text-muted-foreground">
+				{value.length} {value.length === 1 ? "showroom" : "showrooms"} selected
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,130 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { toast } from "sonner";
+import { assetKeys } from "@/api/services/assetService";
+import { Button } from "@/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Label } from "@/ui/label";
+import { Switch } from "@/ui/switch";
+import { ShowroomPicker, usePickableShowrooms } from "./showroom-picker";
+import { TRANSFER_MODE_LABELS, type TransferMode, transferAsset } from "./utils";
+
+export type TransferTarget = {
+	mode: TransferMode;
+	asset: { id: string; name: string };
+};
+
+type TransferAssetDialogProps = {
+	/** The dialog is open while a target is set */
+	target: TransferTarget | null;
+	/** Set when the asset lives in a showroom, omitted for tenant assets */
+	sourceShowroomId?: string;
+	onClose: () => void;
+	/** Called after a successful transfer, so the caller can refresh lists it manages itself */
+	onTransferred?: (mode: TransferMode) => void;
+};
+
+const getDescription = (mode: TransferMode, name: string) => {
+	switch (mode) {
+		case "COPY":
+			return `Copy ${name} into each selected showroom. The original stays where it is.`;
+		case "MOVE":
+			return `Copy ${name} into each selected showroom, then remove the original.`;
+		default:
+			return `Copy ${name} into the tenant vault.`;
+	}
+};
+
+export function TransferAssetDialog({ target, sourceShowroomId, onClose, onTransferred }: TransferAssetDialogProps) {
+	const queryClient = useQueryClient();
+	const [showroomIds, setShowroomIds] = useState<string[]>([]);
+	const [removeSource, setRemoveSource] = useState(false);
+	const [isRunning, setIsRunning] = useState(false);
+	const mode = target?.mode;
+	const { showrooms } = usePickableShowrooms(sourceShowroomId, !!target && mode !== "PROMOTE");
+
+	const handleOpenChange = (open: boolean) => {
+		if (open || isRunning) return;
+		onClose();
+		setShowroomIds([]);
+		setRemoveSource(false);
+	};
+
+	const handleSubmit = async () => {
+		if (!target || !mode) return;
+		const destinations =
+			mode === "PROMOTE"
+				? [{}]
+				: showrooms
+						.filter((showroom) => showroomIds.includes(showroom.id))
+						.map((showroom) => ({ showroomId: showroom.id, name: showroom.name }));
+		if (!destinations.length) return;
+		setIsRunning(true);
+		try {
+			await transferAsset(
+				target.asset.id,
+				{ showroomId: sourceShowroomId },
+				destinations,
+				mode === "MOVE" || (mode === "PROMOTE" && removeSource),
+			);
+			toast.success(
+				mode === "PROMOTE"
+					? `${target.asset.name} promoted to a tenant asset`
+					: `${target.asset.name} ${mode === "MOVE" ? "moved" : "copied"} to ${destinations.length} ${destinations.length === 1 ? "showroom" : "showrooms"}`,
+				{ position: "top-center" },
+			);
+			await queryClient.invalidateQueries({ queryKey: assetKeys.all });
+			onTransferred?.(mode);
+			setIsRunning(false);
+			handleOpenChange(false);
+		} catch (error) {
+			console.error(error);
+			toast.error(error instanceof Error ? error.message : "Transfer failed", { position: "top-center" });
+			setIsRunning(false);
+		}
+	};
+
+	return (
+		<Dialog open={!!target} onOpenChange={handleOpenChange}>
+			<DialogContent className="sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle>{mode ? TRANSFER_MODE_LABELS[mode] : ""}</DialogTitle>
+					<DialogDescription>
+						{target && mode ? getDescription(mode, target.asset.name) : ""} Fields, tags, expiration settings and
+						attached files are carried across.
+					</DialogDescription>
+				</DialogHeader>
+				{mode === "PROMOTE" ? (
+					<div className="flex items-center justify-between rounded-md border px-3 py-2">
+						<Label htmlFor="transfer-remove-source">Remove from this showroom afterwards</Label>
+						<Switch
+							id="transfer-remove-source"
+							checked={removeSource}
+							disabled={isRunning}
+							onCheckedChange={setRemoveSource}
+						/>
+					</div>
+				) : (
+					<ShowroomPicker
+						value={showroomIds}
+						onChange={setShowroomIds}
+						excludeId={sourceShowroomId}
+						disabled={isRunning}
+					/>
+				)}
+				<DialogFooter className="mt-4">
+					<Button type="button" variant="outline" disabled={isRunning} onClick={() => handleOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button
+						type="button"
+						disabled={isRunning || (mode !== "PROMOTE" && !showroomIds.length)}
+						onClick={() => void handleSubmit()}
+					>
+						{isRunning ? "Working..." : mode ? TRANSFER_MODE_LABELS[mode] : ""}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
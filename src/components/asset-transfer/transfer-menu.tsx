@@ -0,0 +1,33 @@
+import { ChevronDown } from "lucide-react";
+import { Button } from "@/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/ui/dropdown-menu";
+import { TRANSFER_MODE_LABELS, type TransferMode } from "./utils";
+
+type TransferMenuProps = {
+	modes: TransferMode[];
+	onSelect: (mode: TransferMode) => void;
+};
+
+/**
+ * Row action listing the transfers available for an asset
+ */
+export function TransferMenu({ modes, onSelect }: TransferMenuProps) {
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button type="button" variant="outline" size="sm">
+					Transfer
+					<ChevronDown className="ml-1 h-3 w-3" />
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="end">
+				{modes.map((mode) => (
+					<DropdownMenuItem key={mode} onClick={() => onSelect(mode)}>
+						{TRANSFER_MODE_LABELS[mode]}
+						{mode === "PROMOTE" ? "" : "…"}
+					</DropdownMenuItem>
+				))}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
@@ -0,0 +1,78 @@
+import type { Asset } from "#/entity";
+import assetService, {
+	type AssetFileUpload,
+	type AssetRequestOptions,
+	type AssetScope,
+	toAssetPayload,
+} from "@/api/services/assetService";
+
+export type TransferMode = "COPY" | "MOVE" | "PROMOTE";
+
+export const TRANSFER_MODE_LABELS: Record<TransferMode, string> = {
+	COPY: "Copy to showroom",
+	MOVE: "Move to showroom",
+	PROMOTE: "Promote to tenant asset",
+};
+
+/** Showroom assets come back with Mongo's `_id` and may carry a description */
+type TransferableAsset = Asset & { _id?: string; description?: string };
+
+const getTransferAssetId = (asset: TransferableAsset | undefined) => asset?.id ?? asset?._id;
+
+/** Where a copy goes; `name` labels the showroom in error messages */
+export type TransferDestination = AssetScope & { name?: string };
+
+const describeDestination = ({ showroomId, name }: TransferDestination) =>
+	showroomId ? (name ?? `showroom ${showroomId}`) : "the vault";
+
+const toErrorMessage = (error: unknown) => (error instanceof Error ? error.message : "Request failed");
+
+/**
+ * Recreate an asset with its fields, tags, expiration settings and files (in their folders) in every destination,
+ * then delete the source when `removeSource` is set and every copy succeeded.
+ * Secret values are copied as stored, so they stay sealed with the tenant vault key.
+ */
+export const transferAsset = async (
+	id: string,
+	from: AssetScope,
+	to: TransferDestination[],
+	removeSource: boolean,
+	options: AssetRequestOptions = {},
+) => {
+	const asset: TransferableAsset = await assetService.getAsset(id, from, options);
+	// Uploads are separate per collection, so attachments are downloaded once and uploaded to each destination
+	const files: AssetFileUpload[] = [];
+	for (const file of asset.files ?? []) {
+		const blob = await assetService.downloadAssetFile(file, undefined, options);
+		const name = file.originalName ?? file.filename ?? "file";
+		files.push({ file: new File([blob], name, { type: file.mimeType || blob.type }), folderPath: file.folderPath });
+	}
+
+	const failures: string[] = [];
+	for (const destination of to) {
+		const scope = { showroomId: destination.showroomId };
+		try {
+			// Only showroom assets have a description
+			const payload = scope.showroomId
+				? { ...toAssetPayload(asset), description: asset.description }
+				: toAssetPayload(asset);
+			const createdId = getTransferAssetId(await assetService.createAsset(payload, scope, options));
+			if (!createdId) throw new Error("No asset id returned");
+			if (files.length) {
+				try {
+					await assetService.uploadAssetFiles({ id: createdId, files, scope, ...options });
+				} catch (error) {
+					throw new Error(`copied without files (${toErrorMessage(error)})`);
+				}
+			}
+		} catch (error) {
+			failures.push(`${describeDestination(destination)}: ${toErrorMessage(error)}`);
+		}
+	}
+
+	if (failures.length) {
+		const kept = removeSource ? ", original kept" : "";
+		throw new Error(`Failed for ${failures.length} of ${to.length}${kept} (${failures.join("; ")})`);
+	}
+	if (removeSource) await assetService.deleteAsset(id, from, options);
+};
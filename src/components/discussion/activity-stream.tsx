@@ -0,0 +1,59 @@
+import { formatDistanceToNow } from "date-fns";
+import { CalendarClock, FilePlus, FileX, type LucideIcon, Pencil, Sparkles } from "lucide-react";
+import { useMemo } from "react";
+import type { ActivityAction } from "#/entity";
+import { type DiscussionTarget, useActivity } from "@/api/services/discussionService";
+import { describeActivity, getAuthorName } from "./utils";
+
+type ActivityStreamProps = {
+	target: DiscussionTarget;
+};
+
+const ACTIVITY_ICONS: Record<ActivityAction, LucideIcon> = {
+	CREATED: Sparkles,
+	UPDATED: Pencil,
+	FILE_UPLOADED: FilePlus,
+	FILE_DELETED: FileX,
+	EXPIRATION_CHANGED: CalendarClock,
+};
+
+/**
+ * Changes recorded by the server, newest first
+ */
+export function ActivityStream({ target }: ActivityStreamProps) {
+	const { data, isLoading, isError } = useActivity(target);
+	const events = useMemo(() => [...(data ?? [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt)), [data]);
+
+	if (isLoading) {
+		return <div className="py-6 text-center text-sm text-muted-foreground">Loading activity...</div>;
+	}
+	if (isError) {
+		return <div className="py-6 text-center text-sm text-muted-foreground">Failed to load activity.</div>;
+	}
+	if (!events.length) {
+		return <div className="py-6 text-center text-sm text-muted-foreground">No activity recorded yet.</div>;
+	}
+
+	return (
+		<ol className="max-h-[55vh] space-y-3 overflow-y-auto border-l pl-4 pr-1">
+			{events.map((event) => {
+				const Icon = ACTIVITY_ICONS[event.action] ?? Pencil;
+				const date = new Date(event.createdAt);
+				return (
+					<li key={event.id} className="relative text-xs">
+						<span className="absolute -left-[25px] top-0 rounded-full border bg-background p-1">
+							<Icon className="h-3 w-3 text-muted-foreground" />
+						</span>
+						<div className="text-sm text-foreground">{describeActivity(event)}</div>
+						<div className="text-muted-foreground">
+							{getAuthorName(event.user)}
+							{!Number.isNaN(date.getTime()) && (
+								<span title={date.toLocaleString()}> · {formatDistanceToNow(date, { addSuffix: true })}</span>
+							)}
+						</div>
+					</li>
+				);
+			})}
+		</ol>
+	);
+}
@@ -0,0 +1,133 @@
+import { formatDistanceToNow } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import type { DiscussionComment } from "#/entity";
+import {
+	type DiscussionTarget,
+	useComments,
+	useCreateComment,
+	useDeleteComment,
+} from "@/api/services/discussionService";
+import { useTenantUsers } from "@/api/services/userService";
+import { useUserInfo } from "@/store/userStore";
+import { Button } from "@/ui/button";
+import { MentionTextarea } from "./mention-textarea";
+import { extractMentionIds, getAuthorName, splitMentions } from "./utils";
+
+type CommentThreadProps = {
+	target: DiscussionTarget;
+};
+
+const formatTimeAgo = (value: string) => {
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? "" : formatDistanceToNow(date, { addSuffix: true });
+};
+
+/**
+ * Comments, oldest first, with a composer that @mentions tenant users
+ */
+export function CommentThread({ target }: CommentThreadProps) {
+	const { id: userId } = useUserInfo();
+	const { data, isLoading, isError } = useComments(target);
+	const { data: users = [] } = useTenantUsers();
+	const createMutation = useCreateComment(target);
+	const deleteMutation = useDeleteComment(target);
+	const [draft, setDraft] = useState("");
+
+	const comments = useMemo(() => [...(data ?? [])].sort((a, b) => a.createdAt.localeCompare(b.createdAt)), [data]);
+	const usernamesById = useMemo(() => new Map(users.map((user) => [user.id, user.username.toLowerCase()])), [users]);
+
+	const handleSubmit = async () => {
+		const body = draft.trim();
+		if (!body || createMutation.isPending) return;
+		try {
+			await createMutation.mutateAsync({ body, mentions: extractMentionIds(body, users) });
+			setDraft("");
+		} catch (error) {
+			console.error(error);
+		}
+	};
+
+	const handleDelete = async (comment: DiscussionComment) => {
+		try {
+			await deleteMutation.mutateAsync(comment.id);
+			toast.success("Comment deleted", { position: "top-center" });
+		} catch (error) {
+			console.error(error);
+		}
+	};
+
+	const renderBody = (comment: DiscussionComment) => {
+		const mentioned = new Set(comment.mentions?.map((id) => usernamesById.get(id)));
+		return splitMentions(comment.body).map((part, index) =>
+			part.username && mentioned.has(part.username) ? (
+				<span key={`${part.text}-${index}`} className="rounded bg-primary/10 px-0.5 font-medium text-primary">
+					{part.text}
+				</span>
+			) : (
+				part.text
+			),
+		);
+	};
+
+	return (
+		<div className="space-y-3">
+			{isLoading ? (
+				<div className="py-6 text-center text-sm text-muted-foreground">Loading comments...</div>
+			) : isError ? (
+				<div className="py-6 text-center text-sm text-muted-foreground">Failed to load comments.</div>
+			) : comments.length ? (
+				<div className="max-h-[45vh] space-y-2 overflow-y-auto pr-1">
+					{comments.map((comment) => (
+						<div key={comment.id} className="group rounded-md border px-3 py-2">
+							<div className="flex items-center justify-between gap-2 text-xs">
+								<div className="min-w-0 truncate">
+									<span className="font-semibold text-foreground">{getAuthorName(comment.author)}</span>
+									<span className="ml-2 text-muted-foreground">{formatTimeAgo(comment.createdAt)}</span>
+								</div>
+								{comment.author?.id && comment.author.id === userId && (
+									<Button
+										type="button"
+										variant="ghost"
+										size="icon"
+										className="h-6 w-6 opacity-0 group-hover:opacity-100"
+										title="Delete comment"
+										disabled={deleteMutation.isPending}
+										onClick={() => void handleDelete(comment)}
+									>
+										<Trash2 className="h-3.5 w-3.5" />
+									</Button>
+								)}
+							</div>
+							<div className="mt-1 whitespace-pre-wrap break-words text-sm">{renderBody(comment)}</div>
+						</div>
+					))}
+				</div>
+			) : (
+				<div className="py-6 text-center text-sm text-muted-foreground">No comments yet. Start the discussion.</div>
+			)}
+			<div className="space-y-2">
+				<MentionTextarea
+					value={draft}
+					onChange={setDraft}
+					users={users}
+					onSubmit={() => void handleSubmit()}
+					placeholder="Write a comment, use @ to mention someone"
+					disabled={createMutation.isPending}
+				/>
+				<div className="flex items-center justify-between gap-2">
+					<span className="text-xs text-muted-foreground">Mentioned users get a notification.</span>
+					<Button
+						type="button"
+						size="sm"
+						disabled={!draft.trim() || createMutation.isPending}
+						onClick={() => void handleSubmit()}
+					>
+						{createMutation.isPending ? "Posting..." : "Comment"}
+					</Button>
+				</div>
+			</div>
+		</div>
+	);
+}
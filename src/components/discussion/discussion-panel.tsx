@@ -0,0 +1,25 @@
+import type { DiscussionTarget } from "@/api/services/discussionService";
+import { ActivityStream } from "./activity-stream";
+import { CommentThread } from "./comment-thread";
+
+type DiscussionPanelProps = {
+	target: DiscussionTarget;
+};
+
+/**
+ * Comment thread next to the activity stream, for the view dialogs
+ */
+export function DiscussionPanel({ target }: DiscussionPanelProps) {
+	return (
+		<div className="grid gap-6 lg:grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)]">
+			<div className="min-w-0 space-y-3">
+				<div className="text-xs font-semibold uppercase text-muted-foreground">Comments</div>
+				<CommentThread target={target} />
+			</div>
+			<div className="min-w-0 space-y-3">
+				<div className="text-xs font-semibold uppercase text-muted-foreground">Activity</div>
+				<ActivityStream target={target} />
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,5 @@
+export * from "./activity-stream";
+export * from "./comment-thread";
+export * from "./discussion-panel";
+export * from "./mention-textarea";
+export * from "./utils";
@@ -0,0 +1,108 @@
+import { type KeyboardEvent, useRef, useState } from "react";
+import type { TenantUser } from "@/api/services/userService";
+import { Textarea } from "@/ui/textarea";
+import { cn } from "@/utils";
+import { findMentionCandidates, getMentionQuery, getTenantUserName, insertMention } from "./utils";
+
+type MentionTextareaProps = {
+	value: string;
+	onChange: (value: string) => void;
+	users: TenantUser[];
+	/** Ctrl/Cmd+Enter, unless the mention list is open */
+	onSubmit?: () => void;
+	placeholder?: string;
+	disabled?: boolean;
+};
+
+/**
+ * Textarea that suggests tenant users after `@`; pick one with the arrow keys and Enter or Tab, or with the mouse
+ */
+export function MentionTextarea({ value, onChange, users, onSubmit, placeholder, disabled }: MentionTextareaProps) {
+	const textareaRef = useRef<HTMLTextAreaElement>(null);
+	const [query, setQuery] = useState<string | null>(null);
+	const [activeIndex, setActiveIndex] = useState(0);
+	const candidates = query === null ? [] : findMentionCandidates(users, query);
+
+	const updateQuery = (text: string, caret: number) => {
+		setQuery(getMentionQuery(text, caret));
+		setActiveIndex(0);
+	};
+
+	const pick = (user: TenantUser) => {
+		const textarea = textareaRef.current;
+		if (!textarea) return;
+		const next = insertMention(value, textarea.selectionStart, user.username);
+		onChange(next.value);
+		setQuery(null);
+		requestAnimationFrame(() => {
+			textarea.focus();
+			textarea.setSelectionRange(next.caret, next.caret);
+		});
+	};
+
+	const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+		if (candidates.length) {
+			if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+				event.preventDefault();
+				const step = event.key === "ArrowDown" ? 1 : -1;
+				setActiveIndex((index) => (index + step + candidates.length) % candidates.length);
+				return;
+			}
+			if (event.key === "Enter" || event.key === "Tab") {
+				event.preventDefault();
+				pick(candidates[activeIndex] ?? candidates[0]);
+				return;
+			}
+			if (event.key === "Escape") {
+				// Close the list without closing the surrounding dialog
+				event.preventDefault();
+				event.stopPropagation();
+				setQuery(null);
+				return;
+			}
+		}
+		if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+			event.preventDefault();
+			onSubmit?.();
+		}
+	};
+
+	return (
+		<div className="relative">
+			<Textarea
+				ref={textareaRef}
+				value={value}
+				disabled={disabled}
+				placeholder={placeholder}
+				className="min-h-20 text-sm"
+				onChange={(event) => {
+					onChange(event.target.value);
+					updateQuery(event.target.value, event.target.selectionStart);
+				}}
+				onKeyDown={handleKeyDown}
+				onClick={(event) => updateQuery(value, event.currentTarget.selectionStart)}
+				onBlur={() => setQuery(null)}
+			/>
+			{candidates.length > 0 && (
+				<div className="absolute bottom-full left-0 z-50 mb-1 w-64 overflow-hidden rounded-md border bg-popover p-1 shadow-md">
+					{candidates.map((user, index) => (
+						<button
+							key={user.id}
+							type="button"
+							className={cn(
+								"flex w-full flex-col items-start rounded px-2 py-1 text-left text-sm",
+								index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-muted",
+							)}
+							// Keep the textarea focused so the caret position is still known when picking
+							onMouseDown={(event) => event.preventDefault()}
+							onClick={() => pick(user)}
+						>
+							<span className="font-medium">{getTenantUserName(user)}</span>
+							<span className="text-xs text-muted-foreground">@{user.username}</span>
+						</button>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,86 @@
+import type { ActivityAction, ActivityEvent, AssetRevisionAuthor } from "#/entity";
+import type { TenantUser } from "@/api/services/userService";
+
+/** `@name` right before the caret while a mention is being typed */
+const MENTION_QUERY = /(?:^|\s)@([\w.-]*)$/;
+const MENTION_TOKEN = /(@[\w.-]+)/g;
+
+export const MAX_MENTION_SUGGESTIONS = 6;
+
+export const ACTIVITY_LABELS: Record<ActivityAction, string> = {
+	CREATED: "Created",
+	UPDATED: "Edited",
+	FILE_UPLOADED: "File uploaded",
+	FILE_DELETED: "File deleted",
+	EXPIRATION_CHANGED: "Expiration changed",
+};
+
+export const getAuthorName = (author?: AssetRevisionAuthor) =>
+	author?.name || author?.email || author?.id || "Unknown user";
+
+export const getTenantUserName = (user: TenantUser) => user.name || user.username;
+
+/**
+ * The partial username typed after `@` at the caret, or null when the caret is not in a mention
+ */
+export const getMentionQuery = (text: string, caret: number) => {
+	const match = MENTION_QUERY.exec(text.slice(0, caret));
+	return match ? match[1] : null;
+};
+
+export const findMentionCandidates = (users: TenantUser[], query: string) => {
+	const search = query.toLowerCase();
+	return users
+		.filter(
+			(user) => user.username.toLowerCase().includes(search) || (user.name?.toLowerCase().includes(search) ?? false),
+		)
+		.slice(0, MAX_MENTION_SUGGESTIONS);
+};
+
+/**
+ * Replace the mention being typed at the caret with the full `@username`
+ */
+export const insertMention = (text: string, caret: number, username: string) => {
+	const before = text.slice(0, caret).replace(/@[\w.-]*$/, `@${username} `);
+	return { value: `${before}${text.slice(caret).replace(/^\s/, "")}`, caret: before.length };
+};
+
+/**
+ * Ids of the tenant users whose `@username` appears in the comment
+ */
+export const extractMentionIds = (body: string, users: TenantUser[]) => {
+	const usernames = new Set(Array.from(body.matchAll(MENTION_TOKEN), (match) => match[1].slice(1).toLowerCase()));
+	return users.filter((user) => usernames.has(user.username.toLowerCase())).map((user) => user.id);
+};
+
+/**
+ * Split a comment into text and `@username` parts so mentions of real users can be highlighted
+ */
+export const splitMentions = (body: string) =>
+	body
+		.split(MENTION_TOKEN)
+		.filter(Boolean)
+		.map((part) => ({ text: part, username: part.startsWith("@") ? part.slice(1).toLowerCase() : undefined }));
+
+const formatDay = (value?: string) => {
+	const date = value ? new Date(value) : null;
+	return date && !Number.isNaN(date.getTime()) ? date.toLocaleDateString() : "none";
+};
+
+/**
+ * One line describing what changed, without the user and time
+ */
+export const describeActivity = (event: ActivityEvent) => {
+	switch (event.action) {
+		case "UPDATED":
+			return event.fieldKeys?.length ? `Edited ${event.fieldKeys.join(", ")}` : "Edited details";
+		case "FILE_UPLOADED":
+			return `Uploaded ${event.fileName ?? "a file"}`;
+		case "FILE_DELETED":
+			return `Deleted ${event.fileName ?? "a file"}`;
+		case "EXPIRATION_CHANGED":
+			return `Changed expiration from ${formatDay(event.from)} to ${formatDay(event.to)}`;
+		default:
+			return ACTIVITY_LABELS[event.action] ?? event.action;
+	}
+};
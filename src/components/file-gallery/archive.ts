@@ -0,0 +1,128 @@
+import assetService from "@/api/services/assetService";
+import { getFileDisplayName, type PreviewFile } from "@/components/file-preview/utils";
+import { downloadBlob } from "@/components/vault-backup/bundle";
+import { createZip, type ZipEntry } from "@/utils/zip";
+import { getFileFolder, joinPath } from "./folders";
+
+export const MANIFEST_NAME = "manifest.json";
+
+/** Asset details written to the manifest; tenant and showroom assets both fit */
+export type ArchiveAsset = {
+	id?: string;
+	name: string;
+	type?: string;
+	description?: string;
+	tags?: string[];
+	fields?: { key: string; type: string; value: string; isSecret?: boolean }[];
+	createdAt?: string;
+	updatedAt?: string;
+	expirationDate?: string;
+};
+
+export type ArchiveProgress = { done: number; total: number };
+
+const toErrorMessage = (error: unknown) => (error instanceof Error ? error.message : "Request failed");
+
+/** Strip characters that file systems reject, so the archive extracts everywhere */
+const toSafeName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, "-").trim() || "file";
+
+/**
+ * Unique path of a file inside the archive; clashes get a counter before the extension, like "a (2).jpg"
+ */
+const getEntryPath = (file: PreviewFile, taken: Set<string>) => {
+	const name = toSafeName(getFileDisplayName(file));
+	const folder = getFileFolder(file);
+	const safeFolder = folder ? folder.split("/").map(toSafeName).join("/") : "";
+	const dot = name.lastIndexOf(".");
+	const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+	let path = joinPath(safeFolder, name);
+	for (let count = 2; taken.has(path.toLowerCase()); count++) {
+		path = joinPath(safeFolder, `${base} (${count})${extension}`);
+	}
+	taken.add(path.toLowerCase());
+	return path;
+};
+
+/**
+ * Secret values are never written to the archive, the manifest only records that the field exists
+ */
+const toManifestAsset = (asset: ArchiveAsset) => ({
+	id: asset.id,
+	name: asset.name,
+	type: asset.type,
+	description: asset.description,
+	tags: asset.tags,
+	createdAt: asset.createdAt,
+	updatedAt: asset.updatedAt,
+	expirationDate: asset.expirationDate,
+	fields: asset.fields?.map(({ key, type, value, isSecret }) =>
+		isSecret ? { key, type, isSecret: true } : { key, type, value },
+	),
+});
+
+/**
+ * Download the files one after another into a zip archive, keeping their folders and original names.
+ * A `manifest.json` with the asset details and the file list is added at the top of the archive.
+ *
+ * Files that fail to download are left out and listed under `missing` in the manifest.
+ *
+ * @returns the number of files that could not be downloaded
+ */
+export const downloadFilesAsZip = async ({
+	name,
+	asset,
+	files,
+	signal,
+	onProgress,
+}: {
+	/** Archive file name without the extension */
+	name: string;
+	asset?: ArchiveAsset;
+	files: PreviewFile[];
+	signal?: AbortSignal;
+	onProgress?: (progress: ArchiveProgress) => void;
+}) => {
+	const taken = new Set([MANIFEST_NAME]);
+	const entries: ZipEntry[] = [];
+	const listed: Record<string, unknown>[] = [];
+	const missing: { originalName: string; relativePath?: string; error: string }[] = [];
+
+	for (const [index, file] of files.entries()) {
+		onProgress?.({ done: index, total: files.length });
+		const originalName = getFileDisplayName(file);
+		try {
+			if (!file.url && !file.relativePath) throw new Error("File has no download url");
+			const blob = await assetService.downloadAssetFile({ url: file.url, relativePath: file.relativePath }, signal);
+			const path = getEntryPath(file, taken);
+			const uploadedAt = file.uploadedAt ? new Date(file.uploadedAt) : undefined;
+			entries.push({
+				path,
+				data: blob,
+				lastModified: uploadedAt && !Number.isNaN(uploadedAt.getTime()) ? uploadedAt : undefined,
+			});
+			listed.push({
+				path,
+				originalName,
+				relativePath: file.relativePath,
+				size: blob.size,
+				mimeType: file.mimeType || blob.type || undefined,
+				uploadedBy: file.uploadedBy,
+				uploadedAt: file.uploadedAt,
+			});
+		} catch (error) {
+			if (signal?.aborted) throw error;
+			missing.push({ originalName, relativePath: file.relativePath, error: toErrorMessage(error) });
+		}
+	}
+	onProgress?.({ done: files.length, total: files.length });
+
+	const manifest = {
+		exportedAt: new Date().toISOString(),
+		asset: asset ? toManifestAsset(asset) : undefined,
+		files: listed,
+		missing: missing.length ? missing : undefined,
+	};
+	const archive = await createZip([{ path: MANIFEST_NAME, data: JSON.stringify(manifest, null, 2) }, ...entries]);
+	downloadBlob(archive, `${toSafeName(name)}.zip`);
+	return missing.length;
+};
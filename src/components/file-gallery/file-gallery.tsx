@@ -0,0 +1,522 @@
+import { Download, Eye, FileArchive, Folder, FolderInput, Search, Trash2, X } from "lucide-react";
+import { type MouseEvent, type ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { buildFileUrl, getFileDisplayName, type PreviewFile } from "@/components/file-preview/utils";
+import {
+	Breadcrumb,
+	BreadcrumbItem,
+	BreadcrumbLink,
+	BreadcrumbList,
+	BreadcrumbPage,
+	BreadcrumbSeparator,
+} from "@/ui/breadcrumb";
+import { Button } from "@/ui/button";
+import { Checkbox } from "@/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Input } from "@/ui/input";
+import { Progress } from "@/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
+import { Slider } from "@/ui/slider";
+import { cn } from "@/utils";
+import { fBytes } from "@/utils/format-number";
+import { type ArchiveAsset, type ArchiveProgress, downloadFilesAsZip } from "./archive";
+import { FileThumbnail } from "./file-thumbnail";
+import { FolderTree } from "./folder-tree";
+import {
+	buildFolderTree,
+	type FolderNode,
+	findFolder,
+	getFileFolder,
+	getFolderCrumbs,
+	getFolderPaths,
+} from "./folders";
+import { type FileMove, MoveFilesDialog } from "./move-files-dialog";
+import {
+	DEFAULT_TILE_SIZE,
+	filterAndSortFiles,
+	GALLERY_SORT_LABELS,
+	type GallerySort,
+	getGalleryFileKey,
+	MAX_TILE_SIZE,
+	MIN_TILE_SIZE,
+} from "./utils";
+import { VirtualGrid } from "./virtual-grid";
+
+type FileGalleryProps<T extends PreviewFile> = {
+	files: T[];
+	/** Open the preview; receives the files in gallery order so the lightbox steps through them the same way */
+	onPreview: (files: T[], index: number) => void;
+	/** Extra buttons shown on a tile while it is hovered */
+	renderActions?: (file: T) => ReactNode;
+	/** Enables deleting the selection */
+	onDeleteFiles?: (files: T[]) => Promise<void> | void;
+	/** Enables moving files between folders and renaming them */
+	onMoveFiles?: (moves: FileMove<T>[]) => Promise<void>;
+	maxHeight?: number;
+	/** Names zip downloads and is written to their manifest */
+	asset?: ArchiveAsset;
+};
+
+type GalleryItem<T> = { kind: "folder"; folder: FolderNode } | { kind: "file"; file: T };
+
+const CAPTION_HEIGHT = 40;
+
+const formatDate = (value?: string) => {
+	const date = value ? new Date(value) : null;
+	return date && !Number.isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : "";
+};
+
+const triggerDownload = (file: PreviewFile) => {
+	const url = buildFileUrl(file);
+	if (!url) return;
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = getFileDisplayName(file);
+	link.target = "_blank";
+	link.rel = "noreferrer";
+	link.click();
+};
+
+/**
+ * Searchable, sortable thumbnail grid with adjustable tiles and multi-select.
+ * Shift-click a checkbox to select a range. Files with a `folderPath` are browsed
+ * through a folder tree and breadcrumbs; a search looks through every folder.
+ */
+export function FileGallery<T extends PreviewFile>({
+	files,
+	onPreview,
+	renderActions,
+	onDeleteFiles,
+	onMoveFiles,
+	maxHeight = 560,
+	asset,
+}: FileGalleryProps<T>) {
+	const [search, setSearch] = useState("");
+	const [sort, setSort] = useState<GallerySort>("NAME_ASC");
+	const [tileSize, setTileSize] = useState(DEFAULT_TILE_SIZE);
+	const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+	const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+	const [isDeleting, setIsDeleting] = useState(false);
+	const [currentFolder, setCurrentFolder] = useState("");
+	const [moveTarget, setMoveTarget] = useState<T[] | null>(null);
+	const [zipProgress, setZipProgress] = useState<ArchiveProgress | null>(null);
+	const lastSelectedIndex = useRef<number | null>(null);
+	const zipController = useRef<AbortController | null>(null);
+
+	useEffect(() => () => zipController.current?.abort(), []);
+
+	const tree = useMemo(() => buildFolderTree(files), [files]);
+	const hasFolders = tree.children.length > 0;
+	// A folder emptied by a move or delete no longer exists, fall back to the root
+	const folderNode = findFolder(tree, currentFolder) ?? tree;
+	const folderPath = folderNode.path;
+	const isSearching = !!search.trim();
+	const visibleFiles = useMemo(
+		() =>
+			filterAndSortFiles(
+				isSearching ? files : files.filter((file) => getFileFolder(file) === folderPath),
+				search,
+				sort,
+			),
+		[files, search, sort, isSearching, folderPath],
+	);
+	const folderItems: GalleryItem<T>[] = isSearching
+		? []
+		: folderNode.children.map((folder) => ({ kind: "folder", folder }));
+	const items: GalleryItem<T>[] = [...folderItems, ...visibleFiles.map((file) => ({ kind: "file" as const, file }))];
+	// Selection survives searching, but files that disappeared from the asset drop out of it
+	const selectedFiles = files.filter((file) => selectedKeys.has(getGalleryFileKey(file)));
+	const allVisibleSelected =
+		visibleFiles.length > 0 && visibleFiles.every((file) => selectedKeys.has(getGalleryFileKey(file)));
+
+	const toggleFile = (index: number, event: MouseEvent) => {
+		const file = visibleFiles[index];
+		const key = getGalleryFileKey(file);
+		const select = !selectedKeys.has(key);
+		const next = new Set(selectedKeys);
+		const from = event.shiftKey && lastSelectedIndex.current !== null ? lastSelectedIndex.current : index;
+		for (let i = Math.min(from, index); i <= Math.max(from, index); i++) {
+			const rangeKey = getGalleryFileKey(visibleFiles[i]);
+			if (select) next.add(rangeKey);
+			else next.delete(rangeKey);
+		}
+		lastSelectedIndex.current = index;
+		setSelectedKeys(next);
+	};
+
+	const toggleAllVisible = () => {
+		const next = new Set(selectedKeys);
+		for (const file of visibleFiles) {
+			if (allVisibleSelected) next.delete(getGalleryFileKey(file));
+			else next.add(getGalleryFileKey(file));
+		}
+		setSelectedKeys(next);
+	};
+
+	const openFolder = (path: string) => {
+		setCurrentFolder(path);
+		setSearch("");
+		lastSelectedIndex.current = null;
+	};
+
+	const handleDownloadZip = async (targetFiles: T[], name: string) => {
+		const controller = new AbortController();
+		zipController.current = controller;
+		setZipProgress({ done: 0, total: targetFiles.length });
+		try {
+			const missing = await downloadFilesAsZip({
+				name,
+				asset,
+				files: targetFiles,
+				signal: controller.signal,
+				onProgress: setZipProgress,
+			});
+			if (missing) {
+				toast.warning(`${missing} of ${targetFiles.length} files could not be added, see manifest.json`, {
+					position: "top-center",
+				});
+			}
+		} catch (error) {
+			if (!controller.signal.aborted) {
+				console.error(error);
+				toast.error(error instanceof Error ? error.message : "Failed to create the zip archive", {
+					position: "top-center",
+				});
+			}
+		} finally {
+			if (zipController.current === controller) zipController.current = null;
+			setZipProgress(null);
+		}
+	};
+
+	const handleDownloadSelected = () => {
+		if (selectedFiles.length === 1) triggerDownload(selectedFiles[0]);
+		else void handleDownloadZip(selectedFiles, `${asset?.name ?? "files"} (${selectedFiles.length} files)`);
+	};
+
+	const handleDeleteSelected = async () => {
+		if (!onDeleteFiles) return;
+		setIsDeleting(true);
+		try {
+			await onDeleteFiles(selectedFiles);
+			setSelectedKeys(new Set());
+			setIsConfirmingDelete(false);
+		} finally {
+			setIsDeleting(false);
+		}
+	};
+
+	const renderTile = (file: T, index: number) => {
+		const key = getGalleryFileKey(file);
+		const isSelected = selectedKeys.has(key);
+		const name = getFileDisplayName(file);
+		const url = buildFileUrl(file);
+		return (
+			<div className="group relative">
+				<button
+					type="button"
+					className={cn(
+						"block aspect-square w-full overflow-hidden rounded-md border",
+						isSelected && "ring-2 ring-primary ring-offset-1",
+					)}
+					onClick={() => onPreview(visibleFiles, index)}
+				>
+					<FileThumbnail
+						file={file}
+						iconSize={Math.round(tileSize / 3)}
+						className="transition-transform group-hover:scale-105"
+					/>
+				</button>
+				<div
+					className={cn(
+						"absolute left-2 top-2 rounded bg-background/80 p-0.5 transition-opacity",
+						isSelected || selectedKeys.size ? "opacity-100" : "opacity-0 group-hover:opacity-100",
+					)}
+				>
+					<Checkbox
+						checked={isSelected}
+						aria-label={`Select ${name}`}
+						onClick={(event) => {
+							event.preventDefault();
+							toggleFile(index, event);
+						}}
+					/>
+				</div>
+				<div className="absolute right-1 top-1 flex gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+					<Button
+						type="button"
+						variant="secondary"
+						size="icon"
+						className="h-7 w-7"
+						title="Preview"
+						onClick={() => onPreview(visibleFiles, index)}
+					>
+						<Eye className="h-3.5 w-3.5" />
+					</Button>
+					{url && (
+						<Button type="button" variant="secondary" size="icon" className="h-7 w-7" title="Download" asChild>
+							<a href={url} target="_blank" rel="noreferrer" download={name}>
+								<Download className="h-3.5 w-3.5" />
+							</a>
+						</Button>
+					)}
+					{onMoveFiles && (
+						<Button
+							type="button"
+							variant="secondary"
+							size="icon"
+							className="h-7 w-7"
+							title="Move or rename"
+							onClick={() => setMoveTarget([file])}
+						>
+							<FolderInput className="h-3.5 w-3.5" />
+						</Button>
+					)}
+					{renderActions?.(file)}
+				</div>
+				<div className="mt-1 px-0.5" style={{ height: CAPTION_HEIGHT - 4 }}>
+					<div className="truncate text-xs font-medium" title={name}>
+						{name}
+					</div>
+					<div className="truncate text-[10px] text-muted-foreground">
+						{[file.size ? fBytes(file.size) : "", formatDate(file.uploadedAt)].filter(Boolean).join(" · ")}
+					</div>
+				</div>
+			</div>
+		);
+	};
+
+	const renderFolderTile = (folder: FolderNode) => (
+		<button type="button" className="group block w-full text-left" onClick={() => openFolder(folder.path)}>
+			<div className="flex aspect-square w-full items-center justify-center rounded-md border bg-muted/30 transition-colors group-hover:bg-muted/60">
+				<Folder className="text-primary/70" style={{ width: tileSize / 3, height: tileSize / 3 }} />
+			</div>
+			<div className="mt-1 px-0.5" style={{ height: CAPTION_HEIGHT - 4 }}>
+				<div className="truncate text-xs font-medium" title={folder.path}>
+					{folder.name}
+				</div>
+				<div className="truncate text-[10px] text-muted-foreground">
+					{folder.fileCount} {folder.fileCount === 1 ? "file" : "files"}
+				</div>
+			</div>
+		</button>
+	);
+
+	const emptyText = isSearching
+		? "No files match your search."
+		: files.length
+			? "This folder is empty."
+			: "No files attached to this asset.";
+
+	const grid = items.length ? (
+		<VirtualGrid
+			items={items}
+			minColumnWidth={tileSize}
+			captionHeight={CAPTION_HEIGHT}
+			maxHeight={maxHeight}
+			getKey={(item) => (item.kind === "folder" ? `folder:${item.folder.path}` : getGalleryFileKey(item.file))}
+			renderItem={(item, index) =>
+				item.kind === "folder" ? renderFolderTile(item.folder) : renderTile(item.file, index - folderItems.length)
+			}
+		/>
+	) : (
+		<div className="py-8 text-center text-sm text-muted-foreground">{emptyText}</div>
+	);
+
+	return (
+		<div className="space-y-3">
+			<div className="flex flex-wrap items-center gap-3">
+				<div className="relative w-56">
+					<Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+					<Input
+						placeholder="Search files..."
+						value={search}
+						onChange={(event) => setSearch(event.target.value)}
+						className="h-9 pl-9"
+					/>
+				</div>
+				<Select value={sort} onValueChange={(value) => setSort(value as GallerySort)}>
+					<SelectTrigger className="h-9 w-40">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{(Object.keys(GALLERY_SORT_LABELS) as GallerySort[]).map((option) => (
+							<SelectItem key={option} value={option}>
+								{GALLERY_SORT_LABELS[option]}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<div className="flex w-40 items-center gap-2">
+					<span className="text-xs text-muted-foreground">Size</span>
+					<Slider
+						min={MIN_TILE_SIZE}
+						max={MAX_TILE_SIZE}
+						step={8}
+						value={[tileSize]}
+						tooltipMode="never"
+						onValueChange={([value]) => setTileSize(value)}
+					/>
+				</div>
+				<div className="ml-auto text-xs text-muted-foreground">
+					{visibleFiles.length === files.length
+						? `${files.length} files`
+						: `${visibleFiles.length} of ${files.length} files`}
+				</div>
+			</div>
+			<div className="flex min-h-9 flex-wrap items-center gap-2">
+				<Button type="button" variant="ghost" size="sm" disabled={!visibleFiles.length} onClick={toggleAllVisible}>
+					{allVisibleSelected ? "Clear selection" : "Select all"}
+				</Button>
+				{selectedFiles.length > 0 && (
+					<>
+						<span className="text-xs text-muted-foreground">{selectedFiles.length} selected</span>
+						<Button
+							type="button"
+							variant="outline"
+							size="sm"
+							disabled={!!zipProgress}
+							title={selectedFiles.length > 1 ? "Download the selection as a zip archive" : undefined}
+							onClick={handleDownloadSelected}
+						>
+							<Download className="mr-1 h-3 w-3" />
+							Download selected
+						</Button>
+						{onMoveFiles && (
+							<Button type="button" variant="outline" size="sm" onClick={() => setMoveTarget(selectedFiles)}>
+								<FolderInput className="mr-1 h-3 w-3" />
+								Move
+							</Button>
+						)}
+						{onDeleteFiles && (
+							<Button type="button" variant="destructive" size="sm" onClick={() => setIsConfirmingDelete(true)}>
+								<Trash2 className="mr-1 h-3 w-3" />
+								Delete
+							</Button>
+						)}
+						<Button type="button" variant="ghost" size="sm" onClick={() => setSelectedKeys(new Set())}>
+							Clear
+						</Button>
+					</>
+				)}
+				<div className="ml-auto flex items-center gap-2">
+					{zipProgress ? (
+						<>
+							<span className="text-xs text-muted-foreground">
+								Zipping {zipProgress.done} of {zipProgress.total}
+							</span>
+							<Progress className="w-28" value={(zipProgress.done / zipProgress.total) * 100} />
+							<Button
+								type="button"
+								variant="ghost"
+								size="icon"
+								className="h-7 w-7"
+								title="Cancel download"
+								onClick={() => zipController.current?.abort()}
+							>
+								<X className="h-3.5 w-3.5" />
+							</Button>
+						</>
+					) : (
+						<Button
+							type="button"
+							variant="outline"
+							size="sm"
+							disabled={!files.length}
+							title="Download every file as a zip archive, with a manifest of the asset"
+							onClick={() => void handleDownloadZip(files, asset?.name ?? "files")}
+						>
+							<FileArchive className="mr-1 h-3 w-3" />
+							Download all
+						</Button>
+					)}
+				</div>
+			</div>
+			{hasFolders ? (
+				<div className="grid gap-4 md:grid-cols-[200px_minmax(0,1fr)]">
+					<div className="overflow-y-auto rounded-md border p-2" style={{ maxHeight }}>
+						<FolderTree root={tree} value={folderPath} onChange={openFolder} />
+					</div>
+					<div className="min-w-0 space-y-2">
+						<Breadcrumb>
+							<BreadcrumbList>
+								<BreadcrumbItem>
+									{folderPath || isSearching ? (
+										<BreadcrumbLink asChild>
+											<button type="button" onClick={() => openFolder("")}>
+												All files
+											</button>
+										</BreadcrumbLink>
+									) : (
+										<BreadcrumbPage>All files</BreadcrumbPage>
+									)}
+								</BreadcrumbItem>
+								{isSearching ? (
+									<>
+										<BreadcrumbSeparator />
+										<BreadcrumbItem>
+											<BreadcrumbPage>Search results in every folder</BreadcrumbPage>
+										</BreadcrumbItem>
+									</>
+								) : (
+									getFolderCrumbs(folderPath).map((crumb) => (
+										<BreadcrumbItem key={crumb.path}>
+											<BreadcrumbSeparator />
+											{crumb.path === folderPath ? (
+												<BreadcrumbPage>{crumb.name}</BreadcrumbPage>
+											) : (
+												<BreadcrumbLink asChild>
+													<button type="button" onClick={() => openFolder(crumb.path)}>
+														{crumb.name}
+													</button>
+												</BreadcrumbLink>
+											)}
+										</BreadcrumbItem>
+									))
+								)}
+							</BreadcrumbList>
+						</Breadcrumb>
+						{grid}
+					</div>
+				</div>
+			) : (
+				grid
+			)}
+			<MoveFilesDialog
+				files={moveTarget}
+				allFiles={files}
+				folders={getFolderPaths(tree)}
+				initialFolder={folderPath}
+				onClose={() => setMoveTarget(null)}
+				onSubmit={async (moves) => {
+					if (moves.length) await onMoveFiles?.(moves);
+					setSelectedKeys(new Set());
+				}}
+			/>
+			<Dialog open={isConfirmingDelete} onOpenChange={(open) => !isDeleting && setIsConfirmingDelete(open)}>
+				<DialogContent className="sm:max-w-md">
+					<DialogHeader>
+						<DialogTitle>Delete files</DialogTitle>
+						<DialogDescription>
+							Delete {selectedFiles.length} selected {selectedFiles.length === 1 ? "file" : "files"}? This cannot be
+							undone.
+						</DialogDescription>
+					</DialogHeader>
+					<DialogFooter>
+						<Button type="button" variant="outline" disabled={isDeleting} onClick={() => setIsConfirmingDelete(false)}>
+							Cancel
+						</Button>
+						<Button
+							type="button"
+							variant="destructive"
+							disabled={isDeleting}
+							onClick={() => void handleDeleteSelected()}
+						>
+							{isDeleting ? "Deleting..." : "Delete"}
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</div>
+	);
+}
@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { getFileDisplayName, type PreviewFile } from "@/components/file-preview/utils";
+import { Icon } from "@/components/icon";
+import { getFileThumb } from "@/components/upload/utils";
+import { cn } from "@/utils";
+import { canHaveThumbnail, getFileThumbnail, getThumbnailKey } from "./thumbnails";
+
+type FileThumbnailProps = {
+	file: PreviewFile;
+	className?: string;
+	iconSize?: number;
+};
+
+/**
+ * Cached image or first video frame of a file, the file type icon for everything else
+ */
+export function FileThumbnail({ file, className, iconSize = 40 }: FileThumbnailProps) {
+	const name = getFileDisplayName(file);
+	const { data: blob, isLoading } = useQuery({
+		queryKey: ["file-thumbnail", getThumbnailKey(file)],
+		queryFn: () => getFileThumbnail(file),
+		enabled: canHaveThumbnail(file),
+		staleTime: Number.POSITIVE_INFINITY,
+		retry: false,
+	});
+	const [src, setSrc] = useState("");
+
+	useEffect(() => {
+		if (!blob) {
+			setSrc("");
+			return;
+		}
+		const url = URL.createObjectURL(blob);
+		setSrc(url);
+		return () => URL.revokeObjectURL(url);
+	}, [blob]);
+
+	if (src) {
+		return <img src={src} alt={name} loading="lazy" className={cn("h-full w-full object-cover", className)} />;
+	}
+	return (
+		<div
+			className={cn(
+				"flex h-full w-full items-center justify-center bg-muted/30",
+				isLoading && "animate-pulse",
+				className,
+			)}
+		>
+			<Icon icon={`local:${getFileThumb(name)}`} size={iconSize} />
+		</div>
+	);
+}
@@ -0,0 +1,85 @@
+import { ChevronDown, ChevronRight, Folder, FolderOpen, Home } from "lucide-react";
+import { useState } from "react";
+import { cn } from "@/utils";
+import type { FolderNode } from "./folders";
+
+type FolderTreeProps = {
+	root: FolderNode;
+	/** Path of the open folder, "" for the asset root */
+	value: string;
+	onChange: (path: string) => void;
+};
+
+const isAncestorOf = (path: string, descendant: string) => descendant.startsWith(`${path}/`);
+
+/**
+ * Collapsible tree of the virtual folders in an asset; ancestors of the open folder stay expanded
+ */
+export function FolderTree({ root, value, onChange }: FolderTreeProps) {
+	const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+	const toggle = (path: string) =>
+		setCollapsed((prev) => {
+			const next = new Set(prev);
+			if (next.has(path)) next.delete(path);
+			else next.add(path);
+			return next;
+		});
+
+	const renderNode = (node: FolderNode, depth: number) => {
+		const isOpen = !collapsed.has(node.path) || isAncestorOf(node.path, value);
+		const isActive = node.path === value;
+		return (
+			<li key={node.path}>
+				<div
+					className={cn(
+						"flex items-center gap-1 rounded-md pr-2 text-sm hover:bg-muted/60",
+						isActive && "bg-muted font-medium",
+					)}
+					style={{ paddingLeft: depth * 12 }}
+				>
+					<button
+						type="button"
+						className={cn("rounded p-0.5 text-muted-foreground", !node.children.length && "invisible")}
+						aria-label={isOpen ? `Collapse ${node.name}` : `Expand ${node.name}`}
+						onClick={() => toggle(node.path)}
+					>
+						{isOpen ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+					</button>
+					<button
+						type="button"
+						className="flex min-w-0 flex-1 items-center gap-1.5 py-1 text-left"
+						onClick={() => onChange(node.path)}
+					>
+						{isActive ? (
+							<FolderOpen className="h-4 w-4 shrink-0 text-primary" />
+						) : (
+							<Folder className="h-4 w-4 shrink-0 text-muted-foreground" />
+						)}
+						<span className="truncate">{node.name}</span>
+						<span className="ml-auto text-[10px] text-muted-foreground">{node.fileCount}</span>
+					</button>
+				</div>
+				{isOpen && node.children.length > 0 && <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>}
+			</li>
+		);
+	};
+
+	return (
+		<div className="space-y-1">
+			<button
+				type="button"
+				className={cn(
+					"flex w-full items-center gap-1.5 rounded-md px-2 py-1 text-left text-sm hover:bg-muted/60",
+					!value && "bg-muted font-medium",
+				)}
+				onClick={() => onChange("")}
+			>
+				<Home className="h-4 w-4 text-muted-foreground" />
+				All files
+				<span className="ml-auto text-[10px] text-muted-foreground">{root.fileCount}</span>
+			</button>
+			<ul>{root.children.map((child) => renderNode(child, 0))}</ul>
+		</div>
+	);
+}
@@ -0,0 +1,78 @@
+import type { PreviewFile } from "@/components/file-preview/utils";
+
+/**
+ * A virtual folder; folders only exist through the `folderPath` of the files inside them
+ */
+export type FolderNode = {
+	name: string;
+	/** Slash separated path from the asset root, "" for the root itself */
+	path: string;
+	children: FolderNode[];
+	/** Files in this folder and every folder below it */
+	fileCount: number;
+};
+
+/** Trim slashes, blanks and dot segments so typed paths compare equal to stored ones */
+export const normalizeFolderPath = (path: string) =>
+	path
+		.split("/")
+		.map((segment) => segment.trim())
+		.filter((segment) => segment && segment !== "." && segment !== "..")
+		.join("/");
+
+export const joinPath = (folder: string, name: string) => (folder ? `${folder}/${name}` : name);
+
+export const getFileFolder = (file: PreviewFile) => normalizeFolderPath(file.folderPath ?? "");
+
+/**
+ * Folder part of a path that ends in a file name, such as a `webkitRelativePath` of a picked folder
+ */
+export const getParentFolder = (path: string) => normalizeFolderPath(path).split("/").slice(0, -1).join("/");
+
+/**
+ * Breadcrumb trail of a folder path, without the root
+ */
+export const getFolderCrumbs = (path: string) =>
+	path ? path.split("/").map((name, index, segments) => ({ name, path: segments.slice(0, index + 1).join("/") })) : [];
+
+const sortTree = (node: FolderNode) => {
+	node.children.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: "base" }));
+	for (const child of node.children) sortTree(child);
+};
+
+export const buildFolderTree = (files: PreviewFile[]) => {
+	const root: FolderNode = { name: "", path: "", children: [], fileCount: 0 };
+	const nodes = new Map<string, FolderNode>([["", root]]);
+	for (const file of files) {
+		root.fileCount++;
+		const folder = getFileFolder(file);
+		if (!folder) continue;
+		let parent = root;
+		for (const { name, path } of getFolderCrumbs(folder)) {
+			let node = nodes.get(path);
+			if (!node) {
+				node = { name, path, children: [], fileCount: 0 };
+				nodes.set(path, node);
+				parent.children.push(node);
+			}
+			node.fileCount++;
+			parent = node;
+		}
+	}
+	sortTree(root);
+	return root;
+};
+
+export const findFolder = (root: FolderNode, path: string): FolderNode | undefined => {
+	if (root.path === path) return root;
+	for (const child of root.children) {
+		if (path === child.path || path.startsWith(`${child.path}/`)) return findFolder(child, path);
+	}
+	return undefined;
+};
+
+/**
+ * Every folder path below the root, depth first, e.g. for a destination picker
+ */
+export const getFolderPaths = (root: FolderNode): string[] =>
+	root.children.flatMap((child) => [child.path, ...getFolderPaths(child)]);
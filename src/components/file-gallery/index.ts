@@ -0,0 +1,8 @@
+export * from "./archive";
+export * from "./file-gallery";
+export * from "./file-thumbnail";
+export * from "./folder-tree";
+export * from "./folders";
+export * from "./move-files-dialog";
+export * from "./thumbnails";
+export * from "./utils";
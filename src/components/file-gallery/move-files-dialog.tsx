@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import type { AssetFileUpdate } from "@/api/services/assetService";
+import { getFileDisplayName, type PreviewFile } from "@/components/file-preview/utils";
+import { Button } from "@/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Input } from "@/ui/input";
+import { Label } from "@/ui/label";
+import { getFileFolder, joinPath, normalizeFolderPath } from "./folders";
+
+export type FileMove<T extends PreviewFile> = { file: T; data: AssetFileUpdate };
+
+type MoveFilesDialogProps<T extends PreviewFile> = {
+	/** Files to move; the dialog is open while set and offers renaming when there is exactly one */
+	files: T[] | null;
+	/** Every file of the asset, to catch moves onto an existing path */
+	allFiles: T[];
+	folders: string[];
+	initialFolder: string;
+	onClose: () => void;
+	onSubmit: (moves: FileMove<T>[]) => Promise<void>;
+};
+
+const getFilePath = (file: PreviewFile) => joinPath(getFileFolder(file), getFileDisplayName(file));
+
+export function MoveFilesDialog<T extends PreviewFile>({
+	files,
+	allFiles,
+	folders,
+	initialFolder,
+	onClose,
+	onSubmit,
+}: MoveFilesDialogProps<T>) {
+	const single = files?.length === 1 ? files[0] : null;
+	const [folder, setFolder] = useState("");
+	const [name, setName] = useState("");
+	const [error, setError] = useState("");
+	const [isSaving, setIsSaving] = useState(false);
+
+	useEffect(() => {
+		if (!files) return;
+		setFolder(single ? getFileFolder(single) : initialFolder);
+		setName(single ? getFileDisplayName(single) : "");
+		setError("");
+	}, [files, single, initialFolder]);
+
+	const handleSubmit = async () => {
+		if (!files) return;
+		const targetFolder = normalizeFolderPath(folder);
+		const targetName = name.trim();
+		if (single && (!targetName || targetName.includes("/"))) {
+			setError("Enter a file name without slashes.");
+			return;
+		}
+		const moves = files.map((file) => {
+			const fileName = single ? targetName : getFileDisplayName(file);
+			return { file, data: { originalName: fileName, folderPath: targetFolder } };
+		});
+		const getTargetPath = (move: FileMove<T>) => joinPath(move.data.folderPath ?? "", move.data.originalName ?? "");
+		const moving = new Set<PreviewFile>(files);
+		const takenPaths = new Set(allFiles.filter((file) => !moving.has(file)).map(getFilePath));
+		const targetPaths = moves.map(getTargetPath);
+		const clash = targetPaths.find((path, index) => takenPaths.has(path) || targetPaths.indexOf(path) !== index);
+		if (clash) {
+			setError(`A file already exists at ${clash}.`);
+			return;
+		}
+		setIsSaving(true);
+		try {
+			await onSubmit(moves.filter((move) => getTargetPath(move) !== getFilePath(move.file)));
+			onClose();
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Dialog open={!!files} onOpenChange={(open) => !open && !isSaving && onClose()}>
+			<DialogContent className="sm:max-w-md">
+				<DialogHeader>
+					<DialogTitle>{single ? "Move or rename file" : `Move ${files?.length ?? 0} files`}</DialogTitle>
+					<DialogDescription>
+						Folders are created as needed. Leave the folder empty to move to the top of the asset.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4">
+					{single && (
+						<div className="space-y-2">
+							<Label htmlFor="move-file-name">File name</Label>
+							<Input id="move-file-name" value={name} onChange={(event) => setName(event.target.value)} />
+						</div>
+					)}
+					<div className="space-y-2">
+						<Label htmlFor="move-file-folder">Folder</Label>
+						<Input
+							id="move-file-folder"
+							list="move-file-folders"
+							placeholder="e.g. photos/2024"
+							value={folder}
+							onChange={(event) => setFolder(event.target.value)}
+						/>
+						<datalist id="move-file-folders">
+							{folders.map((path) => (
+								<option key={path} value={path} />
+							))}
+						</datalist>
+					</div>
+					{error && <div className="text-sm text-destructive">{error}</div>}
+				</div>
+				<DialogFooter>
+					<Button type="button" variant="outline" disabled={isSaving} onClick={onClose}>
+						Cancel
+					</Button>
+					<Button type="button" disabled={isSaving} onClick={() => void handleSubmit()}>
+						{isSaving ? "Saving..." : "Save"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,106 @@
+const DB_NAME = "asset-thumbnails";
+const DB_VERSION = 2;
+const STORE_NAME = "thumbnails";
+const CREATED_AT_INDEX = "createdAt";
+/** Thumbnails show attachments that may be sensitive, so they are only kept for a while */
+const MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 1000;
+
+type CachedThumbnail = {
+	blob: Blob;
+	createdAt: number;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let isPruning = false;
+
+const isExpired = (entry: CachedThumbnail, now = Date.now()) => entry.createdAt < now - MAX_AGE;
+
+/**
+ * Delete expired thumbnails and, oldest first, whatever is over MAX_ENTRIES
+ */
+const prune = (db: IDBDatabase) =>
+	new Promise<void>((resolve, reject) => {
+		const transaction = db.transaction(STORE_NAME, "readwrite");
+		const store = transaction.objectStore(STORE_NAME);
+		const now = Date.now();
+		const countRequest = store.count();
+		countRequest.onsuccess = () => {
+			let excess = countRequest.result - MAX_ENTRIES;
+			const cursorRequest = store.index(CREATED_AT_INDEX).openCursor();
+			cursorRequest.onsuccess = () => {
+				const cursor = cursorRequest.result;
+				if (!cursor || (excess <= 0 && !isExpired(cursor.value, now))) return;
+				cursor.delete();
+				excess--;
+				cursor.continue();
+			};
+		};
+		transaction.oncomplete = () => resolve();
+		transaction.onerror = () => reject(transaction.error);
+	});
+
+const schedulePrune = (db: IDBDatabase) => {
+	if (isPruning) return;
+	isPruning = true;
+	prune(db)
+		.catch(() => undefined)
+		.finally(() => {
+			isPruning = false;
+		});
+};
+
+const openDb = () => {
+	dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+		const request = indexedDB.open(DB_NAME, DB_VERSION);
+		// Version 1 had no createdAt index; a thumbnail cache is cheap to rebuild, so it starts over
+		request.onupgradeneeded = () => {
+			const db = request.result;
+			if (db.objectStoreNames.contains(STORE_NAME)) db.deleteObjectStore(STORE_NAME);
+			db.createObjectStore(STORE_NAME).createIndex(CREATED_AT_INDEX, CREATED_AT_INDEX);
+		};
+		request.onsuccess = () => {
+			schedulePrune(request.result);
+			resolve(request.result);
+		};
+		request.onerror = () => reject(request.error);
+	}).catch((error) => {
+		// Let the next call try again, e.g. after private browsing blocked the first open
+		dbPromise = null;
+		throw error;
+	});
+	return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, build: (store: IDBObjectStore) => IDBRequest<T>) => {
+	const db = await openDb();
+	return new Promise<T>((resolve, reject) => {
+		const request = build(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+};
+
+/**
+ * The cached thumbnail for a key, or undefined when it is missing or IndexedDB is unavailable
+ */
+export const getCachedThumbnail = (key: string) =>
+	runRequest<CachedThumbnail | undefined>("readonly", (store) => store.get(key))
+		.then((entry) => (entry && !isExpired(entry) ? entry.blob : undefined))
+		.catch(() => undefined);
+
+/**
+ * Store a thumbnail; a failing cache only costs a regeneration next time
+ */
+export const putCachedThumbnail = (key: string, blob: Blob) =>
+	runRequest("readwrite", (store) => store.put({ blob, createdAt: Date.now() } satisfies CachedThumbnail, key))
+		.then(async () => schedulePrune(await openDb()))
+		.catch(() => undefined);
+
+/**
+ * Drop every cached thumbnail, e.g. on logout so the next user of the browser cannot see them
+ */
+export const clearThumbnailCache = () =>
+	runRequest("readwrite", (store) => store.clear())
+		.then(() => undefined)
+		.catch(() => undefined);
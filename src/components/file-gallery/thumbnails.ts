@@ -0,0 +1,115 @@
+import assetService from "@/api/services/assetService";
+import { buildFileUrl, getPreviewKind, type PreviewFile } from "@/components/file-preview/utils";
+import { getCachedThumbnail, putCachedThumbnail } from "./thumbnail-cache";
+
+/** Longest edge of a generated thumbnail, enough for the largest tile on a high-density screen */
+const THUMBNAIL_SIZE = 320;
+const THUMBNAIL_TYPE = "image/webp";
+const THUMBNAIL_QUALITY = 0.8;
+/** Bumped when the output changes so older cache entries are ignored */
+const THUMBNAIL_VERSION = 1;
+const MAX_PARALLEL_THUMBNAILS = 3;
+const VIDEO_FRAME_TIMEOUT = 15_000;
+
+let running = 0;
+const waiting: (() => void)[] = [];
+
+// Decoding hundreds of images at once stalls the page, so generation takes turns
+const withSlot = async <T>(task: () => Promise<T>) => {
+	if (running >= MAX_PARALLEL_THUMBNAILS) await new Promise<void>((resolve) => waiting.push(resolve));
+	running++;
+	try {
+		return await task();
+	} finally {
+		running--;
+		waiting.shift()?.();
+	}
+};
+
+/**
+ * Cache key of a file's thumbnail; size and upload date change when a file is replaced under the same id
+ */
+export const getThumbnailKey = (file: PreviewFile) =>
+	[THUMBNAIL_VERSION, file.id || file.url || file.relativePath, file.size ?? 0, file.uploadedAt ?? ""].join(":");
+
+export const canHaveThumbnail = (file: PreviewFile) => {
+	const kind = getPreviewKind(file);
+	return kind === "IMAGE" || kind === "VIDEO";
+};
+
+const drawThumbnail = (source: CanvasImageSource, width: number, height: number) => {
+	const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+	const canvas = document.createElement("canvas");
+	canvas.width = Math.max(1, Math.round(width * scale));
+	canvas.height = Math.max(1, Math.round(height * scale));
+	const context = canvas.getContext("2d");
+	if (!context) throw new Error("Canvas is not available");
+	context.drawImage(source, 0, 0, canvas.width, canvas.height);
+	return new Promise<Blob>((resolve, reject) =>
+		canvas.toBlob(
+			(blob) => (blob ? resolve(blob) : reject(new Error("Thumbnail could not be encoded"))),
+			THUMBNAIL_TYPE,
+			THUMBNAIL_QUALITY,
+		),
+	);
+};
+
+const createImageThumbnail = async (file: PreviewFile) => {
+	const bitmap = await createImageBitmap(await assetService.downloadAssetFile(file));
+	try {
+		return await drawThumbnail(bitmap, bitmap.width, bitmap.height);
+	} finally {
+		bitmap.close();
+	}
+};
+
+/**
+ * Grab the first frame through a muted video element; only the start of the file is fetched
+ */
+const createVideoThumbnail = (url: string) =>
+	new Promise<Blob>((resolve, reject) => {
+		const video = document.createElement("video");
+		const cleanup = () => {
+			clearTimeout(timer);
+			video.removeAttribute("src");
+			video.load();
+		};
+		const fail = (error: Error) => {
+			cleanup();
+			reject(error);
+		};
+		const timer = setTimeout(() => fail(new Error("Video frame timed out")), VIDEO_FRAME_TIMEOUT);
+		video.crossOrigin = "anonymous";
+		video.muted = true;
+		video.playsInline = true;
+		video.preload = "metadata";
+		// Frame zero is often black, a moment in is the first real picture
+		video.onloadedmetadata = () => {
+			video.currentTime = Math.min(0.1, video.duration / 2 || 0);
+		};
+		video.onseeked = () => {
+			drawThumbnail(video, video.videoWidth, video.videoHeight).then(resolve, reject).finally(cleanup);
+		};
+		video.onerror = () => fail(new Error("Video could not be loaded"));
+		video.src = url;
+	});
+
+/**
+ * Thumbnail of an image or video file, from the IndexedDB cache or generated in the browser.
+ * Resolves null when the file has no thumbnail so callers fall back to the file type icon.
+ */
+export const getFileThumbnail = async (file: PreviewFile) => {
+	if (!canHaveThumbnail(file)) return null;
+	const key = getThumbnailKey(file);
+	const cached = await getCachedThumbnail(key);
+	if (cached) return cached;
+	try {
+		const blob = await withSlot(() =>
+			getPreviewKind(file) === "VIDEO" ? createVideoThumbnail(buildFileUrl(file)) : createImageThumbnail(file),
+		);
+		await putCachedThumbnail(key, blob);
+		return blob;
+	} catch {
+		return null;
+	}
+};
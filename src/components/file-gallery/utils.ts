@@ -0,0 +1,51 @@
+import { getFileDisplayName, type PreviewFile } from "@/components/file-preview/utils";
+
+export type GallerySort = "NAME_ASC" | "NAME_DESC" | "SIZE_DESC" | "SIZE_ASC" | "DATE_DESC" | "DATE_ASC";
+
+export const GALLERY_SORT_LABELS: Record<GallerySort, string> = {
+	NAME_ASC: "Name (A-Z)",
+	NAME_DESC: "Name (Z-A)",
+	SIZE_DESC: "Largest first",
+	SIZE_ASC: "Smallest first",
+	DATE_DESC: "Newest first",
+	DATE_ASC: "Oldest first",
+};
+
+export const MIN_TILE_SIZE = 96;
+export const MAX_TILE_SIZE = 280;
+export const DEFAULT_TILE_SIZE = 160;
+
+/** Stable identity of a file within one asset; showroom files may come without an id */
+export const getGalleryFileKey = (file: PreviewFile) =>
+	file.id || file.relativePath || file.url || file.filename || getFileDisplayName(file);
+
+const getTime = (value?: string) => {
+	const time = value ? new Date(value).getTime() : Number.NaN;
+	return Number.isNaN(time) ? 0 : time;
+};
+
+const compareName = (a: PreviewFile, b: PreviewFile) =>
+	getFileDisplayName(a).localeCompare(getFileDisplayName(b), undefined, { numeric: true, sensitivity: "base" });
+
+const COMPARATORS: Record<GallerySort, (a: PreviewFile, b: PreviewFile) => number> = {
+	NAME_ASC: compareName,
+	NAME_DESC: (a, b) => compareName(b, a),
+	SIZE_DESC: (a, b) => (b.size ?? 0) - (a.size ?? 0),
+	SIZE_ASC: (a, b) => (a.size ?? 0) - (b.size ?? 0),
+	DATE_DESC: (a, b) => getTime(b.uploadedAt) - getTime(a.uploadedAt),
+	DATE_ASC: (a, b) => getTime(a.uploadedAt) - getTime(b.uploadedAt),
+};
+
+/**
+ * Files matching the search (name or mime type), in the chosen order
+ */
+export const filterAndSortFiles = <T extends PreviewFile>(files: T[], search: string, sort: GallerySort) => {
+	const query = search.trim().toLowerCase();
+	const matching = query
+		? files.filter(
+				(file) =>
+					getFileDisplayName(file).toLowerCase().includes(query) || file.mimeType?.toLowerCase().includes(query),
+			)
+		: files;
+	return [...matching].sort(COMPARATORS[sort]);
+};
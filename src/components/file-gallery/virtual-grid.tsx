@@ -0,0 +1,78 @@
+import { type ReactNode, useState } from "react";
+import { useMeasure } from "react-use";
+
+type VirtualGridProps<T> = {
+	items: T[];
+	/** Smallest tile width; columns stretch to fill the row */
+	minColumnWidth: number;
+	/** Extra height under the square part of each tile */
+	captionHeight: number;
+	gap?: number;
+	maxHeight: number;
+	getKey: (item: T) => string;
+	renderItem: (item: T, index: number) => ReactNode;
+};
+
+/** Rows rendered above and below the viewport so fast scrolling does not flash empty space */
+const OVERSCAN_ROWS = 2;
+
+/**
+ * Square-tile grid that only mounts the rows in view, for galleries with hundreds of files
+ */
+export function VirtualGrid<T>({
+	items,
+	minColumnWidth,
+	captionHeight,
+	gap = 12,
+	maxHeight,
+	getKey,
+	renderItem,
+}: VirtualGridProps<T>) {
+	const [measureRef, { width }] = useMeasure<HTMLDivElement>();
+	const [scrollTop, setScrollTop] = useState(0);
+
+	const columns = Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)));
+	const columnWidth = width ? (width - gap * (columns - 1)) / columns : minColumnWidth;
+	const rowHeight = columnWidth + captionHeight + gap;
+	const rowCount = Math.ceil(items.length / columns);
+	const totalHeight = Math.max(0, rowCount * rowHeight - gap);
+	const height = Math.min(maxHeight, totalHeight);
+	const firstRow = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN_ROWS);
+	const lastRow = Math.min(rowCount, Math.ceil((scrollTop + height) / rowHeight) + OVERSCAN_ROWS);
+
+	const rows: ReactNode[] = [];
+	for (let row = firstRow; row < lastRow; row++) {
+		const rowItems = items.slice(row * columns, (row + 1) * columns);
+		rows.push(
+			<div
+				key={row}
+				className="absolute inset-x-0 grid"
+				style={{
+					top: row * rowHeight,
+					height: columnWidth + captionHeight,
+					gap,
+					gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+				}}
+			>
+				{rowItems.map((item, offset) => (
+					<div key={getKey(item)} className="min-w-0">
+						{renderItem(item, row * columns + offset)}
+					</div>
+				))}
+			</div>,
+		);
+	}
+
+	return (
+		<div
+			ref={measureRef}
+			className="overflow-y-auto"
+			style={{ height }}
+			onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+		>
+			<div className="relative" style={{ height: totalHeight }}>
+				{rows}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,139 @@
+import { ChevronLeft, ChevronRight, Download } from "lucide-react";
+import { useEffect } from "react";
+import { Icon } from "@/components/icon";
+import { getFileThumb } from "@/components/upload/utils";
+import { Badge } from "@/ui/badge";
+import { Button } from "@/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { fBytes } from "@/utils/format-number";
+import { ImageViewer } from "./image-viewer";
+import { TextPreview } from "./text-preview";
+import { buildFileUrl, getFileDisplayName, getPreviewKind, PREVIEW_KIND_LABELS, type PreviewFile } from "./utils";
+
+export type FilePreviewTarget = {
+	files: PreviewFile[];
+	index: number;
+};
+
+type FilePreviewDialogProps = {
+	/** The dialog is open while a target is set */
+	target: FilePreviewTarget | null;
+	onIndexChange: (index: number) => void;
+	onClose: () => void;
+};
+
+/**
+ * Previews one file of a gallery at a time; left and right arrow keys step through the files
+ */
+export function FilePreviewDialog({ target, onIndexChange, onClose }: FilePreviewDialogProps) {
+	const files = target?.files ?? [];
+	const index = target?.index ?? 0;
+	const file = files[index];
+	const hasPrevious = index > 0;
+	const hasNext = index < files.length - 1;
+
+	useEffect(() => {
+		if (!target) return;
+		const handleKeyDown = (event: KeyboardEvent) => {
+			// Leave the arrows to media controls and text inputs that have focus
+			if (event.target instanceof HTMLMediaElement || event.target instanceof HTMLInputElement) return;
+			if (event.key === "ArrowLeft" && target.index > 0) onIndexChange(target.index - 1);
+			if (event.key === "ArrowRight" && target.index < target.files.length - 1) onIndexChange(target.index + 1);
+		};
+		window.addEventListener("keydown", handleKeyDown);
+		return () => window.removeEventListener("keydown", handleKeyDown);
+	}, [target, onIndexChange]);
+
+	const renderPreview = () => {
+		if (!file) return null;
+		const url = buildFileUrl(file);
+		const name = getFileDisplayName(file);
+		const kind = getPreviewKind(file);
+		if (url && kind === "IMAGE") return <ImageViewer key={url} src={url} alt={name} />;
+		if (url && kind === "PDF") {
+			return <iframe src={url} title={name} className="h-[70vh] w-full rounded-md border bg-background" />;
+		}
+		if (url && kind === "VIDEO") {
+			return (
+				// biome-ignore lint/a11y/useMediaCaption: user uploads come without caption tracks
+				<video key={url} src={url} controls className="max-h-[70vh] w-full rounded-md border bg-black" />
+			);
+		}
+		if (url && kind === "AUDIO") {
+			return (
+				<div className="flex flex-col items-center gap-4 py-8">
+					<Icon icon={`local:${getFileThumb(name)}`} size={64} />
+					{/* biome-ignore lint/a11y/useMediaCaption: user uploads come without caption tracks */}
+					<audio key={url} src={url} controls className="w-full max-w-lg" />
+				</div>
+			);
+		}
+		if (kind === "TEXT") return <TextPreview key={file.id || url} file={file} />;
+		return (
+			<div className="flex flex-col items-center gap-3 py-12 text-center">
+				<Icon icon={`local:${getFileThumb(name)}`} size={64} />
+				<div className="text-sm text-muted-foreground">
+					{url ? "There is no preview for this file type." : "This file has no download location."}
+				</div>
+				{url && (
+					<Button asChild size="sm">
+						<a href={url} target="_blank" rel="noreferrer" download>
+							Download
+						</a>
+					</Button>
+				)}
+			</div>
+		);
+	};
+
+	const url = file ? buildFileUrl(file) : "";
+
+	return (
+		<Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+			<DialogContent className="w-[95vw] max-w-5xl">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 pr-8">
+						<span className="truncate">{file ? getFileDisplayName(file) : "Preview"}</span>
+						{file && <Badge variant="secondary">{PREVIEW_KIND_LABELS[getPreviewKind(file)]}</Badge>}
+					</DialogTitle>
+					<DialogDescription>
+						{file?.mimeType ?? "Unknown type"}
+						{file?.size ? ` · ${fBytes(file.size)}` : ""}
+						{files.length > 1 ? ` · ${index + 1} of ${files.length}` : ""}
+					</DialogDescription>
+				</DialogHeader>
+				{renderPreview()}
+				<div className="flex items-center justify-between gap-2">
+					<Button
+						type="button"
+						variant="outline"
+						size="sm"
+						disabled={!hasPrevious}
+						onClick={() => onIndexChange(index - 1)}
+					>
+						<ChevronLeft className="mr-1 h-4 w-4" />
+						Previous
+					</Button>
+					{url && (
+						<Button asChild variant="ghost" size="sm">
+							<a href={url} target="_blank" rel="noreferrer" download>
+								<Download className="mr-1 h-4 w-4" />
+								Download
+							</a>
+						</Button>
+					)}
+					<Button
+						type="button"
+						variant="outline"
+						size="sm"
+						disabled={!hasNext}
+						onClick={() => onIndexChange(index + 1)}
+					>
+						Next
+						<ChevronRight className="ml-1 h-4 w-4" />
+					</Button>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,85 @@
+import { Minus, Plus, RotateCcw } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/ui/button";
+
+type ImageViewerProps = {
+	src: string;
+	alt: string;
+};
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 5;
+const ZOOM_STEP = 0.25;
+
+const clampZoom = (value: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value));
+
+/**
+ * Lightbox image with button, keyboard (+, -, 0) and ctrl+wheel zoom; zoomed images scroll to pan.
+ * Key it by `src` so the zoom resets between images.
+ */
+export function ImageViewer({ src, alt }: ImageViewerProps) {
+	const [zoom, setZoom] = useState(1);
+	const [hasError, setHasError] = useState(false);
+
+	useEffect(() => {
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (event.key === "+" || event.key === "=") setZoom((prev) => clampZoom(prev + ZOOM_STEP));
+			if (event.key === "-") setZoom((prev) => clampZoom(prev - ZOOM_STEP));
+			if (event.key === "0") setZoom(1);
+		};
+		window.addEventListener("keydown", handleKeyDown);
+		return () => window.removeEventListener("keydown", handleKeyDown);
+	}, []);
+
+	if (hasError) {
+		return <div className="py-8 text-center text-sm text-muted-foreground">The image could not be loaded.</div>;
+	}
+
+	return (
+		<div className="space-y-2">
+			<div
+				className="flex h-[65vh] overflow-auto rounded-md border bg-muted/30"
+				onWheel={(event) => {
+					if (!event.ctrlKey) return;
+					setZoom((prev) => clampZoom(prev + (event.deltaY < 0 ? ZOOM_STEP : -ZOOM_STEP)));
+				}}
+			>
+				<img
+					src={src}
+					alt={alt}
+					onError={() => setHasError(true)}
+					className="m-auto max-w-none object-contain transition-[width] duration-150"
+					style={
+						zoom === 1
+							? { maxWidth: "100%", maxHeight: "100%" }
+							: { width: `${zoom * 100}%`, maxHeight: zoom < 1 ? "100%" : undefined }
+					}
+				/>
+			</div>
+			<div className="flex items-center justify-center gap-2">
+				<Button
+					type="button"
+					variant="outline"
+					size="icon"
+					disabled={zoom <= MIN_ZOOM}
+					onClick={() => setZoom((prev) => clampZoom(prev - ZOOM_STEP))}
+				>
+					<Minus className="h-4 w-4" />
+				</Button>
+				<span className="w-14 text-center text-xs text-muted-foreground">{Math.round(zoom * 100)}%</span>
+				<Button
+					type="button"
+					variant="outline"
+					size="icon"
+					disabled={zoom >= MAX_ZOOM}
+					onClick={() => setZoom((prev) => clampZoom(prev + ZOOM_STEP))}
+				>
+					<Plus className="h-4 w-4" />
+				</Button>
+				<Button type="button" variant="ghost" size="icon" disabled={zoom === 1} onClick={() => setZoom(1)}>
+					<RotateCcw className="h-4 w-4" />
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,4 @@
+export * from "./file-preview-dialog";
+export * from "./image-viewer";
+export * from "./text-preview";
+export * from "./utils";
@@ -0,0 +1,64 @@
+import "@/utils/highlight";
+
+import { useQuery } from "@tanstack/react-query";
+import hljs from "highlight.js";
+import { useMemo } from "react";
+import assetService from "@/api/services/assetService";
+import { getTextLanguage, MAX_TEXT_PREVIEW_LENGTH, type PreviewFile } from "./utils";
+
+type TextPreviewProps = {
+	file: PreviewFile;
+};
+
+const prettyJson = (text: string) => {
+	try {
+		return JSON.stringify(JSON.parse(text), null, 2);
+	} catch {
+		return text;
+	}
+};
+
+/**
+ * Syntax-highlighted view of a text file; the content is fetched through the API client so auth applies
+ */
+export function TextPreview({ file }: TextPreviewProps) {
+	const language = getTextLanguage(file);
+	const { data, isLoading, isError } = useQuery({
+		queryKey: ["file-preview", file.id || file.url || file.relativePath, "text"],
+		queryFn: async () => (await assetService.downloadAssetFile(file)).text(),
+		staleTime: Number.POSITIVE_INFINITY,
+	});
+
+	const preview = useMemo(() => {
+		if (data === undefined) return null;
+		const isTruncated = data.length > MAX_TEXT_PREVIEW_LENGTH;
+		const text = isTruncated ? data.slice(0, MAX_TEXT_PREVIEW_LENGTH) : data;
+		const source = language === "json" && !isTruncated ? prettyJson(text) : text;
+		const html =
+			language && hljs.getLanguage(language)
+				? hljs.highlight(source, { language, ignoreIllegals: true }).value
+				: hljs.highlightAuto(source).value;
+		return { html, isTruncated };
+	}, [data, language]);
+
+	if (isLoading) {
+		return <div className="py-8 text-center text-sm text-muted-foreground">Loading preview...</div>;
+	}
+	if (isError || !preview) {
+		return <div className="py-8 text-center text-sm text-muted-foreground">Failed to load the file.</div>;
+	}
+
+	return (
+		<div className="space-y-2">
+			{preview.isTruncated && (
+				<div className="text-xs text-muted-foreground">
+					Showing the first {MAX_TEXT_PREVIEW_LENGTH.toLocaleString()} characters. Download the file to see all of it.
+				</div>
+			)}
+			<pre className="hljs max-h-[65vh] overflow-auto rounded-md p-4 text-xs">
+				{/* biome-ignore lint/security/noDangerouslySetInnerHtml: highlight.js escapes the file content */}
+				<code dangerouslySetInnerHTML={{ __html: preview.html }} />
+			</pre>
+		</div>
+	);
+}
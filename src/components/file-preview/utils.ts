@@ -0,0 +1,91 @@
+import type { AssetFile } from "#/entity";
+import { fileTypeByName, getFileFormat } from "@/components/upload/utils";
+import { GLOBAL_CONFIG } from "@/global-config";
+
+/** Tenant and showroom attachments differ in which keys are guaranteed, previews only need these */
+export type PreviewFile = Partial<AssetFile>;
+
+export type PreviewKind = "IMAGE" | "PDF" | "VIDEO" | "AUDIO" | "TEXT" | "UNKNOWN";
+
+export const PREVIEW_KIND_LABELS: Record<PreviewKind, string> = {
+	IMAGE: "Image",
+	PDF: "PDF document",
+	VIDEO: "Video",
+	AUDIO: "Audio",
+	TEXT: "Text",
+	UNKNOWN: "File",
+};
+
+/** Larger text files are cut off, highlighting megabytes of text freezes the page */
+export const MAX_TEXT_PREVIEW_LENGTH = 200_000;
+
+/** highlight.js language per extension; text files without an entry are auto-detected */
+const TEXT_LANGUAGES: Record<string, string> = {
+	json: "json",
+	js: "javascript",
+	mjs: "javascript",
+	ts: "typescript",
+	html: "xml",
+	xml: "xml",
+	css: "css",
+	scss: "scss",
+	sh: "bash",
+	bash: "bash",
+	yml: "yaml",
+	yaml: "yaml",
+	md: "markdown",
+	ini: "ini",
+	conf: "ini",
+	env: "ini",
+	sql: "sql",
+	csv: "plaintext",
+	log: "plaintext",
+	txt: "plaintext",
+};
+
+const TEXT_MIME_TYPES = ["application/json", "application/xml", "application/javascript", "application/x-yaml"];
+
+const FORMAT_KINDS: Record<string, PreviewKind> = {
+	img: "IMAGE",
+	pdf: "PDF",
+	video: "VIDEO",
+	audio: "AUDIO",
+	txt: "TEXT",
+};
+
+export const buildFileUrl = (file: PreviewFile) => {
+	const baseUrl = GLOBAL_CONFIG.apiBaseUrl?.replace(/\/$/, "") || "";
+	if (file.url) {
+		if (file.url.startsWith("http://") || file.url.startsWith("https://")) return file.url;
+		const relativeUrl = file.url.startsWith("/") ? file.url : `/${file.url}`;
+		return `${baseUrl}${relativeUrl}`;
+	}
+	if (!file.relativePath) return "";
+	const path = file.relativePath.startsWith("/") ? file.relativePath : `/${file.relativePath}`;
+	return `${baseUrl}${path}`;
+};
+
+export const getFileDisplayName = (file: PreviewFile) => file.originalName ?? file.filename ?? "Untitled file";
+
+/**
+ * Pick the previewer from the file's mimeType, falling back to its extension when the type is missing or generic
+ */
+export const getPreviewKind = (file: PreviewFile): PreviewKind => {
+	const mimeType = file.mimeType?.toLowerCase() ?? "";
+	if (mimeType.startsWith("image/")) return "IMAGE";
+	if (mimeType === "application/pdf") return "PDF";
+	if (mimeType.startsWith("video/")) return "VIDEO";
+	if (mimeType.startsWith("audio/")) return "AUDIO";
+	if (mimeType.startsWith("text/") || TEXT_MIME_TYPES.includes(mimeType) || mimeType.endsWith("+json")) return "TEXT";
+	if (mimeType && mimeType !== "application/octet-stream") return "UNKNOWN";
+	const name = getFileDisplayName(file).toLowerCase();
+	return FORMAT_KINDS[getFileFormat(name)] ?? (TEXT_LANGUAGES[fileTypeByName(name)] ? "TEXT" : "UNKNOWN");
+};
+
+/**
+ * highlight.js language for a text file, or undefined to let it guess
+ */
+export const getTextLanguage = (file: PreviewFile) => {
+	if (file.mimeType?.includes("json")) return "json";
+	return TEXT_LANGUAGES[fileTypeByName(getFileDisplayName(file).toLowerCase())];
+};
@@ -0,0 +1,62 @@
+export type MarkdownFormat =
+	| "BOLD"
+	| "ITALIC"
+	| "STRIKE"
+	| "CODE"
+	| "LINK"
+	| "HEADING"
+	| "BULLET"
+	| "NUMBER"
+	| "TASK"
+	| "QUOTE";
+
+export type TextSelection = { value: string; start: number; end: number };
+
+const WRAPPERS: Partial<Record<MarkdownFormat, string>> = { BOLD: "**", ITALIC: "_", STRIKE: "~~", CODE: "`" };
+
+const LINE_PREFIXES: Partial<Record<MarkdownFormat, string>> = {
+	HEADING: "## ",
+	BULLET: "- ",
+	NUMBER: "1. ",
+	TASK: "- [ ] ",
+	QUOTE: "> ",
+};
+
+/**
+ * Apply a toolbar format to the selected text. Inline formats wrap the selection (or a placeholder),
+ * line formats prefix every selected line and are removed again when all lines already have them.
+ */
+export const applyMarkdownFormat = ({ value, start, end }: TextSelection, format: MarkdownFormat): TextSelection => {
+	const selected = value.slice(start, end);
+	const wrapper = WRAPPERS[format];
+	if (wrapper) {
+		const text = selected || "text";
+		const next = `${value.slice(0, start)}${wrapper}${text}${wrapper}${value.slice(end)}`;
+		return { value: next, start: start + wrapper.length, end: start + wrapper.length + text.length };
+	}
+	if (format === "LINK") {
+		const text = selected || "link";
+		const next = `${value.slice(0, start)}[${text}](https://)${value.slice(end)}`;
+		// Select the url so it can be typed over right away
+		const urlStart = start + text.length + 3;
+		return { value: next, start: urlStart, end: urlStart + "https://".length };
+	}
+	const prefix = LINE_PREFIXES[format] ?? "";
+	const lineStart = start > 0 ? value.lastIndexOf("\n", start - 1) + 1 : 0;
+	const lineEndIndex = value.indexOf("\n", end);
+	const lineEnd = lineEndIndex === -1 ? value.length : lineEndIndex;
+	const lines = value.slice(lineStart, lineEnd).split("\n");
+	const pattern = format === "NUMBER" ? /^\d+\. / : null;
+	const hasPrefix = lines.every((line) => (pattern ? pattern.test(line) : line.startsWith(prefix)));
+	const block = lines
+		.map((line, index) => {
+			if (hasPrefix) return pattern ? line.replace(pattern, "") : line.slice(prefix.length);
+			return pattern ? `${index + 1}. ${line}` : `${prefix}${line}`;
+		})
+		.join("\n");
+	return {
+		value: `${value.slice(0, lineStart)}${block}${value.slice(lineEnd)}`,
+		start: lineStart,
+		end: lineStart + block.length,
+	};
+};
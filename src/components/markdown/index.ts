@@ -0,0 +1,4 @@
+export * from "./format";
+export * from "./markdown-editor";
+export * from "./markdown-view";
+export * from "./parser";
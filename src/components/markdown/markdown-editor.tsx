@@ -0,0 +1,110 @@
+import {
+	Bold,
+	Code,
+	Heading,
+	Italic,
+	Link,
+	List,
+	ListChecks,
+	ListOrdered,
+	type LucideIcon,
+	Quote,
+	Strikethrough,
+} from "lucide-react";
+import { useRef, useState } from "react";
+import { Button } from "@/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/ui/tabs";
+import { Textarea } from "@/ui/textarea";
+import { cn } from "@/utils";
+import { applyMarkdownFormat, type MarkdownFormat } from "./format";
+import { MarkdownView } from "./markdown-view";
+import { toggleTaskItem } from "./parser";
+
+type MarkdownEditorProps = {
+	value: string;
+	onChange: (value: string) => void;
+	placeholder?: string;
+	className?: string;
+};
+
+const TOOLBAR: { format: MarkdownFormat; label: string; icon: LucideIcon }[] = [
+	{ format: "HEADING", label: "Heading", icon: Heading },
+	{ format: "BOLD", label: "Bold", icon: Bold },
+	{ format: "ITALIC", label: "Italic", icon: Italic },
+	{ format: "STRIKE", label: "Strikethrough", icon: Strikethrough },
+	{ format: "CODE", label: "Code", icon: Code },
+	{ format: "LINK", label: "Link", icon: Link },
+	{ format: "BULLET", label: "Bulleted list", icon: List },
+	{ format: "NUMBER", label: "Numbered list", icon: ListOrdered },
+	{ format: "TASK", label: "Checklist", icon: ListChecks },
+	{ format: "QUOTE", label: "Quote", icon: Quote },
+];
+
+/**
+ * Markdown textarea with a formatting toolbar and a preview tab; checklist items can be ticked in the preview
+ */
+export function MarkdownEditor({ value, onChange, placeholder, className }: MarkdownEditorProps) {
+	const [tab, setTab] = useState("write");
+	const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+	const handleFormat = (format: MarkdownFormat) => {
+		const textarea = textareaRef.current;
+		if (!textarea) return;
+		const next = applyMarkdownFormat({ value, start: textarea.selectionStart, end: textarea.selectionEnd }, format);
+		onChange(next.value);
+		// Restore the selection once the controlled value has been rendered
+		requestAnimationFrame(() => {
+			textarea.focus();
+			textarea.setSelectionRange(next.start, next.end);
+		});
+	};
+
+	return (
+		<Tabs value={tab} onValueChange={setTab} className={cn("gap-2", className)}>
+			<div className="flex flex-wrap items-center justify-between gap-2">
+				<TabsList className="h-8">
+					<TabsTrigger value="write" className="text-xs">
+						Write
+					</TabsTrigger>
+					<TabsTrigger value="preview" className="text-xs">
+						Preview
+					</TabsTrigger>
+				</TabsList>
+				{tab === "write" && (
+					<div className="flex flex-wrap gap-0.5">
+						{TOOLBAR.map(({ format, label, icon: Icon }) => (
+							<Button
+								key={format}
+								type="button"
+								variant="ghost"
+								size="icon"
+								className="h-7 w-7"
+								title={label}
+								aria-label={label}
+								onClick={() => handleFormat(format)}
+							>
+								<Icon className="h-3.5 w-3.5" />
+							</Button>
+						))}
+					</div>
+				)}
+			</div>
+			<TabsContent value="write">
+				<Textarea
+					ref={textareaRef}
+					value={value}
+					placeholder={placeholder ?? "Write in Markdown, e.g. ## Steps or - [ ] a checklist item"}
+					className="min-h-32 font-mono text-xs"
+					onChange={(event) => onChange(event.target.value)}
+				/>
+			</TabsContent>
+			<TabsContent value="preview" className="min-h-32 rounded-md border px-3 py-2">
+				{value.trim() ? (
+					<MarkdownView source={value} onToggleTask={(line) => onChange(toggleTaskItem(value, line))} />
+				) : (
+					<div className="text-sm text-muted-foreground">Nothing to preview.</div>
+				)}
+			</TabsContent>
+		</Tabs>
+	);
+}
@@ -0,0 +1,133 @@
+import { type ReactNode, useMemo } from "react";
+import { Checkbox } from "@/ui/checkbox";
+import { cn } from "@/utils";
+import { type MarkdownBlock, type MarkdownInline, type MarkdownList, parseMarkdown } from "./parser";
+
+type MarkdownViewProps = {
+	source: string;
+	className?: string;
+	/** Makes task items clickable; receives the source line of the item */
+	onToggleTask?: (line: number) => void;
+};
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+const HEADING_CLASSES = ["text-lg font-semibold", "text-base font-semibold", "text-sm font-semibold"];
+
+const renderInline = (nodes: MarkdownInline[]): ReactNode[] =>
+	nodes.map((node, index) => {
+		const key = `${node.type}-${index}`;
+		switch (node.type) {
+			case "text":
+				return node.text;
+			case "break":
+				return <br key={key} />;
+			case "code":
+				return (
+					<code key={key} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">
+						{node.text}
+					</code>
+				);
+			case "strong":
+				return <strong key={key}>{renderInline(node.children)}</strong>;
+			case "em":
+				return <em key={key}>{renderInline(node.children)}</em>;
+			case "del":
+				return <del key={key}>{renderInline(node.children)}</del>;
+			case "link":
+				// Anything but web and mail links (javascript:, data:, relative paths) is shown as plain text
+				return SAFE_URL.test(node.href) ? (
+					<a
+						key={key}
+						href={node.href}
+						target="_blank"
+						rel="noopener noreferrer"
+						className="text-primary underline underline-offset-2"
+					>
+						{renderInline(node.children)}
+					</a>
+				) : (
+					<span key={key}>{renderInline(node.children)}</span>
+				);
+			default:
+				return null;
+		}
+	});
+
+/**
+ * Formatted view of a Markdown note. Notes are parsed into React elements, never injected as HTML,
+ * so script tags, event handlers and unsafe links in a note cannot run.
+ */
+export function MarkdownView({ source, className, onToggleTask }: MarkdownViewProps) {
+	const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+	const renderList = (list: MarkdownList, key: string) => {
+		const isTaskList = list.items.some((item) => item.checked !== undefined);
+		const items = list.items.map((item) => (
+			<li key={item.line} className={cn(item.checked !== undefined && "flex list-none flex-wrap items-start gap-2")}>
+				{item.checked !== undefined && (
+					<Checkbox
+						className="mt-0.5"
+						checked={item.checked}
+						disabled={!onToggleTask}
+						aria-label={item.checked ? "Mark as not done" : "Mark as done"}
+						onCheckedChange={() => onToggleTask?.(item.line)}
+					/>
+				)}
+				<span
+					className={cn(item.checked && "text-muted-foreground line-through", item.checked !== undefined && "flex-1")}
+				>
+					{renderInline(item.children)}
+				</span>
+				{item.sublist && <div className="basis-full">{renderList(item.sublist, `${key}-${item.line}`)}</div>}
+			</li>
+		));
+		const listClass = cn("space-y-1", isTaskList ? "pl-1" : "pl-5", list.ordered ? "list-decimal" : "list-disc");
+		return list.ordered ? (
+			<ol key={key} start={list.start} className={listClass}>
+				{items}
+			</ol>
+		) : (
+			<ul key={key} className={listClass}>
+				{items}
+			</ul>
+		);
+	};
+
+	const renderBlocks = (items: MarkdownBlock[], prefix: string): ReactNode[] =>
+		items.map((block, index) => {
+			const key = `${prefix}${index}`;
+			switch (block.type) {
+				case "heading": {
+					const Heading = `h${Math.min(block.level + 2, 6)}` as "h3";
+					return (
+						<Heading key={key} className={HEADING_CLASSES[Math.min(block.level, 3) - 1]}>
+							{renderInline(block.children)}
+						</Heading>
+					);
+				}
+				case "paragraph":
+					return <p key={key}>{renderInline(block.children)}</p>;
+				case "code":
+					return (
+						<pre key={key} className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs">
+							<code>{block.text}</code>
+						</pre>
+					);
+				case "quote":
+					return (
+						<blockquote key={key} className="space-y-2 border-l-2 pl-3 text-muted-foreground">
+							{renderBlocks(block.blocks, `${key}-`)}
+						</blockquote>
+					);
+				case "rule":
+					return <hr key={key} className="border-border" />;
+				case "list":
+					return renderList(block, key);
+				default:
+					return null;
+			}
+		});
+
+	return <div className={cn("space-y-2 break-words text-sm", className)}>{renderBlocks(blocks, "")}</div>;
+}
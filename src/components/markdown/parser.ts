@@ -0,0 +1,228 @@
+/**
+ * Small Markdown parser for notes: headings, paragraphs, emphasis, inline and fenced code, links, quotes,
+ * rules and (nested) bullet, numbered and task lists. Raw HTML is not supported and stays plain text, the
+ * result is rendered as React elements so nothing in a note is ever interpreted as markup.
+ */
+
+export type MarkdownInline =
+	| { type: "text"; text: string }
+	| { type: "code"; text: string }
+	| { type: "strong" | "em" | "del"; children: MarkdownInline[] }
+	| { type: "link"; href: string; children: MarkdownInline[] }
+	| { type: "break" };
+
+export type MarkdownListItem = {
+	/** Source line of the item, used to toggle task items in place */
+	line: number;
+	/** Set for task items, `- [ ]` or `- [x]` */
+	checked?: boolean;
+	children: MarkdownInline[];
+	sublist?: MarkdownList;
+};
+
+export type MarkdownList = { type: "list"; ordered: boolean; start?: number; items: MarkdownListItem[] };
+
+export type MarkdownBlock =
+	| { type: "heading"; level: number; children: MarkdownInline[] }
+	| { type: "paragraph"; children: MarkdownInline[] }
+	| { type: "code"; language?: string; text: string }
+	| { type: "quote"; blocks: MarkdownBlock[] }
+	| { type: "rule" }
+	| MarkdownList;
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const TASK_ITEM = /^((?:\s{0,3}>\s?)*\s*(?:[-*+]|\d{1,9}[.)])\s+)\[([ xX])\]/;
+
+const INLINE =
+	/(?<code>`+)(?<codeText>.+?)\k<code>|\*\*(?<strong>.+?)\*\*|__(?<strongAlt>.+?)__|~~(?<del>.+?)~~|\*(?<em>[^*\s](?:.*?[^*\s])?)\*|\b_(?<emAlt>[^_\s](?:.*?[^_\s])?)_\b|\[(?<label>[^\]]+)\]\(\s*<?(?<href>[^)\s>]+)>?(?:\s+"[^"]*")?\s*\)|(?<url>https?:\/\/[^\s<]+[^\s<.,:;"')\]])|\\(?<escaped>[\\`*_{}[\]()#+\-.!~>|])|(?<newline>\n)/g;
+
+const getIndent = (line: string) => line.length - line.trimStart().length;
+
+const isBlank = (line: string) => !line.trim();
+
+const isBlockStart = (line: string) =>
+	FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+export const parseInline = (text: string): MarkdownInline[] => {
+	const nodes: MarkdownInline[] = [];
+	const pushText = (value: string) => {
+		if (!value) return;
+		const last = nodes.at(-1);
+		if (last?.type === "text") last.text += value;
+		else nodes.push({ type: "text", text: value });
+	};
+	let index = 0;
+	for (const match of text.matchAll(INLINE)) {
+		const groups = match.groups ?? {};
+		pushText(text.slice(index, match.index));
+		index = match.index + match[0].length;
+		if (groups.code) nodes.push({ type: "code", text: groups.codeText.trim() || groups.codeText });
+		else if (groups.strong ?? groups.strongAlt)
+			nodes.push({ type: "strong", children: parseInline(groups.strong ?? groups.strongAlt) });
+		else if (groups.del) nodes.push({ type: "del", children: parseInline(groups.del) });
+		else if (groups.em ?? groups.emAlt) nodes.push({ type: "em", children: parseInline(groups.em ?? groups.emAlt) });
+		else if (groups.label) nodes.push({ type: "link", href: groups.href, children: parseInline(groups.label) });
+		else if (groups.url) nodes.push({ type: "link", href: groups.url, children: [{ type: "text", text: groups.url }] });
+		else if (groups.escaped) pushText(groups.escaped);
+		else if (groups.newline) nodes.push({ type: "break" });
+	}
+	pushText(text.slice(index));
+	return nodes;
+};
+
+const parseList = (lines: string[], start: number, offset: number): { list: MarkdownList; next: number } => {
+	const first = LIST_ITEM.exec(lines[start]);
+	const indent = getIndent(lines[start]);
+	const ordered = /\d/.test(first?.[2] ?? "");
+	const list: MarkdownList = {
+		type: "list",
+		ordered,
+		start: ordered ? Number.parseInt(first?.[2] ?? "1", 10) : undefined,
+		items: [],
+	};
+	const texts: string[] = [];
+	let index = start;
+	while (index < lines.length) {
+		const line = lines[index];
+		if (isBlank(line)) {
+			// A blank line only continues the list when the list goes on after it
+			let next = index + 1;
+			while (next < lines.length && isBlank(lines[next])) next++;
+			const nextLine = lines[next];
+			if (nextLine === undefined || getIndent(nextLine) < indent) break;
+			if (getIndent(nextLine) === indent && !LIST_ITEM.test(nextLine)) break;
+			index = next;
+			continue;
+		}
+		const match = LIST_ITEM.exec(line);
+		const lineIndent = getIndent(line);
+		if (match && lineIndent === indent) {
+			if (/\d/.test(match[2]) !== ordered) break;
+			const task = TASK.exec(match[3]);
+			list.items.push({ line: offset + index, checked: task ? task[1] !== " " : undefined, children: [] });
+			texts.push(task ? task[2] : match[3]);
+			index++;
+			continue;
+		}
+		if (lineIndent <= indent || !list.items.length) break;
+		if (match) {
+			const nested = parseList(lines, index, offset);
+			list.items[list.items.length - 1].sublist = nested.list;
+			index = nested.next;
+			continue;
+		}
+		texts[texts.length - 1] += `\n${line.trim()}`;
+		index++;
+	}
+	list.items.forEach((item, itemIndex) => {
+		item.children = parseInline(texts[itemIndex]);
+	});
+	return { list, next: index };
+};
+
+/**
+ * @param offset line number of `lines[0]` in the whole note, so list items know their source line
+ */
+const parseBlocks = (lines: string[], offset: number): MarkdownBlock[] => {
+	const blocks: MarkdownBlock[] = [];
+	let index = 0;
+	while (index < lines.length) {
+		const line = lines[index];
+		if (isBlank(line)) {
+			index++;
+			continue;
+		}
+		const fence = FENCE.exec(line);
+		if (fence) {
+			const body: string[] = [];
+			index++;
+			while (index < lines.length && !lines[index].trim().startsWith(fence[1])) body.push(lines[index++]);
+			index++;
+			blocks.push({ type: "code", language: fence[2] || undefined, text: body.join("\n") });
+			continue;
+		}
+		const heading = HEADING.exec(line);
+		if (heading) {
+			blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+			index++;
+			continue;
+		}
+		if (RULE.test(line)) {
+			blocks.push({ type: "rule" });
+			index++;
+			continue;
+		}
+		if (QUOTE.test(line)) {
+			const start = index;
+			const body: string[] = [];
+			while (index < lines.length && QUOTE.test(lines[index])) body.push(lines[index++].replace(QUOTE, ""));
+			blocks.push({ type: "quote", blocks: parseBlocks(body, offset + start) });
+			continue;
+		}
+		if (LIST_ITEM.test(line)) {
+			const { list, next } = parseList(lines, index, offset);
+			blocks.push(list);
+			index = next;
+			continue;
+		}
+		const body = [line.trim()];
+		index++;
+		while (index < lines.length && !isBlank(lines[index]) && !isBlockStart(lines[index])) {
+			body.push(lines[index++].trim());
+		}
+		blocks.push({ type: "paragraph", children: parseInline(body.join("\n")) });
+	}
+	return blocks;
+};
+
+const toLines = (source: string) => source.replace(/\r\n?/g, "\n").split("\n");
+
+export const parseMarkdown = (source: string) => parseBlocks(toLines(source), 0);
+
+const inlineText = (nodes: MarkdownInline[]): string =>
+	nodes
+		.map((node) => {
+			if (node.type === "text" || node.type === "code") return node.text;
+			if (node.type === "break") return " ";
+			return inlineText(node.children);
+		})
+		.join("");
+
+const listText = (list: MarkdownList): string[] =>
+	list.items.flatMap((item) => [
+		`${item.checked === undefined ? "" : item.checked ? "☑ " : "☐ "}${inlineText(item.children)}`,
+		...(item.sublist ? listText(item.sublist) : []),
+	]);
+
+const blockText = (block: MarkdownBlock): string[] => {
+	if (block.type === "rule") return [];
+	if (block.type === "code") return [block.text];
+	if (block.type === "quote") return block.blocks.flatMap(blockText);
+	if (block.type === "list") return listText(block);
+	return [inlineText(block.children)];
+};
+
+/**
+ * The note without Markdown syntax on one line, for table cells and other short previews
+ */
+export const markdownToPlainText = (source: string) =>
+	parseMarkdown(source).flatMap(blockText).join(" ").replace(/\s+/g, " ").trim();
+
+/**
+ * Check or uncheck the task item on a source line; other lines are left untouched
+ */
+export const toggleTaskItem = (source: string, line: number) => {
+	const lines = toLines(source);
+	const current = lines[line];
+	if (current === undefined || !TASK_ITEM.test(current)) return source;
+	lines[line] = current.replace(
+		TASK_ITEM,
+		(_, prefix: string, mark: string) => `${prefix}[${mark === " " ? "x" : " "}]`,
+	);
+	return lines.join("\n");
+};
@@ -0,0 +1,3 @@
+export * from "./password-generator";
+export * from "./password-strength";
+export * from "./utils";
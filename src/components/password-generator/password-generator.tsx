@@ -0,0 +1,201 @@
+import { Copy, RefreshCw, Wand2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/ui/button";
+import { Label } from "@/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/ui/popover";
+import { Slider } from "@/ui/slider";
+import { Switch } from "@/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/ui/tabs";
+import { PasswordStrengthMeter } from "./password-strength";
+import {
+	DEFAULT_PASSPHRASE_OPTIONS,
+	DEFAULT_PASSWORD_OPTIONS,
+	generatePassphrase,
+	generatePassword,
+	getPassphraseEntropy,
+	PASSPHRASE_WORD_ENTROPY,
+	type PassphraseOptions,
+	type PasswordOptions,
+} from "./utils";
+import { WORDLIST } from "./wordlist";
+
+type PasswordGeneratorProps = {
+	/** Called with the generated value when the user accepts it */
+	onUse: (password: string) => void;
+	disabled?: boolean;
+};
+
+type GeneratorMode = "password" | "passphrase";
+
+const CHARSET_TOGGLES: { key: keyof PasswordOptions; label: string }[] = [
+	{ key: "uppercase", label: "A-Z" },
+	{ key: "lowercase", label: "a-z" },
+	{ key: "digits", label: "0-9" },
+	{ key: "symbols", label: "!@#" },
+];
+
+const SEPARATORS = ["-", ".", "_", " "];
+
+export function PasswordGenerator({ onUse, disabled }: PasswordGeneratorProps) {
+	const [open, setOpen] = useState(false);
+	const [mode, setMode] = useState<GeneratorMode>("password");
+	const [passwordOptions, setPasswordOptions] = useState<PasswordOptions>(DEFAULT_PASSWORD_OPTIONS);
+	const [passphraseOptions, setPassphraseOptions] = useState<PassphraseOptions>(DEFAULT_PASSPHRASE_OPTIONS);
+	const [value, setValue] = useState("");
+
+	const regenerate = useCallback(() => {
+		setValue(mode === "password" ? generatePassword(passwordOptions) : generatePassphrase(passphraseOptions));
+	}, [mode, passwordOptions, passphraseOptions]);
+
+	useEffect(() => {
+		if (open) regenerate();
+	}, [open, regenerate]);
+
+	const updatePasswordOption = <K extends keyof PasswordOptions>(key: K, next: PasswordOptions[K]) => {
+		setPasswordOptions((prev) => {
+			const updated = { ...prev, [key]: next };
+			// Keep at least one character class selected
+			return CHARSET_TOGGLES.some((toggle) => updated[toggle.key]) ? updated : prev;
+		});
+	};
+
+	const handleCopy = async () => {
+		try {
+			await navigator.clipboard.writeText(value);
+			toast.success("Copied", { position: "top-center" });
+		} catch (error) {
+			console.error(error);
+			toast.error("Copy failed", { position: "top-center" });
+		}
+	};
+
+	const handleUse = () => {
+		if (!value) return;
+		onUse(value);
+		setOpen(false);
+	};
+
+	return (
+		<Popover open={open} onOpenChange={setOpen}>
+			<PopoverTrigger asChild>
+				<Button type="button" variant="outline" size="icon" disabled={disabled} title="Generate password">
+					<Wand2 className="h-4 w-4" />
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent align="end" className="w-80 space-y-4">
+				<Tabs value={mode} onValueChange={(next) => setMode(next as GeneratorMode)}>
+					<TabsList className="w-full">
+						<TabsTrigger value="password">Password</TabsTrigger>
+						<TabsTrigger value="passphrase">Passphrase</TabsTrigger>
+					</TabsList>
+				</Tabs>
+
+				<div className="space-y-2">
+					<div className="flex items-center gap-2">
+						<div className="min-w-0 flex-1 break-all rounded-md border bg-muted/40 px-2 py-1.5 font-mono text-sm">
+							{value || "-"}
+						</div>
+						<Button type="button" variant="ghost" size="icon" onClick={regenerate} title="Regenerate">
+							<RefreshCw className="h-4 w-4" />
+						</Button>
+						<Button type="button" variant="ghost" size="icon" onClick={() => void handleCopy()} title="Copy">
+							<Copy className="h-4 w-4" />
+						</Button>
+					</div>
+					<PasswordStrengthMeter password={value} showWarnings={false} />
+				</div>
+
+				{mode === "password" ? (
+					<div className="space-y-3">
+						<div className="space-y-2">
+							<div className="flex items-center justify-between text-xs">
+								<Label>Length</Label>
+								<span className="text-muted-foreground">{passwordOptions.length}</span>
+							</div>
+							<Slider
+								min={8}
+								max={64}
+								step={1}
+								value={[passwordOptions.length]}
+								onValueChange={([length]) => updatePasswordOption("length", length)}
+							/>
+						</div>
+						<div className="grid grid-cols-2 gap-2">
+							{CHARSET_TOGGLES.map((toggle) => (
+								<div key={toggle.key} className="flex items-center justify-between rounded-md border px-2 py-1.5">
+									<Label className="font-mono text-xs">{toggle.label}</Label>
+									<Switch
+										checked={!!passwordOptions[toggle.key]}
+										onCheckedChange={(checked) => updatePasswordOption(toggle.key, checked)}
+									/>
+								</div>
+							))}
+						</div>
+						<div className="flex items-center justify-between">
+							<Label className="text-xs">Exclude ambiguous (0 O 1 l I)</Label>
+							<Switch
+								checked={passwordOptions.excludeAmbiguous}
+								onCheckedChange={(checked) => updatePasswordOption("excludeAmbiguous", checked)}
+							/>
+						</div>
+					</div>
+				) : (
+					<div className="space-y-3">
+						<div className="space-y-2">
+							<div className="flex items-center justify-between text-xs">
+								<Label>Words</Label>
+								<span className="text-muted-foreground">{passphraseOptions.words}</span>
+							</div>
+							<Slider
+								min={3}
+								max={12}
+								step={1}
+								value={[passphraseOptions.words]}
+								onValueChange={([words]) => setPassphraseOptions((prev) => ({ ...prev, words }))}
+							/>
+							<div className="text-xs text-muted-foreground">
+								{`${getPassphraseEntropy(passphraseOptions)} bits: ${WORDLIST.length.toLocaleString()}-word list, ${PASSPHRASE_WORD_ENTROPY.toFixed(1)} bits per word`}
+							</div>
+						</div>
+						<div className="flex items-center justify-between">
+							<Label className="text-xs">Separator</Label>
+							<div className="flex gap-1">
+								{SEPARATORS.map((separator) => (
+									<Button
+										key={separator}
+										type="button"
+										size="sm"
+										variant={passphraseOptions.separator === separator ? "default" : "outline"}
+										className="w-8 px-0 font-mono"
+										onClick={() => setPassphraseOptions((prev) => ({ ...prev, separator }))}
+									>
+										{separator === " " ? "␣" : separator}
+									</Button>
+								))}
+							</div>
+						</div>
+						<div className="flex items-center justify-between">
+							<Label className="text-xs">Capitalize words</Label>
+							<Switch
+								checked={passphraseOptions.capitalize}
+								onCheckedChange={(capitalize) => setPassphraseOptions((prev) => ({ ...prev, capitalize }))}
+							/>
+						</div>
+						<div className="flex items-center justify-between">
+							<Label className="text-xs">Include a number</Label>
+							<Switch
+								checked={passphraseOptions.includeDigit}
+								onCheckedChange={(includeDigit) => setPassphraseOptions((prev) => ({ ...prev, includeDigit }))}
+							/>
+						</div>
+					</div>
+				)}
+
+				<Button type="button" className="w-full" onClick={handleUse} disabled={!value}>
+					Use {mode}
+				</Button>
+			</PopoverContent>
+		</Popover>
+	);
+}
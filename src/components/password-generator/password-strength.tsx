@@ -0,0 +1,51 @@
+import { useMemo } from "react";
+import { cn } from "@/utils";
+import { estimatePasswordStrength, type StrengthScore } from "./utils";
+
+type PasswordStrengthMeterProps = {
+	password: string;
+	className?: string;
+	/** Show the pattern warnings under the bar */
+	showWarnings?: boolean;
+};
+
+const SCORE_COLORS: Record<StrengthScore, string> = {
+	0: "bg-error",
+	1: "bg-error",
+	2: "bg-warning",
+	3: "bg-success",
+	4: "bg-success",
+};
+
+export function PasswordStrengthMeter({ password, className, showWarnings = true }: PasswordStrengthMeterProps) {
+	const strength = useMemo(() => estimatePasswordStrength(password), [password]);
+
+	if (!password) return null;
+
+	return (
+		<div className={cn("space-y-1", className)}>
+			<div className="flex gap-1">
+				{[0, 1, 2, 3].map((segment) => (
+					<div
+						key={segment}
+						className={cn(
+							"h-1 flex-1 rounded-full bg-muted",
+							segment < Math.max(1, strength.score) && SCORE_COLORS[strength.score],
+						)}
+					/>
+				))}
+			</div>
+			<div className="flex items-center justify-between text-xs text-muted-foreground">
+				<span>{strength.label}</span>
+				<span>~{strength.entropy} bits</span>
+			</div>
+			{showWarnings && strength.warnings.length > 0 && (
+				<ul className="space-y-0.5 text-xs text-warning">
+					{strength.warnings.map((warning) => (
+						<li key={warning}>{warning}</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,271 @@
+import { WORDLIST } from "./wordlist";
+
+export type PasswordOptions = {
+	length: number;
+	lowercase: boolean;
+	uppercase: boolean;
+	digits: boolean;
+	symbols: boolean;
+	/** Drop characters that are easy to misread, such as 0/O and 1/l/I */
+	excludeAmbiguous: boolean;
+};
+
+export type PassphraseOptions = {
+	words: number;
+	separator: string;
+	capitalize: boolean;
+	/** Append a random digit to one of the words */
+	includeDigit: boolean;
+};
+
+export type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export type PasswordStrength = {
+	score: StrengthScore;
+	label: string;
+	/** Estimated entropy in bits after pattern penalties */
+	entropy: number;
+	warnings: string[];
+};
+
+export const DEFAULT_PASSWORD_OPTIONS: PasswordOptions = {
+	length: 20,
+	lowercase: true,
+	uppercase: true,
+	digits: true,
+	symbols: true,
+	excludeAmbiguous: false,
+};
+
+export const DEFAULT_PASSPHRASE_OPTIONS: PassphraseOptions = {
+	words: 5,
+	separator: "-",
+	capitalize: false,
+	includeDigit: false,
+};
+
+const CHARSETS = {
+	lowercase: "abcdefghijklmnopqrstuvwxyz",
+	uppercase: "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+	digits: "0123456789",
+	symbols: "!@#$%^&*()-_=+[]{};:,.?/~",
+};
+
+const AMBIGUOUS = new Set("0O1lI|`'\"{}[]()/\\;:.,");
+
+const STRENGTH_LABELS = ["Very weak", "Weak", "Fair", "Strong", "Very strong"];
+
+const COMMON_PASSWORDS = new Set([
+	"password",
+	"passw0rd",
+	"123456",
+	"12345678",
+	"123456789",
+	"qwerty",
+	"letmein",
+	"welcome",
+	"admin",
+	"login",
+	"iloveyou",
+	"monkey",
+	"dragon",
+	"football",
+	"baseball",
+	"sunshine",
+	"princess",
+	"master",
+	"shadow",
+	"superman",
+	"trustno1",
+	"changeme",
+	"secret",
+	"abc123",
+	"111111",
+	"000000",
+]);
+
+const SEPARATOR_CHARS = /[-._\s]/g;
+
+const KEYBOARD_ROWS = ["qwertyuiop", "asdfghjkl", "zxcvbnm", "1234567890"];
+
+/**
+ * Uniform random integer in [0, max) from WebCrypto, using rejection sampling to avoid modulo bias
+ */
+const randomInt = (max: number) => {
+	const limit = Math.floor(0x100000000 / max) * max;
+	const buffer = new Uint32Array(1);
+	do {
+		crypto.getRandomValues(buffer);
+	} while (buffer[0] >= limit);
+	return buffer[0] % max;
+};
+
+const pick = (chars: string) => chars[randomInt(chars.length)];
+
+const shuffle = <T>(items: T[]) => {
+	for (let i = items.length - 1; i > 0; i--) {
+		const j = randomInt(i + 1);
+		[items[i], items[j]] = [items[j], items[i]];
+	}
+	return items;
+};
+
+const getCharsets = (options: PasswordOptions) =>
+	(Object.keys(CHARSETS) as (keyof typeof CHARSETS)[])
+		.filter((name) => options[name])
+		.map((name) =>
+			options.excludeAmbiguous ? [...CHARSETS[name]].filter((char) => !AMBIGUOUS.has(char)).join("") : CHARSETS[name],
+		)
+		.filter(Boolean);
+
+/**
+ * Generate a random password that contains at least one character of every selected class
+ */
+export const generatePassword = (options: PasswordOptions) => {
+	const charsets = getCharsets(options);
+	if (!charsets.length) return "";
+	const length = Math.max(options.length, charsets.length);
+	const pool = charsets.join("");
+	const chars = charsets.map(pick);
+	while (chars.length < length) chars.push(pick(pool));
+	return shuffle(chars).join("");
+};
+
+/**
+ * Generate a passphrase of random words from the bundled word list
+ */
+export const generatePassphrase = (options: PassphraseOptions) => {
+	const words = Array.from({ length: Math.max(1, options.words) }, () => WORDLIST[randomInt(WORDLIST.length)]).map(
+		(word) => (options.capitalize ? word[0].toUpperCase() + word.slice(1) : word),
+	);
+	if (options.includeDigit) {
+		const index = randomInt(words.length);
+		words[index] = `${words[index]}${randomInt(10)}`;
+	}
+	return words.join(options.separator);
+};
+
+/** Entropy in bits one word of the bundled list adds */
+export const PASSPHRASE_WORD_ENTROPY = Math.log2(WORDLIST.length);
+
+/**
+ * Exact entropy in bits of a passphrase generated with these options; capitalizing every word adds nothing
+ */
+export const getPassphraseEntropy = (options: PassphraseOptions) => {
+	const words = Math.max(1, options.words);
+	const digit = options.includeDigit ? Math.log2(10) + Math.log2(words) : 0;
+	return Math.round(words * PASSPHRASE_WORD_ENTROPY + digit);
+};
+
+/**
+ * Entropy in bits of the pool implied by the password's character classes
+ */
+const getPoolEntropy = (password: string) => {
+	let pool = 0;
+	if (/[a-z]/.test(password)) pool += 26;
+	if (/[A-Z]/.test(password)) pool += 26;
+	if (/\d/.test(password)) pool += 10;
+	if (/[^a-zA-Z\d]/.test(password)) pool += 33;
+	return pool ? password.length * Math.log2(pool) : 0;
+};
+
+const countSequenceChars = (password: string) => {
+	const lower = password.toLowerCase();
+	let count = 0;
+	for (let i = 2; i < lower.length; i++) {
+		const a = lower.charCodeAt(i - 2);
+		const b = lower.charCodeAt(i - 1);
+		const c = lower.charCodeAt(i);
+		if ((b - a === 1 && c - b === 1) || (a - b === 1 && b - c === 1)) count++;
+	}
+	return count;
+};
+
+const hasKeyboardWalk = (password: string) => {
+	const lower = password.toLowerCase();
+	for (let i = 0; i + 4 <= lower.length; i++) {
+		const chunk = lower.slice(i, i + 4);
+		const reversed = [...chunk].reverse().join("");
+		if (KEYBOARD_ROWS.some((row) => row.includes(chunk) || row.includes(reversed))) return true;
+	}
+	return false;
+};
+
+/**
+ * List words found in the letters, longest match first and without overlaps, so a passphrase counts each word once
+ */
+const splitIntoWords = (letters: string) => {
+	const words: string[] = [];
+	let index = 0;
+	while (index < letters.length) {
+		let match = "";
+		for (const word of WORDLIST) {
+			if (word.length >= 4 && word.length > match.length && letters.startsWith(word, index)) match = word;
+		}
+		if (match) words.push(match);
+		index += match.length || 1;
+	}
+	return words;
+};
+
+const toLeet = (password: string) =>
+	password
+		.toLowerCase()
+		.replace(/[@4]/g, "a")
+		.replace(/3/g, "e")
+		.replace(/[1!]/g, "i")
+		.replace(/0/g, "o")
+		.replace(/[$5]/g, "s")
+		.replace(/7/g, "t");
+
+/**
+ * Estimate password strength offline from character-pool entropy, penalised for common patterns
+ * (known passwords, repeats, sequences, keyboard walks, years and dictionary words)
+ */
+export const estimatePasswordStrength = (password: string): PasswordStrength => {
+	if (!password) return { score: 0, label: STRENGTH_LABELS[0], entropy: 0, warnings: [] };
+
+	const warnings: string[] = [];
+	let entropy = getPoolEntropy(password);
+	const normalized = toLeet(password).replace(/[^a-z]/g, "");
+
+	if (COMMON_PASSWORDS.has(password.toLowerCase()) || COMMON_PASSWORDS.has(toLeet(password))) {
+		warnings.push("This is a commonly used password");
+		entropy = Math.min(entropy, 10);
+	}
+	if (password.length < 8) {
+		warnings.push("Use at least 8 characters");
+	}
+
+	const repeats = password.match(/(.)\1{2,}/g);
+	if (repeats) {
+		warnings.push("Avoid repeated characters");
+		entropy -= repeats.reduce((total, run) => total + (run.length - 1) * 4, 0);
+	}
+	const sequences = countSequenceChars(password);
+	if (sequences) {
+		warnings.push("Avoid sequences like abc or 123");
+		entropy -= sequences * 4;
+	}
+	if (hasKeyboardWalk(password)) {
+		warnings.push("Avoid keyboard patterns like qwerty");
+		entropy -= 12;
+	}
+	if (/(19|20)\d{2}/.test(password)) {
+		warnings.push("Avoid years and dates");
+		entropy -= 8;
+	}
+	const words = splitIntoWords(normalized);
+	if (words.length && words.join("").length >= normalized.length * 0.6) {
+		// Mostly dictionary words: count it as a passphrase rather than random characters; separators add nothing
+		entropy = Math.min(
+			entropy,
+			words.length * PASSPHRASE_WORD_ENTROPY +
+				(password.replace(SEPARATOR_CHARS, "").length - words.join("").length) * 2,
+		);
+	}
+
+	entropy = Math.max(0, Math.round(entropy));
+	const score: StrengthScore = entropy < 28 ? 0 : entropy < 36 ? 1 : entropy < 60 ? 2 : entropy < 80 ? 3 : 4;
+	return { score, label: STRENGTH_LABELS[score], entropy, warnings };
+};
@@ -0,0 +1,57 @@
+import { Columns3 } from "lucide-react";
+import { Button } from "@/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuCheckboxItem,
+	DropdownMenuContent,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/ui/dropdown-menu";
+import type { ColumnOption } from "./utils";
+
+type ColumnPickerProps = {
+	columns: ColumnOption[];
+	hiddenColumns: string[];
+	onChange: (hiddenColumns: string[]) => void;
+};
+
+/**
+ * Show or hide table columns; the last visible column cannot be hidden
+ */
+export function ColumnPicker({ columns, hiddenColumns, onChange }: ColumnPickerProps) {
+	const visibleCount = columns.filter((column) => !hiddenColumns.includes(column.key)).length;
+
+	const toggle = (key: string, visible: boolean) =>
+		onChange(visible ? hiddenColumns.filter((item) => item !== key) : [...hiddenColumns, key]);
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button type="button" variant="outline" size="sm">
+					<Columns3 className="h-4 w-4" />
+					Columns
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="end" className="w-48">
+				<DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+				<DropdownMenuSeparator />
+				{columns.map((column) => {
+					const isVisible = !hiddenColumns.includes(column.key);
+					return (
+						<DropdownMenuCheckboxItem
+							key={column.key}
+							checked={isVisible}
+							disabled={isVisible && visibleCount === 1}
+							onCheckedChange={(checked) => toggle(column.key, checked === true)}
+							// Keep the menu open while picking several columns
+							onSelect={(event) => event.preventDefault()}
+						>
+							{column.title}
+						</DropdownMenuCheckboxItem>
+					);
+				})}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
@@ -0,0 +1,4 @@
+export * from "./column-picker";
+export * from "./save-view-dialog";
+export * from "./saved-view-tabs";
+export * from "./utils";
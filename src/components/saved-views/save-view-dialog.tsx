@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import type { SavedViewScope } from "#/entity";
+import { Button } from "@/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Input } from "@/ui/input";
+import { Label } from "@/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
+
+export type SaveViewValues = {
+	name: string;
+	scope: SavedViewScope;
+};
+
+type SaveViewDialogProps = {
+	open: boolean;
+	/** Set when renaming or re-scoping an existing view */
+	initialValues?: SaveViewValues;
+	onSubmit: (values: SaveViewValues) => Promise<void>;
+	onClose: () => void;
+};
+
+const SCOPE_OPTIONS: { value: SavedViewScope; label: string }[] = [
+	{ value: "USER", label: "Only me" },
+	{ value: "TENANT", label: "Everyone in the tenant" },
+];
+
+export function SaveViewDialog({ open, initialValues, onSubmit, onClose }: SaveViewDialogProps) {
+	const [name, setName] = useState("");
+	const [scope, setScope] = useState<SavedViewScope>("USER");
+	const [isSaving, setIsSaving] = useState(false);
+	const isEditing = !!initialValues;
+
+	useEffect(() => {
+		if (!open) return;
+		setName(initialValues?.name ?? "");
+		setScope(initialValues?.scope ?? "USER");
+	}, [open, initialValues]);
+
+	const handleSubmit = async () => {
+		if (!name.trim()) return;
+		setIsSaving(true);
+		try {
+			await onSubmit({ name: name.trim(), scope });
+			onClose();
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={(next) => !next && !isSaving && onClose()}>
+			<DialogContent className="sm:max-w-md">
+				<DialogHeader>
+					<DialogTitle>{isEditing ? "Edit view" : "Save view"}</DialogTitle>
+					<DialogDescription>
+						{isEditing
+							? "Rename the view or change who can see it."
+							: "Saves the search, tags, sort, columns and tab shown now."}
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor="saved-view-name">Name</Label>
+						<Input
+							id="saved-view-name"
+							autoFocus
+							placeholder="e.g. Expiring this month"
+							value={name}
+							onChange={(event) => setName(event.target.value)}
+							onKeyDown={(event) => {
+								if (event.key === "Enter") void handleSubmit();
+							}}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label>Visible to</Label>
+						<Select value={scope} onValueChange={(value) => setScope(value as SavedViewScope)}>
+							<SelectTrigger className="w-full">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{SCOPE_OPTIONS.map((option) => (
+									<SelectItem key={option.value} value={option.value}>
+										{option.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				</div>
+				<DialogFooter className="mt-2">
+					<Button type="button" variant="outline" disabled={isSaving} onClick={onClose}>
+						Cancel
+					</Button>
+					<Button type="button" disabled={isSaving || !name.trim()} onClick={() => void handleSubmit()}>
+						{isSaving ? "Saving..." : "Save"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,242 @@
+import { Link2, MoreHorizontal, Pencil, Plus, Save, Trash2, Users } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router";
+import { toast } from "sonner";
+import type { SavedView, SavedViewPage, SavedViewState } from "#/entity";
+import {
+	useCreateSavedView,
+	useDeleteSavedView,
+	useSavedViews,
+	useUpdateSavedView,
+} from "@/api/services/savedViewService";
+import { useAuthCheck } from "@/components/auth/use-auth";
+import { TAG_FILTER_PARAM } from "@/components/tags";
+import { useUserInfo } from "@/store/userStore";
+import { Button } from "@/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/ui/dropdown-menu";
+import { Tabs, TabsList, TabsTrigger } from "@/ui/tabs";
+import { cn } from "@/utils";
+import { SaveViewDialog, type SaveViewValues } from "./save-view-dialog";
+import { getSavedViewLink, isSameViewState, normalizeViewState, SAVED_VIEW_PARAM } from "./utils";
+
+const ALL_TAB = "all";
+
+type SavedViewTabsProps = {
+	page: SavedViewPage;
+	/** What the table shows right now */
+	state: SavedViewState;
+	/**
+	 * Restore everything but the tags, which live in the URL and are set by the tabs themselves.
+	 * Called with an empty state for the "All" tab.
+	 */
+	onApply: (state: SavedViewState) => void;
+	className?: string;
+};
+
+/**
+ * Saved views of a table as tabs: the user's own views and the tenant's shared ones. The open view is kept
+ * in the URL (`?view=id`), so a link to it opens the same slice for anyone who can see the view.
+ */
+export function SavedViewTabs({ page, state, onApply, className }: SavedViewTabsProps) {
+	const [searchParams, setSearchParams] = useSearchParams();
+	const viewsQuery = useSavedViews(page);
+	const createMutation = useCreateSavedView();
+	const updateMutation = useUpdateSavedView();
+	const deleteMutation = useDeleteSavedView();
+	const { id: userId } = useUserInfo();
+	const isAdmin = useAuthCheck("role").checkAny(["SUPERADMIN", "OWNER"]);
+	const [dialog, setDialog] = useState<"create" | "edit" | null>(null);
+	// The view whose state was last restored, so a view opened from a link is applied once
+	const appliedIdRef = useRef<string | null>(null);
+
+	const views = viewsQuery.data ?? [];
+	const viewId = searchParams.get(SAVED_VIEW_PARAM);
+	const activeView = views.find((view) => view.id === viewId);
+	const isModified = !!activeView && !isSameViewState(activeView.state, state);
+	const canEdit = (view: SavedView) => view.createdBy?.id === userId || (view.scope === "TENANT" && isAdmin);
+	const editValues = useMemo(
+		() => (activeView ? { name: activeView.name, scope: activeView.scope } : undefined),
+		[activeView],
+	);
+
+	/** Point the URL at a view without touching the table */
+	const setViewParam = (id: string | null) => {
+		appliedIdRef.current = id;
+		setSearchParams(
+			(prev) => {
+				const next = new URLSearchParams(prev);
+				if (id) next.set(SAVED_VIEW_PARAM, id);
+				else next.delete(SAVED_VIEW_PARAM);
+				return next;
+			},
+			{ replace: true },
+		);
+	};
+
+	// One URL update for both params; separate updates in the same tick would overwrite each other
+	const openView = (view: SavedView | null) => {
+		appliedIdRef.current = view?.id ?? null;
+		setSearchParams(
+			(prev) => {
+				const next = new URLSearchParams(prev);
+				const tags = view?.state.tags ?? [];
+				if (view) next.set(SAVED_VIEW_PARAM, view.id);
+				else next.delete(SAVED_VIEW_PARAM);
+				if (tags.length) next.set(TAG_FILTER_PARAM, tags.join(","));
+				else next.delete(TAG_FILTER_PARAM);
+				return next;
+			},
+			{ replace: true },
+		);
+		onApply(view?.state ?? {});
+	};
+
+	useEffect(() => {
+		if (!activeView || appliedIdRef.current === activeView.id) return;
+		openView(activeView);
+	});
+
+	const handleCreate = async (values: SaveViewValues) => {
+		try {
+			const view = await createMutation.mutateAsync({ ...values, page, state: normalizeViewState(state) });
+			if (view) setViewParam(view.id);
+			toast.success(`Saved view "${values.name}"`, { position: "top-center" });
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to save view", { position: "top-center" });
+			throw error;
+		}
+	};
+
+	const handleEdit = async (values: SaveViewValues) => {
+		if (!activeView) return;
+		try {
+			await updateMutation.mutateAsync({ id: activeView.id, data: values });
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to update view", { position: "top-center" });
+			throw error;
+		}
+	};
+
+	const handleSaveChanges = async () => {
+		if (!activeView) return;
+		try {
+			await updateMutation.mutateAsync({ id: activeView.id, data: { state: normalizeViewState(state) } });
+			toast.success(`Updated view "${activeView.name}"`, { position: "top-center" });
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to update view", { position: "top-center" });
+		}
+	};
+
+	const handleDelete = async () => {
+		if (!activeView) return;
+		try {
+			await deleteMutation.mutateAsync(activeView.id);
+			setViewParam(null);
+			toast.success(`Deleted view "${activeView.name}"`, { position: "top-center" });
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to delete view", { position: "top-center" });
+		}
+	};
+
+	const handleCopyLink = async () => {
+		if (!activeView) return;
+		try {
+			await navigator.clipboard.writeText(getSavedViewLink(activeView.id));
+			toast.success(activeView.scope === "TENANT" ? "Link copied" : "Link copied; only you can open this view", {
+				position: "top-center",
+			});
+		} catch {
+			toast.error("Failed to copy link", { position: "top-center" });
+		}
+	};
+
+	return (
+		<div className={cn("flex flex-wrap items-center gap-2", className)}>
+			<Tabs
+				value={activeView?.id ?? ALL_TAB}
+				onValueChange={(value) => openView(views.find((view) => view.id === value) ?? null)}
+				className="min-w-0 max-w-full"
+			>
+				<TabsList className="max-w-full justify-start overflow-x-auto">
+					<TabsTrigger value={ALL_TAB} className="flex-none">
+						All
+					</TabsTrigger>
+					{views.map((view) => (
+						<TabsTrigger
+							key={view.id}
+							value={view.id}
+							className="flex-none"
+							title={view.scope === "TENANT" ? "Shared with the tenant" : undefined}
+						>
+							{view.scope === "TENANT" && <Users className="h-3.5 w-3.5 text-muted-foreground" />}
+							{view.name}
+							{view.id === activeView?.id && isModified && (
+								<span className="h-1.5 w-1.5 rounded-full bg-warning" title="Changed since saved" />
+							)}
+						</TabsTrigger>
+					))}
+				</TabsList>
+			</Tabs>
+			{activeView && isModified && canEdit(activeView) && (
+				<Button
+					type="button"
+					variant="outline"
+					size="sm"
+					disabled={updateMutation.isPending}
+					onClick={() => void handleSaveChanges()}
+				>
+					<Save className="h-4 w-4" />
+					Save changes
+				</Button>
+			)}
+			<Button type="button" variant="ghost" size="sm" onClick={() => setDialog("create")}>
+				<Plus className="h-4 w-4" />
+				Save view
+			</Button>
+			{activeView && (
+				<DropdownMenu>
+					<DropdownMenuTrigger asChild>
+						<Button type="button" variant="ghost" size="icon" aria-label="View actions">
+							<MoreHorizontal className="h-4 w-4" />
+						</Button>
+					</DropdownMenuTrigger>
+					<DropdownMenuContent align="end">
+						<DropdownMenuItem onClick={() => void handleCopyLink()}>
+							<Link2 className="h-4 w-4" />
+							Copy link
+						</DropdownMenuItem>
+						{canEdit(activeView) && (
+							<>
+								<DropdownMenuItem onClick={() => setDialog("edit")}>
+									<Pencil className="h-4 w-4" />
+									Rename or share
+								</DropdownMenuItem>
+								<DropdownMenuSeparator />
+								<DropdownMenuItem variant="destructive" onClick={() => void handleDelete()}>
+									<Trash2 className="h-4 w-4" />
+									Delete view
+								</DropdownMenuItem>
+							</>
+						)}
+					</DropdownMenuContent>
+				</DropdownMenu>
+			)}
+			<SaveViewDialog
+				open={dialog !== null}
+				initialValues={dialog === "edit" ? editValues : undefined}
+				onSubmit={dialog === "edit" ? handleEdit : handleCreate}
+				onClose={() => setDialog(null)}
+			/>
+		</div>
+	);
+}
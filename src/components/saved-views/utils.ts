@@ -0,0 +1,67 @@
+import type { SavedViewState } from "#/entity";
+
+/** URL search param holding the id of the open saved view, so a view can be shared as a link */
+export const SAVED_VIEW_PARAM = "view";
+
+export type ColumnOption = {
+	key: string;
+	title: string;
+};
+
+const sortedList = (values?: string[]) => [...(values ?? [])].map((value) => value.toLowerCase()).sort();
+
+/**
+ * Drop empty values so a state read from the page compares equal to the view it was restored from
+ */
+export const normalizeViewState = (state: SavedViewState): SavedViewState => {
+	const search = state.search?.trim();
+	return {
+		...(search ? { search } : {}),
+		...(state.tags?.length ? { tags: state.tags } : {}),
+		...(state.sortBy && state.sortOrder ? { sortBy: state.sortBy, sortOrder: state.sortOrder } : {}),
+		...(state.hiddenColumns?.length ? { hiddenColumns: state.hiddenColumns } : {}),
+		...(state.tab ? { tab: state.tab } : {}),
+	};
+};
+
+/**
+ * Whether two states show the same slice; the order of tags and hidden columns does not matter
+ */
+export const isSameViewState = (a: SavedViewState, b: SavedViewState) => {
+	const left = normalizeViewState(a);
+	const right = normalizeViewState(b);
+	return (
+		(left.search ?? "") === (right.search ?? "") &&
+		sortedList(left.tags).join(",") === sortedList(right.tags).join(",") &&
+		left.sortBy === right.sortBy &&
+		left.sortOrder === right.sortOrder &&
+		sortedList(left.hiddenColumns).join(",") === sortedList(right.hiddenColumns).join(",") &&
+		left.tab === right.tab
+	);
+};
+
+/**
+ * Keep only the columns a view does not hide; columns without a key are always shown
+ */
+export const filterVisibleColumns = <T extends { key?: unknown }>(columns: T[], hiddenColumns: string[]) =>
+	columns.filter((column) => typeof column.key !== "string" || !hiddenColumns.includes(column.key));
+
+export const getSavedViewLink = (viewId: string) => {
+	const url = new URL(window.location.href);
+	url.search = "";
+	url.searchParams.set(SAVED_VIEW_PARAM, viewId);
+	return url.toString();
+};
+
+/**
+ * Column picker options of an antd table; `alwaysVisible` columns such as actions are left out
+ */
+export const getColumnOptions = (
+	columns: { key?: unknown; title?: unknown }[],
+	alwaysVisible: string[] = ["actions"],
+): ColumnOption[] =>
+	columns.flatMap((column) =>
+		typeof column.key === "string" && typeof column.title === "string" && !alwaysVisible.includes(column.key)
+			? [{ key: column.key, title: column.title }]
+			: [],
+	);
@@ -0,0 +1,5 @@
+export * from "./tag-badge";
+export * from "./tag-input";
+export * from "./tag-manager-dialog";
+export * from "./use-tag-filter";
+export * from "./utils";
@@ -0,0 +1,52 @@
+import { X } from "lucide-react";
+import type { CSSProperties } from "react";
+import { Badge } from "@/ui/badge";
+import { cn } from "@/utils";
+
+type TagBadgeProps = {
+	tag: string;
+	color?: string;
+	active?: boolean;
+	/** Makes the badge clickable, e.g. to toggle a tag filter */
+	onClick?: () => void;
+	onRemove?: () => void;
+	className?: string;
+};
+
+export function TagBadge({ tag, color, active, onClick, onRemove, className }: TagBadgeProps) {
+	const style: CSSProperties | undefined = color
+		? { backgroundColor: `${color}1f`, borderColor: `${color}66`, color }
+		: undefined;
+
+	return (
+		<Badge
+			variant={active ? "default" : "secondary"}
+			style={active ? undefined : style}
+			className={cn("gap-1", onClick && "cursor-pointer hover:opacity-80", className)}
+			onClick={
+				onClick
+					? (event) => {
+							event.stopPropagation();
+							onClick();
+						}
+					: undefined
+			}
+		>
+			{color && !active && <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: color }} />}
+			{tag}
+			{onRemove && (
+				<button
+					type="button"
+					aria-label={`Remove ${tag}`}
+					className="-mr-1 rounded-full p-0.5 hover:bg-black/10"
+					onClick={(event) => {
+						event.stopPropagation();
+						onRemove();
+					}}
+				>
+					<X className="h-3 w-3" />
+				</button>
+			)}
+		</Badge>
+	);
+}
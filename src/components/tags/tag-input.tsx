@@ -0,0 +1,141 @@
+import { type KeyboardEvent, useMemo, useState } from "react";
+import { useTags } from "@/api/services/tagService";
+import { cn } from "@/utils";
+import { TagBadge } from "./tag-badge";
+import { canonicalizeTag, dedupeTags, getTagColorMap, normalizeTag } from "./utils";
+
+type TagInputProps = {
+	value: string[];
+	onChange: (tags: string[]) => void;
+	placeholder?: string;
+	disabled?: boolean;
+	className?: string;
+};
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Chip input with autocomplete from the tenant's tags; Enter or comma adds, Backspace removes the last tag
+ */
+export function TagInput({ value, onChange, placeholder = "Add tags...", disabled, className }: TagInputProps) {
+	const { data: tags = [] } = useTags();
+	const [input, setInput] = useState("");
+	const [isFocused, setIsFocused] = useState(false);
+	// -1 means the typed text itself, otherwise an index into suggestions
+	const [highlighted, setHighlighted] = useState(-1);
+
+	const tagNames = useMemo(() => tags.map((tag) => tag.name), [tags]);
+	const colors = useMemo(() => getTagColorMap(tags), [tags]);
+	const query = normalizeTag(input).toLowerCase();
+	const suggestions = useMemo(() => {
+		const selected = new Set(value.map((tag) => tag.toLowerCase()));
+		return tags
+			.filter((tag) => !selected.has(tag.name.toLowerCase()) && tag.name.toLowerCase().includes(query))
+			.sort((a, b) => (b.count ?? 0) - (a.count ?? 0))
+			.slice(0, MAX_SUGGESTIONS);
+	}, [tags, value, query]);
+	const isNewTag = !!query && !tagNames.some((tag) => tag.toLowerCase() === query);
+
+	const addTag = (tag: string) => {
+		const next = canonicalizeTag(tag, tagNames);
+		if (next) onChange(dedupeTags([...value, next], tagNames));
+		setInput("");
+		setHighlighted(-1);
+	};
+
+	const removeTag = (tag: string) => onChange(value.filter((item) => item !== tag));
+
+	const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+		if (event.key === "Enter" || event.key === ",") {
+			if (!input.trim() && !suggestions[highlighted]) return;
+			event.preventDefault();
+			addTag(suggestions[highlighted]?.name ?? input);
+		} else if (event.key === "Backspace" && !input && value.length) {
+			removeTag(value[value.length - 1]);
+		} else if (event.key === "ArrowDown") {
+			event.preventDefault();
+			setHighlighted((prev) => Math.min(prev + 1, suggestions.length - 1));
+		} else if (event.key === "ArrowUp") {
+			event.preventDefault();
+			setHighlighted((prev) => Math.max(prev - 1, -1));
+		} else if (event.key === "Tab" && input && suggestions.length) {
+			event.preventDefault();
+			addTag(suggestions[Math.max(highlighted, 0)].name);
+		}
+	};
+
+	return (
+		<div className={cn("relative", className)}>
+			<div
+				className={cn(
+					"flex min-h-9 w-full flex-wrap items-center gap-1 rounded-md border border-input bg-transparent px-2 py-1 shadow-xs",
+					isFocused && "border-ring ring-[3px] ring-ring/50",
+					disabled && "pointer-events-none opacity-50",
+				)}
+			>
+				{value.map((tag) => (
+					<TagBadge key={tag} tag={tag} color={colors[tag]} onRemove={disabled ? undefined : () => removeTag(tag)} />
+				))}
+				<input
+					className="min-w-[80px] flex-1 bg-transparent py-1 text-sm outline-none placeholder:text-muted-foreground"
+					value={input}
+					disabled={disabled}
+					placeholder={value.length ? "" : placeholder}
+					onChange={(event) => {
+						setInput(event.target.value.replace(",", ""));
+						setHighlighted(-1);
+					}}
+					onKeyDown={handleKeyDown}
+					onFocus={() => setIsFocused(true)}
+					onBlur={() => {
+						setIsFocused(false);
+						if (input.trim()) addTag(input);
+					}}
+				/>
+			</div>
+			{isFocused && (suggestions.length > 0 || isNewTag) && (
+				<div className="absolute z-50 mt-1 max-h-60 w-full overflow-y-auto rounded-md border bg-popover p-1 text-sm shadow-md">
+					{suggestions.map((tag, index) => (
+						<button
+							key={tag.name}
+							type="button"
+							className={cn(
+								"flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-left",
+								index === highlighted ? "bg-accent text-accent-foreground" : "hover:bg-accent/60",
+							)}
+							// Keep focus in the input so blur does not add the half-typed text
+							onMouseDown={(event) => {
+								event.preventDefault();
+								addTag(tag.name);
+							}}
+						>
+							<span className="flex items-center gap-2">
+								<span
+									className="h-2 w-2 rounded-full bg-muted-foreground/40"
+									style={tag.color ? { backgroundColor: tag.color } : undefined}
+								/>
+								{tag.name}
+							</span>
+							{tag.count !== undefined && <span className="text-xs text-muted-foreground">{tag.count}</span>}
+						</button>
+					))}
+					{isNewTag && (
+						<button
+							type="button"
+							className={cn(
+								"w-full rounded-sm px-2 py-1.5 text-left text-muted-foreground hover:bg-accent/60",
+								highlighted === -1 && "bg-accent text-accent-foreground",
+							)}
+							onMouseDown={(event) => {
+								event.preventDefault();
+								addTag(input);
+							}}
+						>
+							Create "{normalizeTag(input)}"
+						</button>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
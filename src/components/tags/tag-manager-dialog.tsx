@@ -0,0 +1,217 @@
+import { Check, Merge, Pencil } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import type { Tag } from "#/entity";
+import { useMergeTags, useTags, useUpdateTag } from "@/api/services/tagService";
+import { Button } from "@/ui/button";
+import { Checkbox } from "@/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Input } from "@/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
+import { cn } from "@/utils";
+import { TagBadge } from "./tag-badge";
+import { normalizeTag, TAG_COLORS } from "./utils";
+
+type TagManagerDialogProps = {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+};
+
+export function TagManagerDialog({ open, onOpenChange }: TagManagerDialogProps) {
+	const { data: tags = [], isLoading } = useTags();
+	const updateMutation = useUpdateTag();
+	const mergeMutation = useMergeTags();
+	const [search, setSearch] = useState("");
+	const [editing, setEditing] = useState<{ name: string; value: string } | null>(null);
+	const [selected, setSelected] = useState<string[]>([]);
+	const [mergeTarget, setMergeTarget] = useState("");
+
+	const visibleTags = useMemo(() => {
+		const query = search.trim().toLowerCase();
+		return [...tags]
+			.filter((tag) => !query || tag.name.toLowerCase().includes(query))
+			.sort((a, b) => a.name.localeCompare(b.name));
+	}, [tags, search]);
+
+	const handleOpenChange = (next: boolean) => {
+		onOpenChange(next);
+		if (!next) {
+			setSearch("");
+			setEditing(null);
+			setSelected([]);
+			setMergeTarget("");
+		}
+	};
+
+	const toggleSelected = (name: string, checked: boolean) => {
+		setSelected((prev) => (checked ? [...prev, name] : prev.filter((item) => item !== name)));
+		if (!checked && mergeTarget === name) setMergeTarget("");
+	};
+
+	const handleRename = async () => {
+		if (!editing) return;
+		const name = normalizeTag(editing.value);
+		if (!name || name === editing.name) {
+			setEditing(null);
+			return;
+		}
+		// Renaming onto another existing tag is a merge, so the server does not end up with two spellings
+		const existing = tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase() && tag.name !== editing.name);
+		try {
+			if (existing) {
+				await mergeMutation.mutateAsync({ sources: [editing.name], target: existing.name });
+				toast.success(`Merged "${editing.name}" into "${existing.name}"`, { position: "top-center" });
+			} else {
+				await updateMutation.mutateAsync({ name: editing.name, data: { name } });
+				toast.success("Tag renamed", { position: "top-center" });
+			}
+			setSelected((prev) => prev.filter((item) => item !== editing.name));
+			setEditing(null);
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to rename tag", { position: "top-center" });
+		}
+	};
+
+	const handleColor = async (tag: Tag, color: string | undefined) => {
+		try {
+			await updateMutation.mutateAsync({ name: tag.name, data: { color } });
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to update tag color", { position: "top-center" });
+		}
+	};
+
+	const handleMerge = async () => {
+		const sources = selected.filter((name) => name !== mergeTarget);
+		if (!mergeTarget || !sources.length) return;
+		try {
+			await mergeMutation.mutateAsync({ sources, target: mergeTarget });
+			toast.success(`Merged ${sources.length} tag(s) into "${mergeTarget}"`, { position: "top-center" });
+			setSelected([]);
+			setMergeTarget("");
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to merge tags", { position: "top-center" });
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent className="sm:max-w-3xl">
+				<DialogHeader>
+					<DialogTitle>Tags</DialogTitle>
+					<DialogDescription>
+						Rename, recolor and merge the tags used across this tenant. Changes apply to every asset using the tag.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="flex flex-wrap items-center gap-2">
+					<Input
+						className="max-w-xs"
+						placeholder="Search tags"
+						value={search}
+						onChange={(event) => setSearch(event.target.value)}
+					/>
+					<div className="ml-auto flex items-center gap-2">
+						<Select value={mergeTarget} onValueChange={setMergeTarget} disabled={selected.length < 2}>
+							<SelectTrigger className="w-48">
+								<SelectValue placeholder="Merge into..." />
+							</SelectTrigger>
+							<SelectContent>
+								{selected.map((name) => (
+									<SelectItem key={name} value={name}>
+										{name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Button
+							type="button"
+							variant="outline"
+							disabled={!mergeTarget || selected.length < 2 || mergeMutation.isPending}
+							onClick={() => void handleMerge()}
+						>
+							<Merge className="mr-1 h-4 w-4" />
+							Merge {selected.length > 1 ? selected.length : ""}
+						</Button>
+					</div>
+				</div>
+				<div className="max-h-[55vh] space-y-1 overflow-y-auto pr-1">
+					{isLoading && <div className="text-xs text-muted-foreground">Loading tags...</div>}
+					{!isLoading && !visibleTags.length && (
+						<div className="rounded-md border px-3 py-4 text-center text-xs text-muted-foreground">No tags found.</div>
+					)}
+					{visibleTags.map((tag) => (
+						<div key={tag.name} className="flex flex-wrap items-center gap-3 rounded-md border px-3 py-2">
+							<Checkbox
+								checked={selected.includes(tag.name)}
+								onCheckedChange={(checked) => toggleSelected(tag.name, checked === true)}
+							/>
+							<div className="min-w-0 flex-1">
+								{editing?.name === tag.name ? (
+									<form
+										className="flex items-center gap-2"
+										onSubmit={(event) => {
+											event.preventDefault();
+											void handleRename();
+										}}
+									>
+										<Input
+											autoFocus
+											className="h-8"
+											value={editing.value}
+											onChange={(event) => setEditing({ name: tag.name, value: event.target.value })}
+											onKeyDown={(event) => event.key === "Escape" && setEditing(null)}
+										/>
+										<Button type="submit" size="icon" variant="ghost" disabled={updateMutation.isPending}>
+											<Check className="h-4 w-4" />
+										</Button>
+									</form>
+								) : (
+									<div className="flex items-center gap-2">
+										<TagBadge tag={tag.name} color={tag.color} />
+										<span className="text-xs text-muted-foreground">{tag.count ?? 0} assets</span>
+										<Button
+											type="button"
+											size="icon"
+											variant="ghost"
+											className="h-7 w-7"
+											onClick={() => setEditing({ name: tag.name, value: tag.name })}
+										>
+											<Pencil className="h-3 w-3" />
+										</Button>
+									</div>
+								)}
+							</div>
+							<div className="flex items-center gap-1">
+								{TAG_COLORS.map((color) => (
+									<button
+										key={color}
+										type="button"
+										aria-label={`Set color ${color}`}
+										className={cn(
+											"h-4 w-4 rounded-full border border-transparent",
+											tag.color === color && "ring-2 ring-ring ring-offset-1",
+										)}
+										style={{ backgroundColor: color }}
+										onClick={() => void handleColor(tag, color)}
+									/>
+								))}
+								<Button
+									type="button"
+									size="sm"
+									variant="ghost"
+									className="h-6 px-2 text-xs"
+									disabled={!tag.color}
+									onClick={() => void handleColor(tag, undefined)}
+								>
+									Clear
+								</Button>
+							</div>
+						</div>
+					))}
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,38 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router";
+import { parseTagFilter, TAG_FILTER_PARAM } from "./utils";
+
+/**
+ * Active tag filter kept in the URL (`?tags=a,b`) so filtered lists can be shared and survive reloads
+ */
+export function useTagFilter() {
+	const [searchParams, setSearchParams] = useSearchParams();
+	const rawFilter = searchParams.get(TAG_FILTER_PARAM);
+	const tagFilter = useMemo(() => parseTagFilter(rawFilter), [rawFilter]);
+
+	const setTags = useCallback(
+		(tags: string[]) =>
+			setSearchParams(
+				(prev) => {
+					const next = new URLSearchParams(prev);
+					if (tags.length) next.set(TAG_FILTER_PARAM, tags.join(","));
+					else next.delete(TAG_FILTER_PARAM);
+					return next;
+				},
+				{ replace: true },
+			),
+		[setSearchParams],
+	);
+
+	const toggleTag = useCallback(
+		(tag: string) => {
+			const exists = tagFilter.some((item) => item.toLowerCase() === tag.toLowerCase());
+			setTags(exists ? tagFilter.filter((item) => item.toLowerCase() !== tag.toLowerCase()) : [...tagFilter, tag]);
+		},
+		[tagFilter, setTags],
+	);
+
+	const clearTags = useCallback(() => setTags([]), [setTags]);
+
+	return { tagFilter, toggleTag, clearTags };
+}
@@ -0,0 +1,52 @@
+import type { Tag } from "#/entity";
+
+export const TAG_COLORS = [
+	"#64748b",
+	"#ef4444",
+	"#f97316",
+	"#eab308",
+	"#22c55e",
+	"#14b8a6",
+	"#3b82f6",
+	"#8b5cf6",
+	"#ec4899",
+];
+
+/** URL search param holding the active tag filter, comma separated */
+export const TAG_FILTER_PARAM = "tags";
+
+export const normalizeTag = (value: string) => value.trim().replace(/\s+/g, " ");
+
+/**
+ * Resolve a typed tag to an existing one when only the case differs, so "Tabby" and "tabby" stay one tag
+ */
+export const canonicalizeTag = (value: string, existing: string[]) => {
+	const tag = normalizeTag(value);
+	return existing.find((candidate) => candidate.toLowerCase() === tag.toLowerCase()) ?? tag;
+};
+
+/**
+ * Canonicalize and de-duplicate (case-insensitively) a tag list, keeping the first spelling
+ */
+export const dedupeTags = (tags: string[], existing: string[] = []) => {
+	const seen = new Set<string>();
+	const result: string[] = [];
+	for (const value of tags) {
+		const tag = canonicalizeTag(value, existing);
+		if (!tag || seen.has(tag.toLowerCase())) continue;
+		seen.add(tag.toLowerCase());
+		result.push(tag);
+	}
+	return result;
+};
+
+export const getTagColorMap = (tags: Tag[] = []) =>
+	Object.fromEntries(tags.filter((tag) => tag.color).map((tag) => [tag.name, tag.color as string]));
+
+export const parseTagFilter = (value: string | null) => dedupeTags(value?.split(",") ?? []);
+
+/**
+ * Client-side tag filter for lists that are not paged on the server; every selected tag must match
+ */
+export const matchesTagFilter = (tags: string[] = [], filter: string[]) =>
+	filter.every((selected) => tags.some((tag) => tag.toLowerCase() === selected.toLowerCase()));
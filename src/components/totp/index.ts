@@ -0,0 +1,2 @@
+export * from "./totp-code";
+export * from "./utils";
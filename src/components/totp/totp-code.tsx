@@ -0,0 +1,99 @@
+import { Check, Copy } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/ui/button";
+import { cn } from "@/utils";
+import { generateTotp, getTotpRemaining, parseTotp } from "./utils";
+
+type TotpCodeProps = {
+	/** Base32 secret or otpauth:// URI */
+	value: string;
+	className?: string;
+	/** Called after the current code was copied */
+	onCopy?: () => void;
+};
+
+const RING_RADIUS = 9;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+export function TotpCode({ value, className, onCopy }: TotpCodeProps) {
+	const config = useMemo(() => parseTotp(value), [value]);
+	const [code, setCode] = useState("");
+	const [remaining, setRemaining] = useState(() => (config ? getTotpRemaining(config.period) : 0));
+	const [copied, setCopied] = useState(false);
+
+	useEffect(() => {
+		if (!config) return;
+		let cancelled = false;
+		let step = -1;
+		const tick = () => {
+			const now = Date.now();
+			setRemaining(getTotpRemaining(config.period, now));
+			const nextStep = Math.floor(now / 1000 / config.period);
+			if (nextStep === step) return;
+			step = nextStep;
+			generateTotp(config, now)
+				.then((next) => !cancelled && setCode(next))
+				.catch((error) => {
+					console.error(error);
+					if (!cancelled) setCode("");
+				});
+		};
+		tick();
+		const timer = setInterval(tick, 1000);
+		return () => {
+			cancelled = true;
+			clearInterval(timer);
+		};
+	}, [config]);
+
+	if (!config) {
+		return <span className={cn("text-xs text-error", className)}>Invalid TOTP secret</span>;
+	}
+
+	const handleCopy = async () => {
+		try {
+			await navigator.clipboard.writeText(code);
+			setCopied(true);
+			toast.success("Code copied", { position: "top-center" });
+			setTimeout(() => setCopied(false), 2000);
+			onCopy?.();
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to copy", { position: "top-center" });
+		}
+	};
+
+	const half = Math.ceil(config.digits / 2);
+	const progress = remaining / config.period;
+
+	return (
+		<div className={cn("flex items-center gap-3", className)}>
+			<span className="font-mono text-lg font-semibold tracking-widest">
+				{code ? `${code.slice(0, half)} ${code.slice(half)}` : "••• •••"}
+			</span>
+			<svg viewBox="0 0 24 24" className="h-6 w-6 -rotate-90" aria-label={`${remaining} seconds left`}>
+				<title>{`${remaining}s`}</title>
+				<circle cx="12" cy="12" r={RING_RADIUS} fill="none" strokeWidth="3" className="stroke-muted" />
+				<circle
+					cx="12"
+					cy="12"
+					r={RING_RADIUS}
+					fill="none"
+					strokeWidth="3"
+					strokeLinecap="round"
+					strokeDasharray={RING_CIRCUMFERENCE}
+					strokeDashoffset={RING_CIRCUMFERENCE * (1 - progress)}
+					className={cn(
+						"transition-[stroke-dashoffset] duration-1000 ease-linear",
+						remaining <= 5 ? "stroke-error" : "stroke-primary",
+					)}
+				/>
+			</svg>
+			<span className="w-6 text-xs tabular-nums text-muted-foreground">{remaining}s</span>
+			<Button type="button" variant="ghost" size="icon" disabled={!code} onClick={() => void handleCopy()}>
+				{copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+			</Button>
+		</div>
+	);
+}
@@ -0,0 +1,109 @@
+export type TotpAlgorithm = "SHA-1" | "SHA-256" | "SHA-512";
+
+export type TotpConfig = {
+	secret: Uint8Array<ArrayBuffer>;
+	digits: 6 | 8;
+	/** Time step in seconds */
+	period: number;
+	algorithm: TotpAlgorithm;
+	issuer?: string;
+	account?: string;
+};
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const ALGORITHMS: Record<string, TotpAlgorithm> = {
+	SHA1: "SHA-1",
+	SHA256: "SHA-256",
+	SHA512: "SHA-512",
+};
+
+/**
+ * Decode an RFC 4648 base32 string, ignoring spaces, dashes, case and padding
+ *
+ * @returns null when the input contains characters outside the base32 alphabet
+ */
+export const decodeBase32 = (input: string) => {
+	const clean = input.replace(/[\s-]/g, "").replace(/=+$/, "").toUpperCase();
+	if (!clean) return null;
+	const bytes = new Uint8Array(new ArrayBuffer(Math.floor((clean.length * 5) / 8)));
+	let buffer = 0;
+	let bits = 0;
+	let offset = 0;
+	for (const char of clean) {
+		const value = BASE32_ALPHABET.indexOf(char);
+		if (value === -1) return null;
+		buffer = (buffer << 5) | value;
+		bits += 5;
+		if (bits >= 8) {
+			bits -= 8;
+			bytes[offset++] = (buffer >> bits) & 0xff;
+		}
+	}
+	return bytes;
+};
+
+const parseOtpauthUri = (value: string): TotpConfig | null => {
+	let url: URL;
+	try {
+		url = new URL(value);
+	} catch {
+		return null;
+	}
+	if (url.hostname.toLowerCase() !== "totp") return null;
+
+	const secret = decodeBase32(url.searchParams.get("secret") ?? "");
+	if (!secret) return null;
+
+	const label = decodeURIComponent(url.pathname.replace(/^\/+/, ""));
+	const [labelIssuer, account] = label.includes(":") ? label.split(":", 2) : [undefined, label];
+	const digits = Number(url.searchParams.get("digits") ?? 6);
+	const period = Number(url.searchParams.get("period") ?? 30);
+	const algorithm = ALGORITHMS[(url.searchParams.get("algorithm") ?? "SHA1").toUpperCase()];
+
+	return {
+		secret,
+		digits: digits === 8 ? 8 : 6,
+		period: Number.isFinite(period) && period > 0 ? period : 30,
+		algorithm: algorithm ?? "SHA-1",
+		issuer: url.searchParams.get("issuer") ?? labelIssuer?.trim(),
+		account: account?.trim() || undefined,
+	};
+};
+
+/**
+ * Parse a TOTP field value: either a bare base32 secret or an `otpauth://totp/...` URI
+ *
+ * @returns null when the value is not a usable TOTP seed
+ */
+export const parseTotp = (value: string): TotpConfig | null => {
+	const trimmed = value.trim();
+	if (!trimmed) return null;
+	if (/^otpauth:\/\//i.test(trimmed)) return parseOtpauthUri(trimmed);
+	const secret = decodeBase32(trimmed);
+	return secret ? { secret, digits: 6, period: 30, algorithm: "SHA-1" } : null;
+};
+
+/**
+ * Seconds left before the code for `period` rolls over
+ */
+export const getTotpRemaining = (period: number, now = Date.now()) => period - (Math.floor(now / 1000) % period);
+
+/**
+ * Compute the RFC 6238 code for `now` with WebCrypto HMAC
+ */
+export const generateTotp = async (config: TotpConfig, now = Date.now()) => {
+	const counter = Math.floor(now / 1000 / config.period);
+	const message = new ArrayBuffer(8);
+	const view = new DataView(message);
+	view.setUint32(0, Math.floor(counter / 0x100000000));
+	view.setUint32(4, counter >>> 0);
+
+	const key = await crypto.subtle.importKey("raw", config.secret, { name: "HMAC", hash: config.algorithm }, false, [
+		"sign",
+	]);
+	const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, message));
+	const offset = hmac[hmac.length - 1] & 0x0f;
+	const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+	return (binary % 10 ** config.digits).toString().padStart(config.digits, "0");
+};
@@ -0,0 +1,2 @@
+export * from "./upload-tray";
+export * from "./utils";
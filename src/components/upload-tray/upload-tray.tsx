@@ -0,0 +1,188 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, ChevronUp, FolderOpen, Pause, Play, RotateCcw, X } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { assetKeys } from "@/api/services/assetService";
+import { joinPath } from "@/components/file-gallery/folders";
+import { Icon } from "@/components/icon";
+import { getFileThumb } from "@/components/upload/utils";
+import {
+	hasLocalFile,
+	isUploadActive,
+	type UploadTask,
+	useUploadActions,
+	useUploadCompleted,
+	useUploadTasks,
+} from "@/store/uploadStore";
+import { Badge } from "@/ui/badge";
+import { Button } from "@/ui/button";
+import { Progress } from "@/ui/progress";
+import { cn } from "@/utils";
+import { fBytes } from "@/utils/format-number";
+import { getUploadPercent, UPLOAD_STATUS_LABELS } from "./utils";
+
+const STATUS_BADGES: Partial<Record<UploadTask["status"], "success" | "error" | "warning" | "secondary">> = {
+	DONE: "success",
+	ERROR: "error",
+	RETRYING: "warning",
+	PAUSED: "secondary",
+	CANCELED: "secondary",
+};
+
+/**
+ * Floating list of every upload in this browser; uploads keep going while the user moves between pages
+ */
+export function UploadTray() {
+	const tasks = useUploadTasks();
+	const { pause, resume, cancel, attachFile, clearFinished } = useUploadActions();
+	const queryClient = useQueryClient();
+	const [collapsed, setCollapsed] = useState(false);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const [attachTarget, setAttachTarget] = useState<UploadTask | null>(null);
+
+	const activeCount = tasks.filter(isUploadActive).length;
+	const finishedCount = tasks.filter((task) => task.status === "DONE" || task.status === "CANCELED").length;
+
+	useUploadCompleted(useCallback(() => queryClient.invalidateQueries({ queryKey: assetKeys.all }), [queryClient]));
+
+	// Leaving the page stops the running chunks; the browser asks first
+	useEffect(() => {
+		if (!activeCount) return;
+		const handleBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+		window.addEventListener("beforeunload", handleBeforeUnload);
+		return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+	}, [activeCount]);
+
+	if (!tasks.length) return null;
+
+	const handleSelectFile = (task: UploadTask) => {
+		setAttachTarget(task);
+		fileInputRef.current?.click();
+	};
+
+	const handleFileChosen = (file?: File) => {
+		if (!attachTarget || !file) return;
+		if (!attachFile(attachTarget.id, file)) {
+			toast.error(`Pick "${attachTarget.fileName}" again to resume this upload`, { position: "top-center" });
+		}
+		setAttachTarget(null);
+	};
+
+	const renderActions = (task: UploadTask) => {
+		const canResume = task.status === "PAUSED" || task.status === "ERROR";
+		return (
+			<div className="flex shrink-0 items-center">
+				{isUploadActive(task) && (
+					<Button variant="ghost" size="icon" className="h-7 w-7" title="Pause" onClick={() => pause(task.id)}>
+						<Pause className="h-3.5 w-3.5" />
+					</Button>
+				)}
+				{canResume && hasLocalFile(task.id) && (
+					<Button
+						variant="ghost"
+						size="icon"
+						className="h-7 w-7"
+						title={task.status === "ERROR" ? "Retry" : "Resume"}
+						onClick={() => resume(task.id)}
+					>
+						{task.status === "ERROR" ? <RotateCcw className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+					</Button>
+				)}
+				{canResume && !hasLocalFile(task.id) && (
+					<Button
+						variant="ghost"
+						size="icon"
+						className="h-7 w-7"
+						title="Select the file to resume"
+						onClick={() => handleSelectFile(task)}
+					>
+						<FolderOpen className="h-3.5 w-3.5" />
+					</Button>
+				)}
+				{task.status !== "DONE" && task.status !== "CANCELED" && (
+					<Button variant="ghost" size="icon" className="h-7 w-7" title="Cancel" onClick={() => cancel(task.id)}>
+						<X className="h-3.5 w-3.5" />
+					</Button>
+				)}
+			</div>
+		);
+	};
+
+	return (
+		<div className="fixed bottom-4 right-4 z-50 w-[360px] max-w-[calc(100vw-2rem)] rounded-lg border bg-background shadow-lg">
+			<div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+				<div className="text-sm font-medium">
+					{activeCount ? `Uploading ${activeCount} ${activeCount === 1 ? "file" : "files"}` : "Uploads"}
+				</div>
+				<div className="flex items-center gap-1">
+					{finishedCount > 0 && (
+						<Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={clearFinished}>
+							Clear finished
+						</Button>
+					)}
+					<Button
+						variant="ghost"
+						size="icon"
+						className="h-7 w-7"
+						title={collapsed ? "Expand" : "Collapse"}
+						onClick={() => setCollapsed((prev) => !prev)}
+					>
+						{collapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+					</Button>
+				</div>
+			</div>
+			{!collapsed && (
+				<div className="max-h-80 space-y-1 overflow-y-auto p-2">
+					{tasks.map((task) => {
+						const percent = getUploadPercent(task);
+						const needsFile = (task.status === "PAUSED" || task.status === "ERROR") && !hasLocalFile(task.id);
+						return (
+							<div key={task.id} className="rounded-md px-2 py-1.5 hover:bg-muted/50">
+								<div className="flex items-center gap-2">
+									<Icon icon={`local:${getFileThumb(task.fileName)}`} size={28} />
+									<div className="min-w-0 flex-1">
+										<div className="truncate text-sm" title={joinPath(task.folderPath ?? "", task.fileName)}>
+											{task.fileName}
+										</div>
+										<div className="truncate text-xs text-muted-foreground">
+											{task.assetName ?? "Asset"} · {fBytes(task.uploadedBytes)} of {fBytes(task.size)}
+										</div>
+									</div>
+									{renderActions(task)}
+								</div>
+								<div className="mt-1 flex items-center gap-2">
+									<Progress
+										value={percent}
+										className={cn("h-1 flex-1", task.status === "ERROR" && "bg-destructive/20")}
+									/>
+									<Badge variant={STATUS_BADGES[task.status] ?? "info"} className="shrink-0 text-[10px]">
+										{task.status === "RETRYING"
+											? `${UPLOAD_STATUS_LABELS.RETRYING} (${task.attempt})`
+											: UPLOAD_STATUS_LABELS[task.status]}
+									</Badge>
+								</div>
+								{needsFile && (
+									<div className="mt-1 text-xs text-muted-foreground">Select the file again to resume.</div>
+								)}
+								{task.status === "ERROR" && task.error && (
+									<div className="mt-1 truncate text-xs text-destructive" title={task.error}>
+										{task.error}
+									</div>
+								)}
+							</div>
+						);
+					})}
+				</div>
+			)}
+			<input
+				ref={fileInputRef}
+				type="file"
+				className="hidden"
+				onChange={(event) => {
+					handleFileChosen(event.target.files?.[0]);
+					event.target.value = "";
+				}}
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,61 @@
+import type { UploadFile } from "antd/es/upload/interface";
+import { getParentFolder } from "@/components/file-gallery/folders";
+import type { UploadSource, UploadStatus, UploadTask } from "@/store/uploadStore";
+
+export const UPLOAD_STATUS_LABELS: Record<UploadStatus, string> = {
+	QUEUED: "Waiting",
+	UPLOADING: "Uploading",
+	PAUSED: "Paused",
+	RETRYING: "Retrying",
+	DONE: "Uploaded",
+	ERROR: "Failed",
+	CANCELED: "Canceled",
+};
+
+export const getUploadPercent = (task: Pick<UploadTask, "uploadedBytes" | "size" | "status">) => {
+	if (task.status === "DONE") return 100;
+	if (!task.size) return 0;
+	return Math.min(100, Math.round((task.uploadedBytes / task.size) * 100));
+};
+
+const ANTD_STATUSES: Partial<Record<UploadStatus, UploadFile["status"]>> = {
+	QUEUED: "uploading",
+	UPLOADING: "uploading",
+	RETRYING: "uploading",
+	PAUSED: "uploading",
+	DONE: "done",
+	ERROR: "error",
+};
+
+/**
+ * Overlay the progress of enqueued uploads on an antd file list, matched by uid, so list items show a progress bar
+ */
+export const withUploadProgress = (fileList: UploadFile[], tasks: UploadTask[]) =>
+	fileList.map((file) => {
+		const task = tasks.find((item) => item.id === file.uid);
+		const status = task && ANTD_STATUSES[task.status];
+		if (!task || !status) return file;
+		return {
+			...file,
+			status,
+			percent: getUploadPercent(task),
+			error: task.error ? new Error(task.error) : undefined,
+		};
+	});
+
+/**
+ * Files of the list that have not been handed to the upload queue yet; files picked or dropped
+ * as part of a folder keep their path inside it
+ */
+export const getPendingUploads = (fileList: UploadFile[], tasks: UploadTask[]): UploadSource[] =>
+	fileList.flatMap((file) =>
+		file.originFileObj && !tasks.some((task) => task.id === file.uid && task.status !== "CANCELED")
+			? [
+					{
+						id: file.uid,
+						file: file.originFileObj,
+						folderPath: getParentFolder(file.originFileObj.webkitRelativePath) || undefined,
+					},
+				]
+			: [],
+	);
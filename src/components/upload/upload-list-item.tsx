@@ -2,6 +2,7 @@ import { varFade } from "@/components/animate/variants";
 import { Icon } from "@/components/icon";
 import { Button } from "@/ui/button";
 import { Card } from "@/ui/card";
+import { Progress } from "@/ui/progress";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/ui/tooltip";
 import { fBytes } from "@/utils/format-number";
 import type { ItemRender } from "antd/es/upload/interface";
@@ -20,6 +21,8 @@ export default function UploadListItem({ file, actions, thumbnail = false }: Pro
 	const thumb = getFileThumb(name);
 	const format = getFileFormat(name);
 	const [imgThumbUrl, setImgThumbUrl] = useState("");
+	const isUploading = file.status === "uploading";
+	const percent = Math.round(file.percent ?? 0);
 
 	useEffect(() => {
 		// TODO: mock upload sucess, you should delete 'error' in the production environment
@@ -52,6 +55,8 @@ export default function UploadListItem({ file, actions, thumbnail = false }: Pro
 				<TooltipContent>{name}</TooltipContent>
 			</Tooltip>
 			<div className="absolute right-0 top-0">{closeButton}</div>
+			{isUploading && <Progress value={percent} className="absolute inset-x-2 bottom-2 h-1 w-auto" />}
+			{file.status === "error" && <div className="absolute inset-x-0 bottom-0 h-1 rounded-b-md bg-destructive" />}
 		</Card>
 	);
 	const cardItem = (
@@ -62,9 +67,14 @@ export default function UploadListItem({ file, actions, thumbnail = false }: Pro
 				) : (
 					<Icon icon={`local:${thumb}`} size={32} />
 				)}
-				<div className="ml-4 flex flex-col">
-					<p className="text-sm font-medium">{name}</p>
-					<p className="text-xs">{fBytes(size)}</p>
+				<div className="ml-4 flex min-w-0 flex-1 flex-col gap-1">
+					<p className="text-sm font-medium">{file.originFileObj?.webkitRelativePath || name}</p>
+					<p className="text-xs">
+						{fBytes(size)}
+						{isUploading && ` · ${percent}%`}
+						{file.status === "error" && <span className="text-destructive"> · {file.error?.message ?? "Failed"}</span>}
+					</p>
+					{isUploading && <Progress value={percent} className="h-1" />}
 				</div>
 				{closeButton}
 			</div>
@@ -1,5 +1,6 @@
 import { Upload as AntdUpload } from "antd";
 import type { ItemRender } from "antd/es/upload/interface";
+import { Button } from "@/ui/button";
 import { StyledUpload } from "./styles";
 import UploadIllustration from "./upload-illustration";
 import UploadListItem from "./upload-list-item";
@@ -10,6 +11,11 @@ const { Dragger } = AntdUpload;
 
 interface Props extends UploadProps {
 	thumbnail?: boolean;
+	/**
+	 * Accept whole folders: dropped folders are walked and a folder picker sits next to the file picker.
+	 * Files from a folder keep their path in `originFileObj.webkitRelativePath`.
+	 */
+	folders?: boolean;
 }
 
 const itemRender: (thumbnail: boolean) => ItemRender = (thumbnail) => {
@@ -18,7 +24,36 @@ const itemRender: (thumbnail: boolean) => ItemRender = (thumbnail) => {
 		return <UploadListItem file={file} actions={actions} thumbnail={thumbnail} />;
 	};
 };
-export function Upload({ thumbnail = false, ...other }: Props) {
+export function Upload({ thumbnail = false, folders = false, ...other }: Props) {
+	if (folders) {
+		// The dragger only takes drops (directory mode walks dropped folders), the buttons open the pickers
+		return (
+			<StyledUpload $thumbnail={thumbnail}>
+				<Dragger {...other} directory openFileDialogOnClick={false} itemRender={itemRender(thumbnail)}>
+					<div>
+						<p className="m-auto max-w-[200px]">
+							<UploadIllustration />
+						</p>
+						<h5 className="mt-4">Drop files or folders</h5>
+						<p className="text-sm text-gray-500">Folder structure is kept inside the asset</p>
+						<div className="mt-3 flex justify-center gap-2">
+							<AntdUpload {...other} showUploadList={false}>
+								<Button type="button" variant="outline" size="sm">
+									Select files
+								</Button>
+							</AntdUpload>
+							<AntdUpload {...other} directory showUploadList={false}>
+								<Button type="button" variant="outline" size="sm">
+									Select folder
+								</Button>
+							</AntdUpload>
+						</div>
+					</div>
+				</Dragger>
+			</StyledUpload>
+		);
+	}
+
 	return (
 		<StyledUpload $thumbnail={thumbnail}>
 			<Dragger {...other} itemRender={itemRender(thumbnail)}>
@@ -0,0 +1,334 @@
+import type { Asset, AssetField, AssetFile } from "#/entity";
+import assetService, {
+	type AssetFileUpload,
+	type AssetPayload,
+	type AssetScope,
+	toAssetPayload,
+} from "@/api/services/assetService";
+import showroomService, { getShowroomId, type ShowroomPayload } from "@/api/services/showroomService";
+import { openSecretFields, sealSecretFields } from "@/store/vaultStore";
+import {
+	decryptWithPassphrase,
+	type EncryptedEnvelope,
+	encryptWithPassphrase,
+	fromBase64,
+	toBase64,
+} from "@/utils/crypto";
+
+export const BACKUP_FORMAT = "asset-portal-backup";
+export const BACKUP_VERSION = 1;
+
+export type ExportFormat = "JSON" | "CSV" | "ENCRYPTED";
+
+export type BackupFile = Pick<
+	AssetFile,
+	"filename" | "originalName" | "relativePath" | "folderPath" | "mimeType" | "size"
+> & {
+	/** base64 content */
+	data: string;
+};
+
+export type BackupAsset = AssetPayload & { files?: BackupFile[] };
+
+export type BackupShowroom = ShowroomPayload & { assets: BackupAsset[] };
+
+export type VaultBackup = {
+	format: typeof BACKUP_FORMAT;
+	version: number;
+	exportedAt: string;
+	assets: BackupAsset[];
+	showrooms: BackupShowroom[];
+};
+
+export type EncryptedBackup = EncryptedEnvelope & {
+	format: typeof BACKUP_FORMAT;
+	version: number;
+	encrypted: true;
+};
+
+export type BackupProgress = { done: number; total: number; label: string };
+
+export type BackupFailure = { label: string; message: string };
+
+type ProgressHandler = (progress: BackupProgress) => void;
+
+const toErrorMessage = (error: unknown) => (error instanceof Error ? error.message : "Request failed");
+
+/**
+ * Backups carry plaintext so they can be restored into another tenant; the encrypted format protects them at rest
+ */
+const openFieldsOrThrow = async (fields: AssetField[]) => {
+	const opened = await openSecretFields(fields);
+	if (!opened) throw new Error("Vault is locked");
+	return opened;
+};
+
+const sealFieldsOrThrow = async (fields: AssetField[]) => {
+	const sealed = await sealSecretFields(fields);
+	if (!sealed) throw new Error("Vault is locked");
+	return sealed;
+};
+
+const toBackupFile = async (file: AssetFile): Promise<BackupFile> => {
+	if (!file.url && !file.relativePath) throw new Error("File has no download url");
+	const blob = await assetService.downloadAssetFile(file);
+	return {
+		filename: file.filename,
+		originalName: file.originalName,
+		relativePath: file.relativePath,
+		folderPath: file.folderPath,
+		mimeType: file.mimeType || blob.type || undefined,
+		size: file.size ?? blob.size,
+		data: toBase64(await blob.arrayBuffer()),
+	};
+};
+
+/**
+ * Read the tenant vault (and optionally every showroom) into a backup object.
+ * With `assetIds` only those tenant assets are read and showrooms are skipped.
+ *
+ * Attachment downloads that fail are reported in `failures` and left out of the backup.
+ */
+export const collectBackup = async (
+	{
+		includeShowrooms,
+		includeFiles,
+		assetIds,
+	}: { includeShowrooms: boolean; includeFiles: boolean; assetIds?: string[] },
+	onProgress?: ProgressHandler,
+) => {
+	const failures: BackupFailure[] = [];
+	const report = (done: number, total: number, label: string) => onProgress?.({ done, total, label });
+
+	const collectAssets = async (assets: Asset[], scopeLabel: string) => {
+		const result: BackupAsset[] = [];
+		for (const [index, asset] of assets.entries()) {
+			report(index, assets.length, `${scopeLabel}: ${asset.name}`);
+			const entry: BackupAsset = toAssetPayload(asset);
+			try {
+				entry.fields = await openFieldsOrThrow(entry.fields);
+			} catch (error) {
+				failures.push({ label: `${asset.name} / fields`, message: toErrorMessage(error) });
+			}
+			if (includeFiles && asset.files?.length) {
+				entry.files = [];
+				for (const file of asset.files) {
+					try {
+						entry.files.push(await toBackupFile(file));
+					} catch (error) {
+						failures.push({
+							label: `${asset.name} / ${file.originalName ?? file.filename}`,
+							message: toErrorMessage(error),
+						});
+					}
+				}
+			}
+			result.push(entry);
+		}
+		report(assets.length, assets.length, scopeLabel);
+		return result;
+	};
+
+	report(0, 0, "Loading assets");
+	const allAssets = await assetService.getAllAssets();
+	const selectedIds = assetIds && new Set(assetIds);
+	const assets = await collectAssets(
+		selectedIds ? allAssets.filter((asset) => selectedIds.has(asset.id)) : allAssets,
+		"Assets",
+	);
+
+	const showrooms: BackupShowroom[] = [];
+	if (includeShowrooms && !selectedIds) {
+		report(0, 0, "Loading showrooms");
+		for (const showroom of await showroomService.getAllShowrooms()) {
+			const showroomId = getShowroomId(showroom);
+			if (!showroomId) continue;
+			const showroomAssets = await assetService.getAllAssets(undefined, { showroomId });
+			showrooms.push({
+				name: showroom.name,
+				location: showroom.location,
+				metaFields: showroom.metaFields,
+				templates: showroom.templates,
+				assets: await collectAssets(showroomAssets, showroom.name),
+			});
+		}
+	}
+
+	const backup: VaultBackup = {
+		format: BACKUP_FORMAT,
+		version: BACKUP_VERSION,
+		exportedAt: new Date().toISOString(),
+		assets,
+		showrooms,
+	};
+	return { backup, failures };
+};
+
+// Spreadsheets evaluate cells starting with these as formulas, so such values are prefixed with a quote
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (raw: string) => {
+	const value = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * One row per asset with a column per field key; secret flags and attachments are not representable in CSV
+ */
+export const backupToCsv = (backup: VaultBackup) => {
+	const rows = [
+		...backup.assets.map((asset) => ({ showroom: "", asset })),
+		...backup.showrooms.flatMap((showroom) => showroom.assets.map((asset) => ({ showroom: showroom.name, asset }))),
+	];
+	const fieldKeys = [...new Set(rows.flatMap(({ asset }) => asset.fields.map((field) => field.key)))];
+	const header = ["showroom", "name", "type", "tags", "expirationDate", ...fieldKeys];
+	const lines = rows.map(({ showroom, asset }) => {
+		const values = new Map(asset.fields.map((field) => [field.key, field.value]));
+		return [
+			showroom,
+			asset.name,
+			asset.type,
+			asset.tags.join(", "),
+			asset.expirationDate ?? "",
+			...fieldKeys.map((key) => values.get(key) ?? ""),
+		];
+	});
+	return [header, ...lines].map((cells) => cells.map(escapeCsv).join(",")).join("\r\n");
+};
+
+/**
+ * Serialize a backup in the chosen format
+ */
+export const serializeBackup = async (backup: VaultBackup, format: ExportFormat, passphrase?: string) => {
+	const stamp = backup.exportedAt.slice(0, 10);
+	if (format === "CSV") {
+		return { blob: new Blob([backupToCsv(backup)], { type: "text/csv" }), filename: `assets-${stamp}.csv` };
+	}
+	const json = JSON.stringify(backup);
+	if (format === "ENCRYPTED") {
+		if (!passphrase) throw new Error("A passphrase is required");
+		const envelope: EncryptedBackup = {
+			format: BACKUP_FORMAT,
+			version: BACKUP_VERSION,
+			encrypted: true,
+			...(await encryptWithPassphrase(json, passphrase)),
+		};
+		return {
+			blob: new Blob([JSON.stringify(envelope)], { type: "application/json" }),
+			filename: `assets-${stamp}.vault`,
+		};
+	}
+	return { blob: new Blob([json], { type: "application/json" }), filename: `assets-${stamp}.json` };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = filename;
+	link.click();
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const isVaultBackup = (value: unknown): value is VaultBackup => {
+	const candidate = value as VaultBackup | undefined;
+	return candidate?.format === BACKUP_FORMAT && Array.isArray(candidate.assets) && Array.isArray(candidate.showrooms);
+};
+
+/**
+ * Read a backup file written by serializeBackup (JSON or encrypted)
+ *
+ * @throws Error when the file is not a backup of this portal
+ */
+export const readBackupFile = async (file: File): Promise<VaultBackup | EncryptedBackup> => {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(await file.text());
+	} catch {
+		throw new Error("This file is not a JSON or encrypted backup");
+	}
+	const candidate = parsed as Partial<EncryptedBackup>;
+	if (candidate?.format === BACKUP_FORMAT && candidate.encrypted) return candidate as EncryptedBackup;
+	if (isVaultBackup(parsed)) return parsed;
+	throw new Error("This file is not a backup exported from the portal");
+};
+
+export const isEncryptedBackup = (value: VaultBackup | EncryptedBackup): value is EncryptedBackup =>
+	"encrypted" in value && value.encrypted === true;
+
+/**
+ * @throws Error when the passphrase is wrong
+ */
+export const decryptBackup = async (envelope: EncryptedBackup, passphrase: string) => {
+	const parsed: unknown = JSON.parse(await decryptWithPassphrase(envelope, passphrase));
+	if (!isVaultBackup(parsed)) throw new Error("Decrypted data is not a valid backup");
+	return parsed;
+};
+
+export const countBackup = (backup: VaultBackup) => {
+	const allAssets = [...backup.assets, ...backup.showrooms.flatMap((showroom) => showroom.assets)];
+	return {
+		assets: backup.assets.length,
+		showrooms: backup.showrooms.length,
+		showroomAssets: allAssets.length - backup.assets.length,
+		files: allAssets.reduce((total, asset) => total + (asset.files?.length ?? 0), 0),
+	};
+};
+
+const toUploadFile = (file: BackupFile): AssetFileUpload => ({
+	file: new File([fromBase64(file.data)], file.originalName || file.filename, { type: file.mimeType || "" }),
+	folderPath: file.folderPath,
+});
+
+/**
+ * Recreate a backup in the current tenant: assets first, then each showroom with its assets.
+ * Keeps going after individual failures and returns them.
+ */
+export const restoreBackup = async (
+	backup: VaultBackup,
+	{ includeShowrooms }: { includeShowrooms: boolean },
+	onProgress?: ProgressHandler,
+) => {
+	const failures: BackupFailure[] = [];
+	const total = backup.assets.length + (includeShowrooms ? countBackup(backup).showroomAssets : 0);
+	let done = 0;
+
+	const restoreAsset = async ({ files, ...payload }: BackupAsset, scope: AssetScope, label: string) => {
+		onProgress?.({ done, total, label });
+		try {
+			const fields = await sealFieldsOrThrow(payload.fields);
+			const created = await assetService.createAsset({ ...payload, fields }, scope);
+			if (files?.length && created?.id) {
+				await assetService.uploadAssetFiles({ id: created.id, files: files.map(toUploadFile), scope });
+			}
+		} catch (error) {
+			failures.push({ label, message: toErrorMessage(error) });
+		}
+		done += 1;
+	};
+
+	for (const asset of backup.assets) {
+		await restoreAsset(asset, {}, asset.name);
+	}
+
+	if (includeShowrooms) {
+		for (const { assets, ...showroom } of backup.showrooms) {
+			let showroomId: string | undefined;
+			try {
+				const created = await showroomService.createShowroom(showroom);
+				showroomId = created && getShowroomId(created);
+				if (!showroomId) throw new Error("No showroom id returned");
+			} catch (error) {
+				failures.push({ label: `Showroom ${showroom.name}`, message: toErrorMessage(error) });
+				done += assets.length;
+				continue;
+			}
+			for (const asset of assets) {
+				await restoreAsset(asset, { showroomId }, `${showroom.name}: ${asset.name}`);
+			}
+		}
+	}
+
+	onProgress?.({ done, total, label: "Done" });
+	return failures;
+};
@@ -0,0 +1,3 @@
+export * from "./bundle";
+export * from "./vault-export-dialog";
+export * from "./vault-restore-dialog";
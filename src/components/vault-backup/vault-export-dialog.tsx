@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { PasswordStrengthMeter } from "@/components/password-generator";
+import { ensureVaultUnlocked } from "@/store/vaultStore";
+import { Button } from "@/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Input } from "@/ui/input";
+import { Label } from "@/ui/label";
+import { Progress } from "@/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
+import { Switch } from "@/ui/switch";
+import {
+	type BackupFailure,
+	type BackupProgress,
+	collectBackup,
+	downloadBlob,
+	type ExportFormat,
+	serializeBackup,
+} from "./bundle";
+
+type VaultExportDialogProps = {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	/** Export only these tenant assets instead of the whole vault */
+	assetIds?: string[];
+};
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string; hint: string }[] = [
+	{
+		value: "ENCRYPTED",
+		label: "Encrypted archive (.vault)",
+		hint: "AES-GCM with a key derived from your passphrase. Keep the passphrase safe, it cannot be recovered.",
+	},
+	{ value: "JSON", label: "JSON", hint: "Plain text, secrets included. Can be restored into another tenant." },
+	{
+		value: "CSV",
+		label: "CSV",
+		hint: "Plain text, one row per asset. No attachments or secret flags; re-import it with the import wizard.",
+	},
+];
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export function VaultExportDialog({ open, onOpenChange, assetIds }: VaultExportDialogProps) {
+	const [format, setFormat] = useState<ExportFormat>("ENCRYPTED");
+	const [includeShowrooms, setIncludeShowrooms] = useState(true);
+	const [includeFiles, setIncludeFiles] = useState(false);
+	const [passphrase, setPassphrase] = useState("");
+	const [confirmPassphrase, setConfirmPassphrase] = useState("");
+	const [isExporting, setIsExporting] = useState(false);
+	const [progress, setProgress] = useState<BackupProgress | null>(null);
+	const [failures, setFailures] = useState<BackupFailure[]>([]);
+
+	const isEncrypted = format === "ENCRYPTED";
+	const canIncludeFiles = format !== "CSV";
+	const passphraseError = !isEncrypted
+		? ""
+		: passphrase.length < MIN_PASSPHRASE_LENGTH
+			? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+			: passphrase !== confirmPassphrase
+				? "Passphrases do not match"
+				: "";
+
+	const handleOpenChange = (next: boolean) => {
+		if (isExporting) return;
+		onOpenChange(next);
+		if (!next) {
+			setPassphrase("");
+			setConfirmPassphrase("");
+			setProgress(null);
+			setFailures([]);
+		}
+	};
+
+	const handleExport = async () => {
+		if (passphraseError) return;
+		// Secret fields are decrypted into the export
+		if (!(await ensureVaultUnlocked())) return;
+		setIsExporting(true);
+		setFailures([]);
+		try {
+			const { backup, failures: collectFailures } = await collectBackup(
+				{ includeShowrooms, includeFiles: canIncludeFiles && includeFiles, assetIds },
+				setProgress,
+			);
+			const { blob, filename } = await serializeBackup(backup, format, passphrase);
+			downloadBlob(blob, filename);
+			setFailures(collectFailures);
+			if (collectFailures.length) {
+				toast.warning(`Export finished, ${collectFailures.length} files could not be included`, {
+					position: "top-center",
+				});
+			} else {
+				toast.success("Export downloaded", { position: "top-center" });
+			}
+		} catch (error) {
+			console.error(error);
+			toast.error("Export failed", { position: "top-center" });
+		} finally {
+			setIsExporting(false);
+			setProgress(null);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent className="sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle>{assetIds ? `Export ${assetIds.length} selected assets` : "Export assets"}</DialogTitle>
+					<DialogDescription>
+						{assetIds
+							? "Download the selected assets and their fields as a single file."
+							: "Download every asset and its fields as a single file."}
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4">
+					<div className="space-y-2">
+						<Label>Format</Label>
+						<Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+							<SelectTrigger className="w-full">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{EXPORT_FORMATS.map((option) => (
+									<SelectItem key={option.value} value={option.value}>
+										{option.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<div className="text-xs text-muted-foreground">
+							{EXPORT_FORMATS.find((option) => option.value === format)?.hint}
+						</div>
+					</div>
+					{!assetIds && (
+						<div className="flex items-center justify-between rounded-md border px-3 py-2">
+							<Label>Include showrooms and their assets</Label>
+							<Switch checked={includeShowrooms} onCheckedChange={setIncludeShowrooms} />
+						</div>
+					)}
+					<div className="flex items-center justify-between rounded-md border px-3 py-2">
+						<div>
+							<Label>Include file attachments</Label>
+							<div className="text-xs text-muted-foreground">Large vaults produce large files.</div>
+						</div>
+						<Switch
+							checked={canIncludeFiles && includeFiles}
+							disabled={!canIncludeFiles}
+							onCheckedChange={setIncludeFiles}
+						/>
+					</div>
+					{isEncrypted && (
+						<div className="space-y-2">
+							<Label>Passphrase</Label>
+							<Input
+								type="password"
+								autoComplete="new-password"
+								value={passphrase}
+								onChange={(event) => setPassphrase(event.target.value)}
+							/>
+							<PasswordStrengthMeter password={passphrase} showWarnings={false} />
+							<Input
+								type="password"
+								autoComplete="new-password"
+								placeholder="Confirm passphrase"
+								value={confirmPassphrase}
+								onChange={(event) => setConfirmPassphrase(event.target.value)}
+							/>
+							{passphrase && passphraseError && <div className="text-xs text-error">{passphraseError}</div>}
+						</div>
+					)}
+					{progress && (
+						<div className="space-y-1">
+							<Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+							<div className="truncate text-xs text-muted-foreground">{progress.label}</div>
+						</div>
+					)}
+					{failures.length > 0 && (
+						<div className="max-h-32 space-y-1 overflow-y-auto rounded-md border p-3 text-xs">
+							{failures.map((failure) => (
+								<div key={failure.label}>
+									<span className="font-medium">{failure.label}</span>
+									<span className="text-muted-foreground">: {failure.message}</span>
+								</div>
+							))}
+						</div>
+					)}
+				</div>
+				<DialogFooter className="mt-4">
+					<Button type="button" variant="outline" disabled={isExporting} onClick={() => handleOpenChange(false)}>
+						Close
+					</Button>
+					<Button type="button" disabled={isExporting || !!passphraseError} onClick={() => void handleExport()}>
+						{isExporting ? "Exporting..." : "Export"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,221 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { FileUp } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { assetKeys } from "@/api/services/assetService";
+import { showroomKeys } from "@/api/services/showroomService";
+import { ensureVaultUnlocked } from "@/store/vaultStore";
+import { Button } from "@/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Input } from "@/ui/input";
+import { Label } from "@/ui/label";
+import { Progress } from "@/ui/progress";
+import { Switch } from "@/ui/switch";
+import {
+	type BackupFailure,
+	type BackupProgress,
+	countBackup,
+	decryptBackup,
+	type EncryptedBackup,
+	isEncryptedBackup,
+	readBackupFile,
+	restoreBackup,
+	type VaultBackup,
+} from "./bundle";
+
+type VaultRestoreDialogProps = {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+};
+
+export function VaultRestoreDialog({ open, onOpenChange }: VaultRestoreDialogProps) {
+	const queryClient = useQueryClient();
+	const [fileName, setFileName] = useState("");
+	const [envelope, setEnvelope] = useState<EncryptedBackup | null>(null);
+	const [backup, setBackup] = useState<VaultBackup | null>(null);
+	const [passphrase, setPassphrase] = useState("");
+	const [includeShowrooms, setIncludeShowrooms] = useState(true);
+	const [isBusy, setIsBusy] = useState(false);
+	const [progress, setProgress] = useState<BackupProgress | null>(null);
+	const [failures, setFailures] = useState<BackupFailure[] | null>(null);
+
+	const counts = backup ? countBackup(backup) : null;
+
+	const reset = () => {
+		setFileName("");
+		setEnvelope(null);
+		setBackup(null);
+		setPassphrase("");
+		setProgress(null);
+		setFailures(null);
+	};
+
+	const handleOpenChange = (next: boolean) => {
+		if (isBusy) return;
+		onOpenChange(next);
+		if (!next) reset();
+	};
+
+	const handleFile = async (file?: File) => {
+		reset();
+		if (!file) return;
+		setFileName(file.name);
+		try {
+			const parsed = await readBackupFile(file);
+			if (isEncryptedBackup(parsed)) {
+				setEnvelope(parsed);
+			} else {
+				setBackup(parsed);
+			}
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Failed to read file", { position: "top-center" });
+		}
+	};
+
+	const handleUnlock = async () => {
+		if (!envelope) return;
+		setIsBusy(true);
+		try {
+			setBackup(await decryptBackup(envelope, passphrase));
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Failed to decrypt", { position: "top-center" });
+		} finally {
+			setIsBusy(false);
+		}
+	};
+
+	const handleRestore = async () => {
+		if (!backup) return;
+		// Secret fields are re-encrypted with this tenant's vault key
+		if (!(await ensureVaultUnlocked())) return;
+		setIsBusy(true);
+		try {
+			const result = await restoreBackup(backup, { includeShowrooms }, setProgress);
+			setFailures(result);
+			if (result.length) {
+				toast.warning(`Restore finished with ${result.length} errors`, { position: "top-center" });
+			} else {
+				toast.success("Backup restored", { position: "top-center" });
+			}
+		} finally {
+			setIsBusy(false);
+			await Promise.all([
+				queryClient.invalidateQueries({ queryKey: assetKeys.all }),
+				queryClient.invalidateQueries({ queryKey: showroomKeys.all }),
+			]);
+		}
+	};
+
+	const isDone = failures !== null;
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent className="sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle>Restore backup</DialogTitle>
+					<DialogDescription>
+						Recreate assets and showrooms from a JSON or encrypted export, e.g. from another tenant.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4">
+					<label className="flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border border-dashed px-4 py-8 text-sm text-muted-foreground hover:border-primary/40">
+						<FileUp className="h-6 w-6" />
+						{fileName ? (
+							<span className="font-medium text-foreground">{fileName}</span>
+						) : (
+							"Choose a .json or .vault file"
+						)}
+						<input
+							type="file"
+							className="hidden"
+							accept=".json,.vault,application/json"
+							disabled={isBusy}
+							onChange={(event) => void handleFile(event.target.files?.[0])}
+						/>
+					</label>
+
+					{envelope && !backup && (
+						<div className="space-y-2">
+							<Label>Passphrase</Label>
+							<div className="flex gap-2">
+								<Input
+									type="password"
+									value={passphrase}
+									onChange={(event) => setPassphrase(event.target.value)}
+									onKeyDown={(event) => event.key === "Enter" && void handleUnlock()}
+								/>
+								<Button type="button" disabled={!passphrase || isBusy} onClick={() => void handleUnlock()}>
+									{isBusy ? "Unlocking..." : "Unlock"}
+								</Button>
+							</div>
+						</div>
+					)}
+
+					{backup && counts && (
+						<>
+							<div className="grid grid-cols-2 gap-2 text-sm">
+								<div className="rounded-md border px-3 py-2">
+									<div className="text-xs text-muted-foreground">Assets</div>
+									<div className="font-semibold">{counts.assets}</div>
+								</div>
+								<div className="rounded-md border px-3 py-2">
+									<div className="text-xs text-muted-foreground">Showrooms</div>
+									<div className="font-semibold">
+										{counts.showrooms} ({counts.showroomAssets} assets)
+									</div>
+								</div>
+								<div className="rounded-md border px-3 py-2">
+									<div className="text-xs text-muted-foreground">Attachments</div>
+									<div className="font-semibold">{counts.files}</div>
+								</div>
+								<div className="rounded-md border px-3 py-2">
+									<div className="text-xs text-muted-foreground">Exported</div>
+									<div className="font-semibold">{new Date(backup.exportedAt).toLocaleString()}</div>
+								</div>
+							</div>
+							{counts.showrooms > 0 && (
+								<div className="flex items-center justify-between rounded-md border px-3 py-2">
+									<Label>Restore showrooms and their assets</Label>
+									<Switch
+										checked={includeShowrooms}
+										disabled={isBusy || isDone}
+										onCheckedChange={setIncludeShowrooms}
+									/>
+								</div>
+							)}
+						</>
+					)}
+
+					{progress && (
+						<div className="space-y-1">
+							<Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+							<div className="truncate text-xs text-muted-foreground">
+								{progress.done} of {progress.total} · {progress.label}
+							</div>
+						</div>
+					)}
+					{failures && failures.length > 0 && (
+						<div className="max-h-32 space-y-1 overflow-y-auto rounded-md border p-3 text-xs">
+							{failures.map((failure) => (
+								<div key={failure.label}>
+									<span className="font-medium">{failure.label}</span>
+									<span className="text-muted-foreground">: {failure.message}</span>
+								</div>
+							))}
+						</div>
+					)}
+				</div>
+				<DialogFooter className="mt-4">
+					<Button type="button" variant="outline" disabled={isBusy} onClick={() => handleOpenChange(false)}>
+						{isDone ? "Done" : "Cancel"}
+					</Button>
+					{!isDone && (
+						<Button type="button" disabled={!backup || isBusy} onClick={() => void handleRestore()}>
+							{isBusy && backup ? "Restoring..." : "Restore"}
+						</Button>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,4 @@
+export * from "./recovery-key-notice";
+export * from "./utils";
+export * from "./vault-settings-dialog";
+export * from "./vault-unlock-dialog";
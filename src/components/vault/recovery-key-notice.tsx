@@ -0,0 +1,51 @@
+import { Copy, Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/ui/button";
+
+type RecoveryKeyNoticeProps = {
+	recoveryKey: string;
+};
+
+export function RecoveryKeyNotice({ recoveryKey }: RecoveryKeyNoticeProps) {
+	const handleCopy = async () => {
+		try {
+			await navigator.clipboard.writeText(recoveryKey);
+			toast.success("Recovery key copied", { position: "top-center" });
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to copy", { position: "top-center" });
+		}
+	};
+
+	const handleDownload = () => {
+		const blob = new Blob([`Vault recovery key\n\n${recoveryKey}\n`], { type: "text/plain" });
+		const url = URL.createObjectURL(blob);
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = "vault-recovery-key.txt";
+		link.click();
+		setTimeout(() => URL.revokeObjectURL(url), 0);
+	};
+
+	return (
+		<div className="space-y-3 rounded-md border border-warning/40 bg-warning/10 p-4">
+			<div className="text-sm font-semibold">Save your recovery key</div>
+			<div className="text-xs text-muted-foreground">
+				This is the only way back in if the passphrase is forgotten. It is shown once and never sent to the server.
+			</div>
+			<div className="break-all rounded-md border bg-background px-3 py-2 font-mono text-sm tracking-wider">
+				{recoveryKey}
+			</div>
+			<div className="flex gap-2">
+				<Button type="button" size="sm" variant="outline" onClick={() => void handleCopy()}>
+					<Copy className="mr-1 h-3 w-3" />
+					Copy
+				</Button>
+				<Button type="button" size="sm" variant="outline" onClick={handleDownload}>
+					<Download className="mr-1 h-3 w-3" />
+					Download
+				</Button>
+			</div>
+		</div>
+	);
+}
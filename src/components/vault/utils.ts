@@ -0,0 +1,10 @@
+export const MIN_VAULT_PASSPHRASE_LENGTH = 10;
+
+/**
+ * Validation message for a new passphrase and its confirmation, or an empty string when valid
+ */
+export const getPassphraseError = (passphrase: string, confirmation: string) => {
+	if (passphrase.length < MIN_VAULT_PASSPHRASE_LENGTH) return `Use at least ${MIN_VAULT_PASSPHRASE_LENGTH} characters`;
+	if (passphrase !== confirmation) return "Passphrases do not match";
+	return "";
+};
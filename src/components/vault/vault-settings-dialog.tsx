@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { PasswordStrengthMeter } from "@/components/password-generator";
+import {
+	useVaultActions,
+	useVaultConfig,
+	type VaultRotationFailure,
+	type VaultRotationProgress,
+} from "@/store/vaultStore";
+import { Button } from "@/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Input } from "@/ui/input";
+import { Label } from "@/ui/label";
+import { Progress } from "@/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/ui/tabs";
+import { RecoveryKeyNotice } from "./recovery-key-notice";
+import { getPassphraseError } from "./utils";
+
+type VaultSettingsDialogProps = {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+};
+
+type SettingsTab = "PASSPHRASE" | "RECOVERY" | "ROTATE";
+
+export function VaultSettingsDialog({ open, onOpenChange }: VaultSettingsDialogProps) {
+	const config = useVaultConfig();
+	const { setup, changePassphrase, regenerateRecoveryKey, rotateKey } = useVaultActions();
+	const [tab, setTab] = useState<SettingsTab>("PASSPHRASE");
+	const [currentPassphrase, setCurrentPassphrase] = useState("");
+	const [newPassphrase, setNewPassphrase] = useState("");
+	const [confirmPassphrase, setConfirmPassphrase] = useState("");
+	const [recoveryKey, setRecoveryKey] = useState("");
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [progress, setProgress] = useState<VaultRotationProgress | null>(null);
+	const [failures, setFailures] = useState<VaultRotationFailure[]>([]);
+	const [isSetupDone, setIsSetupDone] = useState(false);
+
+	// Stay on the setup view after enabling so the recovery key can be saved
+	const isEnabled = !!config && !isSetupDone;
+	const needsNewPassphrase = !isEnabled || tab === "PASSPHRASE";
+	const passphraseError = needsNewPassphrase ? getPassphraseError(newPassphrase, confirmPassphrase) : "";
+	const canSubmit = !isSetupDone && !passphraseError && (!isEnabled || !!currentPassphrase);
+
+	const resetForm = () => {
+		setCurrentPassphrase("");
+		setNewPassphrase("");
+		setConfirmPassphrase("");
+		setProgress(null);
+		setFailures([]);
+	};
+
+	const handleOpenChange = (next: boolean) => {
+		if (isSubmitting) return;
+		onOpenChange(next);
+		if (!next) {
+			resetForm();
+			setRecoveryKey("");
+			setTab("PASSPHRASE");
+			setIsSetupDone(false);
+		}
+	};
+
+	const handleTabChange = (value: string) => {
+		setTab(value as SettingsTab);
+		resetForm();
+		setRecoveryKey("");
+	};
+
+	const handleSubmit = async () => {
+		setIsSubmitting(true);
+		setFailures([]);
+		try {
+			if (!isEnabled) {
+				setRecoveryKey(await setup(newPassphrase));
+				setIsSetupDone(true);
+				toast.success("Encryption enabled", { position: "top-center" });
+			} else if (tab === "PASSPHRASE") {
+				await changePassphrase(currentPassphrase, newPassphrase);
+				toast.success("Passphrase changed", { position: "top-center" });
+			} else if (tab === "RECOVERY") {
+				setRecoveryKey(await regenerateRecoveryKey(currentPassphrase));
+				toast.success("New recovery key created", { position: "top-center" });
+			} else {
+				const result = await rotateKey(currentPassphrase, setProgress);
+				setRecoveryKey(result.recoveryKey);
+				setFailures(result.failures);
+				if (result.failures.length) {
+					toast.warning(`${result.failures.length} assets could not be re-encrypted, run the rotation again`, {
+						position: "top-center",
+					});
+				} else {
+					toast.success("Vault key rotated", { position: "top-center" });
+				}
+			}
+			setCurrentPassphrase("");
+			setNewPassphrase("");
+			setConfirmPassphrase("");
+			setProgress(null);
+		} catch (error) {
+			console.error(error);
+			toast.error(error instanceof Error ? error.message : "Request failed", { position: "top-center" });
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const currentPassphraseInput = (
+		<div className="space-y-2">
+			<Label>Current passphrase</Label>
+			<Input
+				type="password"
+				autoComplete="current-password"
+				value={currentPassphrase}
+				onChange={(event) => setCurrentPassphrase(event.target.value)}
+			/>
+		</div>
+	);
+
+	const newPassphraseInputs = (
+		<div className="space-y-2">
+			<Label>{isEnabled ? "New passphrase" : "Passphrase"}</Label>
+			<Input
+				type="password"
+				autoComplete="new-password"
+				value={newPassphrase}
+				onChange={(event) => setNewPassphrase(event.target.value)}
+			/>
+			<PasswordStrengthMeter password={newPassphrase} showWarnings={false} />
+			<Input
+				type="password"
+				autoComplete="new-password"
+				placeholder="Confirm passphrase"
+				value={confirmPassphrase}
+				onChange={(event) => setConfirmPassphrase(event.target.value)}
+			/>
+			{newPassphrase && passphraseError && <div className="text-xs text-error">{passphraseError}</div>}
+		</div>
+	);
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent className="sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle>{isEnabled ? "Vault encryption" : "Enable vault encryption"}</DialogTitle>
+					<DialogDescription>
+						Secret fields are encrypted in the browser with a key derived from your passphrase. The server only ever
+						stores ciphertext.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4">
+					{!isEnabled ? (
+						!recoveryKey && newPassphraseInputs
+					) : (
+						<Tabs value={tab} onValueChange={handleTabChange}>
+							<TabsList className="w-full">
+								<TabsTrigger value="PASSPHRASE">Passphrase</TabsTrigger>
+								<TabsTrigger value="RECOVERY">Recovery key</TabsTrigger>
+								<TabsTrigger value="ROTATE">Rotate key</TabsTrigger>
+							</TabsList>
+							<TabsContent value="PASSPHRASE" className="space-y-3 pt-2">
+								{currentPassphraseInput}
+								{newPassphraseInputs}
+							</TabsContent>
+							<TabsContent value="RECOVERY" className="space-y-3 pt-2">
+								<div className="text-xs text-muted-foreground">
+									Creates a new recovery key. The previous one stops working.
+								</div>
+								{currentPassphraseInput}
+							</TabsContent>
+							<TabsContent value="ROTATE" className="space-y-3 pt-2">
+								<div className="text-xs text-muted-foreground">
+									Generates a new vault key and re-encrypts every secret in the tenant and its showrooms. Old keys are
+									kept to read revisions and backups made before. A new recovery key is issued.
+								</div>
+								{currentPassphraseInput}
+								{progress && (
+									<div className="space-y-1">
+										<Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+										<div className="truncate text-xs text-muted-foreground">{progress.label}</div>
+									</div>
+								)}
+								{failures.length > 0 && (
+									<div className="max-h-32 space-y-1 overflow-y-auto rounded-md border p-3 text-xs">
+										{failures.map((failure) => (
+											<div key={failure.label}>
+												<span className="font-medium">{failure.label}</span>
+												<span className="text-muted-foreground">: {failure.message}</span>
+											</div>
+										))}
+									</div>
+								)}
+							</TabsContent>
+						</Tabs>
+					)}
+					{recoveryKey && <RecoveryKeyNotice recoveryKey={recoveryKey} />}
+				</div>
+				<DialogFooter className="mt-4">
+					<Button type="button" variant="outline" disabled={isSubmitting} onClick={() => handleOpenChange(false)}>
+						{recoveryKey ? "Done" : "Cancel"}
+					</Button>
+					{!isSetupDone && (
+						<Button type="button" disabled={!canSubmit || isSubmitting} onClick={() => void handleSubmit()}>
+							{isSubmitting
+								? "Working..."
+								: !isEnabled
+									? "Enable encryption"
+									: tab === "PASSPHRASE"
+										? "Change passphrase"
+										: tab === "RECOVERY"
+											? "Create recovery key"
+											: "Rotate key"}
+						</Button>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { PasswordStrengthMeter } from "@/components/password-generator";
+import { useVaultActions, useVaultUnlockRequest } from "@/store/vaultStore";
+import { Button } from "@/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
+import { Input } from "@/ui/input";
+import { Label } from "@/ui/label";
+import { getPassphraseError } from "./utils";
+
+type VaultUnlockDialogProps = {
+	/** Opened from the header; prompts raised by requestUnlock open it as well */
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+};
+
+export function VaultUnlockDialog({ open, onOpenChange }: VaultUnlockDialogProps) {
+	const unlockRequest = useVaultUnlockRequest();
+	const { unlock, recover, resolveUnlockRequest } = useVaultActions();
+	const [mode, setMode] = useState<"PASSPHRASE" | "RECOVERY">("PASSPHRASE");
+	const [passphrase, setPassphrase] = useState("");
+	const [recoveryKey, setRecoveryKey] = useState("");
+	const [newPassphrase, setNewPassphrase] = useState("");
+	const [confirmPassphrase, setConfirmPassphrase] = useState("");
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	const isOpen = open || !!unlockRequest;
+	const recoveryError = getPassphraseError(newPassphrase, confirmPassphrase);
+
+	const close = (unlocked: boolean) => {
+		setMode("PASSPHRASE");
+		setPassphrase("");
+		setRecoveryKey("");
+		setNewPassphrase("");
+		setConfirmPassphrase("");
+		onOpenChange(false);
+		resolveUnlockRequest(unlocked);
+	};
+
+	const handleSubmit = async () => {
+		setIsSubmitting(true);
+		try {
+			if (mode === "PASSPHRASE") {
+				await unlock(passphrase);
+				toast.success("Vault unlocked", { position: "top-center" });
+			} else {
+				await recover(recoveryKey, newPassphrase);
+				toast.success("Vault recovered with a new passphrase", { position: "top-center" });
+			}
+			close(true);
+		} catch (error) {
+			console.error(error);
+			toast.error(mode === "PASSPHRASE" ? "Wrong passphrase" : "Wrong recovery key", { position: "top-center" });
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const canSubmit = mode === "PASSPHRASE" ? !!passphrase : !!recoveryKey.trim() && !recoveryError;
+
+	return (
+		<Dialog open={isOpen} onOpenChange={(next) => !next && !isSubmitting && close(false)}>
+			<DialogContent className="sm:max-w-md">
+				<DialogHeader>
+					<DialogTitle>{mode === "PASSPHRASE" ? "Unlock vault" : "Recover vault"}</DialogTitle>
+					<DialogDescription>
+						{mode === "PASSPHRASE"
+							? "Secret fields are encrypted in your browser. Enter the vault passphrase to read or save them."
+							: "Enter the recovery key and choose a new passphrase."}
+					</DialogDescription>
+				</DialogHeader>
+				<form
+					className="space-y-3"
+					onSubmit={(event) => {
+						event.preventDefault();
+						if (canSubmit) void handleSubmit();
+					}}
+				>
+					{mode === "PASSPHRASE" ? (
+						<div className="space-y-2">
+							<Label>Passphrase</Label>
+							<Input
+								type="password"
+								autoFocus
+								autoComplete="current-password"
+								value={passphrase}
+								onChange={(event) => setPassphrase(event.target.value)}
+							/>
+						</div>
+					) : (
+						<>
+							<div className="space-y-2">
+								<Label>Recovery key</Label>
+								<Input
+									autoFocus
+									className="font-mono"
+									placeholder="XXXX-XXXX-XXXX-..."
+									value={recoveryKey}
+									onChange={(event) => setRecoveryKey(event.target.value)}
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label>New passphrase</Label>
+								<Input
+									type="password"
+									autoComplete="new-password"
+									value={newPassphrase}
+									onChange={(event) => setNewPassphrase(event.target.value)}
+								/>
+								<PasswordStrengthMeter password={newPassphrase} showWarnings={false} />
+								<Input
+									type="password"
+									autoComplete="new-password"
+									placeholder="Confirm passphrase"
+									value={confirmPassphrase}
+									onChange={(event) => setConfirmPassphrase(event.target.value)}
+								/>
+								{newPassphrase && recoveryError && <div className="text-xs text-error">{recoveryError}</div>}
+							</div>
+						</>
+					)}
+					<button
+						type="button"
+						className="text-xs text-primary hover:underline"
+						onClick={() => setMode(mode === "PASSPHRASE" ? "RECOVERY" : "PASSPHRASE")}
+					>
+						{mode === "PASSPHRASE" ? "Forgot the passphrase? Use the recovery key" : "Back to passphrase"}
+					</button>
+					<DialogFooter className="mt-4">
+						<Button type="button" variant="outline" disabled={isSubmitting} onClick={() => close(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={!canSubmit || isSubmitting}>
+							{isSubmitting ? "Unlocking..." : mode === "PASSPHRASE" ? "Unlock" : "Recover"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
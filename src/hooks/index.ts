@@ -1,2 +1,3 @@
 export * from "./use-copy-to-clipboard";
 export * from "./use-media-query";
+export * from "./use-page-query";
@@ -0,0 +1,94 @@
+import type { TablePaginationConfig } from "antd";
+import type { SortOrder as AntdSortOrder } from "antd/es/table/interface";
+import type { Key } from "react";
+import { useCallback, useEffect, useState } from "react";
+import type { PageQuery } from "#/api";
+
+type PageQueryOptions = {
+	/** Initial page size */
+	pageSize?: number;
+	/** Page sizes offered by the table size changer */
+	pageSizeOptions?: number[];
+	/** Delay before the search input is applied to the query */
+	debounceMs?: number;
+};
+
+/** The part of an antd SorterResult the hook reads, so it fits tables of any row type */
+type TableSorter = {
+	order?: AntdSortOrder;
+	columnKey?: Key;
+	field?: Key | readonly Key[];
+};
+
+const DEFAULT_PAGE_SIZE_OPTIONS = [8, 16, 32, 64];
+
+/**
+ * React hook that keeps the page/sort/search state of a server-driven antd Table
+ *
+ * @example
+ * const { query, searchInput, setSearchInput, onTableChange, getPagination, getSortOrder } = usePageQuery();
+ * const { data } = useQuery({ queryKey: ["rows", query], queryFn: () => fetchRows(query) });
+ * <Table pagination={getPagination(data?.total ?? 0)} onChange={onTableChange} />
+ */
+export function usePageQuery({
+	pageSize = 8,
+	pageSizeOptions = DEFAULT_PAGE_SIZE_OPTIONS,
+	debounceMs = 300,
+}: PageQueryOptions = {}) {
+	const [query, setQuery] = useState<PageQuery>({ page: 1, pageSize });
+	const [searchInput, setSearchInput] = useState("");
+
+	useEffect(() => {
+		const timer = setTimeout(() => {
+			const search = searchInput.trim();
+			setQuery((prev) => ((prev.search ?? "") === search ? prev : { ...prev, search, page: 1 }));
+		}, debounceMs);
+		return () => clearTimeout(timer);
+	}, [searchInput, debounceMs]);
+
+	const onTableChange = useCallback(
+		(pagination: TablePaginationConfig, _filters: unknown, sorter: TableSorter | TableSorter[]) => {
+			const activeSorter = Array.isArray(sorter) ? sorter[0] : sorter;
+			const sortOrder =
+				activeSorter?.order === "ascend" ? "asc" : activeSorter?.order === "descend" ? "desc" : undefined;
+			const sortBy = sortOrder ? String(activeSorter?.columnKey ?? activeSorter?.field) : undefined;
+			setQuery((prev) => {
+				const nextPageSize = pagination.pageSize ?? prev.pageSize;
+				const isResorted = prev.sortBy !== sortBy || prev.sortOrder !== sortOrder;
+				return {
+					...prev,
+					page: nextPageSize !== prev.pageSize || isResorted ? 1 : (pagination.current ?? 1),
+					pageSize: nextPageSize,
+					sortBy,
+					sortOrder,
+				};
+			});
+		},
+		[],
+	);
+
+	const setPage = useCallback((page: number, nextPageSize?: number) => {
+		setQuery((prev) => ({ ...prev, page, pageSize: nextPageSize ?? prev.pageSize }));
+	}, []);
+
+	const getPagination = useCallback(
+		(total: number): TablePaginationConfig => ({
+			current: query.page,
+			pageSize: query.pageSize,
+			total,
+			showSizeChanger: true,
+			pageSizeOptions,
+		}),
+		[query.page, query.pageSize, pageSizeOptions],
+	);
+
+	const getSortOrder = useCallback(
+		(key: string): AntdSortOrder => {
+			if (query.sortBy !== key) return null;
+			return query.sortOrder === "asc" ? "ascend" : "descend";
+		},
+		[query.sortBy, query.sortOrder],
+	);
+
+	return { query, setQuery, setPage, searchInput, setSearchInput, onTableChange, getPagination, getSortOrder };
+}
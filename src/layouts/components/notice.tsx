@@ -15,8 +15,10 @@ import {
 	type Notification,
 } from "@/store/notificationStore";
 import { formatDistanceToNow } from "date-fns";
+import { useNavigate } from "react-router";
 
 export default function NoticeButton() {
+	const navigate = useNavigate();
 	const [drawerOpen, setDrawerOpen] = useState(false);
 	const notifications = useNotifications();
 	const unreadCount = useUnreadCount();
@@ -55,6 +57,11 @@ export default function NoticeButton() {
 		if (!notification.isRead) {
 			await markAsRead(notification.id);
 		}
+		// Expiration reminders open the Expiring view, where the asset can be renewed
+		if (notification.type === "EXPIRATION_REMINDER" || notification.type === "EXPIRATION_TODAY") {
+			setDrawerOpen(false);
+			navigate("/expiring");
+		}
 	};
 
 	const getTimeAgo = (dateString: string) => {
@@ -66,6 +73,9 @@ export default function NoticeButton() {
 	};
 
 	const getNotificationIcon = (type: string, daysUntilExpiry?: number) => {
+		if (type === "MENTION") {
+			return "solar:chat-round-dots-bold-duotone";
+		}
 		if (type === "EXPIRATION_TODAY" || daysUntilExpiry === 0) {
 			return "solar:danger-triangle-bold-duotone";
 		}
@@ -73,6 +83,9 @@ export default function NoticeButton() {
 	};
 
 	const getNotificationColor = (type: string, daysUntilExpiry?: number) => {
+		if (type === "MENTION") {
+			return "text-primary";
+		}
 		if (type === "EXPIRATION_TODAY" || daysUntilExpiry === 0) {
 			return "text-red-500";
 		}
@@ -128,7 +141,8 @@ export default function NoticeButton() {
 								<Icon icon="solar:bell-off-bold-duotone" size={48} className="text-muted-foreground/50" />
 								<Text color="secondary">No notifications yet</Text>
 								<Text variant="caption" color="secondary" className="text-center">
-									You will receive notifications here when your subscriptions are about to expire
+									You will receive notifications here when your subscriptions are about to expire or someone mentions
+									you in a comment
 								</Text>
 							</div>
 						) : (
@@ -171,6 +185,16 @@ export default function NoticeButton() {
 													<Text variant="caption" color="secondary">
 														{getTimeAgo(notification.createdAt)}
 													</Text>
+													{notification.mentionedBy && (
+														<>
+															<Text variant="caption" color="secondary">
+																•
+															</Text>
+															<Text variant="caption" color="secondary">
+																by {notification.mentionedBy}
+															</Text>
+														</>
+													)}
 													{notification.assetName && (
 														<>
 															<Text variant="caption" color="secondary">
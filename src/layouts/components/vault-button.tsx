@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { Icon } from "@/components/icon";
+import { VaultSettingsDialog, VaultUnlockDialog } from "@/components/vault";
+import { useVaultActions, useVaultConfig, useVaultUnlocked } from "@/store/vaultStore";
+import { Button } from "@/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/ui/dropdown-menu";
+
+/**
+ * Vault lock status; also hosts the unlock prompt raised when a secret is read or saved
+ */
+export default function VaultButton() {
+	const config = useVaultConfig();
+	const isUnlocked = useVaultUnlocked();
+	const { fetchConfig, lock } = useVaultActions();
+	const [unlockOpen, setUnlockOpen] = useState(false);
+	const [settingsOpen, setSettingsOpen] = useState(false);
+
+	useEffect(() => {
+		void fetchConfig();
+	}, [fetchConfig]);
+
+	const icon = !config
+		? "solar:shield-warning-bold-duotone"
+		: isUnlocked
+			? "solar:lock-keyhole-unlocked-bold-duotone"
+			: "solar:lock-keyhole-bold-duotone";
+
+	return (
+		<>
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button variant="ghost" size="icon" className="rounded-full" title="Vault encryption">
+						<Icon icon={icon} size={24} className={config && isUnlocked ? "text-success" : undefined} />
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent align="end" className="w-56">
+					<DropdownMenuLabel>
+						{!config ? "Encryption disabled" : isUnlocked ? "Vault unlocked" : "Vault locked"}
+					</DropdownMenuLabel>
+					<DropdownMenuSeparator />
+					{config && !isUnlocked && <DropdownMenuItem onClick={() => setUnlockOpen(true)}>Unlock</DropdownMenuItem>}
+					{config && isUnlocked && <DropdownMenuItem onClick={lock}>Lock now</DropdownMenuItem>}
+					<DropdownMenuItem onClick={() => setSettingsOpen(true)}>
+						{config ? "Encryption settings" : "Enable encryption"}
+					</DropdownMenuItem>
+				</DropdownMenuContent>
+			</DropdownMenu>
+			<VaultUnlockDialog open={unlockOpen} onOpenChange={setUnlockOpen} />
+			<VaultSettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
+		</>
+	);
+}
@@ -7,6 +7,7 @@ import BreadCrumb from "../components/bread-crumb";
 import NoticeButton from "../components/notice";
 import SearchBar from "../components/search-bar";
 import SettingButton from "../components/setting-button";
+import VaultButton from "../components/vault-button";
 
 interface HeaderProps {
 	leftSlot?: ReactNode;
@@ -33,6 +34,7 @@ export default function Header({ leftSlot }: HeaderProps) {
 			<div className="flex items-center gap-1">
 				<SearchBar />
 				<LocalePicker />
+				<VaultButton />
 				<NoticeButton />
 				<SettingButton />
 				<AccountDropdown />
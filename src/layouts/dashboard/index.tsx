@@ -1,4 +1,5 @@
 import Logo from "@/components/logo";
+import { UploadTray } from "@/components/upload-tray";
 import { down, useMediaQuery } from "@/hooks";
 import { useSettings } from "@/store/settingStore";
 import { ThemeLayout } from "#/enum";
@@ -12,6 +13,7 @@ export default function DashboardLayout() {
 	return (
 		<div data-slot="slash-layout-root" className="w-full min-h-screen bg-background">
 			{isMobile ? <MobileLayout /> : <PcLayout />}
+			<UploadTray />
 		</div>
 	);
 }
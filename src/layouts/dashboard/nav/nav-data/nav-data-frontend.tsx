@@ -38,6 +38,12 @@ export const frontendNavData: NavProps["data"] = [
 				icon: <Icon icon="solar:shop-bold-duotone" size="24" />,
 				auth: ["OWNER", "EMPLOYEE"],
 			},
+			{
+				title: "sys.nav.expiring",
+				path: "/expiring",
+				icon: <Icon icon="solar:alarm-bold-duotone" size="24" />,
+				auth: ["OWNER", "EMPLOYEE"],
+			},
 		],
 	},
 ];
@@ -1,89 +1,89 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQueryClient } from "@tanstack/react-query";
 import { Table } from "antd";
 import type { ColumnsType } from "antd/es/table";
 import type { UploadChangeParam, UploadFile } from "antd/es/upload/interface";
-import { Search as SearchIcon, Trash2 } from "lucide-react";
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { useFieldArray, useForm } from "react-hook-form";
+import { Copy, Trash2 } from "lucide-react";
+import { type Key, useCallback, useEffect, useMemo, useState } from "react";
+import { type Resolver, useFieldArray, useForm } from "react-hook-form";
+import { useNavigate, useSearchParams } from "react-router";
 import { toast } from "sonner";
-import apiClient from "@/api/apiClient";
-import { Icon } from "@/components/icon";
+import { z } from "zod";
+import type {
+	Asset,
+	AssetField,
+	AssetFile,
+	AssetRelationEndpoint,
+	AssetTemplate,
+	RenewalPeriod,
+	SavedViewState,
+} from "#/entity";
+import {
+	type AssetPayload,
+	assetDetailQuery,
+	useAssetDetail,
+	useAssetList,
+	useCreateAsset,
+	useDeleteAsset,
+	useDeleteAssetFile,
+	useUpdateAsset,
+	useUpdateAssetFile,
+} from "@/api/services/assetService";
+import { useAssetTemplates } from "@/api/services/assetTemplateService";
+import { useTags } from "@/api/services/tagService";
+import { ACCESS_CONTEXTS, AssetAccessLog, useSecretAccessAudit } from "@/components/asset-access-log";
+import { type BulkAction, BulkActionBar, BulkActionDialog, type BulkTarget } from "@/components/asset-bulk";
+import { AssetHistory } from "@/components/asset-history";
+import { AssetImportDialog } from "@/components/asset-import";
+import { AssetRelations, DependentsWarning, RelationGraphDialog } from "@/components/asset-relations";
+import { RenewAssetDialog, type RenewableAsset } from "@/components/asset-renewal";
+import { AssetSearchInput, parseAssetSearch } from "@/components/asset-search";
+import { ShareAssetDialog, ShareLinksDialog } from "@/components/asset-share";
+import {
+	ASSET_FIELD_TYPES,
+	AssetTemplateManagerDialog,
+	applyTemplateFields,
+	assetFieldSchema,
+	findAssetTemplate,
+	findTemplateField,
+	refineTemplateFields,
+	resolveAssetTemplates,
+} from "@/components/asset-templates";
+import { TransferAssetDialog, TransferMenu, type TransferTarget } from "@/components/asset-transfer";
+import { useAuthCheck } from "@/components/auth/use-auth";
+import { DiscussionPanel } from "@/components/discussion";
+import { FileGallery, type FileMove } from "@/components/file-gallery";
+import { buildFileUrl, FilePreviewDialog, type FilePreviewTarget, getFileDisplayName } from "@/components/file-preview";
+import { MarkdownEditor, MarkdownView, markdownToPlainText } from "@/components/markdown";
+import { PasswordGenerator, PasswordStrengthMeter } from "@/components/password-generator";
+import { ColumnPicker, filterVisibleColumns, getColumnOptions, SavedViewTabs } from "@/components/saved-views";
+import { dedupeTags, getTagColorMap, TagBadge, TagInput, TagManagerDialog, useTagFilter } from "@/components/tags";
+import { TotpCode } from "@/components/totp";
 import { Upload } from "@/components/upload";
-import { getFileThumb } from "@/components/upload/utils";
-import { GLOBAL_CONFIG } from "@/global-config";
-import { Badge } from "@/ui/badge";
+import { getPendingUploads, withUploadProgress } from "@/components/upload-tray";
+import { VaultExportDialog, VaultRestoreDialog } from "@/components/vault-backup";
+import { usePageQuery } from "@/hooks";
+import { useUploadActions, useUploadTasks } from "@/store/uploadStore";
+import { openSecretFields, revealSecretValue, sealSecretFields } from "@/store/vaultStore";
 import { Button } from "@/ui/button";
 import { Card, CardContent, CardHeader } from "@/ui/card";
 import { DatePicker } from "@/ui/date-picker";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel } from "@/ui/form";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/ui/dropdown-menu";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/ui/form";
 import { Input } from "@/ui/input";
 import { Label } from "@/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
 import { Switch } from "@/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/ui/tabs";
+import { cn } from "@/utils";
 import { fBytes } from "@/utils/format-number";
-
-type AssetField = {
-	key: string;
-	type: string;
-	value: string;
-	isSecret: boolean;
-};
-
-type AssetApiItem = {
-	id: string;
-	name: string;
-	type: string;
-	tenantId: string;
-	clientId: string;
-	tags: string[];
-	fields: AssetField[];
-	files: AssetFile[];
-	createdAt: string;
-	updatedAt: string;
-	expirationDate?: string;
-	expirationNotificationsEnabled?: boolean;
-};
-
-type AssetFile = {
-	id: string;
-	filename: string;
-	originalName?: string;
-	relativePath?: string;
-	url?: string;
-	size?: number;
-	mimeType?: string;
-	uploadedBy?: string;
-	uploadedAt?: string;
-};
-
-type AssetApiResponse = {
-	statusCode: number;
-	message: string;
-	data: {
-		assets: AssetApiItem[];
-	};
-};
-
-type CreateAssetApiResponse = {
-	statusCode: number;
-	message: string;
-	data: {
-		asset: AssetApiItem;
-	};
-};
-
-type AssetDetailApiResponse = {
-	statusCode: number;
-	message: string;
-	data: {
-		asset: AssetApiItem;
-	};
-};
+import { isEncryptedValue } from "@/utils/vault";
 
 type AssetFormValues = {
 	name: string;
 	type: string;
-	tags: string;
+	tags: string[];
 	assetKind: "TEXT" | "FILE";
 	fields: AssetField[];
 	expirationDate?: Date;
@@ -98,6 +98,8 @@ type TextAssetRow = {
 	fields: AssetField[];
 	lastUpdated: string;
 	createdAt: string;
+	expirationDate?: string;
+	renewalPeriod?: RenewalPeriod;
 };
 
 type FileAssetRow = {
@@ -126,6 +128,8 @@ type ViewAssetDetail = {
 	files?: AssetFile[];
 };
 
+type ViewTab = "DETAILS" | "DISCUSSION" | "HISTORY" | "ACCESS";
+
 type DeleteTarget = {
 	id: string;
 	kind: "TEXT" | "FILE";
@@ -137,34 +141,42 @@ const EMPTY_FIELD: AssetField = { key: "", type: "TEXT", value: "", isSecret: fa
 const DEFAULT_FORM_VALUES: AssetFormValues = {
 	name: "",
 	type: "GENERAL",
-	tags: "",
+	tags: [],
 	assetKind: "TEXT",
 	fields: [EMPTY_FIELD],
 	expirationDate: undefined,
 	expirationNotificationsEnabled: false,
 };
 
-const EXAMPLE_FORM_VALUES: AssetFormValues = {
-	name: "Tabby Subscription",
-	type: "CREDENTIALS",
-	tags: "subscription, tabby",
-	assetKind: "TEXT",
-	fields: [
-		{ key: "username", type: "USERNAME", value: "tabby-user", isSecret: false },
-		{ key: "password", type: "PASSWORD", value: "SecretPass123!", isSecret: true },
-		{ key: "portal", type: "URL", value: "https://example.com", isSecret: false },
-	],
-	expirationDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
-	expirationNotificationsEnabled: true,
+/** Fields of a template, or a single blank row when it has none */
+const getTemplateFormFields = (template: AssetTemplate | undefined, fields: AssetField[] = []) => {
+	const result = applyTemplateFields(template, fields);
+	return result.length ? result : [{ ...EMPTY_FIELD }];
 };
 
-const parseTags = (value: string) =>
-	value
-		.split(",")
-		.map((tag) => tag.trim())
-		.filter(Boolean);
+const assetFormSchema = (template?: AssetTemplate) =>
+	z
+		.object({
+			name: z.string().trim().min(1, "Name is required"),
+			type: z.string().min(1, "Type is required"),
+			tags: z.array(z.string()),
+			assetKind: z.enum(["TEXT", "FILE"]),
+			fields: z.array(assetFieldSchema),
+			expirationDate: z.date().optional(),
+			expirationNotificationsEnabled: z.boolean(),
+		})
+		.superRefine((values, ctx) => {
+			if (values.assetKind === "TEXT") refineTemplateFields(values.fields, template, ctx);
+			if (values.expirationNotificationsEnabled && !values.expirationDate) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Pick an expiration date", path: ["expirationDate"] });
+			}
+		});
 
-const createId = () => Math.random().toString(36).slice(2, 10);
+type AssetFormContext = { templates: AssetTemplate[] };
+
+// The schema depends on the selected type, so it is rebuilt from the template on every validation
+const assetFormResolver: Resolver<AssetFormValues, AssetFormContext> = (values, context, options) =>
+	zodResolver(assetFormSchema(findAssetTemplate(context?.templates, values.type)))(values, context, options);
 
 const summarizeFiles = (files: UploadFile[]) => {
 	if (!files.length) {
@@ -183,21 +195,7 @@ const formatDate = (value?: string) => {
 	return date.toISOString().slice(0, 10);
 };
 
-const buildFileUrl = (file: AssetFile) => {
-	const baseUrl = GLOBAL_CONFIG.apiBaseUrl?.replace(/\/$/, "") || "";
-	if (file.url) {
-		if (file.url.startsWith("http://") || file.url.startsWith("https://")) return file.url;
-		const relativeUrl = file.url.startsWith("/") ? file.url : `/${file.url}`;
-		return `${baseUrl}${relativeUrl}`;
-	}
-	if (!file.relativePath) return "";
-	const path = file.relativePath.startsWith("/") ? file.relativePath : `/${file.relativePath}`;
-	return `${baseUrl}${path}`;
-};
-
-const getFileDisplayName = (file: AssetFile) => file.originalName ?? file.filename ?? "Untitled file";
-
-const mapApiAsset = (asset: AssetApiItem): TextAssetRow => ({
+const mapApiAsset = (asset: Asset): TextAssetRow => ({
 	id: asset.id,
 	name: asset.name,
 	type: asset.type,
@@ -205,9 +203,11 @@ const mapApiAsset = (asset: AssetApiItem): TextAssetRow => ({
 	fields: asset.fields ?? [],
 	createdAt: asset.createdAt,
 	lastUpdated: asset.updatedAt ?? asset.createdAt,
+	expirationDate: asset.expirationDate,
+	renewalPeriod: asset.renewalPeriod,
 });
 
-const mapFileAsset = (asset: AssetApiItem): FileAssetRow => {
+const mapFileAsset = (asset: Asset): FileAssetRow => {
 	const summaryFiles: UploadFile[] = (asset.files ?? []).map((file) => ({
 		uid: file.id,
 		name: file.originalName ?? file.filename,
@@ -228,87 +228,213 @@ const mapFileAsset = (asset: AssetApiItem): FileAssetRow => {
 	};
 };
 
+const mapViewAsset = (asset: Asset, kind: "TEXT" | "FILE"): ViewAssetDetail => {
+	if (kind === "TEXT") {
+		return {
+			kind,
+			id: asset.id,
+			name: asset.name,
+			type: asset.type,
+			tags: asset.tags ?? [],
+			createdAt: asset.createdAt,
+			updatedAt: asset.updatedAt,
+			fields: asset.fields ?? [],
+		};
+	}
+	const files = asset.files ?? [];
+	const summaryFiles: UploadFile[] = files.map((file) => ({
+		uid: file.id,
+		name: getFileDisplayName(file),
+		size: file.size,
+	}));
+	const { fileName, totalSize } = summarizeFiles(summaryFiles);
+	return {
+		kind,
+		id: asset.id,
+		name: asset.name,
+		type: asset.type,
+		tags: asset.tags ?? [],
+		fileName: fileName === "-" ? "No files uploaded" : fileName,
+		fileUrl: files[0] ? buildFileUrl(files[0]) || "-" : "-",
+		fileSize: totalSize === "-" ? "-" : totalSize,
+		updatedAt: asset.updatedAt,
+		files,
+	};
+};
+
+const buildPayload = (values: AssetFormValues): AssetPayload => {
+	const payload: AssetPayload = {
+		name: values.name,
+		type: values.type,
+		fields:
+			values.assetKind === "TEXT"
+				? values.fields
+						.filter((field) => field.key || field.value)
+						.map((field) => ({
+							key: field.key,
+							type: field.type,
+							value: field.value,
+							isSecret: field.isSecret,
+						}))
+				: [],
+		tags: dedupeTags(values.tags),
+	};
+
+	// Only include expiration fields when notifications are enabled
+	if (values.expirationNotificationsEnabled) {
+		payload.expirationNotificationsEnabled = true;
+		if (values.expirationDate) {
+			payload.expirationDate = values.expirationDate.toISOString();
+		}
+	}
+
+	return payload;
+};
+
 export default function AssetsPage() {
-	const [textAssets, setTextAssets] = useState<TextAssetRow[]>([]);
-	const [fileAssets, setFileAssets] = useState<FileAssetRow[]>([]);
+	const queryClient = useQueryClient();
+	const navigate = useNavigate();
+	const [searchParams, setSearchParams] = useSearchParams();
 	const [assetView, setAssetView] = useState<"TEXT" | "FILE">("TEXT");
-	const [searchQuery, setSearchQuery] = useState("");
+	// Column keys hidden through the column picker or a saved view
+	const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
 	const [isDialogOpen, setIsDialogOpen] = useState(false);
-	const [editMode, setEditMode] = useState<{ id: string; kind: "TEXT" | "FILE" } | null>(null);
+	const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+	const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+	const [isRestoreDialogOpen, setIsRestoreDialogOpen] = useState(false);
+	// `fields` are the stored (sealed) fields, so unchanged secrets keep their ciphertext on save
+	const [editMode, setEditMode] = useState<{ id: string; kind: "TEXT" | "FILE"; fields: AssetField[] } | null>(null);
 	const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
 	const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
 	const [viewMode, setViewMode] = useState<"DETAILS" | "GALLERY">("DETAILS");
-	const [viewAsset, setViewAsset] = useState<ViewAssetDetail | null>(null);
-	const [isViewLoading, setIsViewLoading] = useState(false);
+	const [viewTab, setViewTab] = useState<ViewTab>("DETAILS");
+	const [viewTarget, setViewTarget] = useState<{ id: string; kind: "TEXT" | "FILE" } | null>(null);
 	const [revealedFields, setRevealedFields] = useState<Record<string, boolean>>({});
-	const [gallerySearch, setGallerySearch] = useState("");
+	// Plaintext of encrypted values, filled on reveal or copy and cleared with the view dialog
+	const [decryptedValues, setDecryptedValues] = useState<Record<string, string>>({});
+	const [filePreview, setFilePreview] = useState<FilePreviewTarget | null>(null);
 	const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
 	const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
-	const [isLoading, setIsLoading] = useState(false);
-	const [isUploading, setIsUploading] = useState(false);
 	const [uploadTarget, setUploadTarget] = useState<FileAssetRow | null>(null);
 	const [uploadFiles, setUploadFiles] = useState<UploadFile[]>([]);
 	const [createUploadFiles, setCreateUploadFiles] = useState<UploadFile[]>([]);
-	const form = useForm<AssetFormValues>({
+	const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+	const [isTagDialogOpen, setIsTagDialogOpen] = useState(false);
+	const [shareTarget, setShareTarget] = useState<TextAssetRow | null>(null);
+	const [isShareLinksDialogOpen, setIsShareLinksDialogOpen] = useState(false);
+	const [transferTarget, setTransferTarget] = useState<TransferTarget | null>(null);
+	const [renewTarget, setRenewTarget] = useState<RenewableAsset | null>(null);
+	// Set while the relationship graph is open; `focusId` centers it on the asset it was opened from
+	const [graphTarget, setGraphTarget] = useState<{ focusId?: string } | null>(null);
+	// Kept across pages of the table; cleared when switching between text and file assets
+	const [selectedAssets, setSelectedAssets] = useState<BulkTarget[]>([]);
+	const [bulkAction, setBulkAction] = useState<{ action: BulkAction; notificationsEnabled?: boolean } | null>(null);
+	const [isBulkExportOpen, setIsBulkExportOpen] = useState(false);
+	const templatesQuery = useAssetTemplates();
+	const templates = resolveAssetTemplates(templatesQuery.data);
+	const canManageTemplates = useAuthCheck("role").checkAny(["SUPERADMIN", "OWNER"]);
+	const form = useForm<AssetFormValues, AssetFormContext>({
 		defaultValues: DEFAULT_FORM_VALUES,
+		resolver: assetFormResolver,
+		context: { templates },
 	});
 	const fieldsArray = useFieldArray({
 		control: form.control,
 		name: "fields",
 	});
 	const assetKind = form.watch("assetKind");
+	const assetType = form.watch("type");
+	const selectedTemplate = findAssetTemplate(templates, assetType);
+
+	const recordSecretAccess = useSecretAccessAudit(ACCESS_CONTEXTS.ASSETS);
+
+	const pageQuery = usePageQuery();
+	const { tagFilter, toggleTag, clearTags } = useTagFilter();
+	const { data: tagList } = useTags();
+	const tagColors = useMemo(() => getTagColorMap(tagList), [tagList]);
+	const parsedSearch = useMemo(() => parseAssetSearch(pageQuery.query.search ?? ""), [pageQuery.query.search]);
+	const searchSuggestions = useMemo(
+		() => ({
+			types: templates.map((template) => template.name),
+			tags: tagList?.map((tag) => tag.name),
+			fields: Array.from(new Set(templates.flatMap((template) => template.fields.map((field) => field.key)))),
+		}),
+		[templates, tagList],
+	);
+	const assetsQuery = useAssetList({
+		...pageQuery.query,
+		search: parsedSearch.text,
+		filter: parsedSearch.filter,
+		kind: assetView,
+		tags: tagFilter,
+	});
+	const viewAssetQuery = useAssetDetail(viewTarget?.id);
+	const createAssetMutation = useCreateAsset();
+	const updateAssetMutation = useUpdateAsset();
+	const deleteAssetMutation = useDeleteAsset();
+	const uploadTasks = useUploadTasks();
+	const uploadActions = useUploadActions();
+	const deleteFileMutation = useDeleteAssetFile();
+	const updateFileMutation = useUpdateAssetFile();
+	const isLoading = assetsQuery.isFetching;
+	const pendingUploads = getPendingUploads(uploadFiles, uploadTasks);
+	const isSaving = createAssetMutation.isPending || updateAssetMutation.isPending;
+	const isViewLoading = viewAssetQuery.isPending && !!viewTarget;
 
 	useEffect(() => {
-		const loadAssets = async () => {
-			setIsLoading(true);
-			try {
-				const response = await apiClient.get<AssetApiResponse>({ url: "/assets" });
-				const assets = response.data?.assets ?? [];
-				setTextAssets(assets.filter((asset) => (asset.files ?? []).length === 0).map(mapApiAsset));
-				setFileAssets(assets.filter((asset) => (asset.files ?? []).length > 0).map(mapFileAsset));
-			} catch (error) {
-				console.error(error);
-				toast.error("Failed to load assets", { position: "top-center" });
-			} finally {
-				setIsLoading(false);
-			}
-		};
-		loadAssets();
-	}, []);
+		if (assetsQuery.isError) {
+			console.error(assetsQuery.error);
+			toast.error("Failed to load assets", { position: "top-center" });
+		}
+	}, [assetsQuery.isError, assetsQuery.error]);
+
+	useEffect(() => {
+		if (viewAssetQuery.isError) {
+			console.error(viewAssetQuery.error);
+			toast.error("Failed to load asset details", { position: "top-center" });
+		}
+	}, [viewAssetQuery.isError, viewAssetQuery.error]);
+
+	const textAssets = useMemo(
+		() => (assetView === "TEXT" ? (assetsQuery.data?.items ?? []).map(mapApiAsset) : []),
+		[assetView, assetsQuery.data],
+	);
+	const fileAssets = useMemo(
+		() => (assetView === "FILE" ? (assetsQuery.data?.items ?? []).map(mapFileAsset) : []),
+		[assetView, assetsQuery.data],
+	);
+	const viewAsset = useMemo(
+		() => (viewTarget && viewAssetQuery.data ? mapViewAsset(viewAssetQuery.data, viewTarget.kind) : null),
+		[viewTarget, viewAssetQuery.data],
+	);
 
 	const handleEditAsset = useCallback(
 		async (assetId: string, assetKind: "TEXT" | "FILE") => {
 			try {
-				const response = await apiClient.get<AssetDetailApiResponse | { asset?: AssetApiItem }>({
-					url: `/assets/${assetId}`,
-				});
-				const apiAsset =
-					(response as { asset?: AssetApiItem }).asset ?? (response as AssetDetailApiResponse).data?.asset;
-				if (!apiAsset) {
-					throw new Error("Asset not found");
-				}
-				const tags = (apiAsset.tags ?? []).join(", ");
+				const apiAsset = await queryClient.fetchQuery(assetDetailQuery(assetId));
+				const fields = await openSecretFields(apiAsset.fields ?? []);
+				if (!fields) return;
 				form.reset({
 					name: apiAsset.name,
 					type: apiAsset.type,
-					tags,
+					tags: apiAsset.tags ?? [],
 					assetKind,
-					fields: apiAsset.fields?.length ? apiAsset.fields : [EMPTY_FIELD],
+					fields: getTemplateFormFields(findAssetTemplate(templates, apiAsset.type), fields),
 					expirationDate: apiAsset.expirationDate ? new Date(apiAsset.expirationDate) : undefined,
 					expirationNotificationsEnabled: apiAsset.expirationNotificationsEnabled ?? false,
 				});
-				setEditMode({ id: assetId, kind: assetKind });
+				setEditMode({ id: assetId, kind: assetKind, fields: apiAsset.fields ?? [] });
 				setIsDialogOpen(true);
 			} catch (error) {
 				console.error(error);
 				toast.error("Failed to load asset for editing", { position: "top-center" });
 			}
 		},
-		[form],
+		[form, queryClient, templates],
 	);
 
 	const handleViewAsset = useCallback(
-		async (
+		(
 			assetId: string,
 			assetKind: "TEXT" | "FILE",
 			_viewMode: "DETAILS" | "GALLERY" = "DETAILS",
@@ -316,75 +442,61 @@ export default function AssetsPage() {
 		) => {
 			setIsViewDialogOpen(true);
 			setViewMode(_viewMode);
-			setViewAsset(null);
-			setIsViewLoading(true);
+			setViewTab("DETAILS");
+			setViewTarget({ id: assetId, kind: assetKind });
 			setRevealedFields({});
+			setDecryptedValues({});
+		},
+		[],
+	);
+
+	/**
+	 * Open a related asset: tenant assets in this dialog, showroom assets on their showroom's page
+	 */
+	const handleOpenRelated = useCallback(
+		async (endpoint: AssetRelationEndpoint) => {
+			if (endpoint.showroomId) {
+				navigate(`/showrooms/${endpoint.showroomId}/assets?asset=${endpoint.assetId}`);
+				return;
+			}
 			try {
-				const response = await apiClient.get<AssetDetailApiResponse | { asset?: AssetApiItem }>({
-					url: `/assets/${assetId}`,
-				});
-				const apiAsset =
-					(response as { asset?: AssetApiItem }).asset ?? (response as AssetDetailApiResponse).data?.asset;
-				if (!apiAsset) {
-					throw new Error("Asset not found");
-				}
-				if (assetKind === "FILE") {
-					const files = apiAsset.files ?? [];
-					const summaryFiles: UploadFile[] = files.map((file) => ({
-						uid: file.id,
-						name: getFileDisplayName(file),
-						size: file.size,
-					}));
-					const { fileName, totalSize } = summarizeFiles(summaryFiles);
-					setViewAsset({
-						kind: "FILE",
-						id: apiAsset.id,
-						name: apiAsset.name,
-						type: apiAsset.type,
-						tags: apiAsset.tags ?? [],
-						fileName: fileName === "-" ? "No files uploaded" : fileName,
-						fileUrl: files[0] ? buildFileUrl(files[0]) || "-" : "-",
-						fileSize: totalSize === "-" ? "-" : totalSize,
-						updatedAt: apiAsset.updatedAt,
-						files,
-					});
-				} else {
-					setViewAsset({
-						kind: "TEXT",
-						id: apiAsset.id,
-						name: apiAsset.name,
-						type: apiAsset.type,
-						tags: apiAsset.tags ?? [],
-						createdAt: apiAsset.createdAt,
-						updatedAt: apiAsset.updatedAt,
-						fields: apiAsset.fields ?? [],
-					});
-				}
+				const asset = await queryClient.fetchQuery(assetDetailQuery(endpoint.assetId));
+				handleViewAsset(asset.id, asset.files?.length ? "FILE" : "TEXT");
 			} catch (error) {
 				console.error(error);
-				setViewAsset(null);
 				toast.error("Failed to load asset details", { position: "top-center" });
-			} finally {
-				setIsViewLoading(false);
 			}
 		},
-		[],
+		[navigate, queryClient, handleViewAsset],
 	);
 
-	const handleDeleteAsset = useCallback(async (assetId: string, assetKind: "TEXT" | "FILE") => {
-		try {
-			await apiClient.delete({ url: `/assets/${assetId}` });
-			if (assetKind === "TEXT") {
-				setTextAssets((prev) => prev.filter((asset) => asset.id !== assetId));
-			} else {
-				setFileAssets((prev) => prev.filter((asset) => asset.id !== assetId));
+	// Links from related showroom assets arrive as ?asset=<id>
+	const linkedAssetId = searchParams.get("asset");
+	useEffect(() => {
+		if (!linkedAssetId) return;
+		setSearchParams(
+			(prev) => {
+				const next = new URLSearchParams(prev);
+				next.delete("asset");
+				return next;
+			},
+			{ replace: true },
+		);
+		void handleOpenRelated({ assetId: linkedAssetId });
+	}, [linkedAssetId, setSearchParams, handleOpenRelated]);
+
+	const handleDeleteAsset = useCallback(
+		async (assetId: string) => {
+			try {
+				await deleteAssetMutation.mutateAsync(assetId);
+				toast.success("Asset deleted", { position: "top-center" });
+			} catch (error) {
+				console.error(error);
+				toast.error("Failed to delete asset", { position: "top-center" });
 			}
-			toast.success("Asset deleted", { position: "top-center" });
-		} catch (error) {
-			console.error(error);
-			toast.error("Failed to delete asset", { position: "top-center" });
-		}
-	}, []);
+		},
+		[deleteAssetMutation.mutateAsync],
+	);
 
 	const handleRequestDelete = useCallback((asset: DeleteTarget) => {
 		setDeleteTarget(asset);
@@ -396,9 +508,38 @@ export default function AssetsPage() {
 		setIsUploadDialogOpen(true);
 	}, []);
 
+	const handleToggleTag = useCallback(
+		(tag: string) => {
+			toggleTag(tag);
+			pageQuery.setPage(1);
+		},
+		[toggleTag, pageQuery.setPage],
+	);
+
+	const rowSelection = useMemo(
+		() => ({
+			selectedRowKeys: selectedAssets.map((asset) => asset.id),
+			preserveSelectedRowKeys: true,
+			onChange: (keys: Key[], rows: (TextAssetRow | FileAssetRow | undefined)[]) =>
+				setSelectedAssets((prev) => {
+					const known = new Map(prev.map((asset) => [asset.id, asset]));
+					for (const row of rows) {
+						if (row) known.set(row.id, { id: row.id, name: row.name });
+					}
+					return keys.flatMap((key) => known.get(String(key)) ?? []);
+				}),
+		}),
+		[selectedAssets],
+	);
+
+	const handleBulkFinished = useCallback(
+		(failedIds: string[]) => setSelectedAssets((prev) => prev.filter((asset) => failedIds.includes(asset.id))),
+		[],
+	);
+
 	const handleConfirmDelete = useCallback(async () => {
 		if (!deleteTarget) return;
-		await handleDeleteAsset(deleteTarget.id, deleteTarget.kind);
+		await handleDeleteAsset(deleteTarget.id);
 		setIsDeleteDialogOpen(false);
 		setDeleteTarget(null);
 	}, [deleteTarget, handleDeleteAsset]);
@@ -410,7 +551,8 @@ export default function AssetsPage() {
 				dataIndex: "name",
 				key: "name",
 				width: 240,
-				sorter: (a, b) => a.name.localeCompare(b.name),
+				sorter: true,
+				sortOrder: pageQuery.getSortOrder("name"),
 				render: (_: string, record: TextAssetRow) => (
 					<div className="space-y-1">
 						<div className="text-sm font-semibold text-foreground">{record.name}</div>
@@ -423,7 +565,8 @@ export default function AssetsPage() {
 				dataIndex: "type",
 				key: "type",
 				width: 160,
-				sorter: (a, b) => a.type.localeCompare(b.type),
+				sorter: true,
+				sortOrder: pageQuery.getSortOrder("type"),
 			},
 			{
 				title: "Tags",
@@ -434,9 +577,13 @@ export default function AssetsPage() {
 					<div className="flex flex-wrap gap-2">
 						{tags.length ? (
 							tags.map((tag) => (
-								<Badge key={tag} variant="secondary">
-									{tag}
-								</Badge>
+								<TagBadge
+									key={tag}
+									tag={tag}
+									color={tagColors[tag]}
+									active={tagFilter.includes(tag)}
+									onClick={() => handleToggleTag(tag)}
+								/>
 							))
 						) : (
 							<span className="text-xs text-muted-foreground">No tags</span>
@@ -459,7 +606,11 @@ export default function AssetsPage() {
 							{fields.map((field, index) => (
 								<div key={`${field.key}-${field.type}-${index}`} className="flex items-center justify-between gap-3">
 									<span className="truncate text-foreground">{field.key || "Untitled"}</span>
-									<span className="truncate">{field.isSecret ? "••••••" : field.value || "-"}</span>
+									<span className="truncate">
+										{field.isSecret
+											? "••••••"
+											: (field.type === "NOTE" ? markdownToPlainText(field.value ?? "") : field.value) || "-"}
+									</span>
 								</div>
 							))}
 						</div>
@@ -469,15 +620,16 @@ export default function AssetsPage() {
 			{
 				title: "Updated",
 				dataIndex: "lastUpdated",
-				key: "lastUpdated",
+				key: "updatedAt",
 				width: 140,
-				sorter: (a, b) => new Date(a.lastUpdated).getTime() - new Date(b.lastUpdated).getTime(),
+				sorter: true,
+				sortOrder: pageQuery.getSortOrder("updatedAt"),
 				render: (value: string) => <span className="text-xs text-muted-foreground">{formatDate(value)}</span>,
 			},
 			{
 				title: "Actions",
 				key: "actions",
-				width: 220,
+				width: 420,
 				render: (_: string, record: TextAssetRow) => (
 					<div className="flex flex-wrap gap-2">
 						<Button type="button" variant="outline" size="sm" onClick={() => handleEditAsset(record.id, "TEXT")}>
@@ -491,6 +643,15 @@ export default function AssetsPage() {
 						>
 							View
 						</Button>
+						<Button type="button" variant="outline" size="sm" onClick={() => setShareTarget(record)}>
+							Share
+						</Button>
+						{record.expirationDate && (
+							<Button type="button" variant="outline" size="sm" onClick={() => setRenewTarget(record)}>
+								Renew
+							</Button>
+						)}
+						<TransferMenu modes={["COPY", "MOVE"]} onSelect={(mode) => setTransferTarget({ mode, asset: record })} />
 						<Button
 							type="button"
 							variant="destructive"
@@ -503,7 +664,15 @@ export default function AssetsPage() {
 				),
 			},
 		],
-		[handleEditAsset, handleRequestDelete, handleViewAsset],
+		[
+			handleEditAsset,
+			handleRequestDelete,
+			handleToggleTag,
+			handleViewAsset,
+			pageQuery.getSortOrder,
+			tagColors,
+			tagFilter,
+		],
 	);
 
 	const fileColumns = useMemo<ColumnsType<FileAssetRow>>(
@@ -513,14 +682,16 @@ export default function AssetsPage() {
 				dataIndex: "name",
 				key: "name",
 				width: 220,
-				sorter: (a, b) => a.name.localeCompare(b.name),
+				sorter: true,
+				sortOrder: pageQuery.getSortOrder("name"),
 			},
 			{
 				title: "Type",
 				dataIndex: "type",
 				key: "type",
 				width: 120,
-				sorter: (a, b) => a.type.localeCompare(b.type),
+				sorter: true,
+				sortOrder: pageQuery.getSortOrder("type"),
 			},
 			{
 				title: "Tags",
@@ -531,9 +702,13 @@ export default function AssetsPage() {
 					<div className="flex flex-wrap gap-2">
 						{tags.length ? (
 							tags.map((tag) => (
-								<Badge key={tag} variant="secondary">
-									{tag}
-								</Badge>
+								<TagBadge
+									key={tag}
+									tag={tag}
+									color={tagColors[tag]}
+									active={tagFilter.includes(tag)}
+									onClick={() => handleToggleTag(tag)}
+								/>
 							))
 						) : (
 							<span className="text-xs text-muted-foreground">No tags</span>
@@ -545,9 +720,10 @@ export default function AssetsPage() {
 			{
 				title: "Updated",
 				dataIndex: "lastUpdated",
-				key: "lastUpdated",
+				key: "updatedAt",
 				width: 140,
-				sorter: (a, b) => new Date(a.lastUpdated).getTime() - new Date(b.lastUpdated).getTime(),
+				sorter: true,
+				sortOrder: pageQuery.getSortOrder("updatedAt"),
 				render: (value: string) => <span className="text-xs text-muted-foreground">{formatDate(value)}</span>,
 			},
 			{
@@ -578,6 +754,7 @@ export default function AssetsPage() {
 						<Button type="button" variant="outline" size="sm" onClick={() => handleRequestUpload(record)}>
 							Upload files
 						</Button>
+						<TransferMenu modes={["COPY", "MOVE"]} onSelect={(mode) => setTransferTarget({ mode, asset: record })} />
 						<Button
 							type="button"
 							variant="destructive"
@@ -590,7 +767,16 @@ export default function AssetsPage() {
 				),
 			},
 		],
-		[handleEditAsset, handleRequestDelete, handleRequestUpload, handleViewAsset],
+		[
+			handleEditAsset,
+			handleRequestDelete,
+			handleRequestUpload,
+			handleToggleTag,
+			handleViewAsset,
+			pageQuery.getSortOrder,
+			tagColors,
+			tagFilter,
+		],
 	);
 
 	const handleAddField = () => {
@@ -603,56 +789,102 @@ export default function AssetsPage() {
 		}
 	};
 
-	const handleLoadExample = () => {
-		form.reset(EXAMPLE_FORM_VALUES);
+	const handleCreateAsset = () => {
+		const [template] = templates;
+		form.reset({ ...DEFAULT_FORM_VALUES, type: template?.name ?? "", fields: getTemplateFormFields(template) });
+		setEditMode(null);
+		setIsDialogOpen(true);
+	};
+
+	const handleTypeChange = (type: string) => {
+		form.setValue("type", type);
+		fieldsArray.replace(getTemplateFormFields(findAssetTemplate(templates, type), form.getValues("fields")));
+	};
+
+	/**
+	 * Decrypt a field value once per view; resolves null when the vault stays locked
+	 */
+	const decryptFieldValue = async (fieldId: string, value: string) => {
+		if (!isEncryptedValue(value)) return value;
+		if (decryptedValues[fieldId] !== undefined) return decryptedValues[fieldId];
+		try {
+			const plaintext = await revealSecretValue(value);
+			if (plaintext !== null) setDecryptedValues((prev) => ({ ...prev, [fieldId]: plaintext }));
+			return plaintext;
+		} catch (error) {
+			console.error(error);
+			toast.error(error instanceof Error ? error.message : "Failed to decrypt value", { position: "top-center" });
+			return null;
+		}
 	};
 
-	const handleToggleReveal = (fieldId: string) => {
+	const handleToggleReveal = async (assetId: string, fieldId: string, field: AssetField) => {
+		if (!revealedFields[fieldId]) {
+			if ((await decryptFieldValue(fieldId, field.value ?? "")) === null) return;
+			recordSecretAccess(assetId, field, "REVEAL");
+		}
 		setRevealedFields((prev) => ({ ...prev, [fieldId]: !prev[fieldId] }));
 	};
 
-	const handleCopyField = async (value: string, label: string) => {
+	/**
+	 * Decrypt a TOTP secret to show its live code; this reveals the secret, so it is audited like one
+	 */
+	const handleShowCode = async (assetId: string, fieldId: string, field: AssetField) => {
+		if ((await decryptFieldValue(fieldId, field.value ?? "")) === null) return;
+		recordSecretAccess(assetId, field, "REVEAL");
+	};
+
+	const handleCopyField = async (
+		value: string,
+		label: string,
+		fieldId?: string,
+		audit?: { assetId: string; field: AssetField },
+	) => {
 		if (!navigator?.clipboard) {
 			toast.error("Clipboard access is unavailable.");
 			return;
 		}
 
-		await navigator.clipboard.writeText(value);
+		const plaintext = fieldId ? await decryptFieldValue(fieldId, value) : value;
+		if (plaintext === null) return;
+		await navigator.clipboard.writeText(plaintext);
+		if (audit) recordSecretAccess(audit.assetId, audit.field, "COPY");
 		toast.success(`${label} copied to clipboard.`);
 	};
 
-	const handleDeleteFile = async (assetId: string, fileId: string) => {
-		try {
-			await apiClient.delete({ url: `/assets/${assetId}/files/${fileId}` });
-			toast.success("File deleted", { position: "top-center" });
-			// Refresh view asset
-			const response = await apiClient.get<Record<string, unknown>>({ url: `/assets/${assetId}` });
-			const resp = response as { asset?: AssetApiItem; data?: { asset?: AssetApiItem } };
-			const updated = resp.asset ?? resp.data?.asset;
-			if (updated) {
-				const files = updated.files ?? [];
-				const summaryFiles: UploadFile[] = files.map((file) => ({
-					uid: file.id,
-					name: getFileDisplayName(file),
-					size: file.size,
-				}));
-				const { fileName, totalSize } = summarizeFiles(summaryFiles);
-				setViewAsset({
-					kind: files.length > 0 ? "FILE" : "TEXT",
-					id: updated.id,
-					name: updated.name,
-					type: updated.type,
-					tags: updated.tags ?? [],
-					fileUrl: files[0] ? buildFileUrl(files[0]) || "-" : "-",
-					fileName,
-					fileSize: totalSize,
-					updatedAt: updated.updatedAt,
-					files,
-				});
+	const handleDeleteFiles = async (assetId: string, fileIds: string[]) => {
+		let failed = 0;
+		for (const fileId of fileIds) {
+			try {
+				await deleteFileMutation.mutateAsync({ id: assetId, fileId });
+			} catch (error) {
+				console.error(error);
+				failed++;
+			}
+		}
+		if (failed) {
+			toast.error(`Failed to delete ${failed === 1 ? "file" : `${failed} files`}`, { position: "top-center" });
+		} else {
+			toast.success(fileIds.length === 1 ? "File deleted" : `${fileIds.length} files deleted`, {
+				position: "top-center",
+			});
+		}
+	};
+
+	const handleMoveFiles = async (assetId: string, moves: FileMove<AssetFile>[]) => {
+		let failed = 0;
+		for (const { file, data } of moves) {
+			try {
+				await updateFileMutation.mutateAsync({ id: assetId, fileId: file.id, data });
+			} catch (error) {
+				console.error(error);
+				failed++;
 			}
-		} catch (error) {
-			console.error(error);
-			toast.error("Failed to delete file", { position: "top-center" });
+		}
+		if (failed) {
+			toast.error(`Failed to move ${failed === 1 ? "file" : `${failed} files`}`, { position: "top-center" });
+		} else {
+			toast.success(moves.length === 1 ? "File updated" : `${moves.length} files moved`, { position: "top-center" });
 		}
 	};
 
@@ -666,154 +898,30 @@ export default function AssetsPage() {
 	};
 
 	const handleSubmit = async (values: AssetFormValues) => {
-		const tags = parseTags(values.tags);
-		const payload: Record<string, unknown> = {
-			name: values.name,
-			type: values.type,
-			fields:
-				values.assetKind === "TEXT"
-					? values.fields
-							.filter((field) => field.key || field.value)
-							.map((field) => ({
-								key: field.key,
-								type: field.type,
-								value: field.value,
-								isSecret: field.isSecret,
-							}))
-					: [],
-			tags,
-		};
+		const payload = buildPayload(values);
+		const files = getPendingUploads(createUploadFiles, uploadTasks);
 
-		// Only include expiration fields when notifications are enabled
-		if (values.expirationNotificationsEnabled) {
-			payload.expirationNotificationsEnabled = true;
-			if (values.expirationDate) {
-				payload.expirationDate = values.expirationDate.toISOString();
-			}
-		}
-
-		let resultAsset: AssetApiItem | undefined;
 		try {
+			const fields = await sealSecretFields(payload.fields, editMode?.fields);
+			if (!fields) {
+				toast.error("Unlock the vault to save secret fields", { position: "top-center" });
+				return;
+			}
+			payload.fields = fields;
 			if (editMode) {
-				// Update existing asset
-				const response = await apiClient.patch<CreateAssetApiResponse | { asset?: AssetApiItem }>({
-					url: `/assets/${editMode.id}`,
-					data: payload,
-				});
-				if (response && typeof response === "object" && "data" in response) {
-					resultAsset = response.data?.asset;
-				} else if (response && typeof response === "object" && "asset" in response) {
-					resultAsset = response.asset;
-				}
-
-				// Upload additional files if any were selected during edit
-				if (createUploadFiles.length > 0) {
-					const formData = new FormData();
-					createUploadFiles.forEach((file) => {
-						if (file.originFileObj) {
-							formData.append("files", file.originFileObj);
-						}
-					});
-					try {
-						await apiClient.post({
-							url: `/assets/${editMode.id}/files`,
-							data: formData,
-							headers: { "Content-Type": undefined },
-						});
-					} catch (uploadError) {
-						console.error(uploadError);
-						toast.error("Asset updated but file upload failed", { position: "top-center" });
-					}
-				}
+				await updateAssetMutation.mutateAsync({ id: editMode.id, data: payload });
 
-				// Update the local state
-				if (editMode.kind === "TEXT") {
-					setTextAssets((prev: TextAssetRow[]) =>
-						prev.map((asset: TextAssetRow) =>
-							asset.id === editMode.id
-								? {
-										...asset,
-										name: values.name,
-										type: values.type,
-										tags,
-										fields: values.fields.filter((field) => field.key || field.value),
-										lastUpdated: new Date().toISOString().slice(0, 10),
-									}
-								: asset,
-						),
-					);
-				} else {
-					setFileAssets((prev: FileAssetRow[]) =>
-						prev.map((asset: FileAssetRow) =>
-							asset.id === editMode.id
-								? {
-										...asset,
-										name: values.name,
-										type: values.type,
-										tags,
-										lastUpdated: new Date().toISOString().slice(0, 10),
-									}
-								: asset,
-						),
-					);
+				// Additional files selected during edit continue in the upload tray
+				if (files.length > 0) {
+					uploadActions.enqueue({ assetId: editMode.id, assetName: payload.name }, files);
 				}
 				toast.success("Asset updated", { position: "top-center" });
 			} else {
-				// Create new asset
-				const response = await apiClient.post<CreateAssetApiResponse | { asset?: AssetApiItem }>({
-					url: "/assets",
-					data: payload,
-				});
-				if (response && typeof response === "object" && "data" in response) {
-					resultAsset = response.data?.asset;
-				} else if (response && typeof response === "object" && "asset" in response) {
-					resultAsset = response.asset;
-				}
+				const resultAsset = await createAssetMutation.mutateAsync(payload);
 
-				if (values.assetKind === "FILE") {
-					// Upload files if any were selected during creation
-					const assetId = resultAsset?.id;
-					if (assetId && createUploadFiles.length > 0) {
-						const formData = new FormData();
-						createUploadFiles.forEach((file) => {
-							if (file.originFileObj) {
-								formData.append("files", file.originFileObj);
-							}
-						});
-						try {
-							await apiClient.post({
-								url: `/assets/${assetId}/files`,
-								data: formData,
-								headers: { "Content-Type": undefined },
-							});
-						} catch (uploadError) {
-							console.error(uploadError);
-							toast.error("Asset created but file upload failed", { position: "top-center" });
-						}
-					}
-					const { fileName, totalSize } = summarizeFiles(createUploadFiles);
-					const newFileAsset: FileAssetRow = {
-						id: assetId ?? createId(),
-						name: values.name || "Untitled File Asset",
-						type: values.type || "FILES",
-						tags,
-						fileName: createUploadFiles.length > 0 ? fileName : "No files uploaded",
-						fileUrl: "-",
-						fileSize: createUploadFiles.length > 0 ? totalSize : "-",
-						lastUpdated: new Date().toISOString().slice(0, 10),
-					};
-					setFileAssets((prev) => [newFileAsset, ...prev]);
-				} else {
-					const newTextAsset: TextAssetRow = {
-						id: resultAsset?.id ?? createId(),
-						name: values.name || "Untitled Text Asset",
-						type: values.type || "TEXT",
-						tags,
-						fields: values.fields.filter((field) => field.key || field.value),
-						createdAt: new Date().toISOString(),
-						lastUpdated: new Date().toISOString().slice(0, 10),
-					};
-					setTextAssets((prev) => [newTextAsset, ...prev]);
+				// Files selected during creation continue in the upload tray
+				if (values.assetKind === "FILE" && resultAsset?.id && files.length > 0) {
+					uploadActions.enqueue({ assetId: resultAsset.id, assetName: payload.name }, files);
 				}
 				toast.success("Asset created", { position: "top-center" });
 			}
@@ -829,81 +937,41 @@ export default function AssetsPage() {
 		setIsDialogOpen(false);
 	};
 
-	const handleConfirmUpload = async () => {
+	// The dialog stays open to show per-file progress; closing it leaves the uploads running in the tray
+	const handleConfirmUpload = () => {
 		if (!uploadTarget) return;
-		if (uploadFiles.length === 0) {
+		if (pendingUploads.length === 0) {
 			toast.error("Please attach at least one file", { position: "top-center" });
 			return;
 		}
-		setIsUploading(true);
-		const formData = new FormData();
-		uploadFiles.forEach((file) => {
-			if (file.originFileObj) {
-				formData.append("files", file.originFileObj);
-			}
-		});
-		try {
-			await apiClient.post({
-				url: `/assets/${uploadTarget.id}/files`,
-				data: formData,
-				headers: { "Content-Type": undefined },
-			});
-		} catch (error) {
-			console.error(error);
-			toast.error("Failed to upload asset files", { position: "top-center" });
-			setIsUploading(false);
-			return;
-		}
-		const { fileName, totalSize } = summarizeFiles(uploadFiles);
-		setFileAssets((prev) =>
-			prev.map((asset) =>
-				asset.id === uploadTarget.id
-					? {
-							...asset,
-							fileName,
-							fileUrl: "Uploaded",
-							fileSize: totalSize,
-							lastUpdated: new Date().toISOString().slice(0, 10),
-						}
-					: asset,
-			),
-		);
-		toast.success("Files uploaded", { position: "top-center" });
-		setIsUploading(false);
-		setIsUploadDialogOpen(false);
-		setUploadFiles([]);
-		setUploadTarget(null);
+		uploadActions.enqueue({ assetId: uploadTarget.id, assetName: uploadTarget.name }, pendingUploads);
 	};
 
-	const normalizedSearch = searchQuery.trim().toLowerCase();
-	const filteredTextAssets = useMemo(() => {
-		if (!normalizedSearch) return textAssets;
-		return textAssets.filter((asset) => {
-			const haystack = [
-				asset.name,
-				asset.type,
-				asset.id,
-				asset.tags.join(" "),
-				asset.fields.map((field) => `${field.key} ${field.value}`).join(" "),
-			]
-				.join(" ")
-				.toLowerCase();
-			return haystack.includes(normalizedSearch);
-		});
-	}, [normalizedSearch, textAssets]);
-
-	const filteredFileAssets = useMemo(() => {
-		if (!normalizedSearch) return fileAssets;
-		return fileAssets.filter((asset) => {
-			const haystack = [asset.name, asset.type, asset.id, asset.tags.join(" "), asset.fileName, asset.fileUrl]
-				.join(" ")
-				.toLowerCase();
-			return haystack.includes(normalizedSearch);
-		});
-	}, [normalizedSearch, fileAssets]);
+	const viewState = useMemo<SavedViewState>(
+		() => ({
+			search: pageQuery.searchInput,
+			tags: tagFilter,
+			sortBy: pageQuery.query.sortBy,
+			sortOrder: pageQuery.query.sortOrder,
+			hiddenColumns,
+			tab: assetView,
+		}),
+		[pageQuery.searchInput, pageQuery.query.sortBy, pageQuery.query.sortOrder, tagFilter, hiddenColumns, assetView],
+	);
 
-	const totalAssets = assetView === "TEXT" ? textAssets.length : fileAssets.length;
-	const visibleAssets = assetView === "TEXT" ? filteredTextAssets.length : filteredFileAssets.length;
+	const handleApplyView = useCallback(
+		(state: SavedViewState) => {
+			pageQuery.setSearchInput(state.search ?? "");
+			pageQuery.setQuery((prev) => ({ ...prev, page: 1, sortBy: state.sortBy, sortOrder: state.sortOrder }));
+			setHiddenColumns(state.hiddenColumns ?? []);
+			setAssetView(state.tab === "FILE" ? "FILE" : "TEXT");
+			setSelectedAssets([]);
+		},
+		[pageQuery.setSearchInput, pageQuery.setQuery],
+	);
+
+	const totalAssets = assetsQuery.data?.total ?? 0;
+	const visibleAssets = assetView === "TEXT" ? textAssets.length : fileAssets.length;
 	const assetFiles = viewAsset?.kind === "FILE" ? (viewAsset.files ?? []) : [];
 	const isGalleryView = viewMode === "GALLERY" && viewAsset?.kind === "FILE";
 
@@ -913,12 +981,49 @@ export default function AssetsPage() {
 				<CardHeader>
 					<div className="flex flex-wrap items-center justify-between gap-3">
 						<div className="text-lg font-semibold">Assets</div>
-						<Button type="button" onClick={() => setIsDialogOpen(true)}>
-							Add New Asset
-						</Button>
+						<div className="flex items-center gap-2">
+							<DropdownMenu>
+								<DropdownMenuTrigger asChild>
+									<Button type="button" variant="outline">
+										Import
+									</Button>
+								</DropdownMenuTrigger>
+								<DropdownMenuContent align="end">
+									<DropdownMenuItem onClick={() => setIsImportDialogOpen(true)}>
+										From CSV or password manager
+									</DropdownMenuItem>
+									<DropdownMenuItem onClick={() => setIsRestoreDialogOpen(true)}>Restore backup</DropdownMenuItem>
+								</DropdownMenuContent>
+							</DropdownMenu>
+							<Button type="button" variant="outline" onClick={() => setIsExportDialogOpen(true)}>
+								Export
+							</Button>
+							<Button type="button" variant="outline" onClick={() => setGraphTarget({})}>
+								Relationships
+							</Button>
+							{canManageTemplates && (
+								<Button type="button" variant="outline" onClick={() => setIsShareLinksDialogOpen(true)}>
+									Share links
+								</Button>
+							)}
+							{canManageTemplates && (
+								<Button type="button" variant="outline" onClick={() => setIsTagDialogOpen(true)}>
+									Tags
+								</Button>
+							)}
+							{canManageTemplates && (
+								<Button type="button" variant="outline" onClick={() => setIsTemplateDialogOpen(true)}>
+									Templates
+								</Button>
+							)}
+							<Button type="button" onClick={handleCreateAsset}>
+								Add New Asset
+							</Button>
+						</div>
 					</div>
 				</CardHeader>
 				<CardContent>
+					<SavedViewTabs page="ASSETS" state={viewState} onApply={handleApplyView} className="mb-4" />
 					<div className="flex flex-wrap items-center justify-between gap-4">
 						<div className="flex flex-wrap items-center gap-3">
 							<span className="text-sm font-medium text-muted-foreground">Show assets</span>
@@ -928,7 +1033,11 @@ export default function AssetsPage() {
 								</span>
 								<Switch
 									checked={assetView === "FILE"}
-									onCheckedChange={(checked) => setAssetView(checked ? "FILE" : "TEXT")}
+									onCheckedChange={(checked) => {
+										setAssetView(checked ? "FILE" : "TEXT");
+										setSelectedAssets([]);
+										pageQuery.setPage(1);
+									}}
 								/>
 								<span className={assetView === "FILE" ? "text-sm font-semibold" : "text-sm text-muted-foreground"}>
 									File
@@ -938,25 +1047,53 @@ export default function AssetsPage() {
 								Showing {visibleAssets} of {totalAssets}
 							</div>
 						</div>
-						<div className="w-full sm:w-[280px]">
-							<Input
-								placeholder="Search assets..."
-								value={searchQuery}
-								onChange={(event) => setSearchQuery(event.target.value)}
+						<div className="flex w-full items-start gap-2 sm:w-auto">
+							<AssetSearchInput
+								value={pageQuery.searchInput}
+								onChange={pageQuery.setSearchInput}
+								suggestions={searchSuggestions}
+								className="min-w-0 flex-1 sm:w-[360px]"
+							/>
+							<ColumnPicker
+								columns={getColumnOptions(assetView === "TEXT" ? textColumns : fileColumns)}
+								hiddenColumns={hiddenColumns}
+								onChange={setHiddenColumns}
 							/>
 						</div>
 					</div>
+					{tagFilter.length > 0 && (
+						<div className="mt-3 flex flex-wrap items-center gap-2">
+							<span className="text-xs text-muted-foreground">Tagged</span>
+							{tagFilter.map((tag) => (
+								<TagBadge key={tag} tag={tag} color={tagColors[tag]} onRemove={() => handleToggleTag(tag)} />
+							))}
+							<Button
+								type="button"
+								variant="ghost"
+								size="sm"
+								className="h-6 px-2 text-xs"
+								onClick={() => {
+									clearTags();
+									pageQuery.setPage(1);
+								}}
+							>
+								Clear
+							</Button>
+						</div>
+					)}
 					<div className="mt-4 rounded-lg border bg-background/40 p-2 shadow-sm">
 						{assetView === "TEXT" ? (
 							<Table<TextAssetRow>
 								rowKey="id"
 								size="middle"
 								scroll={{ x: "max-content" }}
-								pagination={{ pageSize: 8, showSizeChanger: true }}
+								pagination={pageQuery.getPagination(totalAssets)}
+								onChange={pageQuery.onTableChange}
+								rowSelection={rowSelection}
 								loading={isLoading}
 								locale={{ emptyText: "No assets found" }}
-								columns={textColumns}
-								dataSource={filteredTextAssets}
+								columns={filterVisibleColumns(textColumns, hiddenColumns)}
+								dataSource={textAssets}
 								bordered
 								rowClassName={() => "hover:bg-muted/40"}
 							/>
@@ -965,16 +1102,24 @@ export default function AssetsPage() {
 								rowKey="id"
 								size="middle"
 								scroll={{ x: "max-content" }}
-								pagination={{ pageSize: 8, showSizeChanger: true }}
+								pagination={pageQuery.getPagination(totalAssets)}
+								onChange={pageQuery.onTableChange}
+								rowSelection={rowSelection}
 								loading={isLoading}
 								locale={{ emptyText: "No assets found" }}
-								columns={fileColumns}
-								dataSource={filteredFileAssets}
+								columns={filterVisibleColumns(fileColumns, hiddenColumns)}
+								dataSource={fileAssets}
 								bordered
 								rowClassName={() => "hover:bg-muted/40"}
 							/>
 						)}
 					</div>
+					<BulkActionBar
+						count={selectedAssets.length}
+						onAction={(action, notificationsEnabled) => setBulkAction({ action, notificationsEnabled })}
+						onExport={() => setIsBulkExportOpen(true)}
+						onClear={() => setSelectedAssets([])}
+					/>
 				</CardContent>
 			</Card>
 			<Dialog
@@ -1004,6 +1149,7 @@ export default function AssetsPage() {
 											<FormControl>
 												<Input placeholder="Tabby Subscription" {...field} />
 											</FormControl>
+											<FormMessage />
 										</FormItem>
 									)}
 								/>
@@ -1014,18 +1160,27 @@ export default function AssetsPage() {
 										<FormItem>
 											<FormLabel>Asset Type</FormLabel>
 											<FormControl>
-												<Select value={field.value} onValueChange={field.onChange}>
+												<Select value={field.value} onValueChange={handleTypeChange}>
 													<SelectTrigger>
 														<SelectValue placeholder="Select type" />
 													</SelectTrigger>
 													<SelectContent>
-														<SelectItem value="GENERAL">GENERAL</SelectItem>
-														<SelectItem value="CREDENTIALS">CREDENTIALS</SelectItem>
-														<SelectItem value="FILES">FILES</SelectItem>
-														<SelectItem value="LINKS">LINKS</SelectItem>
+														{templates.map((template) => (
+															<SelectItem key={template.id} value={template.name}>
+																{template.name}
+															</SelectItem>
+														))}
+														{/* Assets created before a template was renamed or removed keep their type */}
+														{field.value && !selectedTemplate && (
+															<SelectItem value={field.value}>{field.value}</SelectItem>
+														)}
 													</SelectContent>
 												</Select>
 											</FormControl>
+											{selectedTemplate?.description && (
+												<div className="text-xs text-muted-foreground">{selectedTemplate.description}</div>
+											)}
+											<FormMessage />
 										</FormItem>
 									)}
 								/>
@@ -1056,7 +1211,7 @@ export default function AssetsPage() {
 										<FormItem>
 											<FormLabel>Tags</FormLabel>
 											<FormControl>
-												<Input placeholder="subscription, tabby" {...field} />
+												<TagInput value={field.value} onChange={field.onChange} placeholder="subscription, tabby" />
 											</FormControl>
 										</FormItem>
 									)}
@@ -1097,6 +1252,7 @@ export default function AssetsPage() {
 															minDate={new Date()}
 														/>
 													</FormControl>
+													<FormMessage />
 													<div className="text-xs text-muted-foreground">
 														You will receive reminders 5 days, 3 days, 2 days before, and on the expiration day.
 													</div>
@@ -1141,102 +1297,137 @@ export default function AssetsPage() {
 											Add Field
 										</Button>
 									</div>
+									{form.formState.errors.fields?.root?.message && (
+										<div className="text-xs text-error">{form.formState.errors.fields.root.message}</div>
+									)}
 									<div className="space-y-4">
-										{fieldsArray.fields.map((fieldItem, index) => (
-											<div
-												key={fieldItem.id}
-												className="grid gap-4 rounded-md border p-4 md:grid-cols-[1.3fr_1fr_1.3fr_0.7fr_auto]"
-											>
-												<FormField
-													control={form.control}
-													name={`fields.${index}.key`}
-													render={({ field }) => (
-														<FormItem>
-															<FormLabel>Key</FormLabel>
-															<FormControl>
-																<Input placeholder="username" {...field} />
-															</FormControl>
-														</FormItem>
-													)}
-												/>
-												<FormField
-													control={form.control}
-													name={`fields.${index}.type`}
-													render={({ field }) => (
-														<FormItem>
-															<FormLabel>Type</FormLabel>
-															<FormControl>
-																<Select value={field.value} onValueChange={field.onChange}>
-																	<SelectTrigger>
-																		<SelectValue placeholder="Select type" />
-																	</SelectTrigger>
-																	<SelectContent>
-																		<SelectItem value="TEXT">TEXT</SelectItem>
-																		<SelectItem value="USERNAME">USERNAME</SelectItem>
-																		<SelectItem value="PASSWORD">PASSWORD</SelectItem>
-																		<SelectItem value="URL">URL</SelectItem>
-																		<SelectItem value="EMAIL">EMAIL</SelectItem>
-																		<SelectItem value="NOTE">NOTE</SelectItem>
-																		<SelectItem value="NUMBER">NUMBER</SelectItem>
-																	</SelectContent>
-																</Select>
-															</FormControl>
-														</FormItem>
-													)}
-												/>
-												<FormField
-													control={form.control}
-													name={`fields.${index}.value`}
-													render={({ field }) => (
-														<FormItem>
-															<FormLabel>Value</FormLabel>
-															<FormControl>
-																<Input placeholder="tabby-user" {...field} />
-															</FormControl>
-														</FormItem>
-													)}
-												/>
-												<FormField
-													control={form.control}
-													name={`fields.${index}.isSecret`}
-													render={({ field }) => (
-														<FormItem>
-															<FormLabel>Secret</FormLabel>
-															<FormControl>
-																<div className="flex items-center gap-2">
-																	<Switch checked={field.value} onCheckedChange={field.onChange} />
-																	<span className="text-xs text-muted-foreground">{field.value ? "Yes" : "No"}</span>
-																</div>
-															</FormControl>
-														</FormItem>
-													)}
-												/>
-												<div className="flex items-end">
-													<Button
-														type="button"
-														variant="ghost"
-														size="sm"
-														onClick={() => handleRemoveField(index)}
-														disabled={fieldsArray.fields.length === 1}
-													>
-														Remove
-													</Button>
+										{fieldsArray.fields.map((fieldItem, index) => {
+											const templateField = findTemplateField(selectedTemplate, form.watch(`fields.${index}.key`));
+											return (
+												<div
+													key={fieldItem.id}
+													className="grid gap-4 rounded-md border p-4 md:grid-cols-[1.3fr_1fr_1.3fr_0.7fr_auto]"
+												>
+													<FormField
+														control={form.control}
+														name={`fields.${index}.key`}
+														render={({ field }) => (
+															<FormItem>
+																<FormLabel>Key</FormLabel>
+																<FormControl>
+																	<Input placeholder="username" {...field} />
+																</FormControl>
+																<FormMessage />
+															</FormItem>
+														)}
+													/>
+													<FormField
+														control={form.control}
+														name={`fields.${index}.type`}
+														render={({ field }) => (
+															<FormItem>
+																<FormLabel>Type</FormLabel>
+																<FormControl>
+																	<Select value={field.value} onValueChange={field.onChange}>
+																		<SelectTrigger>
+																			<SelectValue placeholder="Select type" />
+																		</SelectTrigger>
+																		<SelectContent>
+																			{ASSET_FIELD_TYPES.map((type) => (
+																				<SelectItem key={type} value={type}>
+																					{type}
+																				</SelectItem>
+																			))}
+																		</SelectContent>
+																	</Select>
+																</FormControl>
+															</FormItem>
+														)}
+													/>
+													<FormField
+														control={form.control}
+														name={`fields.${index}.value`}
+														render={({ field }) => (
+															<FormItem
+																className={cn(
+																	form.watch(`fields.${index}.type`) === "NOTE" && "md:order-last md:col-span-full",
+																)}
+															>
+																<FormLabel>{templateField?.required ? "Value *" : "Value"}</FormLabel>
+																{form.watch(`fields.${index}.type`) === "NOTE" ? (
+																	<FormControl>
+																		<MarkdownEditor
+																			value={field.value ?? ""}
+																			onChange={field.onChange}
+																			placeholder={templateField?.placeholder}
+																		/>
+																	</FormControl>
+																) : form.watch(`fields.${index}.type`) === "PASSWORD" ? (
+																	<>
+																		<div className="flex gap-2">
+																			<FormControl>
+																				<Input placeholder={templateField?.placeholder} {...field} />
+																			</FormControl>
+																			<PasswordGenerator
+																				onUse={(password) => {
+																					field.onChange(password);
+																					form.setValue(`fields.${index}.isSecret`, true);
+																				}}
+																			/>
+																		</div>
+																		<PasswordStrengthMeter password={field.value ?? ""} />
+																	</>
+																) : (
+																	<FormControl>
+																		<Input placeholder={templateField?.placeholder} {...field} />
+																	</FormControl>
+																)}
+																{form.watch(`fields.${index}.type`) === "TOTP" && field.value && (
+																	<TotpCode value={field.value} />
+																)}
+																<FormMessage />
+															</FormItem>
+														)}
+													/>
+													<FormField
+														control={form.control}
+														name={`fields.${index}.isSecret`}
+														render={({ field }) => (
+															<FormItem>
+																<FormLabel>Secret</FormLabel>
+																<FormControl>
+																	<div className="flex items-center gap-2">
+																		<Switch checked={field.value} onCheckedChange={field.onChange} />
+																		<span className="text-xs text-muted-foreground">{field.value ? "Yes" : "No"}</span>
+																	</div>
+																</FormControl>
+															</FormItem>
+														)}
+													/>
+													<div className="flex items-end">
+														<Button
+															type="button"
+															variant="ghost"
+															size="sm"
+															onClick={() => handleRemoveField(index)}
+															disabled={fieldsArray.fields.length === 1 || templateField?.required}
+														>
+															Remove
+														</Button>
+													</div>
 												</div>
-											</div>
-										))}
+											);
+										})}
 									</div>
 								</div>
 							)}
-							<DialogFooter className="flex flex-wrap justify-between gap-2">
-								<Button type="button" variant="outline" onClick={handleLoadExample}>
-									Load Example
+							<DialogFooter className="flex flex-wrap gap-2">
+								<Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+									Cancel
+								</Button>
+								<Button type="submit" disabled={isSaving}>
+									{isSaving ? "Saving..." : "Save Asset"}
 								</Button>
-								<div className="flex gap-2">
-									<Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-										Cancel
-									</Button>
-									<Button type="submit">Save Asset</Button>
-								</div>
 							</DialogFooter>
 						</form>
 					</Form>
@@ -1249,7 +1440,6 @@ export default function AssetsPage() {
 					if (!open) {
 						setUploadFiles([]);
 						setUploadTarget(null);
-						setIsUploading(false);
 					}
 				}}
 			>
@@ -1262,28 +1452,25 @@ export default function AssetsPage() {
 							Uploading to:{" "}
 							<span className="font-medium text-foreground">{uploadTarget?.name ?? "Selected asset"}</span>
 						</div>
-						{isUploading && (
-							<div className="flex items-center gap-2 rounded-md border border-dashed px-3 py-2 text-sm text-muted-foreground">
-								<span className="h-4 w-4 animate-spin rounded-full border-2 border-muted-foreground border-t-transparent" />
-								Uploading files...
-							</div>
-						)}
 						<Upload
 							multiple
-							maxCount={5}
-							fileList={uploadFiles}
+							folders
+							fileList={withUploadProgress(uploadFiles, uploadTasks)}
 							onChange={handleUploadChange}
+							onRemove={(file) => uploadActions.cancel(file.uid)}
 							beforeUpload={() => false}
-							thumbnail
 						/>
-						<div className="text-xs text-muted-foreground">Select up to 5 files to upload.</div>
+						<div className="text-xs text-muted-foreground">
+							Files from a folder keep their folder path. Large files are sent in chunks and keep uploading after you
+							close this dialog.
+						</div>
 					</div>
 					<DialogFooter className="mt-6">
-						<Button type="button" variant="outline" onClick={() => setIsUploadDialogOpen(false)} disabled={isUploading}>
-							Cancel
+						<Button type="button" variant="outline" onClick={() => setIsUploadDialogOpen(false)}>
+							Close
 						</Button>
-						<Button type="button" onClick={handleConfirmUpload} disabled={isUploading}>
-							{isUploading ? "Uploading..." : "Upload files"}
+						<Button type="button" onClick={handleConfirmUpload} disabled={pendingUploads.length === 0}>
+							Upload files
 						</Button>
 					</DialogFooter>
 				</DialogContent>
@@ -1293,9 +1480,9 @@ export default function AssetsPage() {
 				onOpenChange={(open) => {
 					setIsViewDialogOpen(open);
 					if (!open) {
-						setViewAsset(null);
+						setViewTarget(null);
 						setRevealedFields({});
-						setGallerySearch("");
+						setDecryptedValues({});
 					}
 				}}
 			>
@@ -1303,7 +1490,23 @@ export default function AssetsPage() {
 					<DialogHeader>
 						<DialogTitle>Asset details</DialogTitle>
 					</DialogHeader>
-					{isViewLoading ? (
+					{viewTarget && !isGalleryView && (
+						<Tabs value={viewTab} onValueChange={(value) => setViewTab(value as ViewTab)}>
+							<TabsList>
+								<TabsTrigger value="DETAILS">Details</TabsTrigger>
+								<TabsTrigger value="DISCUSSION">Discussion</TabsTrigger>
+								<TabsTrigger value="HISTORY">History</TabsTrigger>
+								<TabsTrigger value="ACCESS">Access log</TabsTrigger>
+							</TabsList>
+						</Tabs>
+					)}
+					{viewTarget && viewTab === "DISCUSSION" && !isGalleryView ? (
+						<DiscussionPanel target={{ assetId: viewTarget.id }} />
+					) : viewTarget && viewTab === "HISTORY" && !isGalleryView ? (
+						<AssetHistory assetId={viewTarget.id} />
+					) : viewTarget && viewTab === "ACCESS" && !isGalleryView ? (
+						<AssetAccessLog assetId={viewTarget.id} />
+					) : isViewLoading ? (
 						<div className="py-8 text-center text-sm text-muted-foreground">Loading asset details...</div>
 					) : viewAsset ? (
 						<div className="space-y-6 text-sm">
@@ -1314,11 +1517,7 @@ export default function AssetsPage() {
 										<div className="text-xs text-muted-foreground">ID: {viewAsset.id}</div>
 										<div className="flex flex-wrap gap-2">
 											{viewAsset.tags.length ? (
-												viewAsset.tags.map((tag) => (
-													<Badge key={tag} variant="secondary">
-														{tag}
-													</Badge>
-												))
+												viewAsset.tags.map((tag) => <TagBadge key={tag} tag={tag} color={tagColors[tag]} />)
 											) : (
 												<span className="text-xs text-muted-foreground">No tags</span>
 											)}
@@ -1355,6 +1554,11 @@ export default function AssetsPage() {
 											</>
 										)}
 									</div>
+									<AssetRelations
+										assetId={viewAsset.id}
+										onNavigate={(endpoint) => void handleOpenRelated(endpoint)}
+										onShowGraph={() => setGraphTarget({ focusId: viewAsset.id })}
+									/>
 								</>
 							)}
 							{viewAsset.kind === "TEXT" && (
@@ -1365,16 +1569,46 @@ export default function AssetsPage() {
 											{viewAsset.fields.map((field, index) => {
 												const fieldId = `${viewAsset.id}-${index}`;
 												const label = field.key || "Field";
-												const displayValue = field.isSecret && !revealedFields[fieldId] ? "••••••" : field.value || "-";
+												const value = decryptedValues[fieldId] ?? field.value ?? "";
+												const isLocked = isEncryptedValue(value);
+												const displayValue =
+													(field.isSecret && !revealedFields[fieldId]) || isLocked ? "••••••" : value || "-";
+												const isTotp = field.type === "TOTP";
+												const isNote = field.type === "NOTE" && displayValue !== "••••••" && !!value;
 
 												return (
 													<div
 														key={`${field.key}-${field.type}-${index}`}
 														className="flex flex-wrap items-center justify-between gap-3 rounded-md border px-4 py-3"
 													>
-														<div className="min-w-[160px] space-y-1">
+														<div className={cn("min-w-[160px] space-y-1", isNote && "basis-full")}>
 															<div className="text-[11px] font-medium uppercase text-muted-foreground">{label}</div>
-															<div className="text-base font-semibold text-foreground">{displayValue}</div>
+															{isNote ? (
+																<MarkdownView source={value} />
+															) : isTotp ? (
+																<>
+																	{isLocked ? (
+																		<Button
+																			type="button"
+																			variant="outline"
+																			size="sm"
+																			onClick={() => void handleShowCode(viewAsset.id, fieldId, field)}
+																		>
+																			Show code
+																		</Button>
+																	) : (
+																		<TotpCode
+																			value={value}
+																			onCopy={() => recordSecretAccess(viewAsset.id, field, "COPY")}
+																		/>
+																	)}
+																	{revealedFields[fieldId] && (
+																		<div className="break-all font-mono text-xs text-muted-foreground">{value}</div>
+																	)}
+																</>
+															) : (
+																<div className="text-base font-semibold text-foreground">{displayValue}</div>
+															)}
 														</div>
 														<div className="flex items-center gap-2">
 															{field.isSecret && (
@@ -1382,19 +1616,26 @@ export default function AssetsPage() {
 																	type="button"
 																	variant="outline"
 																	size="sm"
-																	onClick={() => handleToggleReveal(fieldId)}
+																	onClick={() => void handleToggleReveal(viewAsset.id, fieldId, field)}
 																>
 																	{revealedFields[fieldId] ? "Hide" : "Show"}
 																</Button>
 															)}
-															<Button
-																type="button"
-																variant="secondary"
-																size="sm"
-																onClick={() => handleCopyField(field.value ?? "", label)}
-															>
-																Copy
-															</Button>
+															{!isTotp && (
+																<Button
+																	type="button"
+																	variant="secondary"
+																	size="sm"
+																	onClick={() =>
+																		void handleCopyField(field.value ?? "", label, fieldId, {
+																			assetId: viewAsset.id,
+																			field,
+																		})
+																	}
+																>
+																	Copy
+																</Button>
+															)}
 														</div>
 													</div>
 												);
@@ -1407,116 +1648,45 @@ export default function AssetsPage() {
 							)}
 							{viewAsset.kind === "FILE" && (
 								<div className="space-y-4">
-									<div className="flex items-center justify-between gap-4">
-										<div className="text-sm font-semibold">{isGalleryView ? "Asset gallery" : "Asset files"}</div>
-										<div className="flex items-center gap-3">
-											<div className="relative w-64">
-												<SearchIcon className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-												<Input
-													placeholder="Search files..."
-													value={gallerySearch}
-													onChange={(e) => setGallerySearch(e.target.value)}
-													className="pl-9 h-9"
-												/>
-											</div>
-											<div className="text-xs text-muted-foreground">{assetFiles.length} files</div>
-										</div>
-									</div>
-									{(() => {
-										const filteredFiles = assetFiles.filter((file) => {
-											if (!gallerySearch.trim()) return true;
-											const q = gallerySearch.trim().toLowerCase();
-											const name = (file.originalName ?? file.filename ?? "").toLowerCase();
-											const mime = (file.mimeType ?? "").toLowerCase();
-											return name.includes(q) || mime.includes(q);
-										});
-										return filteredFiles.length ? (
-											<div className="grid gap-4 sm:grid-cols-2 md:grid-cols-3">
-												{filteredFiles.map((file) => {
-													const fileUrl = buildFileUrl(file);
-													const fileName = getFileDisplayName(file);
-													const filePath = file.relativePath ?? file.url ?? "-";
-													const isImage = file.mimeType?.startsWith("image/");
-													const fileThumb = getFileThumb(fileName);
-													const assetId = viewAsset.id ?? "";
-
-													return (
-														<div
-															key={file.id}
-															className="flex flex-col gap-3 rounded-lg border bg-background p-4 shadow-sm"
-														>
-															<div className="flex items-start justify-between gap-3">
-																<div className="flex items-start gap-3">
-																	<div className="rounded-md border bg-muted/30 p-2">
-																		<Icon icon={`local:${fileThumb}`} size={28} />
-																	</div>
-																	<div className="space-y-1">
-																		<div className="text-xs text-muted-foreground truncate max-w-[140px]">
-																			{filePath}
-																		</div>
-																	</div>
-																</div>
-																<Badge variant="secondary">{file.mimeType ?? "File"}</Badge>
-															</div>
-															{isImage && fileUrl ? (
-																<div className="overflow-hidden rounded-md border">
-																	<img src={fileUrl} alt={fileName} className="h-40 w-full object-cover" />
-																</div>
-															) : (
-																<div className="flex h-40 items-center justify-center rounded-md border border-dashed text-xs text-muted-foreground">
-																	Preview unavailable
-																</div>
-															)}
-															<div className="grid gap-2 text-xs text-muted-foreground">
-																<div className="flex items-center justify-between">
-																	<span>Size</span>
-																	<span className="text-foreground">{file.size ? fBytes(file.size) : "-"}</span>
-																</div>
-																<div className="flex items-center justify-between">
-																	<span>Uploaded</span>
-																	<span className="text-foreground">{formatDate(file.uploadedAt)}</span>
-																</div>
-															</div>
-															<div className="flex flex-wrap gap-2">
-																{fileUrl ? (
-																	<Button asChild size="sm">
-																		<a href={fileUrl} target="_blank" rel="noreferrer" download>
-																			Download
-																		</a>
-																	</Button>
-																) : (
-																	<Button size="sm" variant="outline" disabled>
-																		Download
-																	</Button>
-																)}
-																<Button
-																	size="sm"
-																	variant="secondary"
-																	onClick={() => handleCopyField(filePath, "File path")}
-																>
-																	Copy path
-																</Button>
-																{file.id && assetId && (
-																	<Button
-																		size="sm"
-																		variant="destructive"
-																		onClick={() => void handleDeleteFile(assetId, file.id)}
-																	>
-																		<Trash2 className="mr-1 h-3 w-3" />
-																		Delete
-																	</Button>
-																)}
-															</div>
-														</div>
-													);
-												})}
-											</div>
-										) : (
-											<div className="text-center text-sm text-muted-foreground py-8">
-												{gallerySearch.trim() ? "No files match your search." : "No files attached to this asset."}
-											</div>
-										);
-									})()}
+									<div className="text-sm font-semibold">{isGalleryView ? "Asset gallery" : "Asset files"}</div>
+									<FileGallery
+										files={assetFiles}
+										asset={viewAsset}
+										onPreview={(files, index) => setFilePreview({ files, index })}
+										renderActions={(file) => (
+											<>
+												<Button
+													type="button"
+													variant="secondary"
+													size="icon"
+													className="h-7 w-7"
+													title="Copy path"
+													onClick={() => void handleCopyField(file.relativePath ?? file.url ?? "-", "File path")}
+												>
+													<Copy className="h-3.5 w-3.5" />
+												</Button>
+												{file.id && viewAsset.id && (
+													<Button
+														type="button"
+														variant="destructive"
+														size="icon"
+														className="h-7 w-7"
+														title="Delete"
+														onClick={() => void handleDeleteFiles(viewAsset.id, [file.id])}
+													>
+														<Trash2 className="h-3.5 w-3.5" />
+													</Button>
+												)}
+											</>
+										)}
+										onDeleteFiles={(files) =>
+											handleDeleteFiles(
+												viewAsset.id,
+												files.map((file) => file.id),
+											)
+										}
+										onMoveFiles={(moves) => handleMoveFiles(viewAsset.id, moves)}
+									/>
 								</div>
 							)}
 						</div>
@@ -1548,6 +1718,7 @@ export default function AssetsPage() {
 						<p className="text-foreground">
 							<strong>{deleteTarget?.name ?? "Selected asset"}</strong>
 						</p>
+						{deleteTarget && <DependentsWarning targets={[{ assetId: deleteTarget.id }]} />}
 					</div>
 					<DialogFooter className="mt-6">
 						<Button type="button" variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
@@ -1559,6 +1730,38 @@ export default function AssetsPage() {
 					</DialogFooter>
 				</DialogContent>
 			</Dialog>
+			<AssetImportDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
+			<VaultExportDialog open={isExportDialogOpen} onOpenChange={setIsExportDialogOpen} />
+			<VaultRestoreDialog open={isRestoreDialogOpen} onOpenChange={setIsRestoreDialogOpen} />
+			<AssetTemplateManagerDialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen} />
+			<TagManagerDialog open={isTagDialogOpen} onOpenChange={setIsTagDialogOpen} />
+			<ShareAssetDialog asset={shareTarget} onClose={() => setShareTarget(null)} />
+			<RenewAssetDialog asset={renewTarget} onClose={() => setRenewTarget(null)} />
+			<ShareLinksDialog open={isShareLinksDialogOpen} onOpenChange={setIsShareLinksDialogOpen} />
+			<TransferAssetDialog target={transferTarget} onClose={() => setTransferTarget(null)} />
+			<FilePreviewDialog
+				target={filePreview}
+				onIndexChange={(index) => setFilePreview((prev) => (prev ? { ...prev, index } : prev))}
+				onClose={() => setFilePreview(null)}
+			/>
+			<RelationGraphDialog
+				open={!!graphTarget}
+				onOpenChange={(open) => !open && setGraphTarget(null)}
+				focus={graphTarget?.focusId ? { assetId: graphTarget.focusId } : undefined}
+				onNavigate={(endpoint) => void handleOpenRelated(endpoint)}
+			/>
+			<BulkActionDialog
+				action={bulkAction?.action ?? null}
+				notificationsEnabled={bulkAction?.notificationsEnabled}
+				targets={selectedAssets}
+				onClose={() => setBulkAction(null)}
+				onFinished={handleBulkFinished}
+			/>
+			<VaultExportDialog
+				open={isBulkExportOpen}
+				onOpenChange={setIsBulkExportOpen}
+				assetIds={selectedAssets.map((asset) => asset.id)}
+			/>
 		</div>
 	);
 }
@@ -5,6 +5,7 @@ import { useForm } from "react-hook-form";
 import { toast } from "sonner";
 
 import apiClient from "@/api/apiClient";
+import { RelationGraphDialog } from "@/components/asset-relations";
 import { useUserRoles } from "@/store/userStore";
 import { Badge } from "@/ui/badge";
 import { Button } from "@/ui/button";
@@ -104,6 +105,7 @@ export default function ClientsPage() {
 	const [rolesLoading, setRolesLoading] = useState(false);
 	const [deleteTarget, setDeleteTarget] = useState<ClientRow | null>(null);
 	const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+	const [graphClient, setGraphClient] = useState<ClientRow | null>(null);
 	const [confirmName, setConfirmName] = useState("");
 	const [isDeleting, setIsDeleting] = useState(false);
 	const userRoles = useUserRoles();
@@ -219,11 +221,16 @@ export default function ClientsPage() {
 			{
 				title: "Actions",
 				key: "actions",
-				width: 120,
+				width: 220,
 				render: (_: unknown, record: ClientRow) => (
-					<Button type="button" variant="destructive" size="sm" onClick={() => handleRequestDelete(record)}>
-						Delete
-					</Button>
+					<div className="flex items-center gap-2">
+						<Button type="button" variant="outline" size="sm" onClick={() => setGraphClient(record)}>
+							Relationships
+						</Button>
+						<Button type="button" variant="destructive" size="sm" onClick={() => handleRequestDelete(record)}>
+							Delete
+						</Button>
+					</div>
 				),
 			},
 		],
@@ -455,6 +462,13 @@ export default function ClientsPage() {
 					</DialogFooter>
 				</DialogContent>
 			</Dialog>
+
+			<RelationGraphDialog
+				open={!!graphClient}
+				onOpenChange={(nextOpen) => !nextOpen && setGraphClient(null)}
+				clientId={graphClient?.id}
+				clientName={graphClient?.clientName}
+			/>
 		</>
 	);
 }
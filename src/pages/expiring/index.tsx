@@ -0,0 +1,239 @@
+import { Table } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router";
+import type { ExpiringAsset } from "#/entity";
+import { useExpiringAssets } from "@/api/services/renewalService";
+import {
+	DUE_SOON_DAYS,
+	describeDaysUntilExpiry,
+	EXPIRATION_REMINDER_DAYS,
+	EXPIRATION_STATUS_LABELS,
+	type ExpirationStatus,
+	formatExpirationDate,
+	formatRenewalCost,
+	getDaysUntilExpiry,
+	getExpirationStatus,
+	RECENTLY_RENEWED_DAYS,
+	RenewAssetDialog,
+	type RenewableAsset,
+} from "@/components/asset-renewal";
+import { Badge } from "@/ui/badge";
+import { Button } from "@/ui/button";
+import { Card, CardContent, CardHeader } from "@/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/ui/tabs";
+
+type ExpiringTab = "OVERDUE" | "DUE_SOON" | "RENEWED";
+
+type ExpiringRow = ExpiringAsset & {
+	key: string;
+	status: ExpirationStatus;
+	daysUntilExpiry: number;
+};
+
+const TABS: { value: ExpiringTab; label: string; statuses: ExpirationStatus[]; emptyText: string }[] = [
+	{ value: "OVERDUE", label: "Overdue", statuses: ["OVERDUE"], emptyText: "Nothing has expired." },
+	{
+		value: "DUE_SOON",
+		label: "Due soon",
+		statuses: ["DUE_TODAY", "DUE_SOON"],
+		emptyText: `Nothing expires in the next ${DUE_SOON_DAYS} days.`,
+	},
+	{
+		value: "RENEWED",
+		label: "Renewed",
+		statuses: ["RENEWED"],
+		emptyText: `Nothing was renewed in the last ${RECENTLY_RENEWED_DAYS} days.`,
+	},
+];
+
+const STATUS_VARIANT: Record<ExpirationStatus, "error" | "warning" | "success" | "outline"> = {
+	OVERDUE: "error",
+	DUE_TODAY: "error",
+	DUE_SOON: "warning",
+	RENEWED: "success",
+	UPCOMING: "outline",
+};
+
+const toRow = (asset: ExpiringAsset, now: Date): ExpiringRow => ({
+	...asset,
+	key: `${asset.showroomId ?? "tenant"}:${asset.id}`,
+	status: getExpirationStatus(asset, now),
+	daysUntilExpiry: getDaysUntilExpiry(asset.expirationDate, now),
+});
+
+/**
+ * Renewed assets are listed by the latest renewal, the others by how soon they expire
+ */
+const compareRows = (tab: ExpiringTab) => (a: ExpiringRow, b: ExpiringRow) =>
+	tab === "RENEWED"
+		? (b.lastRenewal?.renewedAt ?? "").localeCompare(a.lastRenewal?.renewedAt ?? "")
+		: a.daysUntilExpiry - b.daysUntilExpiry;
+
+export default function ExpiringPage() {
+	const navigate = useNavigate();
+	const expiringQuery = useExpiringAssets();
+	const [tab, setTab] = useState<ExpiringTab>("OVERDUE");
+	const [renewTarget, setRenewTarget] = useState<RenewableAsset | null>(null);
+
+	const rows = useMemo(() => {
+		const now = new Date();
+		return (expiringQuery.data ?? []).map((asset) => toRow(asset, now));
+	}, [expiringQuery.data]);
+
+	const rowsByTab = useMemo(
+		() =>
+			Object.fromEntries(
+				TABS.map((item) => [
+					item.value,
+					rows.filter((row) => item.statuses.includes(row.status)).sort(compareRows(item.value)),
+				]),
+			) as Record<ExpiringTab, ExpiringRow[]>,
+		[rows],
+	);
+
+	const activeTab = TABS.find((item) => item.value === tab) ?? TABS[0];
+
+	const columns = useMemo<ColumnsType<ExpiringRow>>(
+		() => [
+			{
+				title: "Asset",
+				dataIndex: "name",
+				key: "name",
+				width: 240,
+				render: (_: string, record) => (
+					<div className="space-y-1">
+						<div className="text-sm font-semibold text-foreground">{record.name}</div>
+						<div className="text-xs text-muted-foreground">{record.type}</div>
+					</div>
+				),
+			},
+			{
+				title: "Location",
+				key: "location",
+				width: 180,
+				render: (_, record) =>
+					record.showroomId ? (
+						<span className="text-sm">{record.showroomName ?? record.showroomId}</span>
+					) : (
+						<span className="text-sm text-muted-foreground">Tenant vault</span>
+					),
+			},
+			{
+				title: "Expires",
+				dataIndex: "expirationDate",
+				key: "expirationDate",
+				width: 200,
+				render: (_: string, record) => (
+					<div className="space-y-1">
+						<div className="text-sm">{formatExpirationDate(record.expirationDate)}</div>
+						<Badge variant={STATUS_VARIANT[record.status]}>
+							{record.status === "RENEWED"
+								? EXPIRATION_STATUS_LABELS.RENEWED
+								: describeDaysUntilExpiry(record.daysUntilExpiry)}
+						</Badge>
+					</div>
+				),
+			},
+			{
+				title: "Reminders",
+				dataIndex: "expirationNotificationsEnabled",
+				key: "reminders",
+				width: 120,
+				render: (enabled?: boolean) => <Badge variant={enabled ? "info" : "outline"}>{enabled ? "On" : "Off"}</Badge>,
+			},
+			{
+				title: "Last renewal",
+				key: "lastRenewal",
+				width: 200,
+				render: (_, record) => {
+					const renewal = record.lastRenewal;
+					if (!renewal) return <span className="text-xs text-muted-foreground">Never</span>;
+					const cost = formatRenewalCost(renewal);
+					return (
+						<div className="space-y-1 text-sm">
+							<div>{formatExpirationDate(renewal.renewedAt)}</div>
+							{(cost || renewal.notes) && (
+								<div className="max-w-48 truncate text-xs text-muted-foreground" title={renewal.notes}>
+									{[cost, renewal.notes].filter(Boolean).join(" · ")}
+								</div>
+							)}
+						</div>
+					);
+				},
+			},
+			{
+				title: "Actions",
+				key: "actions",
+				width: 180,
+				render: (_, record) => (
+					<div className="flex flex-wrap gap-2">
+						<Button
+							type="button"
+							size="sm"
+							onClick={() =>
+								setRenewTarget({
+									id: record.id,
+									name: record.name,
+									showroomId: record.showroomId,
+									expirationDate: record.expirationDate,
+									renewalPeriod: record.renewalPeriod,
+								})
+							}
+						>
+							Renew
+						</Button>
+						<Button
+							type="button"
+							variant="outline"
+							size="sm"
+							onClick={() => navigate(record.showroomId ? `/showrooms/${record.showroomId}/assets` : "/assets")}
+						>
+							Open
+						</Button>
+					</div>
+				),
+			},
+		],
+		[navigate],
+	);
+
+	return (
+		<Card>
+			<CardHeader>
+				<div className="space-y-1">
+					<div className="text-lg font-semibold">Expiring</div>
+					<div className="text-sm text-muted-foreground">
+						Assets are due soon from the first expiration reminder on ({EXPIRATION_REMINDER_DAYS.join(", ")} days
+						before, and on the day). Renewing moves the expiration date and the reminders with it.
+					</div>
+				</div>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<Tabs value={tab} onValueChange={(value) => setTab(value as ExpiringTab)}>
+					<TabsList>
+						{TABS.map((item) => (
+							<TabsTrigger key={item.value} value={item.value}>
+								{item.label} ({rowsByTab[item.value].length})
+							</TabsTrigger>
+						))}
+					</TabsList>
+				</Tabs>
+				<div className="rounded-lg border bg-background/40 p-2 shadow-sm">
+					<Table<ExpiringRow>
+						rowKey="key"
+						size="middle"
+						scroll={{ x: "max-content" }}
+						pagination={{ pageSize: 10, showSizeChanger: true }}
+						loading={expiringQuery.isFetching}
+						locale={{ emptyText: expiringQuery.isError ? "Failed to load expiring assets" : activeTab.emptyText }}
+						columns={columns}
+						dataSource={rowsByTab[tab]}
+						bordered
+					/>
+				</div>
+			</CardContent>
+			<RenewAssetDialog asset={renewTarget} onClose={() => setRenewTarget(null)} />
+		</Card>
+	);
+}
@@ -0,0 +1,164 @@
+import { format } from "date-fns";
+import { Check, Copy, Eye, EyeOff, Lock } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { useLocation, useParams } from "react-router";
+import { toast } from "sonner";
+import { usePublicShare } from "@/api/services/assetShareService";
+import { openShareContent, type SharedAssetContent } from "@/components/asset-share";
+import { TotpCode } from "@/components/totp";
+import { Badge } from "@/ui/badge";
+import { Button } from "@/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/ui/card";
+import { Input } from "@/ui/input";
+
+/**
+ * Public, read-only view of a shared asset; the decryption key comes from the link's fragment
+ */
+export default function SharePage() {
+	const { token } = useParams();
+	const { hash } = useLocation();
+	const linkKey = hash.replace(/^#/, "");
+	const { data: share, isLoading, isError } = usePublicShare(token);
+	const [content, setContent] = useState<SharedAssetContent | null>(null);
+	const [passphrase, setPassphrase] = useState("");
+	const [openError, setOpenError] = useState("");
+	const [revealed, setRevealed] = useState<Record<string, boolean>>({});
+	const [copiedKey, setCopiedKey] = useState<string | null>(null);
+
+	const handleOpen = useCallback(
+		async (secret?: string) => {
+			if (!share) return;
+			try {
+				setContent(await openShareContent(share.payload, linkKey, secret));
+				setOpenError("");
+			} catch {
+				setOpenError(share.passphraseRequired ? "Wrong passphrase" : "This link is incomplete or damaged");
+			}
+		},
+		[share, linkKey],
+	);
+
+	useEffect(() => {
+		if (share && !share.passphraseRequired) void handleOpen();
+	}, [share, handleOpen]);
+
+	const handleCopy = async (key: string, value: string) => {
+		try {
+			await navigator.clipboard.writeText(value);
+		} catch (error) {
+			console.error(error);
+			toast.error("Copy failed", { position: "top-center" });
+			return;
+		}
+		setCopiedKey(key);
+		toast.success("Copied to clipboard", { position: "top-center" });
+		setTimeout(() => setCopiedKey(null), 2000);
+	};
+
+	const renderBody = () => {
+		if (isLoading) {
+			return <div className="py-8 text-center text-sm text-muted-foreground">Opening shared asset...</div>;
+		}
+		if (isError || !share || !linkKey) {
+			return (
+				<div className="py-8 text-center text-sm text-muted-foreground">
+					This link has expired, was revoked or is not valid.
+				</div>
+			);
+		}
+		if (!content) {
+			if (!share.passphraseRequired) {
+				return <div className="py-8 text-center text-sm text-muted-foreground">{openError || "Decrypting..."}</div>;
+			}
+			return (
+				<form
+					className="space-y-3"
+					onSubmit={(event) => {
+						event.preventDefault();
+						void handleOpen(passphrase);
+					}}
+				>
+					<div className="flex items-center gap-2 text-sm">
+						<Lock className="h-4 w-4" />
+						This link is protected with a passphrase.
+					</div>
+					<Input
+						type="password"
+						autoFocus
+						placeholder="Passphrase"
+						value={passphrase}
+						onChange={(event) => setPassphrase(event.target.value)}
+					/>
+					{openError && <div className="text-xs text-error">{openError}</div>}
+					<Button type="submit" disabled={!passphrase}>
+						Open
+					</Button>
+				</form>
+			);
+		}
+		return (
+			<div className="space-y-3">
+				{content.fields.map((field) => {
+					const isHidden = field.isSecret && !revealed[field.key];
+					return (
+						<div key={field.key} className="flex items-center justify-between gap-3 rounded-lg border bg-muted/30 p-3">
+							<div className="min-w-0 flex-1">
+								<div className="mb-1 flex items-center gap-2">
+									<div className="text-xs font-semibold uppercase text-muted-foreground">{field.key}</div>
+									{field.isSecret && <Lock className="h-3 w-3 text-muted-foreground" />}
+								</div>
+								{field.type === "TOTP" ? (
+									<TotpCode value={field.value} />
+								) : (
+									<div className="break-all font-mono text-sm">{isHidden ? "••••••••" : field.value || "-"}</div>
+								)}
+							</div>
+							<div className="flex shrink-0 items-center gap-1">
+								{field.isSecret && field.type !== "TOTP" && (
+									<Button
+										type="button"
+										variant="ghost"
+										size="icon"
+										onClick={() => setRevealed((prev) => ({ ...prev, [field.key]: !prev[field.key] }))}
+									>
+										{revealed[field.key] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+									</Button>
+								)}
+								{field.type !== "TOTP" && (
+									<Button
+										type="button"
+										variant="ghost"
+										size="icon"
+										onClick={() => void handleCopy(field.key, field.value)}
+									>
+										{copiedKey === field.key ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+									</Button>
+								)}
+							</div>
+						</div>
+					);
+				})}
+			</div>
+		);
+	};
+
+	return (
+		<div className="flex flex-1 justify-center overflow-y-auto px-4 py-8">
+			<Card className="h-fit w-full max-w-xl">
+				<CardHeader>
+					<CardTitle className="flex flex-wrap items-center gap-2">
+						{content?.name ?? share?.assetName ?? "Shared asset"}
+						{content && <Badge variant="secondary">{content.type}</Badge>}
+					</CardTitle>
+					{share && (
+						<div className="text-xs text-muted-foreground">
+							Read-only. Available until {format(new Date(share.expiresAt), "PPp")}
+							{share.remainingViews !== undefined && `, ${share.remainingViews} more views`}.
+						</div>
+					)}
+				</CardHeader>
+				<CardContent>{renderBody()}</CardContent>
+			</Card>
+		</div>
+	);
+}
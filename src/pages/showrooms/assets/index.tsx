@@ -1,29 +1,63 @@
+import { zodResolver } from "@hookform/resolvers/zod";
 import { Table } from "antd";
 import type { ColumnsType } from "antd/es/table";
+import type { SortOrder as AntdSortOrder } from "antd/es/table/interface";
 import type { UploadChangeParam, UploadFile } from "antd/es/upload/interface";
-import { Check, Copy, Download, ExternalLink, Eye, EyeOff, Image as ImageIcon, Search, Trash2 } from "lucide-react";
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { useFieldArray, useForm } from "react-hook-form";
-import { useParams } from "react-router";
+import { Check, Copy, Eye, EyeOff, History, Image as ImageIcon, MessageSquare, ScrollText, Trash2 } from "lucide-react";
+import { type Key, useCallback, useEffect, useMemo, useState } from "react";
+import { type Resolver, useFieldArray, useForm } from "react-hook-form";
+import { useNavigate, useParams, useSearchParams } from "react-router";
 import { toast } from "sonner";
+import { z } from "zod";
+import type { AssetRelationEndpoint, AssetTemplate, RenewalPeriod, SavedViewState } from "#/entity";
 
 import apiClient from "@/api/apiClient";
+import assetService from "@/api/services/assetService";
+import { useAssetTemplates } from "@/api/services/assetTemplateService";
+import { useTags } from "@/api/services/tagService";
+import { ACCESS_CONTEXTS, AssetAccessLog, useSecretAccessAudit } from "@/components/asset-access-log";
+import { AssetHistory } from "@/components/asset-history";
+import { AssetRelations, DependentsWarning, RelationGraphDialog } from "@/components/asset-relations";
+import { RenewAssetDialog, type RenewableAsset } from "@/components/asset-renewal";
+import { AssetSearchInput, matchesAssetSearch, parseAssetSearch } from "@/components/asset-search";
+import {
+	ASSET_FIELD_TYPES,
+	applyTemplateFields,
+	assetFieldSchema,
+	findAssetTemplate,
+	findTemplateField,
+	refineTemplateFields,
+	resolveAssetTemplates,
+} from "@/components/asset-templates";
+import { TransferAssetDialog, TransferMenu, type TransferTarget } from "@/components/asset-transfer";
+import { DiscussionPanel } from "@/components/discussion";
+import { canHaveThumbnail, FileGallery, type FileMove, FileThumbnail } from "@/components/file-gallery";
+import { FilePreviewDialog, type FilePreviewTarget, getFileDisplayName } from "@/components/file-preview";
 import { Icon } from "@/components/icon";
+import { MarkdownEditor, MarkdownView, markdownToPlainText } from "@/components/markdown";
+import { PasswordGenerator, PasswordStrengthMeter } from "@/components/password-generator";
+import { ColumnPicker, filterVisibleColumns, getColumnOptions, SavedViewTabs } from "@/components/saved-views";
+import { dedupeTags, getTagColorMap, matchesTagFilter, TagBadge, TagInput, useTagFilter } from "@/components/tags";
+import { TotpCode } from "@/components/totp";
 import { Upload } from "@/components/upload";
 import { getFileThumb } from "@/components/upload/utils";
-import { GLOBAL_CONFIG } from "@/global-config";
+import { getPendingUploads, withUploadProgress } from "@/components/upload-tray";
+import { type UploadTask, useUploadActions, useUploadCompleted, useUploadTasks } from "@/store/uploadStore";
+import { openSecretFields, revealSecretValue, sealSecretFields } from "@/store/vaultStore";
 import { Badge } from "@/ui/badge";
 import { Button } from "@/ui/button";
 import { Card, CardContent, CardHeader } from "@/ui/card";
 import { DatePicker } from "@/ui/date-picker";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel } from "@/ui/form";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/ui/form";
 import { Input } from "@/ui/input";
 import { Label } from "@/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
 import { Switch } from "@/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/ui/tabs";
+import { cn } from "@/utils";
 import { fBytes } from "@/utils/format-number";
+import { isEncryptedValue } from "@/utils/vault";
 
 type AssetField = {
 	key: string;
@@ -37,6 +71,7 @@ type AssetFile = {
 	filename?: string;
 	originalName?: string;
 	relativePath?: string;
+	folderPath?: string;
 	url?: string;
 	size?: number;
 	mimeType?: string;
@@ -57,6 +92,7 @@ type ShowroomAssetApiItem = {
 	updatedAt?: string;
 	expirationDate?: string;
 	expirationNotificationsEnabled?: boolean;
+	renewalPeriod?: RenewalPeriod;
 };
 
 type ShowroomAssetsResponse = {
@@ -77,6 +113,8 @@ type TextAssetRow = {
 	fields: AssetField[];
 	lastUpdated: string;
 	createdAt?: string;
+	expirationDate?: string;
+	renewalPeriod?: RenewalPeriod;
 };
 
 type FileAssetRow = {
@@ -87,15 +125,18 @@ type FileAssetRow = {
 	tags: string[];
 	fileCount: number;
 	totalSize: string;
+	totalBytes: number;
 	files: AssetFile[];
 	lastUpdated: string;
+	createdAt?: string;
+	expirationDate?: string;
 };
 
 type ShowroomAssetFormValues = {
 	name: string;
 	description: string;
 	type: string;
-	tags: string;
+	tags: string[];
 	assetKind: "TEXT" | "FILE";
 	fields: AssetField[];
 	expirationDate?: Date;
@@ -108,13 +149,47 @@ const DEFAULT_FORM_VALUES: ShowroomAssetFormValues = {
 	name: "",
 	description: "",
 	type: "GENERAL",
-	tags: "",
+	tags: [],
 	assetKind: "TEXT",
 	fields: [EMPTY_FIELD],
 	expirationDate: undefined,
 	expirationNotificationsEnabled: false,
 };
 
+/** Fields of a template, or a single blank row when it has none */
+const getTemplateFormFields = (template: AssetTemplate | undefined, fields: AssetField[] = []) => {
+	const result = applyTemplateFields(template, fields);
+	return result.length ? result : [{ ...EMPTY_FIELD }];
+};
+
+const showroomAssetFormSchema = (template?: AssetTemplate) =>
+	z
+		.object({
+			name: z.string().trim().min(1, "Name is required"),
+			description: z.string(),
+			type: z.string().min(1, "Type is required"),
+			tags: z.array(z.string()),
+			assetKind: z.enum(["TEXT", "FILE"]),
+			fields: z.array(assetFieldSchema.partial({ isSecret: true })),
+			expirationDate: z.date().optional(),
+			expirationNotificationsEnabled: z.boolean(),
+		})
+		.superRefine((values, ctx) => {
+			if (values.assetKind === "TEXT") refineTemplateFields(values.fields, template, ctx);
+			if (values.expirationNotificationsEnabled && !values.expirationDate) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Pick an expiration date", path: ["expirationDate"] });
+			}
+		});
+
+type ShowroomAssetFormContext = { templates: AssetTemplate[] };
+
+// The schema depends on the selected type, so it is rebuilt from the template on every validation
+const showroomAssetFormResolver: Resolver<ShowroomAssetFormValues, ShowroomAssetFormContext> = (
+	values,
+	context,
+	options,
+) => zodResolver(showroomAssetFormSchema(findAssetTemplate(context?.templates, values.type)))(values, context, options);
+
 const extractShowroomAssets = (response: unknown): ShowroomAssetApiItem[] => {
 	if (!response) return [];
 	if (Array.isArray(response)) return response as ShowroomAssetApiItem[];
@@ -152,6 +227,8 @@ const mapTextAsset = (asset: ShowroomAssetApiItem): TextAssetRow => ({
 	fields: asset.fields ?? [],
 	createdAt: asset.createdAt,
 	lastUpdated: asset.updatedAt ?? asset.createdAt ?? "-",
+	expirationDate: asset.expirationDate,
+	renewalPeriod: asset.renewalPeriod,
 });
 
 const mapFileAsset = (asset: ShowroomAssetApiItem): FileAssetRow => {
@@ -165,34 +242,20 @@ const mapFileAsset = (asset: ShowroomAssetApiItem): FileAssetRow => {
 		tags: asset.tags ?? [],
 		fileCount: files.length,
 		totalSize: totalSizeValue ? fBytes(totalSizeValue) : "-",
+		totalBytes: totalSizeValue,
 		files,
+		createdAt: asset.createdAt,
 		lastUpdated: asset.updatedAt ?? asset.createdAt ?? "-",
+		expirationDate: asset.expirationDate,
 	};
 };
 
-const buildFileUrl = (file: AssetFile) => {
-	const baseUrl = GLOBAL_CONFIG.apiBaseUrl?.replace(/\/$/, "") || "";
-	if (file.url) {
-		if (file.url.startsWith("http://") || file.url.startsWith("https://")) return file.url;
-		const relativeUrl = file.url.startsWith("/") ? file.url : `/${file.url}`;
-		return `${baseUrl}${relativeUrl}`;
-	}
-	if (!file.relativePath) return "";
-	const path = file.relativePath.startsWith("/") ? file.relativePath : `/${file.relativePath}`;
-	return `${baseUrl}${path}`;
-};
-
-const getFileDisplayName = (file: AssetFile) => file.originalName ?? file.filename ?? "Untitled file";
-
 const buildPayload = (values: ShowroomAssetFormValues) => {
-	const payload: Record<string, unknown> = {
+	const payload: Record<string, unknown> & { fields: AssetField[] } = {
 		name: values.name.trim(),
 		description: values.description.trim(),
 		type: values.type.trim(),
-		tags: values.tags
-			.split(",")
-			.map((tag) => tag.trim())
-			.filter(Boolean),
+		tags: dedupeTags(values.tags),
 		fields: values.fields
 			.filter((field) => field.key.trim() || field.value.trim())
 			.map((field) => ({
@@ -216,12 +279,22 @@ const buildPayload = (values: ShowroomAssetFormValues) => {
 
 export default function ShowroomAssetsPage() {
 	const { showroomId } = useParams();
+	const navigate = useNavigate();
+	const [searchParams, setSearchParams] = useSearchParams();
+	const recordSecretAccess = useSecretAccessAudit(ACCESS_CONTEXTS.SHOWROOM_ASSETS, showroomId);
 	const [textAssets, setTextAssets] = useState<TextAssetRow[]>([]);
 	const [fileAssets, setFileAssets] = useState<FileAssetRow[]>([]);
 	const [assetView, setAssetView] = useState<"TEXT" | "FILE">("TEXT");
 	const [searchQuery, setSearchQuery] = useState("");
+	// Sorting and hidden columns are kept here rather than in the tables so saved views can restore them
+	const [sort, setSort] = useState<Pick<SavedViewState, "sortBy" | "sortOrder">>({});
+	const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
+	const { tagFilter, toggleTag, clearTags } = useTagFilter();
+	const { data: tagList } = useTags();
+	const tagColors = useMemo(() => getTagColorMap(tagList), [tagList]);
 	const [isDialogOpen, setIsDialogOpen] = useState(false);
-	const [editMode, setEditMode] = useState<{ id: string; name: string } | null>(null);
+	// `fields` are the stored (sealed) fields, so unchanged secrets keep their ciphertext on save
+	const [editMode, setEditMode] = useState<{ id: string; name: string; fields: AssetField[] } | null>(null);
 	const [deleteTarget, setDeleteTarget] = useState<TextAssetRow | FileAssetRow | null>(null);
 	const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
 	const [uploadTarget, setUploadTarget] = useState<TextAssetRow | FileAssetRow | null>(null);
@@ -231,20 +304,34 @@ export default function ShowroomAssetsPage() {
 	const [isSubmitting, setIsSubmitting] = useState(false);
 	const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
 	const [viewAsset, setViewAsset] = useState<ShowroomAssetApiItem | null>(null);
-	const [viewMode, setViewMode] = useState<"DETAILS" | "GALLERY">("DETAILS");
+	const viewAssetId = viewAsset?.id ?? viewAsset?._id ?? "";
+	const [isGraphOpen, setIsGraphOpen] = useState(false);
+	const [transferTarget, setTransferTarget] = useState<TransferTarget | null>(null);
+	const [renewTarget, setRenewTarget] = useState<RenewableAsset | null>(null);
+	const [filePreview, setFilePreview] = useState<FilePreviewTarget | null>(null);
+	const [viewMode, setViewMode] = useState<"DETAILS" | "GALLERY" | "DISCUSSION" | "HISTORY" | "ACCESS">("DETAILS");
 	const [revealedFields, setRevealedFields] = useState<Record<string, boolean>>({});
+	// Plaintext of encrypted values, filled on reveal or copy and cleared when another asset is viewed
+	const [decryptedValues, setDecryptedValues] = useState<Record<string, string>>({});
 	const [copiedField, setCopiedField] = useState<string | null>(null);
-	const [gallerySearch, setGallerySearch] = useState("");
 	const [fileTabView, setFileTabView] = useState<"TABLE" | "GALLERY">("TABLE");
-	const form = useForm<ShowroomAssetFormValues>({
+	const templatesQuery = useAssetTemplates();
+	const templates = resolveAssetTemplates(templatesQuery.data);
+	const form = useForm<ShowroomAssetFormValues, ShowroomAssetFormContext>({
 		defaultValues: DEFAULT_FORM_VALUES,
+		resolver: showroomAssetFormResolver,
+		context: { templates },
 	});
 	const fieldsArray = useFieldArray({
 		control: form.control,
 		name: "fields",
 	});
 	const assetKind = form.watch("assetKind");
+	const selectedTemplate = findAssetTemplate(templates, form.watch("type"));
 	const [createUploadFiles, setCreateUploadFiles] = useState<UploadFile[]>([]);
+	const uploadTasks = useUploadTasks();
+	const uploadActions = useUploadActions();
+	const pendingUploads = getPendingUploads(fileList, uploadTasks);
 
 	const fetchAssets = useCallback(async () => {
 		if (!showroomId) {
@@ -275,17 +362,18 @@ export default function ShowroomAssetsPage() {
 	};
 
 	const handleViewAsset = useCallback(
-		async (asset: TextAssetRow | FileAssetRow, initialViewMode: "DETAILS" | "GALLERY" = "DETAILS") => {
+		async (assetId: string, initialViewMode: "DETAILS" | "GALLERY" = "DETAILS") => {
 			if (!showroomId) return;
 			try {
 				const response = await apiClient.get<Record<string, unknown>>({
-					url: `/showrooms/${showroomId}/assets/${asset.id}`,
+					url: `/showrooms/${showroomId}/assets/${assetId}`,
 				});
 				const resp = response as { asset?: ShowroomAssetApiItem; data?: { asset?: ShowroomAssetApiItem } };
 				const assetData = resp.asset ?? resp.data?.asset ?? (response as unknown as ShowroomAssetApiItem);
 				setViewAsset(assetData);
 				setViewMode(initialViewMode);
 				setRevealedFields({});
+				setDecryptedValues({});
 				setIsViewDialogOpen(true);
 			} catch (error) {
 				console.error(error);
@@ -295,16 +383,92 @@ export default function ShowroomAssetsPage() {
 		[showroomId],
 	);
 
-	const handleToggleReveal = (fieldKey: string) => {
+	/**
+	 * Open a related asset: this showroom's assets in the view dialog, others on their own page
+	 */
+	const handleOpenRelated = (endpoint: AssetRelationEndpoint) => {
+		if (endpoint.showroomId === showroomId) {
+			void handleViewAsset(endpoint.assetId);
+		} else if (endpoint.showroomId) {
+			setIsViewDialogOpen(false);
+			navigate(`/showrooms/${endpoint.showroomId}/assets?asset=${endpoint.assetId}`);
+		} else {
+			navigate(`/assets?asset=${endpoint.assetId}`);
+		}
+	};
+
+	// Links from related assets arrive as ?asset=<id>
+	const linkedAssetId = searchParams.get("asset");
+	useEffect(() => {
+		if (!linkedAssetId) return;
+		setSearchParams(
+			(prev) => {
+				const next = new URLSearchParams(prev);
+				next.delete("asset");
+				return next;
+			},
+			{ replace: true },
+		);
+		void handleViewAsset(linkedAssetId);
+	}, [linkedAssetId, setSearchParams, handleViewAsset]);
+
+	const handleRestoredRevision = async (assetId: string) => {
+		if (!showroomId) return;
+		try {
+			const response = await apiClient.get<Record<string, unknown>>({
+				url: `/showrooms/${showroomId}/assets/${assetId}`,
+			});
+			const resp = response as { asset?: ShowroomAssetApiItem; data?: { asset?: ShowroomAssetApiItem } };
+			setViewAsset(resp.asset ?? resp.data?.asset ?? (response as unknown as ShowroomAssetApiItem));
+			await fetchAssets();
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to reload asset details", { position: "top-center" });
+		}
+	};
+
+	/**
+	 * Decrypt a field value once per view; resolves null when the vault stays locked
+	 */
+	const decryptFieldValue = async (fieldKey: string, value: string) => {
+		if (!isEncryptedValue(value)) return value;
+		if (decryptedValues[fieldKey] !== undefined) return decryptedValues[fieldKey];
+		try {
+			const plaintext = await revealSecretValue(value);
+			if (plaintext !== null) setDecryptedValues((prev) => ({ ...prev, [fieldKey]: plaintext }));
+			return plaintext;
+		} catch (error) {
+			console.error(error);
+			toast.error(error instanceof Error ? error.message : "Failed to decrypt value", { position: "top-center" });
+			return null;
+		}
+	};
+
+	const handleToggleReveal = async (assetId: string, fieldKey: string, field: AssetField) => {
+		if (!revealedFields[fieldKey]) {
+			if ((await decryptFieldValue(fieldKey, field.value || "")) === null) return;
+			recordSecretAccess(assetId, field, "REVEAL");
+		}
 		setRevealedFields((prev) => ({
 			...prev,
 			[fieldKey]: !prev[fieldKey],
 		}));
 	};
 
-	const handleCopy = async (value: string, fieldKey: string) => {
+	/**
+	 * Decrypt a TOTP secret to show its live code; this reveals the secret, so it is audited like one
+	 */
+	const handleShowCode = async (assetId: string, fieldKey: string, field: AssetField) => {
+		if ((await decryptFieldValue(fieldKey, field.value || "")) === null) return;
+		recordSecretAccess(assetId, field, "REVEAL");
+	};
+
+	const handleCopy = async (assetId: string, fieldKey: string, field: AssetField) => {
 		try {
-			await navigator.clipboard.writeText(value);
+			const plaintext = await decryptFieldValue(fieldKey, field.value || "");
+			if (plaintext === null) return;
+			await navigator.clipboard.writeText(plaintext);
+			recordSecretAccess(assetId, field, "COPY");
 			setCopiedField(fieldKey);
 			toast.success("Copied to clipboard", { position: "top-center" });
 			setTimeout(() => setCopiedField(null), 2000);
@@ -314,6 +478,18 @@ export default function ShowroomAssetsPage() {
 		}
 	};
 
+	const handleCreateAsset = () => {
+		const [template] = templates;
+		form.reset({ ...DEFAULT_FORM_VALUES, type: template?.name ?? "", fields: getTemplateFormFields(template) });
+		setEditMode(null);
+		setIsDialogOpen(true);
+	};
+
+	const handleTypeChange = (type: string) => {
+		form.setValue("type", type);
+		fieldsArray.replace(getTemplateFormFields(findAssetTemplate(templates, type), form.getValues("fields")));
+	};
+
 	const handleRemoveField = (index: number) => {
 		if (fieldsArray.fields.length > 1) {
 			fieldsArray.remove(index);
@@ -328,29 +504,21 @@ export default function ShowroomAssetsPage() {
 		setIsSubmitting(true);
 		try {
 			const payload = buildPayload(values);
+			const fields = await sealSecretFields(payload.fields, editMode?.fields);
+			if (!fields) {
+				toast.error("Unlock the vault to save secret fields", { position: "top-center" });
+				return;
+			}
+			payload.fields = fields;
 			if (editMode) {
 				await apiClient.patch({
 					url: `/showrooms/${showroomId}/assets/${editMode.id}`,
 					data: payload,
 				});
-				// Upload additional files if any were selected during edit
-				if (createUploadFiles.length > 0) {
-					const formData = new FormData();
-					createUploadFiles.forEach((file) => {
-						if (file.originFileObj) {
-							formData.append("files", file.originFileObj);
-						}
-					});
-					try {
-						await apiClient.post({
-							url: `/showrooms/${showroomId}/assets/${editMode.id}/files`,
-							data: formData,
-							headers: { "Content-Type": undefined },
-						});
-					} catch (uploadError) {
-						console.error(uploadError);
-						toast.error("Asset updated but file upload failed", { position: "top-center" });
-					}
+				// Additional files selected during edit continue in the upload tray
+				const files = getPendingUploads(createUploadFiles, uploadTasks);
+				if (files.length > 0) {
+					uploadActions.enqueue({ assetId: editMode.id, showroomId, assetName: values.name.trim() }, files);
 				}
 				toast.success("Showroom asset updated", { position: "top-center" });
 			} else {
@@ -368,23 +536,12 @@ export default function ShowroomAssetsPage() {
 					};
 					const newAssetId =
 						cr.asset?.id ?? cr.asset?._id ?? cr.data?.asset?.id ?? cr.data?.asset?._id ?? cr.id ?? cr._id;
+					// Files selected during creation continue in the upload tray
 					if (newAssetId) {
-						const formData = new FormData();
-						createUploadFiles.forEach((file) => {
-							if (file.originFileObj) {
-								formData.append("files", file.originFileObj);
-							}
-						});
-						try {
-							await apiClient.post({
-								url: `/showrooms/${showroomId}/assets/${newAssetId}/files`,
-								data: formData,
-								headers: { "Content-Type": undefined },
-							});
-						} catch (uploadError) {
-							console.error(uploadError);
-							toast.error("Asset created but file upload failed", { position: "top-center" });
-						}
+						uploadActions.enqueue(
+							{ assetId: newAssetId, showroomId, assetName: values.name.trim() },
+							getPendingUploads(createUploadFiles, uploadTasks),
+						);
 					}
 				}
 				toast.success("Showroom asset created", { position: "top-center" });
@@ -414,18 +571,23 @@ export default function ShowroomAssetsPage() {
 				const editResp = response as { asset?: ShowroomAssetApiItem; data?: { asset?: ShowroomAssetApiItem } };
 				const assetData = editResp.asset ?? editResp.data?.asset ?? (response as unknown as ShowroomAssetApiItem);
 				if (assetData) {
+					const fields = await openSecretFields(assetData.fields ?? []);
+					if (!fields) return;
 					const hasFiles = (assetData.files ?? []).length > 0;
 					form.reset({
 						name: assetData.name,
 						description: assetData.description || "",
 						type: assetData.type,
-						tags: (assetData.tags || []).join(", "),
+						tags: assetData.tags ?? [],
 						assetKind: hasFiles ? "FILE" : "TEXT",
-						fields: assetData.fields?.map((f) => ({ ...f, isSecret: f.isSecret ?? false })) || [EMPTY_FIELD],
+						fields: getTemplateFormFields(
+							findAssetTemplate(templates, assetData.type),
+							fields.map((f) => ({ ...f, isSecret: f.isSecret ?? false })),
+						),
 						expirationDate: assetData.expirationDate ? new Date(assetData.expirationDate) : undefined,
 						expirationNotificationsEnabled: assetData.expirationNotificationsEnabled ?? false,
 					});
-					setEditMode({ id: asset.id, name: asset.name });
+					setEditMode({ id: asset.id, name: asset.name, fields: assetData.fields ?? [] });
 					setIsDialogOpen(true);
 				}
 			} catch (error) {
@@ -433,7 +595,7 @@ export default function ShowroomAssetsPage() {
 				toast.error("Failed to load asset details", { position: "top-center" });
 			}
 		},
-		[form, showroomId],
+		[form, showroomId, templates],
 	);
 
 	const handleDeleteAsset = useCallback((asset: TextAssetRow | FileAssetRow) => {
@@ -457,12 +619,8 @@ export default function ShowroomAssetsPage() {
 		}
 	};
 
-	const handleDeleteFile = async (assetId: string, fileId: string) => {
-		if (!showroomId) return;
+	const refreshViewAsset = async (assetId: string) => {
 		try {
-			await apiClient.delete({ url: `/showrooms/${showroomId}/assets/${assetId}/files/${fileId}` });
-			toast.success("File deleted", { position: "top-center" });
-			// Refresh the view asset
 			const response = await apiClient.get<Record<string, unknown>>({
 				url: `/showrooms/${showroomId}/assets/${assetId}`,
 			});
@@ -472,74 +630,135 @@ export default function ShowroomAssetsPage() {
 			await fetchAssets();
 		} catch (error) {
 			console.error(error);
-			toast.error("Failed to delete file", { position: "top-center" });
 		}
 	};
 
+	const handleDeleteFiles = async (assetId: string, fileIds: string[]) => {
+		if (!showroomId) return;
+		let failed = 0;
+		for (const fileId of fileIds) {
+			try {
+				await apiClient.delete({ url: `/showrooms/${showroomId}/assets/${assetId}/files/${fileId}` });
+			} catch (error) {
+				console.error(error);
+				failed++;
+			}
+		}
+		if (failed) {
+			toast.error(`Failed to delete ${failed === 1 ? "file" : `${failed} files`}`, { position: "top-center" });
+		} else {
+			toast.success(fileIds.length === 1 ? "File deleted" : `${fileIds.length} files deleted`, {
+				position: "top-center",
+			});
+		}
+		await refreshViewAsset(assetId);
+	};
+
+	const handleMoveFiles = async (assetId: string, moves: FileMove<AssetFile>[]) => {
+		if (!showroomId) return;
+		let failed = 0;
+		for (const { file, data } of moves) {
+			if (!file.id) continue;
+			try {
+				await assetService.updateAssetFile({ id: assetId, fileId: file.id, data, scope: { showroomId } });
+			} catch (error) {
+				console.error(error);
+				failed++;
+			}
+		}
+		if (failed) {
+			toast.error(`Failed to move ${failed === 1 ? "file" : `${failed} files`}`, { position: "top-center" });
+		} else {
+			toast.success(moves.length === 1 ? "File updated" : `${moves.length} files moved`, { position: "top-center" });
+		}
+		await refreshViewAsset(assetId);
+	};
+
 	const handleOpenUpload = useCallback((asset: TextAssetRow | FileAssetRow) => {
 		setUploadTarget(asset);
 		setFileList([]);
 		setIsUploadDialogOpen(true);
 	}, []);
 
-	const handleUploadFiles = async () => {
-		if (!showroomId || !uploadTarget || fileList.length === 0) return;
-		setIsSubmitting(true);
-		try {
-			const formData = new FormData();
-			fileList.forEach((file) => {
-				if (file.originFileObj) {
-					formData.append("files", file.originFileObj);
-				}
-			});
-
-			await apiClient.post({
-				url: `/showrooms/${showroomId}/assets/${uploadTarget.id}/files`,
-				data: formData,
-				headers: { "Content-Type": undefined },
-			});
-			toast.success("Files uploaded successfully", { position: "top-center" });
-			setIsUploadDialogOpen(false);
-			setUploadTarget(null);
-			setFileList([]);
-			await fetchAssets();
-		} catch (error) {
-			console.error(error);
-			toast.error("Failed to upload files", { position: "top-center" });
-		} finally {
-			setIsSubmitting(false);
-		}
+	// The dialog stays open to show per-file progress; closing it leaves the uploads running in the tray
+	const handleUploadFiles = () => {
+		if (!showroomId || !uploadTarget || pendingUploads.length === 0) return;
+		uploadActions.enqueue({ assetId: uploadTarget.id, showroomId, assetName: uploadTarget.name }, pendingUploads);
 	};
 
-	const normalizedSearch = searchQuery.trim().toLowerCase();
-	const filteredTextAssets = useMemo(() => {
-		if (!normalizedSearch) return textAssets;
-		return textAssets.filter((asset) => {
-			const fieldsMatch =
-				asset.fields?.some((field) =>
-					`${field.key} ${field.type} ${field.value}`.toLowerCase().includes(normalizedSearch),
-				) ?? false;
-			const tagsMatch = asset.tags?.some((tag) => tag.toLowerCase().includes(normalizedSearch)) ?? false;
-			return (
-				asset.name.toLowerCase().includes(normalizedSearch) ||
-				asset.type.toLowerCase().includes(normalizedSearch) ||
-				fieldsMatch ||
-				tagsMatch
-			);
-		});
-	}, [normalizedSearch, textAssets]);
-
-	const filteredFileAssets = useMemo(() => {
-		if (!normalizedSearch) return fileAssets;
-		return fileAssets.filter((asset) => {
-			const tagsMatch = asset.tags?.some((tag) => tag.toLowerCase().includes(normalizedSearch)) ?? false;
-			return (
-				asset.name.toLowerCase().includes(normalizedSearch) ||
-				asset.type.toLowerCase().includes(normalizedSearch) ||
-				tagsMatch
-			);
-		});
-	}, [normalizedSearch, fileAssets]);
+	useUploadCompleted(
+		useCallback(
+			(task: UploadTask) => {
+				if (task.showroomId === showroomId) void fetchAssets();
+			},
+			[showroomId, fetchAssets],
+		),
+	);
+
+	const parsedSearch = useMemo(() => parseAssetSearch(searchQuery), [searchQuery]);
+	// Suggest what the loaded assets actually contain, next to the tenant's templates and tags
+	const searchSuggestions = useMemo(() => {
+		const assets = [...textAssets, ...fileAssets];
+		return {
+			types: Array.from(new Set([...templates.map((template) => template.name), ...assets.map((asset) => asset.type)])),
+			tags: Array.from(new Set([...(tagList?.map((tag) => tag.name) ?? []), ...assets.flatMap((asset) => asset.tags)])),
+			fields: Array.from(new Set(textAssets.flatMap((asset) => asset.fields.map((field) => field.key)))),
+		};
+	}, [textAssets, fileAssets, templates, tagList]);
+
+	const filteredTextAssets = useMemo(
+		() =>
+			textAssets.filter(
+				(asset) =>
+					matchesTagFilter(asset.tags, tagFilter) &&
+					matchesAssetSearch({ ...asset, updatedAt: asset.lastUpdated }, parsedSearch),
+			),
+		[parsedSearch, textAssets, tagFilter],
+	);
+
+	const filteredFileAssets = useMemo(
+		() =>
+			fileAssets.filter(
+				(asset) =>
+					matchesTagFilter(asset.tags, tagFilter) &&
+					matchesAssetSearch({ ...asset, updatedAt: asset.lastUpdated, size: asset.totalBytes }, parsedSearch),
+			),
+		[parsedSearch, fileAssets, tagFilter],
+	);
+
+	const getSortOrder = useCallback(
+		(key: string): AntdSortOrder => {
+			if (sort.sortBy !== key) return null;
+			return sort.sortOrder === "asc" ? "ascend" : "descend";
+		},
+		[sort],
+	);
+
+	const handleTableChange = useCallback(
+		(
+			_pagination: unknown,
+			_filters: unknown,
+			sorter: { order?: AntdSortOrder; columnKey?: Key } | { order?: AntdSortOrder; columnKey?: Key }[],
+		) => {
+			const activeSorter = Array.isArray(sorter) ? sorter[0] : sorter;
+			const sortOrder =
+				activeSorter?.order === "ascend" ? "asc" : activeSorter?.order === "descend" ? "desc" : undefined;
+			setSort(sortOrder ? { sortBy: String(activeSorter?.columnKey), sortOrder } : {});
+		},
+		[],
+	);
+
+	const viewState = useMemo<SavedViewState>(
+		() => ({ search: searchQuery, tags: tagFilter, ...sort, hiddenColumns, tab: assetView }),
+		[searchQuery, tagFilter, sort, hiddenColumns, assetView],
+	);
+
+	const handleApplyView = useCallback((state: SavedViewState) => {
+		setSearchQuery(state.search ?? "");
+		setSort({ sortBy: state.sortBy, sortOrder: state.sortOrder });
+		setHiddenColumns(state.hiddenColumns ?? []);
+		setAssetView(state.tab === "FILE" ? "FILE" : "TEXT");
+	}, []);
 
 	const textColumns = useMemo<ColumnsType<TextAssetRow>>(
 		() => [
@@ -549,6 +768,7 @@ export default function ShowroomAssetsPage() {
 				key: "name",
 				width: 240,
 				sorter: (a, b) => a.name.localeCompare(b.name),
+				sortOrder: getSortOrder("name"),
 				render: (_: string, record: TextAssetRow) => (
 					<div className="space-y-1">
 						<div className="text-sm font-semibold text-foreground">{record.name}</div>
@@ -562,6 +782,7 @@ export default function ShowroomAssetsPage() {
 				key: "type",
 				width: 160,
 				sorter: (a, b) => a.type.localeCompare(b.type),
+				sortOrder: getSortOrder("type"),
 			},
 			{
 				title: "Tags",
@@ -572,9 +793,13 @@ export default function ShowroomAssetsPage() {
 					<div className="flex flex-wrap gap-2">
 						{tags.length ? (
 							tags.map((tag) => (
-								<Badge key={tag} variant="secondary">
-									{tag}
-								</Badge>
+								<TagBadge
+									key={tag}
+									tag={tag}
+									color={tagColors[tag]}
+									active={tagFilter.includes(tag)}
+									onClick={() => toggleTag(tag)}
+								/>
 							))
 						) : (
 							<span className="text-xs text-muted-foreground">No tags</span>
@@ -597,7 +822,11 @@ export default function ShowroomAssetsPage() {
 							{fields.map((field, index) => (
 								<div key={`${field.key}-${field.type}-${index}`} className="flex items-center justify-between gap-3">
 									<span className="truncate text-foreground">{field.key || "Untitled"}</span>
-									<span className="truncate">{field.value || "-"}</span>
+									<span className="truncate">
+										{field.isSecret
+											? "••••••"
+											: (field.type === "NOTE" ? markdownToPlainText(field.value ?? "") : field.value) || "-"}
+									</span>
 								</div>
 							))}
 						</div>
@@ -610,21 +839,36 @@ export default function ShowroomAssetsPage() {
 				key: "lastUpdated",
 				width: 140,
 				sorter: (a, b) => new Date(a.lastUpdated).getTime() - new Date(b.lastUpdated).getTime(),
+				sortOrder: getSortOrder("lastUpdated"),
 				render: (value: string) => <span className="text-xs text-muted-foreground">{formatDate(value)}</span>,
 			},
 			{
 				title: "Actions",
 				key: "actions",
-				width: 200,
+				width: 380,
 				fixed: "right",
 				render: (_: any, record: TextAssetRow) => (
 					<div className="flex items-center gap-2">
-						<Button type="button" variant="secondary" size="sm" onClick={() => void handleViewAsset(record)}>
+						<Button type="button" variant="secondary" size="sm" onClick={() => void handleViewAsset(record.id)}>
 							View
 						</Button>
 						<Button type="button" variant="outline" size="sm" onClick={() => void handleEditAsset(record)}>
 							Edit
 						</Button>
+						{record.expirationDate && (
+							<Button
+								type="button"
+								variant="outline"
+								size="sm"
+								onClick={() => setRenewTarget({ ...record, showroomId })}
+							>
+								Renew
+							</Button>
+						)}
+						<TransferMenu
+							modes={["PROMOTE", "COPY", "MOVE"]}
+							onSelect={(mode) => setTransferTarget({ mode, asset: record })}
+						/>
 						<Button type="button" variant="destructive" size="sm" onClick={() => handleDeleteAsset(record)}>
 							Delete
 						</Button>
@@ -632,7 +876,7 @@ export default function ShowroomAssetsPage() {
 				),
 			},
 		],
-		[handleEditAsset, handleViewAsset, handleDeleteAsset],
+		[handleEditAsset, handleViewAsset, handleDeleteAsset, tagColors, tagFilter, toggleTag, getSortOrder, showroomId],
 	);
 
 	const fileColumns = useMemo<ColumnsType<FileAssetRow>>(
@@ -643,6 +887,7 @@ export default function ShowroomAssetsPage() {
 				key: "name",
 				width: 220,
 				sorter: (a, b) => a.name.localeCompare(b.name),
+				sortOrder: getSortOrder("name"),
 			},
 			{
 				title: "Type",
@@ -650,6 +895,7 @@ export default function ShowroomAssetsPage() {
 				key: "type",
 				width: 120,
 				sorter: (a, b) => a.type.localeCompare(b.type),
+				sortOrder: getSortOrder("type"),
 			},
 			{
 				title: "Tags",
@@ -660,9 +906,13 @@ export default function ShowroomAssetsPage() {
 					<div className="flex flex-wrap gap-2">
 						{tags.length ? (
 							tags.map((tag) => (
-								<Badge key={tag} variant="secondary">
-									{tag}
-								</Badge>
+								<TagBadge
+									key={tag}
+									tag={tag}
+									color={tagColors[tag]}
+									active={tagFilter.includes(tag)}
+									onClick={() => toggleTag(tag)}
+								/>
 							))
 						) : (
 							<span className="text-xs text-muted-foreground">No tags</span>
@@ -688,19 +938,25 @@ export default function ShowroomAssetsPage() {
 				key: "lastUpdated",
 				width: 140,
 				sorter: (a, b) => new Date(a.lastUpdated).getTime() - new Date(b.lastUpdated).getTime(),
+				sortOrder: getSortOrder("lastUpdated"),
 				render: (value: string) => <span className="text-xs text-muted-foreground">{formatDate(value)}</span>,
 			},
 			{
 				title: "Actions",
 				key: "actions",
-				width: 260,
+				width: 340,
 				fixed: "right",
 				render: (_: any, record: FileAssetRow) => (
 					<div className="flex flex-wrap items-center gap-2">
-						<Button type="button" variant="secondary" size="sm" onClick={() => void handleViewAsset(record)}>
+						<Button type="button" variant="secondary" size="sm" onClick={() => void handleViewAsset(record.id)}>
 							View
 						</Button>
-						<Button type="button" variant="secondary" size="sm" onClick={() => void handleViewAsset(record, "GALLERY")}>
+						<Button
+							type="button"
+							variant="secondary"
+							size="sm"
+							onClick={() => void handleViewAsset(record.id, "GALLERY")}
+						>
 							<ImageIcon className="mr-1 h-4 w-4" />
 							Gallery
 						</Button>
@@ -710,6 +966,10 @@ export default function ShowroomAssetsPage() {
 						<Button type="button" variant="outline" size="sm" onClick={() => void handleEditAsset(record)}>
 							Edit
 						</Button>
+						<TransferMenu
+							modes={["PROMOTE", "COPY", "MOVE"]}
+							onSelect={(mode) => setTransferTarget({ mode, asset: record })}
+						/>
 						<Button type="button" variant="destructive" size="sm" onClick={() => handleDeleteAsset(record)}>
 							Delete
 						</Button>
@@ -717,7 +977,16 @@ export default function ShowroomAssetsPage() {
 				),
 			},
 		],
-		[handleEditAsset, handleViewAsset, handleDeleteAsset, handleOpenUpload],
+		[
+			handleEditAsset,
+			handleViewAsset,
+			handleDeleteAsset,
+			handleOpenUpload,
+			tagColors,
+			tagFilter,
+			toggleTag,
+			getSortOrder,
+		],
 	);
 
 	return (
@@ -731,26 +1000,44 @@ export default function ShowroomAssetsPage() {
 								Manage assets for showroom: <span className="font-medium text-foreground">{showroomId ?? "-"}</span>
 							</div>
 						</div>
-						<Button type="button" onClick={() => setIsDialogOpen(true)}>
+						<Button type="button" onClick={handleCreateAsset}>
 							Add Asset
 						</Button>
 					</div>
 				</CardHeader>
 				<CardContent>
+					<SavedViewTabs page="SHOWROOM_ASSETS" state={viewState} onApply={handleApplyView} className="mb-4" />
 					<Tabs value={assetView} onValueChange={(v) => setAssetView(v as "TEXT" | "FILE")} className="w-full">
 						<div className="mb-4 flex items-center justify-between gap-4">
 							<TabsList>
 								<TabsTrigger value="TEXT">Text Assets ({textAssets.length})</TabsTrigger>
 								<TabsTrigger value="FILE">File Assets ({fileAssets.length})</TabsTrigger>
 							</TabsList>
-							<div className="w-full sm:w-[280px]">
-								<Input
-									placeholder="Search assets..."
+							<div className="flex w-full items-start gap-2 sm:w-auto">
+								<AssetSearchInput
 									value={searchQuery}
-									onChange={(event) => setSearchQuery(event.target.value)}
+									onChange={setSearchQuery}
+									suggestions={searchSuggestions}
+									className="min-w-0 flex-1 sm:w-[360px]"
+								/>
+								<ColumnPicker
+									columns={getColumnOptions(assetView === "TEXT" ? textColumns : fileColumns)}
+									hiddenColumns={hiddenColumns}
+									onChange={setHiddenColumns}
 								/>
 							</div>
 						</div>
+						{tagFilter.length > 0 && (
+							<div className="mb-4 flex flex-wrap items-center gap-2">
+								<span className="text-xs text-muted-foreground">Tagged</span>
+								{tagFilter.map((tag) => (
+									<TagBadge key={tag} tag={tag} color={tagColors[tag]} onRemove={() => toggleTag(tag)} />
+								))}
+								<Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={clearTags}>
+									Clear
+								</Button>
+							</div>
+						)}
 
 						<TabsContent value="TEXT" className="mt-0">
 							<div className="rounded-lg border bg-background/40 p-2 shadow-sm">
@@ -761,8 +1048,9 @@ export default function ShowroomAssetsPage() {
 									pagination={{ pageSize: 8, showSizeChanger: true }}
 									loading={isLoading}
 									locale={{ emptyText: showroomId ? "No text assets found" : "Missing showroom ID" }}
-									columns={textColumns}
+									columns={filterVisibleColumns(textColumns, hiddenColumns)}
 									dataSource={filteredTextAssets}
+									onChange={handleTableChange}
 									bordered
 									rowClassName={() => "hover:bg-muted/40"}
 								/>
@@ -798,8 +1086,9 @@ export default function ShowroomAssetsPage() {
 										pagination={{ pageSize: 8, showSizeChanger: true }}
 										loading={isLoading}
 										locale={{ emptyText: showroomId ? "No file assets found" : "Missing showroom ID" }}
-										columns={fileColumns}
+										columns={filterVisibleColumns(fileColumns, hiddenColumns)}
 										dataSource={filteredFileAssets}
+										onChange={handleTableChange}
 										bordered
 										rowClassName={() => "hover:bg-muted/40"}
 									/>
@@ -833,22 +1122,10 @@ export default function ShowroomAssetsPage() {
 														</div>
 													</div>
 													{(() => {
-														const imageFile = asset.files.find((f) => f.mimeType?.startsWith("image/"));
-														const imgUrl = imageFile ? buildFileUrl(imageFile) : "";
-														return imgUrl ? (
+														const coverFile = asset.files.find(canHaveThumbnail);
+														return coverFile ? (
 															<div className="h-32 overflow-hidden">
-																<img
-																	src={imgUrl}
-																	alt={asset.name}
-																	className="h-full w-full object-cover"
-																	onError={(e) => {
-																		const parent = e.currentTarget.parentElement;
-																		if (parent) {
-																			parent.innerHTML =
-																				'<div class="flex h-full items-center justify-center text-xs text-muted-foreground">No preview</div>';
-																		}
-																	}}
-																/>
+																<FileThumbnail file={coverFile} />
 															</div>
 														) : (
 															<div className="flex h-32 items-center justify-center bg-muted/10 text-xs text-muted-foreground">
@@ -862,7 +1139,7 @@ export default function ShowroomAssetsPage() {
 															variant="secondary"
 															size="sm"
 															className="flex-1"
-															onClick={() => void handleViewAsset(asset, "GALLERY")}
+															onClick={() => void handleViewAsset(asset.id, "GALLERY")}
 														>
 															<ImageIcon className="mr-1 h-3 w-3" />
 															View
@@ -887,9 +1164,14 @@ export default function ShowroomAssetsPage() {
 													<div className="flex flex-wrap gap-1 px-3 pb-3">
 														{asset.tags.length > 0 &&
 															asset.tags.map((tag) => (
-																<Badge key={tag} variant="outline" className="text-[10px]">
-																	{tag}
-																</Badge>
+																<TagBadge
+																	key={tag}
+																	tag={tag}
+																	color={tagColors[tag]}
+																	active={tagFilter.includes(tag)}
+																	className="text-[10px]"
+																	onClick={() => toggleTag(tag)}
+																/>
 															))}
 													</div>
 												</div>
@@ -929,6 +1211,7 @@ export default function ShowroomAssetsPage() {
 											<FormControl>
 												<Input placeholder="Canva Design Link" {...field} />
 											</FormControl>
+											<FormMessage />
 										</FormItem>
 									)}
 								/>
@@ -939,18 +1222,27 @@ export default function ShowroomAssetsPage() {
 										<FormItem>
 											<FormLabel>Asset Type</FormLabel>
 											<FormControl>
-												<Select value={field.value} onValueChange={field.onChange}>
+												<Select value={field.value} onValueChange={handleTypeChange}>
 													<SelectTrigger>
 														<SelectValue placeholder="Select type" />
 													</SelectTrigger>
 													<SelectContent>
-														<SelectItem value="GENERAL">GENERAL</SelectItem>
-														<SelectItem value="CREDENTIALS">CREDENTIALS</SelectItem>
-														<SelectItem value="FILES">FILES</SelectItem>
-														<SelectItem value="LINKS">LINKS</SelectItem>
+														{templates.map((template) => (
+															<SelectItem key={template.id} value={template.name}>
+																{template.name}
+															</SelectItem>
+														))}
+														{/* Assets created before a template was renamed or removed keep their type */}
+														{field.value && !selectedTemplate && (
+															<SelectItem value={field.value}>{field.value}</SelectItem>
+														)}
 													</SelectContent>
 												</Select>
 											</FormControl>
+											{selectedTemplate?.description && (
+												<div className="text-xs text-muted-foreground">{selectedTemplate.description}</div>
+											)}
+											<FormMessage />
 										</FormItem>
 									)}
 								/>
@@ -997,7 +1289,7 @@ export default function ShowroomAssetsPage() {
 										<FormItem>
 											<FormLabel>Tags</FormLabel>
 											<FormControl>
-												<Input placeholder="tag1, tag2, tag3 (comma separated)" {...field} />
+												<TagInput value={field.value} onChange={field.onChange} placeholder="tag1, tag2, tag3" />
 											</FormControl>
 										</FormItem>
 									)}
@@ -1038,88 +1330,132 @@ export default function ShowroomAssetsPage() {
 											Add Field
 										</Button>
 									</div>
+									{form.formState.errors.fields?.root?.message && (
+										<div className="text-xs text-error">{form.formState.errors.fields.root.message}</div>
+									)}
 									<div className="space-y-4">
-										{fieldsArray.fields.map((fieldItem, index) => (
-											<div
-												key={fieldItem.id}
-												className="grid gap-4 rounded-md border p-4 md:grid-cols-[1.3fr_0.9fr_1.3fr_0.6fr_auto]"
-											>
-												<FormField
-													control={form.control}
-													name={`fields.${index}.key`}
-													render={({ field }) => (
-														<FormItem>
-															<FormLabel>Key</FormLabel>
-															<FormControl>
-																<Input placeholder="url" {...field} />
-															</FormControl>
-														</FormItem>
-													)}
-												/>
-												<FormField
-													control={form.control}
-													name={`fields.${index}.type`}
-													render={({ field }) => (
-														<FormItem>
-															<FormLabel>Type</FormLabel>
-															<FormControl>
-																<Select value={field.value} onValueChange={field.onChange}>
-																	<SelectTrigger>
-																		<SelectValue placeholder="Select type" />
-																	</SelectTrigger>
-																	<SelectContent>
-																		<SelectItem value="TEXT">TEXT</SelectItem>
-																		<SelectItem value="URL">URL</SelectItem>
-																		<SelectItem value="USERNAME">USERNAME</SelectItem>
-																		<SelectItem value="PASSWORD">PASSWORD</SelectItem>
-																		<SelectItem value="EMAIL">EMAIL</SelectItem>
-																		<SelectItem value="NOTE">NOTE</SelectItem>
-																		<SelectItem value="NUMBER">NUMBER</SelectItem>
-																	</SelectContent>
-																</Select>
-															</FormControl>
-														</FormItem>
-													)}
-												/>
-												<FormField
-													control={form.control}
-													name={`fields.${index}.value`}
-													render={({ field }) => (
-														<FormItem>
-															<FormLabel>Value</FormLabel>
-															<FormControl>
-																<Input placeholder="https://canva.com/design/123" {...field} />
-															</FormControl>
-														</FormItem>
-													)}
-												/>
-												<FormField
-													control={form.control}
-													name={`fields.${index}.isSecret`}
-													render={({ field }) => (
-														<FormItem>
-															<FormLabel>Secret</FormLabel>
-															<FormControl>
-																<div className="flex h-9 items-center">
-																	<Switch checked={field.value ?? false} onCheckedChange={field.onChange} />
-																</div>
-															</FormControl>
-														</FormItem>
-													)}
-												/>
-												<div className="flex items-end">
-													<Button
-														type="button"
-														variant="ghost"
-														size="sm"
-														onClick={() => handleRemoveField(index)}
-														disabled={fieldsArray.fields.length === 1}
-													>
-														Remove
-													</Button>
+										{fieldsArray.fields.map((fieldItem, index) => {
+											const templateField = findTemplateField(selectedTemplate, form.watch(`fields.${index}.key`));
+											return (
+												<div
+													key={fieldItem.id}
+													className="grid gap-4 rounded-md border p-4 md:grid-cols-[1.3fr_0.9fr_1.3fr_0.6fr_auto]"
+												>
+													<FormField
+														control={form.control}
+														name={`fields.${index}.key`}
+														render={({ field }) => (
+															<FormItem>
+																<FormLabel>Key</FormLabel>
+																<FormControl>
+																	<Input placeholder="url" {...field} />
+																</FormControl>
+																<FormMessage />
+															</FormItem>
+														)}
+													/>
+													<FormField
+														control={form.control}
+														name={`fields.${index}.type`}
+														render={({ field }) => (
+															<FormItem>
+																<FormLabel>Type</FormLabel>
+																<FormControl>
+																	<Select value={field.value} onValueChange={field.onChange}>
+																		<SelectTrigger>
+																			<SelectValue placeholder="Select type" />
+																		</SelectTrigger>
+																		<SelectContent>
+																			{ASSET_FIELD_TYPES.map((type) => (
+																				<SelectItem key={type} value={type}>
+																					{type}
+																				</SelectItem>
+																			))}
+																		</SelectContent>
+																	</Select>
+																</FormControl>
+															</FormItem>
+														)}
+													/>
+													<FormField
+														control={form.control}
+														name={`fields.${index}.value`}
+														render={({ field }) => (
+															<FormItem
+																className={cn(
+																	form.watch(`fields.${index}.type`) === "NOTE" && "md:order-last md:col-span-full",
+																)}
+															>
+																<FormLabel>{templateField?.required ? "Value *" : "Value"}</FormLabel>
+																{form.watch(`fields.${index}.type`) === "NOTE" ? (
+																	<FormControl>
+																		<MarkdownEditor
+																			value={field.value ?? ""}
+																			onChange={field.onChange}
+																			placeholder={templateField?.placeholder}
+																		/>
+																	</FormControl>
+																) : form.watch(`fields.${index}.type`) === "PASSWORD" ? (
+																	<>
+																		<div className="flex gap-2">
+																			<FormControl>
+																				<Input
+																					placeholder={templateField?.placeholder ?? "https://canva.com/design/123"}
+																					{...field}
+																				/>
+																			</FormControl>
+																			<PasswordGenerator
+																				onUse={(password) => {
+																					field.onChange(password);
+																					form.setValue(`fields.${index}.isSecret`, true);
+																				}}
+																			/>
+																		</div>
+																		<PasswordStrengthMeter password={field.value ?? ""} />
+																	</>
+																) : (
+																	<FormControl>
+																		<Input
+																			placeholder={templateField?.placeholder ?? "https://canva.com/design/123"}
+																			{...field}
+																		/>
+																	</FormControl>
+																)}
+																{form.watch(`fields.${index}.type`) === "TOTP" && field.value && (
+																	<TotpCode value={field.value} />
+																)}
+																<FormMessage />
+															</FormItem>
+														)}
+													/>
+													<FormField
+														control={form.control}
+														name={`fields.${index}.isSecret`}
+														render={({ field }) => (
+															<FormItem>
+																<FormLabel>Secret</FormLabel>
+																<FormControl>
+																	<div className="flex h-9 items-center">
+																		<Switch checked={field.value ?? false} onCheckedChange={field.onChange} />
+																	</div>
+																</FormControl>
+															</FormItem>
+														)}
+													/>
+													<div className="flex items-end">
+														<Button
+															type="button"
+															variant="ghost"
+															size="sm"
+															onClick={() => handleRemoveField(index)}
+															disabled={fieldsArray.fields.length === 1 || templateField?.required}
+														>
+															Remove
+														</Button>
+													</div>
 												</div>
-											</div>
-										))}
+											);
+										})}
 									</div>
 								</div>
 							)}
@@ -1157,6 +1493,7 @@ export default function ShowroomAssetsPage() {
 														minDate={new Date()}
 													/>
 												</FormControl>
+												<FormMessage />
 												<div className="text-xs text-muted-foreground">
 													You will receive reminders 5 days, 3 days, 2 days before, and on the expiration day.
 												</div>
@@ -1200,8 +1537,8 @@ export default function ShowroomAssetsPage() {
 						</div>
 						<Upload
 							multiple
-							maxCount={5}
-							fileList={fileList}
+							folders
+							fileList={withUploadProgress(fileList, uploadTasks)}
 							onChange={({ fileList }: UploadChangeParam) => {
 								setFileList(
 									fileList.map((file) => ({
@@ -1210,26 +1547,20 @@ export default function ShowroomAssetsPage() {
 									})),
 								);
 							}}
+							onRemove={(file) => uploadActions.cancel(file.uid)}
 							beforeUpload={() => false}
-							thumbnail
 						/>
-						<div className="text-xs text-muted-foreground">Select up to 5 files to upload.</div>
+						<div className="text-xs text-muted-foreground">
+							Files from a folder keep their folder path. Large files are sent in chunks and keep uploading after you
+							close this dialog.
+						</div>
 					</div>
 					<DialogFooter className="mt-6">
-						<Button
-							type="button"
-							variant="outline"
-							onClick={() => setIsUploadDialogOpen(false)}
-							disabled={isSubmitting}
-						>
-							Cancel
+						<Button type="button" variant="outline" onClick={() => setIsUploadDialogOpen(false)}>
+							Close
 						</Button>
-						<Button
-							type="button"
-							onClick={() => void handleUploadFiles()}
-							disabled={isSubmitting || fileList.length === 0}
-						>
-							{isSubmitting ? "Uploading..." : "Upload files"}
+						<Button type="button" onClick={handleUploadFiles} disabled={pendingUploads.length === 0}>
+							Upload files
 						</Button>
 					</DialogFooter>
 				</DialogContent>
@@ -1245,6 +1576,11 @@ export default function ShowroomAssetsPage() {
 							Are you sure you want to delete{" "}
 							<span className="font-semibold text-foreground">{deleteTarget?.name}</span>? This action cannot be undone.
 						</p>
+						{deleteTarget && (
+							<div className="mt-3">
+								<DependentsWarning targets={[{ assetId: deleteTarget.id, showroomId }]} />
+							</div>
+						)}
 					</div>
 					<DialogFooter className="gap-2 sm:gap-0">
 						<Button type="button" variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
@@ -1258,27 +1594,21 @@ export default function ShowroomAssetsPage() {
 			</Dialog>
 
 			{/* View Asset Dialog */}
-			<Dialog
-				open={isViewDialogOpen}
-				onOpenChange={(open) => {
-					setIsViewDialogOpen(open);
-					if (!open) setGallerySearch("");
-				}}
-			>
+			<Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
 				<DialogContent className="w-[95vw] max-w-5xl max-h-[92vh]">
 					<DialogHeader>
 						<DialogTitle className="flex items-center justify-between">
 							<span>{viewAsset?.name || "Asset Details"}</span>
-							{(viewAsset?.files?.length ?? 0) > 0 && (
-								<div className="flex items-center gap-2">
-									<Button
-										type="button"
-										variant={viewMode === "DETAILS" ? "default" : "outline"}
-										size="sm"
-										onClick={() => setViewMode("DETAILS")}
-									>
-										Details
-									</Button>
+							<div className="flex items-center gap-2">
+								<Button
+									type="button"
+									variant={viewMode === "DETAILS" ? "default" : "outline"}
+									size="sm"
+									onClick={() => setViewMode("DETAILS")}
+								>
+									Details
+								</Button>
+								{(viewAsset?.files?.length ?? 0) > 0 && (
 									<Button
 										type="button"
 										variant={viewMode === "GALLERY" ? "default" : "outline"}
@@ -1288,8 +1618,35 @@ export default function ShowroomAssetsPage() {
 										<ImageIcon className="mr-1 h-4 w-4" />
 										Gallery
 									</Button>
-								</div>
-							)}
+								)}
+								<Button
+									type="button"
+									variant={viewMode === "DISCUSSION" ? "default" : "outline"}
+									size="sm"
+									onClick={() => setViewMode("DISCUSSION")}
+								>
+									<MessageSquare className="mr-1 h-4 w-4" />
+									Discussion
+								</Button>
+								<Button
+									type="button"
+									variant={viewMode === "HISTORY" ? "default" : "outline"}
+									size="sm"
+									onClick={() => setViewMode("HISTORY")}
+								>
+									<History className="mr-1 h-4 w-4" />
+									History
+								</Button>
+								<Button
+									type="button"
+									variant={viewMode === "ACCESS" ? "default" : "outline"}
+									size="sm"
+									onClick={() => setViewMode("ACCESS")}
+								>
+									<ScrollText className="mr-1 h-4 w-4" />
+									Access log
+								</Button>
+							</div>
 						</DialogTitle>
 					</DialogHeader>
 
@@ -1317,322 +1674,200 @@ export default function ShowroomAssetsPage() {
 									<div className="text-xs font-semibold uppercase text-muted-foreground mb-2">Tags</div>
 									<div className="flex flex-wrap gap-2">
 										{viewAsset.tags?.map((tag) => (
-											<Badge key={tag} variant="outline">
-												{tag}
-											</Badge>
+											<TagBadge key={tag} tag={tag} color={tagColors[tag]} />
 										))}
 									</div>
 								</div>
 							)}
 
-							{viewMode === "DETAILS" ? (
+							{viewMode === "DISCUSSION" ? (
+								<DiscussionPanel target={{ assetId: viewAssetId, showroomId }} />
+							) : viewMode === "HISTORY" ? (
+								<AssetHistory
+									assetId={viewAssetId}
+									showroomId={showroomId}
+									onRestored={() => void handleRestoredRevision(viewAssetId)}
+								/>
+							) : viewMode === "ACCESS" ? (
+								<AssetAccessLog assetId={viewAssetId} showroomId={showroomId} />
+							) : viewMode === "DETAILS" ? (
 								<>
 									{/* Fields */}
 									{(viewAsset.fields?.length ?? 0) > 0 && (
 										<div>
 											<div className="text-xs font-semibold uppercase text-muted-foreground mb-3">Fields</div>
 											<div className="space-y-3">
-												{viewAsset.fields?.map((field, index) => (
-													<div
-														key={`${field.key}-${index}`}
-														className="flex items-center justify-between gap-3 rounded-lg border bg-muted/30 p-3"
-													>
-														<div className="flex-1 min-w-0">
-															<div className="flex items-center gap-2 mb-1">
-																<div className="text-xs font-semibold text-muted-foreground uppercase">{field.key}</div>
-																<Badge variant="outline" className="text-[10px]">
-																	{field.type}
-																</Badge>
-																{field.isSecret && (
-																	<Badge variant="secondary" className="text-[10px]">
-																		Secret
+												{viewAsset.fields?.map((field, index) => {
+													const fieldKey = `field-${index}`;
+													const value = decryptedValues[fieldKey] ?? field.value ?? "";
+													const isLocked = isEncryptedValue(value);
+													return (
+														<div
+															key={`${field.key}-${index}`}
+															className="flex items-center justify-between gap-3 rounded-lg border bg-muted/30 p-3"
+														>
+															<div className="flex-1 min-w-0">
+																<div className="flex items-center gap-2 mb-1">
+																	<div className="text-xs font-semibold text-muted-foreground uppercase">
+																		{field.key}
+																	</div>
+																	<Badge variant="outline" className="text-[10px]">
+																		{field.type}
 																	</Badge>
-																)}
-															</div>
-															<div className="text-sm font-mono break-all">
-																{field.isSecret && !revealedFields[`field-${index}`] ? "••••••••" : field.value || "-"}
-															</div>
-														</div>
-														<div className="flex items-center gap-1 shrink-0">
-															{field.isSecret && (
-																<Button
-																	type="button"
-																	variant="ghost"
-																	size="icon"
-																	onClick={() => handleToggleReveal(`field-${index}`)}
-																>
-																	{revealedFields[`field-${index}`] ? (
-																		<EyeOff className="h-4 w-4" />
-																	) : (
-																		<Eye className="h-4 w-4" />
+																	{field.isSecret && (
+																		<Badge variant="secondary" className="text-[10px]">
+																			Secret
+																		</Badge>
 																	)}
-																</Button>
-															)}
-															<Button
-																type="button"
-																variant="ghost"
-																size="icon"
-																onClick={() => void handleCopy(field.value || "", `field-${index}`)}
-															>
-																{copiedField === `field-${index}` ? (
-																	<Check className="h-4 w-4 text-green-500" />
+																</div>
+																{field.type === "TOTP" ? (
+																	<>
+																		{isLocked ? (
+																			<Button
+																				type="button"
+																				variant="outline"
+																				size="sm"
+																				onClick={() => void handleShowCode(viewAssetId, fieldKey, field)}
+																			>
+																				Show code
+																			</Button>
+																		) : (
+																			<TotpCode
+																				value={value}
+																				onCopy={() => recordSecretAccess(viewAssetId, field, "COPY")}
+																			/>
+																		)}
+																		{revealedFields[fieldKey] && (
+																			<div className="text-xs font-mono break-all text-muted-foreground">{value}</div>
+																		)}
+																	</>
+																) : field.type === "NOTE" &&
+																	value &&
+																	!isLocked &&
+																	(!field.isSecret || revealedFields[fieldKey]) ? (
+																	<MarkdownView source={value} />
 																) : (
-																	<Copy className="h-4 w-4" />
+																	<div className="text-sm font-mono break-all">
+																		{(field.isSecret && !revealedFields[fieldKey]) || isLocked
+																			? "••••••••"
+																			: value || "-"}
+																	</div>
+																)}
+															</div>
+															<div className="flex items-center gap-1 shrink-0">
+																{field.isSecret && (
+																	<Button
+																		type="button"
+																		variant="ghost"
+																		size="icon"
+																		onClick={() => void handleToggleReveal(viewAssetId, fieldKey, field)}
+																	>
+																		{revealedFields[fieldKey] ? (
+																			<EyeOff className="h-4 w-4" />
+																		) : (
+																			<Eye className="h-4 w-4" />
+																		)}
+																	</Button>
 																)}
-															</Button>
+																{field.type !== "TOTP" && (
+																	<Button
+																		type="button"
+																		variant="ghost"
+																		size="icon"
+																		onClick={() => void handleCopy(viewAssetId, fieldKey, field)}
+																	>
+																		{copiedField === fieldKey ? (
+																			<Check className="h-4 w-4 text-green-500" />
+																		) : (
+																			<Copy className="h-4 w-4" />
+																		)}
+																	</Button>
+																)}
+															</div>
 														</div>
-													</div>
-												))}
+													);
+												})}
 											</div>
 										</div>
 									)}
 
+									{/* Related */}
+									<AssetRelations
+										assetId={viewAssetId}
+										showroomId={showroomId}
+										onNavigate={handleOpenRelated}
+										onShowGraph={() => setIsGraphOpen(true)}
+									/>
+
 									{/* Files List */}
 									{(viewAsset.files?.length ?? 0) > 0 && (
 										<div className="space-y-4">
-											<div className="flex items-center justify-between gap-4">
-												<div className="text-xs font-semibold uppercase text-muted-foreground">
-													Files ({viewAsset.files?.length})
-												</div>
-												<div className="relative w-64">
-													<Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-													<Input
-														placeholder="Search files..."
-														value={gallerySearch}
-														onChange={(e) => setGallerySearch(e.target.value)}
-														className="pl-9 h-9"
-													/>
-												</div>
+											<div className="text-xs font-semibold uppercase text-muted-foreground">
+												Files ({viewAsset.files?.length})
 											</div>
-											{(() => {
-												const filteredFiles = (viewAsset.files ?? []).filter((file) => {
-													if (!gallerySearch.trim()) return true;
-													const q = gallerySearch.trim().toLowerCase();
-													const name = getFileDisplayName(file).toLowerCase();
-													const mime = (file.mimeType ?? "").toLowerCase();
-													return name.includes(q) || mime.includes(q);
-												});
-												return filteredFiles.length ? (
-													<div className="grid gap-4 sm:grid-cols-2 md:grid-cols-3">
-														{filteredFiles.map((file) => {
-															const fileUrl = buildFileUrl(file);
-															const fileName = getFileDisplayName(file);
-															const filePath = file.relativePath ?? file.url ?? "-";
-															const isImage = file.mimeType?.startsWith("image/");
-															const fileThumb = getFileThumb(fileName);
-															const assetId = viewAsset.id ?? viewAsset._id ?? "";
-															return (
-																<div
-																	key={file.id || file.filename}
-																	className="flex flex-col gap-3 rounded-lg border bg-background p-4 shadow-sm"
-																>
-																	<div className="flex items-start justify-between gap-3">
-																		<div className="flex items-start gap-3">
-																			<div className="rounded-md border bg-muted/30 p-2">
-																				<Icon icon={`local:${fileThumb}`} size={28} />
-																			</div>
-																			<div className="space-y-1">
-																				<div className="text-xs text-muted-foreground truncate max-w-[140px]">
-																					{filePath}
-																				</div>
-																			</div>
-																		</div>
-																		<Badge variant="secondary">{file.mimeType ?? "File"}</Badge>
-																	</div>
-																	{isImage && fileUrl ? (
-																		<div className="overflow-hidden rounded-md border">
-																			<img
-																				src={fileUrl}
-																				alt={fileName}
-																				className="h-40 w-full object-cover"
-																				onError={(e) => {
-																					e.currentTarget.style.display = "none";
-																					e.currentTarget.parentElement?.classList.add(
-																						"flex",
-																						"h-40",
-																						"items-center",
-																						"justify-center",
-																					);
-																					const placeholder = document.createElement("span");
-																					placeholder.className = "text-xs text-muted-foreground";
-																					placeholder.textContent = "Preview unavailable";
-																					e.currentTarget.parentElement?.appendChild(placeholder);
-																				}}
-																			/>
-																		</div>
-																	) : (
-																		<div className="flex h-40 items-center justify-center rounded-md border border-dashed text-xs text-muted-foreground">
-																			Preview unavailable
-																		</div>
-																	)}
-																	<div className="grid gap-2 text-xs text-muted-foreground">
-																		<div className="flex items-center justify-between">
-																			<span>Size</span>
-																			<span className="text-foreground">{file.size ? fBytes(file.size) : "-"}</span>
-																		</div>
-																		<div className="flex items-center justify-between">
-																			<span>Uploaded</span>
-																			<span className="text-foreground">{formatDate(file.uploadedAt)}</span>
-																		</div>
-																	</div>
-																	<div className="flex flex-wrap gap-2">
-																		{fileUrl ? (
-																			<>
-																				<Button type="button" size="sm" asChild>
-																					<a href={fileUrl} target="_blank" rel="noreferrer" download>
-																						<Download className="mr-1 h-3 w-3" />
-																						Download
-																					</a>
-																				</Button>
-																				<Button type="button" size="sm" variant="secondary" asChild>
-																					<a href={fileUrl} target="_blank" rel="noopener noreferrer">
-																						<ExternalLink className="mr-1 h-3 w-3" />
-																						Open
-																					</a>
-																				</Button>
-																			</>
-																		) : (
-																			<Button size="sm" variant="outline" disabled>
-																				Download
-																			</Button>
-																		)}
-																		{file.id && assetId && (
-																			<Button
-																				type="button"
-																				size="sm"
-																				variant="destructive"
-																				onClick={() => void handleDeleteFile(assetId, file.id ?? "")}
-																			>
-																				<Trash2 className="mr-1 h-3 w-3" />
-																				Delete
-																			</Button>
-																		)}
-																	</div>
-																</div>
-															);
-														})}
-													</div>
-												) : (
-													<div className="text-center text-sm text-muted-foreground py-8">
-														{gallerySearch.trim() ? "No files match your search." : "No files attached to this asset."}
-													</div>
-												);
-											})()}
+											<FileGallery
+												files={viewAsset.files ?? []}
+												asset={viewAsset}
+												onPreview={(files, index) => setFilePreview({ files, index })}
+												renderActions={(file) =>
+													file.id &&
+													viewAssetId && (
+														<Button
+															type="button"
+															variant="destructive"
+															size="icon"
+															className="h-7 w-7"
+															title="Delete"
+															onClick={() => void handleDeleteFiles(viewAssetId, [file.id ?? ""])}
+														>
+															<Trash2 className="h-3.5 w-3.5" />
+														</Button>
+													)
+												}
+												onDeleteFiles={(files) =>
+													handleDeleteFiles(
+														viewAssetId,
+														files.flatMap((file) => (file.id ? [file.id] : [])),
+													)
+												}
+												onMoveFiles={(moves) => handleMoveFiles(viewAssetId, moves)}
+											/>
 										</div>
 									)}
 								</>
 							) : (
 								/* Gallery View */
 								<div className="space-y-4">
-									<div className="flex items-center justify-between gap-4">
-										<div className="text-xs font-semibold uppercase text-muted-foreground">
-											Gallery ({viewAsset.files?.length})
-										</div>
-										<div className="relative w-64">
-											<Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-											<Input
-												placeholder="Search files..."
-												value={gallerySearch}
-												onChange={(e) => setGallerySearch(e.target.value)}
-												className="pl-9 h-9"
-											/>
-										</div>
+									<div className="text-xs font-semibold uppercase text-muted-foreground">
+										Gallery ({viewAsset.files?.length ?? 0})
 									</div>
-									{(() => {
-										const filteredFiles = (viewAsset.files ?? []).filter((file) => {
-											if (!gallerySearch.trim()) return true;
-											const q = gallerySearch.trim().toLowerCase();
-											const name = getFileDisplayName(file).toLowerCase();
-											const mime = (file.mimeType ?? "").toLowerCase();
-											return name.includes(q) || mime.includes(q);
-										});
-										return filteredFiles.length ? (
-											<div className="grid gap-4 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
-												{filteredFiles.map((file) => {
-													const isImage = file.mimeType?.startsWith("image/");
-													const fileUrl = buildFileUrl(file);
-													const fileName = getFileDisplayName(file);
-													const fileThumb = getFileThumb(fileName);
-													const assetId = viewAsset.id ?? viewAsset._id ?? "";
-													return (
-														<div
-															key={file.id || file.filename}
-															className="group relative aspect-square overflow-hidden rounded-lg border bg-muted/30"
-														>
-															{isImage && fileUrl ? (
-																<img
-																	src={fileUrl}
-																	alt={fileName}
-																	className="h-full w-full object-cover transition-transform group-hover:scale-105"
-																	onError={(e) => {
-																		e.currentTarget.style.display = "none";
-																	}}
-																/>
-															) : (
-																<div className="flex h-full w-full flex-col items-center justify-center p-4">
-																	<Icon icon={`local:${fileThumb}`} size={48} />
-																	<div className="mt-2 text-xs text-center text-muted-foreground truncate max-w-full px-2">
-																		{fileName}
-																	</div>
-																	<div className="mt-1 text-[10px] text-muted-foreground/70">
-																		{file.size ? fBytes(file.size) : ""}
-																	</div>
-																</div>
-															)}
-															<div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 to-transparent p-3 opacity-0 transition-opacity group-hover:opacity-100">
-																<div className="text-xs text-white truncate">{fileName}</div>
-																<div className="text-[10px] text-white/70">{file.size ? fBytes(file.size) : ""}</div>
-																<div className="flex items-center gap-2 mt-2">
-																	{fileUrl && (
-																		<>
-																			<Button
-																				type="button"
-																				variant="secondary"
-																				size="sm"
-																				className="h-7 text-xs"
-																				asChild
-																			>
-																				<a href={fileUrl} target="_blank" rel="noopener noreferrer">
-																					Open
-																				</a>
-																			</Button>
-																			<Button
-																				type="button"
-																				variant="secondary"
-																				size="sm"
-																				className="h-7 text-xs"
-																				asChild
-																			>
-																				<a href={fileUrl} download={fileName}>
-																					Download
-																				</a>
-																			</Button>
-																		</>
-																	)}
-																	{file.id && assetId && (
-																		<Button
-																			type="button"
-																			variant="destructive"
-																			size="sm"
-																			className="h-7 text-xs"
-																			onClick={() => void handleDeleteFile(assetId, file.id ?? "")}
-																		>
-																			<Trash2 className="mr-1 h-3 w-3" />
-																			Delete
-																		</Button>
-																	)}
-																</div>
-															</div>
-														</div>
-													);
-												})}
-											</div>
-										) : (
-											<div className="text-center text-sm text-muted-foreground py-8">
-												{gallerySearch.trim() ? "No files match your search." : "No files attached to this asset."}
-											</div>
-										);
-									})()}
+									<FileGallery
+										files={viewAsset.files ?? []}
+										asset={viewAsset}
+										onPreview={(files, index) => setFilePreview({ files, index })}
+										renderActions={(file) =>
+											file.id &&
+											viewAssetId && (
+												<Button
+													type="button"
+													variant="destructive"
+													size="icon"
+													className="h-7 w-7"
+													title="Delete"
+													onClick={() => void handleDeleteFiles(viewAssetId, [file.id ?? ""])}
+												>
+													<Trash2 className="h-3.5 w-3.5" />
+												</Button>
+											)
+										}
+										onDeleteFiles={(files) =>
+											handleDeleteFiles(
+												viewAssetId,
+												files.flatMap((file) => (file.id ? [file.id] : [])),
+											)
+										}
+										onMoveFiles={(moves) => handleMoveFiles(viewAssetId, moves)}
+									/>
 								</div>
 							)}
 						</div>
@@ -1645,6 +1880,28 @@ export default function ShowroomAssetsPage() {
 					</DialogFooter>
 				</DialogContent>
 			</Dialog>
+
+			<FilePreviewDialog
+				target={filePreview}
+				onIndexChange={(index) => setFilePreview((prev) => (prev ? { ...prev, index } : prev))}
+				onClose={() => setFilePreview(null)}
+			/>
+
+			<TransferAssetDialog
+				target={transferTarget}
+				sourceShowroomId={showroomId}
+				onClose={() => setTransferTarget(null)}
+				onTransferred={() => void fetchAssets()}
+			/>
+
+			<RenewAssetDialog asset={renewTarget} onClose={() => setRenewTarget(null)} onRenewed={() => void fetchAssets()} />
+
+			<RelationGraphDialog
+				open={isGraphOpen}
+				onOpenChange={setIsGraphOpen}
+				focus={viewAssetId ? { assetId: viewAssetId, showroomId } : undefined}
+				onNavigate={handleOpenRelated}
+			/>
 		</div>
 	);
 }
@@ -1,12 +1,15 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { useNavigate } from "react-router";
 import type { ColumnsType } from "antd/es/table";
-import { Table } from "antd";
+import { Pagination, Table } from "antd";
+import { useQueryClient } from "@tanstack/react-query";
 import type { Control } from "react-hook-form";
 import { useFieldArray, useForm } from "react-hook-form";
 import { toast } from "sonner";
 
 import apiClient from "@/api/apiClient";
+import { getShowroomId, showroomKeys, useShowroomList } from "@/api/services/showroomService";
+import { usePageQuery } from "@/hooks";
 import { Button } from "@/ui/button";
 import { Card, CardContent, CardHeader } from "@/ui/card";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/ui/dialog";
@@ -15,48 +18,15 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from "@/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/ui/tabs";
 import { CredentialsDrawer } from "@/components/CredentialsDrawer";
+import { DiscussionPanel } from "@/components/discussion";
+import { ColumnPicker, filterVisibleColumns, getColumnOptions, SavedViewTabs } from "@/components/saved-views";
+import type { SavedViewState, Showroom, ShowroomMetaField, ShowroomSize, ShowroomTemplate } from "#/entity";
 
-type ShowroomMetaField = {
-	key: string;
-	value: string;
-};
-
-type ShowroomSize = {
-	label: string;
-	width: number;
-	height: number;
-	unit: string;
-};
-
-type ShowroomTemplate = {
-	name: string;
-	description: string;
-	sizes: ShowroomSize[];
-};
-
-type ShowroomApiItem = {
-	_id?: string;
-	id?: string;
-	name: string;
-	location: string;
-	metaFields?: ShowroomMetaField[];
-	templates?: ShowroomTemplate[];
-	createdAt?: string;
-	updatedAt?: string;
-};
-
-type ShowroomDetail = ShowroomApiItem & {
+type ShowroomDetail = Showroom & {
 	tenantId?: string;
 	clientId?: string;
 };
 
-type ShowroomsResponse = {
-	statusCode?: number;
-	message?: string;
-	data?: ShowroomApiItem[] | { showrooms?: ShowroomApiItem[] };
-	showrooms?: ShowroomApiItem[];
-};
-
 type ShowroomDetailResponse = {
 	statusCode?: number;
 	message?: string;
@@ -118,28 +88,9 @@ const STEP_DETAILS = [
 	},
 ];
 
-const formatDate = (value?: string) => (value ? value.slice(0, 10) : "-");
+const SHOWROOM_PAGE_SIZE_OPTIONS = [6, 12, 24, 48];
 
-const extractShowrooms = (response: ShowroomsResponse | ShowroomApiItem[] | undefined) => {
-	if (Array.isArray(response)) {
-		return response;
-	}
-	if (response && typeof response === "object") {
-		if ("data" in response && Array.isArray(response.data)) {
-			return response.data;
-		}
-		if ("data" in response && response.data && typeof response.data === "object" && "showrooms" in response.data) {
-			const nested = response.data as { showrooms?: ShowroomApiItem[] };
-			if (Array.isArray(nested.showrooms)) {
-				return nested.showrooms;
-			}
-		}
-		if ("showrooms" in response && Array.isArray(response.showrooms)) {
-			return response.showrooms;
-		}
-	}
-	return [];
-};
+const formatDate = (value?: string) => (value ? value.slice(0, 10) : "-");
 
 const extractShowroomDetail = (response: ShowroomDetailResponse | ShowroomDetail | undefined) => {
 	if (!response) {
@@ -157,7 +108,7 @@ const extractShowroomDetail = (response: ShowroomDetailResponse | ShowroomDetail
 	return undefined;
 };
 
-const mapShowroomRow = (item: ShowroomApiItem): ShowroomRow => ({
+const mapShowroomRow = (item: Showroom): ShowroomRow => ({
 	id: item._id ?? item.id ?? `${item.name}-${item.location}`,
 	name: item.name,
 	location: item.location,
@@ -312,8 +263,8 @@ const TemplateFields = ({ control, index, templateCount, onRemoveTemplate }: Tem
 export default function ShowroomsPage() {
 	const navigate = useNavigate();
 	const [viewMode, setViewMode] = useState<"table" | "cards">("table");
-	const [showrooms, setShowrooms] = useState<ShowroomApiItem[]>([]);
-	const [isLoading, setIsLoading] = useState(false);
+	const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
+	const queryClient = useQueryClient();
 	const [open, setOpen] = useState(false);
 	const [editMode, setEditMode] = useState<ShowroomRow | null>(null);
 	const [deleteTarget, setDeleteTarget] = useState<ShowroomRow | null>(null);
@@ -321,9 +272,9 @@ export default function ShowroomsPage() {
 	const [viewOpen, setViewOpen] = useState(false);
 	const [viewLoading, setViewLoading] = useState(false);
 	const [viewShowroom, setViewShowroom] = useState<ShowroomDetail | null>(null);
+	const viewShowroomId = viewShowroom ? getShowroomId(viewShowroom) : undefined;
 	const [stepIndex, setStepIndex] = useState(0);
 	const [submitting, setSubmitting] = useState(false);
-	const [searchTerm, setSearchTerm] = useState("");
 	const [credentialsDrawerOpen, setCredentialsDrawerOpen] = useState(false);
 	const [credentialsTarget, setCredentialsTarget] = useState<ShowroomRow | null>(null);
 	const [credentials, setCredentials] = useState<any[]>([]);
@@ -341,51 +292,39 @@ export default function ShowroomsPage() {
 	});
 	const watchedValues = form.watch();
 
-	const filteredShowrooms = useMemo(() => {
-		const normalized = searchTerm.trim().toLowerCase();
-		if (!normalized) {
-			return showrooms;
-		}
-		return showrooms.filter((showroom) => {
-			const metaMatch =
-				showroom.metaFields?.some((field) => `${field.key} ${field.value}`.toLowerCase().includes(normalized)) ?? false;
-			const templateMatch =
-				showroom.templates?.some((template) =>
-					`${template.name} ${template.description ?? ""}`.toLowerCase().includes(normalized),
-				) ?? false;
-			return (
-				showroom.name.toLowerCase().includes(normalized) ||
-				showroom.location.toLowerCase().includes(normalized) ||
-				metaMatch ||
-				templateMatch
-			);
-		});
-	}, [searchTerm, showrooms]);
+	const pageQuery = usePageQuery({ pageSize: 6, pageSizeOptions: SHOWROOM_PAGE_SIZE_OPTIONS });
+	const showroomsQuery = useShowroomList(pageQuery.query);
+	const isLoading = showroomsQuery.isFetching;
+	const showrooms = showroomsQuery.data?.items ?? [];
+	const showroomTotal = showroomsQuery.data?.total ?? 0;
 
-	const showroomRows = useMemo(() => filteredShowrooms.map(mapShowroomRow), [filteredShowrooms]);
-	const summaryCounts = useMemo(
+	const showroomRows = useMemo(() => (showroomsQuery.data?.items ?? []).map(mapShowroomRow), [showroomsQuery.data]);
+
+	const viewState = useMemo<SavedViewState>(
 		() => ({
-			total: showrooms.length,
-			filtered: filteredShowrooms.length,
+			search: pageQuery.searchInput,
+			sortBy: pageQuery.query.sortBy,
+			sortOrder: pageQuery.query.sortOrder,
+			hiddenColumns,
+			tab: viewMode,
 		}),
-		[filteredShowrooms.length, showrooms.length],
+		[pageQuery.searchInput, pageQuery.query.sortBy, pageQuery.query.sortOrder, hiddenColumns, viewMode],
 	);
 
-	const fetchShowrooms = useCallback(async () => {
-		setIsLoading(true);
-		try {
-			const response = await apiClient.get<ShowroomsResponse | ShowroomApiItem[]>({ url: "/showrooms" });
-			setShowrooms(extractShowrooms(response));
-		} catch (_error) {
-			// Errors are already surfaced via the API client interceptor.
-		} finally {
-			setIsLoading(false);
-		}
-	}, []);
+	const handleApplyView = useCallback(
+		(state: SavedViewState) => {
+			pageQuery.setSearchInput(state.search ?? "");
+			pageQuery.setQuery((prev) => ({ ...prev, page: 1, sortBy: state.sortBy, sortOrder: state.sortOrder }));
+			setHiddenColumns(state.hiddenColumns ?? []);
+			setViewMode(state.tab === "cards" ? "cards" : "table");
+		},
+		[pageQuery.setSearchInput, pageQuery.setQuery],
+	);
 
-	useEffect(() => {
-		void fetchShowrooms();
-	}, [fetchShowrooms]);
+	const fetchShowrooms = useCallback(
+		() => queryClient.invalidateQueries({ queryKey: showroomKeys.all }),
+		[queryClient],
+	);
 
 	const handleOpen = () => {
 		form.reset(DEFAULT_FORM_VALUES);
@@ -451,6 +390,39 @@ export default function ShowroomsPage() {
 		}
 	}, []);
 
+	const handleEditShowroom = useCallback(
+		async (record: ShowroomRow) => {
+			try {
+				const response = await apiClient.get<ShowroomDetailResponse>({
+					url: `/showrooms/${record.id}`,
+				});
+				const showroom = extractShowroomDetail(response);
+				if (showroom) {
+					form.reset({
+						name: showroom.name || "",
+						location: showroom.location || "",
+						metaFields: showroom.metaFields?.length ? showroom.metaFields : [DEFAULT_META_FIELD],
+						templates: showroom.templates?.length ? showroom.templates : [DEFAULT_TEMPLATE],
+					});
+					setEditMode(record);
+					setStepIndex(0);
+					setOpen(true);
+				} else {
+					toast.error("Failed to load showroom for editing", { position: "top-center" });
+				}
+			} catch (error) {
+				console.error(error);
+				toast.error("Failed to load showroom for editing", { position: "top-center" });
+			}
+		},
+		[form],
+	);
+
+	const handleDeleteShowroom = useCallback((record: ShowroomRow) => {
+		setDeleteTarget(record);
+		setIsDeleteDialogOpen(true);
+	}, []);
+
 	const columns = useMemo<ColumnsType<ShowroomRow>>(
 		() => [
 			{
@@ -458,7 +430,8 @@ export default function ShowroomsPage() {
 				dataIndex: "name",
 				key: "name",
 				width: 220,
-				sorter: (a, b) => a.name.localeCompare(b.name),
+				sorter: true,
+				sortOrder: pageQuery.getSortOrder("name"),
 				render: (_, record) => (
 					<div className="space-y-1">
 						<div className="font-medium text-foreground">{record.name}</div>
@@ -471,14 +444,16 @@ export default function ShowroomsPage() {
 				dataIndex: "location",
 				key: "location",
 				width: 200,
-				sorter: (a, b) => a.location.localeCompare(b.location),
+				sorter: true,
+				sortOrder: pageQuery.getSortOrder("location"),
 			},
 			{
 				title: "Last Updated",
 				dataIndex: "lastUpdated",
-				key: "lastUpdated",
+				key: "updatedAt",
 				width: 140,
-				sorter: (a, b) => a.lastUpdated.localeCompare(b.lastUpdated),
+				sorter: true,
+				sortOrder: pageQuery.getSortOrder("updatedAt"),
 			},
 			{
 				title: "Actions",
@@ -506,7 +481,14 @@ export default function ShowroomsPage() {
 			},
 		],
 		// eslint-disable-next-line react-hooks/exhaustive-deps
-		[handleOpenAssets, handleViewShowroom, handleQuickAccess],
+		[
+			handleOpenAssets,
+			handleViewShowroom,
+			handleQuickAccess,
+			handleEditShowroom,
+			handleDeleteShowroom,
+			pageQuery.getSortOrder,
+		],
 	);
 
 	const buildPayload = (values: ShowroomFormValues) => ({
@@ -540,7 +522,7 @@ export default function ShowroomsPage() {
 		setSubmitting(true);
 		try {
 			const payload = buildPayload(values);
-			const response = await apiClient.post<ShowroomApiItem | ShowroomsResponse>({
+			const response = await apiClient.post<Showroom>({
 				url: "/showrooms",
 				data: payload,
 			});
@@ -558,40 +540,12 @@ export default function ShowroomsPage() {
 		}
 	};
 
-	const handleEditShowroom = useCallback(
-		async (record: ShowroomRow) => {
-			try {
-				const response = await apiClient.get<ShowroomDetailResponse>({
-					url: `/showrooms/${record.id}`,
-				});
-				const showroom = extractShowroomDetail(response);
-				if (showroom) {
-					form.reset({
-						name: showroom.name || "",
-						location: showroom.location || "",
-						metaFields: showroom.metaFields?.length ? showroom.metaFields : [DEFAULT_META_FIELD],
-						templates: showroom.templates?.length ? showroom.templates : [DEFAULT_TEMPLATE],
-					});
-					setEditMode(record);
-					setStepIndex(0);
-					setOpen(true);
-				} else {
-					toast.error("Failed to load showroom for editing", { position: "top-center" });
-				}
-			} catch (error) {
-				console.error(error);
-				toast.error("Failed to load showroom for editing", { position: "top-center" });
-			}
-		},
-		[form],
-	);
-
 	const handleUpdateShowroom = async (values: ShowroomFormValues) => {
 		if (!editMode) return;
 		setSubmitting(true);
 		try {
 			const payload = buildPayload(values);
-			const response = await apiClient.patch<ShowroomApiItem | ShowroomsResponse>({
+			const response = await apiClient.patch<Showroom>({
 				url: `/showrooms/${editMode.id}`,
 				data: payload,
 			});
@@ -610,11 +564,6 @@ export default function ShowroomsPage() {
 		}
 	};
 
-	const handleDeleteShowroom = useCallback((record: ShowroomRow) => {
-		setDeleteTarget(record);
-		setIsDeleteDialogOpen(true);
-	}, []);
-
 	const confirmDeleteShowroom = async () => {
 		if (!deleteTarget) return;
 		try {
@@ -667,20 +616,28 @@ export default function ShowroomsPage() {
 				</div>
 			</CardHeader>
 			<CardContent>
+				<SavedViewTabs page="SHOWROOMS" state={viewState} onApply={handleApplyView} className="mb-4" />
 				<div className="flex flex-wrap items-center justify-between gap-3 pb-4">
 					<div className="space-y-1 text-sm text-muted-foreground">
 						<div className="font-medium text-foreground">Showrooms overview</div>
 						<div>
-							Showing {summaryCounts.filtered} of {summaryCounts.total} showrooms
+							Showing {showrooms.length} of {showroomTotal} showrooms
 						</div>
 					</div>
 					<div className="flex flex-wrap items-center gap-2">
 						<Input
 							placeholder="Search by name, location, meta fields, or templates"
-							value={searchTerm}
-							onChange={(event) => setSearchTerm(event.target.value)}
+							value={pageQuery.searchInput}
+							onChange={(event) => pageQuery.setSearchInput(event.target.value)}
 							className="w-full sm:w-80"
 						/>
+						{viewMode === "table" && (
+							<ColumnPicker
+								columns={getColumnOptions(columns)}
+								hiddenColumns={hiddenColumns}
+								onChange={setHiddenColumns}
+							/>
+						)}
 					</div>
 				</div>
 				<Tabs
@@ -697,22 +654,23 @@ export default function ShowroomsPage() {
 							rowKey="id"
 							size="small"
 							scroll={{ x: "max-content" }}
-							pagination={{ pageSize: 6, showSizeChanger: true, pageSizeOptions: [6, 12, 24, 48] }}
+							pagination={pageQuery.getPagination(showroomTotal)}
+							onChange={pageQuery.onTableChange}
 							loading={isLoading}
-							columns={columns}
+							columns={filterVisibleColumns(columns, hiddenColumns)}
 							dataSource={showroomRows}
 						/>
 					</TabsContent>
 					<TabsContent value="cards">
 						{isLoading ? (
 							<div className="text-sm text-muted-foreground">Loading showrooms...</div>
-						) : filteredShowrooms.length === 0 ? (
+						) : showrooms.length === 0 ? (
 							<div className="text-sm text-muted-foreground">
 								No showrooms match your search. Try adjusting the filters.
 							</div>
 						) : (
 							<div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
-								{filteredShowrooms.map((showroom) => (
+								{showrooms.map((showroom) => (
 									<Card key={showroom._id ?? showroom.id ?? showroom.name} className="border border-border">
 										<CardHeader>
 											<div className="space-y-2">
@@ -791,6 +749,14 @@ export default function ShowroomsPage() {
 								))}
 							</div>
 						)}
+						{showroomTotal > 0 && (
+							<div className="flex justify-end pt-4">
+								<Pagination
+									{...pageQuery.getPagination(showroomTotal)}
+									onChange={(page, pageSize) => pageQuery.setPage(page, pageSize)}
+								/>
+							</div>
+						)}
 					</TabsContent>
 				</Tabs>
 			</CardContent>
@@ -1177,6 +1143,12 @@ export default function ShowroomsPage() {
 										)}
 									</div>
 								</div>
+
+								{viewShowroomId && (
+									<div className="rounded-xl border border-border bg-muted/20 p-6 shadow-sm">
+										<DiscussionPanel target={{ showroomId: viewShowroomId }} />
+									</div>
+								)}
 							</>
 						) : (
 							<div className="text-sm text-muted-foreground">Select a showroom to view full details.</div>
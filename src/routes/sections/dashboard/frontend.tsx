@@ -9,6 +9,7 @@ export function getFrontendDashboardRoutes(): RouteObject[] {
 		{ path: "assets", element: Component("/pages/assets") },
 		{ path: "showrooms", element: Component("/pages/showrooms") },
 		{ path: "showrooms/:showroomId/assets", element: Component("/pages/showrooms/assets") },
+		{ path: "expiring", element: Component("/pages/expiring") },
 		{ path: "workbench", element: Component("/pages/dashboard/workbench") },
 		{ path: "analysis", element: Component("/pages/dashboard/analysis") },
 		{
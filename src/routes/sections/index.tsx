@@ -2,10 +2,13 @@ import { Navigate, type RouteObject } from "react-router";
 import { authRoutes } from "./auth";
 import { dashboardRoutes } from "./dashboard";
 import { mainRoutes } from "./main";
+import { shareRoutes } from "./share";
 
 export const routesSection: RouteObject[] = [
 	// Auth
 	...authRoutes,
+	// Public share links
+	...shareRoutes,
 	// Dashboard
 	...dashboardRoutes,
 	// Main
@@ -0,0 +1,22 @@
+import { lazy, Suspense } from "react";
+import type { RouteObject } from "react-router";
+import { LineLoading } from "@/components/loading";
+import SimpleLayout from "@/layouts/simple";
+
+const SharePage = lazy(() => import("@/pages/share"));
+
+/**
+ * Public routes; share links are opened by people without an account, so there is no LoginAuthGuard here
+ */
+export const shareRoutes: RouteObject[] = [
+	{
+		path: "share/:token",
+		element: (
+			<SimpleLayout>
+				<Suspense fallback={<LineLoading />}>
+					<SharePage />
+				</Suspense>
+			</SimpleLayout>
+		),
+	},
+];
@@ -1,7 +1,8 @@
 import { create } from "zustand";
 import apiClient from "@/api/apiClient";
 
-export type NotificationType = "EXPIRATION_REMINDER" | "EXPIRATION_TODAY";
+/** MENTION is sent when someone @mentions the user in a comment */
+export type NotificationType = "EXPIRATION_REMINDER" | "EXPIRATION_TODAY" | "MENTION";
 
 export type Notification = {
 	id: string;
@@ -12,6 +13,9 @@ export type Notification = {
 	assetName?: string;
 	showroomName?: string;
 	daysUntilExpiry?: number;
+	/** Who wrote the comment, for MENTION */
+	mentionedBy?: string;
+	commentId?: string;
 	createdAt: string;
 };
 
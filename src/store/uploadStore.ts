@@ -0,0 +1,308 @@
+import axios from "axios";
+import { useEffect } from "react";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { StorageEnum } from "#/enum";
+import assetUploadService, { type AssetUploadTarget } from "@/api/services/assetUploadService";
+
+export type UploadStatus = "QUEUED" | "UPLOADING" | "PAUSED" | "RETRYING" | "DONE" | "ERROR" | "CANCELED";
+
+export type UploadTask = AssetUploadTarget & {
+	/** The antd upload uid when the file came from an Upload list, so the list can show its progress */
+	id: string;
+	assetName?: string;
+	fileName: string;
+	folderPath?: string;
+	size: number;
+	mimeType: string;
+	fingerprint: string;
+	chunkSize: number;
+	/** Server session, kept so a paused or reloaded upload continues where it stopped */
+	uploadId?: string;
+	uploadedBytes: number;
+	status: UploadStatus;
+	/** Retry attempt of the current chunk, 0 while it goes through */
+	attempt: number;
+	error?: string;
+	createdAt: string;
+};
+
+export type UploadSource = { id?: string; file: File; folderPath?: string };
+
+type UploadStore = {
+	tasks: UploadTask[];
+
+	actions: {
+		enqueue: (target: AssetUploadTarget & { assetName?: string }, sources: UploadSource[]) => void;
+		pause: (id: string) => void;
+		/** Continue a paused upload or try a failed one again */
+		resume: (id: string) => void;
+		cancel: (id: string) => void;
+		/** Hand the file back after a reload; false when it is not the file the upload was started with */
+		attachFile: (id: string, file: File) => boolean;
+		clearFinished: () => void;
+	};
+};
+
+const CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_PARALLEL_UPLOADS = 2;
+const MAX_CHUNK_RETRIES = 5;
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 30_000;
+
+const ACTIVE_STATUSES: UploadStatus[] = ["QUEUED", "UPLOADING", "RETRYING"];
+const FINISHED_STATUSES: UploadStatus[] = ["DONE", "CANCELED"];
+
+// Files and in-flight requests cannot be persisted, after a reload the user picks the file again
+const localFiles = new Map<string, File>();
+const controllers = new Map<string, AbortController>();
+
+export const getFileFingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+export const hasLocalFile = (id: string) => localFiles.has(id);
+
+export const isUploadActive = (task: UploadTask) => ACTIVE_STATUSES.includes(task.status);
+
+const toErrorMessage = (error: unknown) => (error instanceof Error ? error.message : "Upload failed");
+
+/** Network failures, timeouts and server errors are worth another try, validation errors are not */
+const isRetryable = (error: unknown) => {
+	if (!axios.isAxiosError(error)) return false;
+	const status = error.response?.status;
+	return !status || status >= 500 || status === 408 || status === 429;
+};
+
+/** Exponential backoff with jitter so parallel uploads do not retry in lockstep */
+const getRetryDelay = (attempt: number) =>
+	Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt) * (0.75 + Math.random() / 2);
+
+const wait = (ms: number, signal: AbortSignal) =>
+	new Promise<void>((resolve, reject) => {
+		if (signal.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal.reason);
+		};
+		const timer = setTimeout(() => {
+			signal.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal.addEventListener("abort", onAbort, { once: true });
+	});
+
+const useUploadStore = create<UploadStore>()(
+	persist(
+		(set, get) => {
+			const getTask = (id: string) => get().tasks.find((task) => task.id === id);
+
+			const updateTask = (id: string, patch: Partial<UploadTask>) =>
+				set((state) => ({ tasks: state.tasks.map((task) => (task.id === id ? { ...task, ...patch } : task)) }));
+
+			const stopTask = (id: string) => {
+				controllers.get(id)?.abort();
+				controllers.delete(id);
+			};
+
+			const startQueued = () => {
+				const free = MAX_PARALLEL_UPLOADS - controllers.size;
+				if (free <= 0) return;
+				const queued = get().tasks.filter(
+					(task) => task.status === "QUEUED" && localFiles.has(task.id) && !controllers.has(task.id),
+				);
+				for (const task of queued.slice(0, free)) void runTask(task.id);
+			};
+
+			const uploadChunkWithRetry = async (
+				id: string,
+				chunk: Parameters<typeof assetUploadService.uploadChunk>[0],
+				uploadedBytes: number,
+			) => {
+				for (let attempt = 0; ; attempt++) {
+					try {
+						await assetUploadService.uploadChunk({
+							...chunk,
+							onProgress: (loaded) => updateTask(id, { uploadedBytes: uploadedBytes + loaded }),
+						});
+						return;
+					} catch (error) {
+						if (chunk.signal?.aborted || !isRetryable(error) || attempt >= MAX_CHUNK_RETRIES) throw error;
+						updateTask(id, { status: "RETRYING", attempt: attempt + 1, error: toErrorMessage(error), uploadedBytes });
+						await wait(getRetryDelay(attempt), chunk.signal as AbortSignal);
+					}
+				}
+			};
+
+			const runTask = async (id: string) => {
+				const task = getTask(id);
+				const file = localFiles.get(id);
+				if (!task || !file) return;
+				const controller = new AbortController();
+				controllers.set(id, controller);
+				const target: AssetUploadTarget = { assetId: task.assetId, showroomId: task.showroomId };
+				updateTask(id, { status: "UPLOADING", attempt: 0, error: undefined });
+
+				try {
+					// A session that expired on the server is replaced by a fresh one
+					const existing = task.uploadId
+						? await assetUploadService.getUpload(target, task.uploadId).catch(() => undefined)
+						: undefined;
+					const session =
+						existing ??
+						(await assetUploadService.createUpload(target, {
+							filename: task.fileName,
+							size: task.size,
+							mimeType: task.mimeType,
+							chunkSize: task.chunkSize,
+							fingerprint: task.fingerprint,
+							folderPath: task.folderPath,
+						}));
+					if (controller.signal.aborted) return;
+
+					const chunkSize = session.chunkSize || task.chunkSize;
+					const chunkCount = Math.max(1, Math.ceil(file.size / chunkSize));
+					const received = new Set(session.receivedChunks);
+					const getChunk = (index: number) => file.slice(index * chunkSize, (index + 1) * chunkSize);
+					let uploadedBytes = [...received].reduce((sum, index) => sum + getChunk(index).size, 0);
+					updateTask(id, { uploadId: session.uploadId, chunkSize, uploadedBytes });
+
+					for (let index = 0; index < chunkCount; index++) {
+						if (received.has(index)) continue;
+						const chunk = getChunk(index);
+						await uploadChunkWithRetry(
+							id,
+							{ target, uploadId: session.uploadId, index, chunk, signal: controller.signal },
+							uploadedBytes,
+						);
+						uploadedBytes += chunk.size;
+						updateTask(id, { status: "UPLOADING", attempt: 0, error: undefined, uploadedBytes });
+					}
+
+					await assetUploadService.completeUpload(target, session.uploadId);
+					localFiles.delete(id);
+					updateTask(id, { status: "DONE", uploadedBytes: file.size, error: undefined });
+				} catch (error) {
+					// Paused and canceled uploads already carry their status
+					if (controller.signal.aborted) return;
+					updateTask(id, { status: "ERROR", error: toErrorMessage(error) });
+				} finally {
+					if (controllers.get(id) === controller) controllers.delete(id);
+					startQueued();
+				}
+			};
+
+			return {
+				tasks: [],
+
+				actions: {
+					enqueue: ({ assetName, ...target }, sources) => {
+						const createdAt = new Date().toISOString();
+						const tasks = sources.map(({ id, file, folderPath }): UploadTask => {
+							const taskId = id ?? crypto.randomUUID();
+							localFiles.set(taskId, file);
+							return {
+								...target,
+								id: taskId,
+								assetName,
+								fileName: file.name,
+								folderPath,
+								size: file.size,
+								mimeType: file.type || "application/octet-stream",
+								fingerprint: getFileFingerprint(file),
+								chunkSize: CHUNK_SIZE,
+								uploadedBytes: 0,
+								status: "QUEUED",
+								attempt: 0,
+								createdAt,
+							};
+						});
+						const ids = new Set(tasks.map((task) => task.id));
+						set((state) => ({ tasks: [...state.tasks.filter((task) => !ids.has(task.id)), ...tasks] }));
+						startQueued();
+					},
+					pause: (id) => {
+						const task = getTask(id);
+						if (!task || !isUploadActive(task)) return;
+						updateTask(id, { status: "PAUSED", attempt: 0 });
+						stopTask(id);
+						startQueued();
+					},
+					resume: (id) => {
+						const task = getTask(id);
+						if (!task || !["PAUSED", "ERROR"].includes(task.status) || !localFiles.has(id)) return;
+						updateTask(id, { status: "QUEUED", error: undefined });
+						startQueued();
+					},
+					cancel: (id) => {
+						const task = getTask(id);
+						if (!task || FINISHED_STATUSES.includes(task.status)) return;
+						updateTask(id, { status: "CANCELED", attempt: 0 });
+						stopTask(id);
+						localFiles.delete(id);
+						if (task.uploadId) {
+							void assetUploadService.abortUpload(task, task.uploadId).catch(() => undefined);
+						}
+						startQueued();
+					},
+					attachFile: (id, file) => {
+						const task = getTask(id);
+						if (!task || getFileFingerprint(file) !== task.fingerprint) return false;
+						localFiles.set(id, file);
+						updateTask(id, { status: "QUEUED", error: undefined });
+						startQueued();
+						return true;
+					},
+					clearFinished: () => {
+						set((state) => ({ tasks: state.tasks.filter((task) => !FINISHED_STATUSES.includes(task.status)) }));
+					},
+				},
+			};
+		},
+		{
+			name: StorageEnum.Uploads,
+			storage: createJSONStorage(() => localStorage),
+			partialize: (state) => ({ tasks: state.tasks }),
+			// Nothing is running after a reload: unfinished uploads wait paused until their file is picked again
+			merge: (persisted, current) => ({
+				...current,
+				tasks: ((persisted as Partial<UploadStore> | undefined)?.tasks ?? [])
+					.filter((task) => !FINISHED_STATUSES.includes(task.status))
+					.map((task) => (isUploadActive(task) ? { ...task, status: "PAUSED", attempt: 0 } : task)),
+			}),
+		},
+	),
+);
+
+/**
+ * Stop every upload and drop the queue along with its persisted copy, so nothing carries over to the next user
+ */
+export const resetUploads = () => {
+	for (const controller of controllers.values()) controller.abort();
+	controllers.clear();
+	localFiles.clear();
+	useUploadStore.setState({ tasks: [] });
+	useUploadStore.persist.clearStorage();
+};
+
+export const useUploadTasks = () => useUploadStore((state) => state.tasks);
+export const useUploadActions = () => useUploadStore((state) => state.actions);
+
+/**
+ * Run a callback for each upload that finishes while the component is mounted, e.g. to refetch the asset
+ */
+export const useUploadCompleted = (onCompleted: (task: UploadTask) => void) => {
+	useEffect(
+		() =>
+			useUploadStore.subscribe((state, prev) => {
+				for (const task of state.tasks) {
+					if (task.status !== "DONE") continue;
+					if (prev.tasks.find((item) => item.id === task.id)?.status !== "DONE") onCompleted(task);
+				}
+			}),
+		[onCompleted],
+	);
+};
+
+export default useUploadStore;
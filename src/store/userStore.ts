@@ -3,6 +3,9 @@ import { create } from "zustand";
 import { createJSONStorage, persist } from "zustand/middleware";
 
 import authService, { type SignInReq } from "@/api/services/authService";
+import { clearThumbnailCache } from "@/components/file-gallery/thumbnail-cache";
+import { resetUploads } from "@/store/uploadStore";
+import vaultStore from "@/store/vaultStore";
 
 import { toast } from "sonner";
 import type { UserInfo, UserToken } from "#/entity";
@@ -33,6 +36,10 @@ const useUserStore = create<UserStore>()(
 				},
 				clearUserInfoAndToken() {
 					set({ userInfo: {}, userToken: {} });
+					void clearThumbnailCache();
+					resetUploads();
+					// Keys must not outlive the session, and the next user's tenant may have its own vault
+					vaultStore.getState().actions.reset();
 				},
 			},
 		}),
@@ -0,0 +1,289 @@
+import { create } from "zustand";
+import type { VaultConfig } from "#/entity";
+import assetService, { type AssetScope } from "@/api/services/assetService";
+import showroomService, { getShowroomId } from "@/api/services/showroomService";
+import vaultService from "@/api/services/vaultService";
+import { encryptWithPassphrase, toBase64 } from "@/utils/crypto";
+import {
+	createVaultKey,
+	decryptValue,
+	generateRecoveryKey,
+	getEncryptedKeyId,
+	hasEncryptedFields,
+	isEncryptedValue,
+	openFields,
+	type SealableField,
+	sealFields,
+	type UnlockedVaultKeys,
+	unwrapVaultKeys,
+	VAULT_CONFIG_VERSION,
+	wrapVaultKey,
+} from "@/utils/vault";
+
+export type VaultRotationProgress = { done: number; total: number; label: string };
+
+export type VaultRotationFailure = { label: string; message: string };
+
+type VaultStore = {
+	/** null when the tenant has not enabled client-side encryption */
+	config: VaultConfig | null;
+	isLoaded: boolean;
+	/** Unlocked keys live in memory only and are dropped on lock or reload */
+	keys: UnlockedVaultKeys;
+	/** Pending prompt opened by requestUnlock, answered by the unlock dialog */
+	unlockRequest: { resolve: (unlocked: boolean) => void } | null;
+
+	actions: {
+		fetchConfig: () => Promise<VaultConfig | null>;
+		/** Enable encryption; resolves with the recovery key, which is shown once */
+		setup: (passphrase: string) => Promise<string>;
+		unlock: (passphrase: string) => Promise<void>;
+		/** Unlock with the recovery key and replace the forgotten passphrase */
+		recover: (recoveryKey: string, newPassphrase: string) => Promise<void>;
+		lock: () => void;
+		/** Forget the keys and the loaded config, and dismiss a pending prompt; used on sign-out */
+		reset: () => void;
+		changePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<void>;
+		regenerateRecoveryKey: (passphrase: string) => Promise<string>;
+		/**
+		 * Write with a new vault key from now on and re-encrypt every current secret with it; resolves with the new
+		 * recovery key. Retired keys stay in the config, wrapped under the passphrase and the new recovery key.
+		 */
+		rotateKey: (
+			passphrase: string,
+			onProgress?: (progress: VaultRotationProgress) => void,
+		) => Promise<{ recoveryKey: string; failures: VaultRotationFailure[] }>;
+		/** Ask the user to unlock; resolves false when the prompt is dismissed */
+		requestUnlock: () => Promise<boolean>;
+		resolveUnlockRequest: (unlocked: boolean) => void;
+	};
+};
+
+const toErrorMessage = (error: unknown) => (error instanceof Error ? error.message : "Request failed");
+
+/** base64 of an unlocked key's raw bytes, the plaintext that gets wrapped */
+const exportRawKey = (keys: UnlockedVaultKeys, id: string) => {
+	const raw = keys[id]?.raw;
+	if (!raw) throw new Error("Vault key is not unlocked");
+	return toBase64(raw);
+};
+
+const useVaultStore = create<VaultStore>()((set, get) => {
+	const requireConfig = () => {
+		const { config } = get();
+		if (!config) throw new Error("Vault encryption is not enabled");
+		return config;
+	};
+
+	const saveConfig = async (config: VaultConfig) => {
+		const saved = (await vaultService.saveVault({ ...config, updatedAt: new Date().toISOString() })) ?? config;
+		set({ config: saved });
+		return saved;
+	};
+
+	/**
+	 * Re-encrypt every asset that still holds values from another key.
+	 * Tenant assets first, then each showroom's assets.
+	 */
+	const reencryptAssets = async (
+		keys: UnlockedVaultKeys,
+		activeKeyId: string,
+		onProgress?: (progress: VaultRotationProgress) => void,
+	) => {
+		const failures: VaultRotationFailure[] = [];
+		const scopes: { scope: AssetScope; label: string }[] = [{ scope: {}, label: "Assets" }];
+		for (const showroom of await showroomService.getAllShowrooms()) {
+			const showroomId = getShowroomId(showroom);
+			if (showroomId) scopes.push({ scope: { showroomId }, label: showroom.name });
+		}
+
+		for (const [index, { scope, label }] of scopes.entries()) {
+			onProgress?.({ done: index, total: scopes.length, label });
+			const assets = await assetService.getAllAssets(undefined, scope);
+			for (const asset of assets) {
+				const isStale = asset.fields?.some((field) => {
+					const keyId = getEncryptedKeyId(field.value);
+					return keyId && keyId !== activeKeyId;
+				});
+				if (!isStale) continue;
+				try {
+					await assetService.updateAsset({
+						id: asset.id,
+						scope,
+						data: {
+							name: asset.name,
+							type: asset.type,
+							tags: asset.tags ?? [],
+							fields: await sealFields(asset.fields, keys, activeKeyId),
+							expirationDate: asset.expirationDate,
+							expirationNotificationsEnabled: asset.expirationNotificationsEnabled,
+						},
+					});
+				} catch (error) {
+					failures.push({ label: `${label}: ${asset.name}`, message: toErrorMessage(error) });
+				}
+			}
+		}
+		onProgress?.({ done: scopes.length, total: scopes.length, label: "Done" });
+		return failures;
+	};
+
+	return {
+		config: null,
+		isLoaded: false,
+		keys: {},
+		unlockRequest: null,
+
+		actions: {
+			fetchConfig: async () => {
+				const config = await vaultService.getVault();
+				set({ config, isLoaded: true });
+				return config;
+			},
+
+			setup: async (passphrase) => {
+				if (get().config) throw new Error("Vault encryption is already enabled");
+				const recoveryKey = generateRecoveryKey();
+				const { id, unlocked } = await createVaultKey();
+				await saveConfig({
+					version: VAULT_CONFIG_VERSION,
+					activeKeyId: id,
+					keys: [await wrapVaultKey(id, unlocked, passphrase, recoveryKey)],
+				});
+				set({ keys: { [id]: unlocked } });
+				return recoveryKey;
+			},
+
+			unlock: async (passphrase) => {
+				set({ keys: await unwrapVaultKeys(requireConfig(), passphrase) });
+			},
+
+			recover: async (recoveryKey, newPassphrase) => {
+				const config = requireConfig();
+				const keys = await unwrapVaultKeys(config, recoveryKey, true);
+				const records = await Promise.all(
+					config.keys.map(async (record) => ({
+						...record,
+						wrapped: await encryptWithPassphrase(exportRawKey(keys, record.id), newPassphrase),
+					})),
+				);
+				await saveConfig({ ...config, keys: records });
+				set({ keys });
+			},
+
+			lock: () => set({ keys: {} }),
+			reset: () => {
+				get().unlockRequest?.resolve(false);
+				set({ config: null, isLoaded: false, keys: {}, unlockRequest: null });
+			},
+
+			changePassphrase: async (currentPassphrase, newPassphrase) => {
+				const config = requireConfig();
+				const keys = await unwrapVaultKeys(config, currentPassphrase);
+				const records = await Promise.all(
+					config.keys.map(async (record) => ({
+						...record,
+						wrapped: await encryptWithPassphrase(exportRawKey(keys, record.id), newPassphrase),
+					})),
+				);
+				await saveConfig({ ...config, keys: records });
+				set({ keys });
+			},
+
+			regenerateRecoveryKey: async (passphrase) => {
+				const config = requireConfig();
+				const keys = await unwrapVaultKeys(config, passphrase);
+				const recoveryKey = generateRecoveryKey();
+				const records = await Promise.all(
+					config.keys.map((record) => wrapVaultKey(record.id, keys[record.id], passphrase, recoveryKey)),
+				);
+				await saveConfig({ ...config, keys: records });
+				set({ keys });
+				return recoveryKey;
+			},
+
+			rotateKey: async (passphrase, onProgress) => {
+				const config = requireConfig();
+				const keys = await unwrapVaultKeys(config, passphrase);
+				const recoveryKey = generateRecoveryKey();
+				const { id, unlocked } = await createVaultKey();
+				const nextKeys = { ...keys, [id]: unlocked };
+
+				// Retired keys are never dropped: revisions, backups and assets the rotation misses still hold their
+				// ciphertext. Only the active key is used for new writes.
+				const records = await Promise.all(
+					Object.entries(nextKeys).map(([keyId, key]) => wrapVaultKey(keyId, key, passphrase, recoveryKey)),
+				);
+				await saveConfig({ ...config, activeKeyId: id, keys: records });
+				set({ keys: nextKeys });
+
+				const failures = await reencryptAssets(nextKeys, id, onProgress);
+				return { recoveryKey, failures };
+			},
+
+			requestUnlock: () =>
+				new Promise<boolean>((resolve) => {
+					get().unlockRequest?.resolve(false);
+					set({ unlockRequest: { resolve } });
+				}),
+
+			resolveUnlockRequest: (unlocked) => {
+				get().unlockRequest?.resolve(unlocked);
+				set({ unlockRequest: null });
+			},
+		},
+	};
+});
+
+export const useVaultConfig = () => useVaultStore((state) => state.config);
+export const useVaultLoaded = () => useVaultStore((state) => state.isLoaded);
+export const useVaultUnlocked = () => useVaultStore((state) => Object.keys(state.keys).length > 0);
+export const useVaultUnlockRequest = () => useVaultStore((state) => state.unlockRequest);
+export const useVaultActions = () => useVaultStore((state) => state.actions);
+
+/**
+ * Resolve true when secrets can be encrypted/decrypted, prompting for the passphrase if the vault is locked
+ */
+export const ensureVaultUnlocked = async () => {
+	const state = useVaultStore.getState();
+	const config = state.isLoaded ? state.config : await state.actions.fetchConfig();
+	if (!config || Object.keys(useVaultStore.getState().keys).length) return true;
+	return state.actions.requestUnlock();
+};
+
+/**
+ * Prepare fields for POST/PATCH: secret values are encrypted when the vault is enabled.
+ * Pass the asset's stored fields when editing so unchanged secrets keep their ciphertext.
+ *
+ * @returns null when the user dismissed the unlock prompt
+ */
+export const sealSecretFields = async <T extends SealableField>(fields: T[], previous?: SealableField[]) => {
+	if (!(await ensureVaultUnlocked())) return null;
+	const { config, keys } = useVaultStore.getState();
+	if (!config) return fields;
+	return sealFields(fields, keys, config.activeKeyId, previous);
+};
+
+/**
+ * Decrypt every encrypted value, e.g. before filling an edit form or exporting
+ *
+ * @returns null when the user dismissed the unlock prompt
+ */
+export const openSecretFields = async <T extends SealableField>(fields: T[]) => {
+	if (!hasEncryptedFields(fields)) return fields;
+	if (!(await ensureVaultUnlocked())) return null;
+	return openFields(fields, useVaultStore.getState().keys);
+};
+
+/**
+ * Decrypt a single value for reveal or copy; plaintext is returned as is
+ *
+ * @returns null when the user dismissed the unlock prompt
+ */
+export const revealSecretValue = async (value: string) => {
+	if (!isEncryptedValue(value)) return value;
+	if (!(await ensureVaultUnlocked())) return null;
+	return decryptValue(useVaultStore.getState().keys, value);
+};
+
+export default useVaultStore;
@@ -5,3 +5,20 @@ export interface Result<T = unknown> {
 	message: string;
 	data: T;
 }
+
+export type SortOrder = "asc" | "desc";
+
+export interface PageQuery {
+	page: number;
+	pageSize: number;
+	sortBy?: string;
+	sortOrder?: SortOrder;
+	search?: string;
+}
+
+export interface PageResult<T> {
+	items: T[];
+	total: number;
+	page: number;
+	pageSize: number;
+}
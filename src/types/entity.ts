@@ -1,4 +1,6 @@
 import type { NavItemDataProps } from "@/components/nav/types";
+import type { EncryptedEnvelope } from "@/utils/crypto";
+import type { SortOrder } from "./api";
 import type { BasicStatus, PermissionType } from "./enum";
 
 export interface UserToken {
@@ -94,3 +96,323 @@ export type MenuMetaInfo = Partial<Pick<NavItemDataProps, "path" | "icon" | "cap
 export type MenuTree = Menu & {
 	children?: MenuTree[];
 };
+
+export interface AssetField {
+	key: string;
+	type: string;
+	value: string;
+	isSecret: boolean;
+}
+
+export interface AssetFile {
+	id: string;
+	filename: string;
+	originalName?: string;
+	/** Where the server stores the file, used to download it when there is no `url` */
+	relativePath?: string;
+	/** Virtual folder inside the asset, e.g. "photos/2024"; unset for the top of the asset */
+	folderPath?: string;
+	url?: string;
+	size?: number;
+	mimeType?: string;
+	uploadedBy?: string;
+	uploadedAt?: string;
+}
+
+export interface Asset {
+	id: string;
+	name: string;
+	type: string;
+	tenantId: string;
+	clientId: string;
+	tags: string[];
+	fields: AssetField[];
+	files: AssetFile[];
+	createdAt: string;
+	updatedAt: string;
+	expirationDate?: string;
+	expirationNotificationsEnabled?: boolean;
+	/** Period the Renew action suggests, taken from the last renewal */
+	renewalPeriod?: RenewalPeriod;
+	lastRenewedAt?: string;
+}
+
+export interface ShowroomMetaField {
+	key: string;
+	value: string;
+}
+
+export interface ShowroomSize {
+	label: string;
+	width: number;
+	height: number;
+	unit: string;
+}
+
+export interface ShowroomTemplate {
+	name: string;
+	description: string;
+	sizes: ShowroomSize[];
+}
+
+export interface Showroom {
+	_id?: string;
+	id?: string;
+	name: string;
+	location: string;
+	metaFields?: ShowroomMetaField[];
+	templates?: ShowroomTemplate[];
+	createdAt?: string;
+	updatedAt?: string;
+}
+
+export interface AssetRevisionAuthor {
+	id: string;
+	name?: string;
+	email?: string;
+}
+
+export interface AssetRevision {
+	id: string;
+	assetId: string;
+	version: number;
+	name: string;
+	type: string;
+	tags: string[];
+	fields: AssetField[];
+	author?: AssetRevisionAuthor;
+	restoredFrom?: number;
+	createdAt: string;
+}
+
+/**
+ * A link to a read-only snapshot of some of an asset's fields. The snapshot is encrypted in the browser with
+ * a key that only travels in the link's fragment, so the server never sees the shared values.
+ */
+export interface AssetShare {
+	id: string;
+	token: string;
+	assetId: string;
+	assetName?: string;
+	fieldKeys: string[];
+	expiresAt: string;
+	/** Unlimited when unset */
+	maxViews?: number;
+	viewCount: number;
+	passphraseRequired: boolean;
+	revokedAt?: string;
+	createdBy?: AssetRevisionAuthor;
+	createdAt: string;
+}
+
+/**
+ * What `/share/:token` receives; opening it counts as one view
+ */
+export interface PublicAssetShare {
+	assetName?: string;
+	expiresAt: string;
+	remainingViews?: number;
+	passphraseRequired: boolean;
+	payload: EncryptedEnvelope;
+}
+
+export type AssetAccessAction = "REVEAL" | "COPY";
+
+/**
+ * One reveal or copy of a secret field; `context` names the screen it happened in, e.g. "Quick Access"
+ */
+export interface AssetAccessEvent {
+	id: string;
+	assetId: string;
+	fieldKey: string;
+	action: AssetAccessAction;
+	context?: string;
+	user?: AssetRevisionAuthor;
+	createdAt: string;
+}
+
+/**
+ * DEPENDS_ON and PARENT_OF read from source to target ("source depends on target"); RELATED has no direction
+ */
+export type AssetRelationType = "DEPENDS_ON" | "RELATED" | "PARENT_OF";
+
+/**
+ * One side of a relation: a tenant asset, or a showroom asset when `showroomId` is set
+ */
+export interface AssetRelationEndpoint {
+	assetId: string;
+	showroomId?: string;
+	/** Denormalized by the backend for display */
+	name?: string;
+	type?: string;
+	showroomName?: string;
+}
+
+export interface AssetRelation {
+	id: string;
+	type: AssetRelationType;
+	source: AssetRelationEndpoint;
+	target: AssetRelationEndpoint;
+	createdBy?: AssetRevisionAuthor;
+	createdAt: string;
+}
+
+/**
+ * A vault key encrypted with a passphrase- or recovery-key-derived key (PBKDF2-SHA256 + AES-GCM, base64 values)
+ */
+export interface WrappedVaultKey {
+	kdf: "PBKDF2-SHA256";
+	iterations: number;
+	salt: string;
+	cipher: "AES-GCM";
+	iv: string;
+	data: string;
+}
+
+export interface VaultKeyRecord {
+	id: string;
+	createdAt: string;
+	wrapped: WrappedVaultKey;
+	recoveryWrapped: WrappedVaultKey;
+}
+
+/**
+ * Tenant vault settings; the server only ever sees wrapped keys
+ */
+export interface VaultConfig {
+	version: number;
+	activeKeyId: string;
+	/** The active key plus retired keys, kept so older ciphertext stays readable */
+	keys: VaultKeyRecord[];
+	updatedAt?: string;
+}
+
+export interface AssetTemplateField {
+	key: string;
+	type: string;
+	required: boolean;
+	/** Default secrecy applied when the template pre-populates the form */
+	isSecret: boolean;
+	placeholder?: string;
+}
+
+/**
+ * Tenant-defined asset type; `name` is stored as the asset's `type`
+ */
+export interface AssetTemplate {
+	id: string;
+	name: string;
+	description?: string;
+	fields: AssetTemplateField[];
+	createdAt?: string;
+	updatedAt?: string;
+}
+
+/**
+ * Tenant tag; assets reference tags by name
+ */
+export interface Tag {
+	name: string;
+	/** Hex color, e.g. "#22c55e" */
+	color?: string;
+	/** Number of assets and showroom assets using the tag */
+	count?: number;
+}
+
+/**
+ * A comment on an asset, showroom asset or showroom. `mentions` holds the ids of the tenant users
+ * @mentioned in the body; the server sends each of them a MENTION notification.
+ */
+export interface DiscussionComment {
+	id: string;
+	body: string;
+	mentions: string[];
+	author?: AssetRevisionAuthor;
+	createdAt: string;
+	updatedAt?: string;
+}
+
+export type ActivityAction = "CREATED" | "UPDATED" | "FILE_UPLOADED" | "FILE_DELETED" | "EXPIRATION_CHANGED";
+
+/**
+ * An entry of the activity stream; the server records these itself whenever the asset or showroom changes
+ */
+export interface ActivityEvent {
+	id: string;
+	action: ActivityAction;
+	/** Keys of the changed fields, for UPDATED */
+	fieldKeys?: string[];
+	/** For FILE_UPLOADED and FILE_DELETED */
+	fileName?: string;
+	/** Previous and new expiration date, for EXPIRATION_CHANGED */
+	from?: string;
+	to?: string;
+	user?: AssetRevisionAuthor;
+	createdAt: string;
+}
+
+export type SavedViewPage = "ASSETS" | "SHOWROOMS" | "SHOWROOM_ASSETS";
+
+/** USER views are only listed for their creator, TENANT views for everyone in the tenant */
+export type SavedViewScope = "USER" | "TENANT";
+
+/**
+ * Table state a saved view restores; anything left out falls back to the page default
+ */
+export interface SavedViewState {
+	/** Search box text, including query qualifiers */
+	search?: string;
+	tags?: string[];
+	sortBy?: string;
+	sortOrder?: SortOrder;
+	/** Keys of the columns to hide, so columns added later still show up */
+	hiddenColumns?: string[];
+	/** TEXT or FILE on the asset pages, table or cards on the showrooms page */
+	tab?: string;
+}
+
+export interface SavedView {
+	id: string;
+	name: string;
+	page: SavedViewPage;
+	scope: SavedViewScope;
+	state: SavedViewState;
+	createdBy?: AssetRevisionAuthor;
+	createdAt?: string;
+	updatedAt?: string;
+}
+
+export type RenewalPeriod = "MONTHLY" | "YEARLY" | "CUSTOM";
+
+/**
+ * One use of the Renew action; the server moves the asset's `expirationDate` to `expirationDate` here
+ */
+export interface AssetRenewal {
+	id: string;
+	period: RenewalPeriod;
+	previousExpirationDate?: string;
+	expirationDate: string;
+	cost?: number;
+	/** ISO 4217 code, e.g. "USD" */
+	currency?: string;
+	notes?: string;
+	renewedBy?: AssetRevisionAuthor;
+	renewedAt: string;
+}
+
+/**
+ * An asset with an expiration date, from the tenant vault or a showroom. The server lists the same assets
+ * its EXPIRATION_REMINDER and EXPIRATION_TODAY notifications are built from.
+ */
+export interface ExpiringAsset {
+	id: string;
+	name: string;
+	type: string;
+	tags?: string[];
+	expirationDate: string;
+	expirationNotificationsEnabled?: boolean;
+	renewalPeriod?: RenewalPeriod;
+	lastRenewal?: AssetRenewal;
+	showroomId?: string;
+	showroomName?: string;
+}
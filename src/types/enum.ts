@@ -13,6 +13,7 @@ export enum StorageEnum {
 	UserInfo = "userInfo",
 	UserToken = "userToken",
 	Settings = "settings",
+	Uploads = "uploads",
 	I18N = "i18nextLng",
 }
 
@@ -0,0 +1,108 @@
+/**
+ * WebCrypto helpers shared by encrypted exports and the client-side vault
+ */
+
+export const PBKDF2_ITERATIONS = 310_000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Passphrase-encrypted payload; every binary value is base64
+ */
+export type EncryptedEnvelope = {
+	kdf: "PBKDF2-SHA256";
+	iterations: number;
+	salt: string;
+	cipher: "AES-GCM";
+	iv: string;
+	data: string;
+};
+
+/**
+ * encode bytes as base64, chunked so large files don't overflow the call stack
+ */
+export const toBase64 = (input: ArrayBuffer | Uint8Array) => {
+	const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+	let binary = "";
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+};
+
+/**
+ * decode base64 into bytes
+ */
+export const fromBase64 = (value: string) => {
+	const binary = atob(value);
+	const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+	for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+	return bytes;
+};
+
+/**
+ * cryptographically random bytes
+ */
+export const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(new ArrayBuffer(length)));
+
+/**
+ * derive an AES-GCM key from a passphrase with PBKDF2-SHA256
+ */
+export const deriveAesKey = async (
+	passphrase: string,
+	salt: Uint8Array<ArrayBuffer>,
+	iterations = PBKDF2_ITERATIONS,
+) => {
+	const material = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+	return crypto.subtle.deriveKey(
+		{ name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+		material,
+		{ name: "AES-GCM", length: 256 },
+		false,
+		["encrypt", "decrypt"],
+	);
+};
+
+/**
+ * encrypt text with AES-GCM, returning the base64 iv and ciphertext
+ */
+export const encryptText = async (key: CryptoKey, plaintext: string) => {
+	const iv = randomBytes(12);
+	const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, encoder.encode(plaintext));
+	return { iv: toBase64(iv), data: toBase64(data) };
+};
+
+/**
+ * decrypt text produced by encryptText
+ *
+ * @throws Error when the key is wrong or the data was tampered with
+ */
+export const decryptText = async (key: CryptoKey, { iv, data }: { iv: string; data: string }) => {
+	try {
+		const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(iv) }, key, fromBase64(data));
+		return decoder.decode(plaintext);
+	} catch {
+		throw new Error("Wrong passphrase or corrupted data");
+	}
+};
+
+/**
+ * encrypt text with a key derived from `passphrase`, using a fresh salt
+ */
+export const encryptWithPassphrase = async (plaintext: string, passphrase: string): Promise<EncryptedEnvelope> => {
+	const salt = randomBytes(16);
+	const key = await deriveAesKey(passphrase, salt);
+	const { iv, data } = await encryptText(key, plaintext);
+	return { kdf: "PBKDF2-SHA256", iterations: PBKDF2_ITERATIONS, salt: toBase64(salt), cipher: "AES-GCM", iv, data };
+};
+
+/**
+ * decrypt an envelope produced by encryptWithPassphrase
+ *
+ * @throws Error when the passphrase is wrong or the data was tampered with
+ */
+export const decryptWithPassphrase = async (envelope: EncryptedEnvelope, passphrase: string) => {
+	const key = await deriveAesKey(passphrase, fromBase64(envelope.salt), envelope.iterations);
+	return decryptText(key, envelope);
+};
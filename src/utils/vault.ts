@@ -0,0 +1,157 @@
+import type { AssetField, VaultConfig, VaultKeyRecord } from "#/entity";
+import {
+	decryptText,
+	decryptWithPassphrase,
+	encryptText,
+	encryptWithPassphrase,
+	fromBase64,
+	randomBytes,
+	toBase64,
+} from "./crypto";
+
+/**
+ * Encrypted field values look like `enc:v1:<keyId>:<iv>:<ciphertext>` so plaintext and ciphertext can coexist
+ */
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const VAULT_CONFIG_VERSION = 1;
+
+/**
+ * A vault key decrypted in memory; `raw` is kept so the key can be re-wrapped
+ */
+export type UnlockedVaultKey = {
+	key: CryptoKey;
+	raw: Uint8Array<ArrayBuffer>;
+};
+
+export type UnlockedVaultKeys = Record<string, UnlockedVaultKey>;
+
+/** Tenant and showroom assets type their fields slightly differently; only these two properties matter here */
+export type SealableField = Pick<AssetField, "value"> & { key?: string; isSecret?: boolean };
+
+export const isEncryptedValue = (value?: string) => !!value?.startsWith(ENCRYPTED_PREFIX);
+
+const encodeBase32 = (bytes: Uint8Array) => {
+	let output = "";
+	let buffer = 0;
+	let bits = 0;
+	for (const byte of bytes) {
+		buffer = (buffer << 8) | byte;
+		bits += 8;
+		while (bits >= 5) {
+			bits -= 5;
+			output += BASE32_ALPHABET[(buffer >> bits) & 31];
+		}
+	}
+	if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+	return output;
+};
+
+/**
+ * Random recovery key shown to the user once, e.g. `ABCD-EFGH-...`
+ */
+export const generateRecoveryKey = () =>
+	encodeBase32(randomBytes(20))
+		.match(/.{1,4}/g)
+		?.join("-") ?? "";
+
+/** Recovery keys are compared without dashes, spaces or case */
+const normalizeRecoveryKey = (value: string) => value.replace(/[\s-]/g, "").toUpperCase();
+
+const importVaultKey = async (raw: Uint8Array<ArrayBuffer>): Promise<UnlockedVaultKey> => ({
+	raw,
+	key: await crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]),
+});
+
+export const createVaultKey = async () => {
+	const raw = randomBytes(32);
+	return { id: toBase64(randomBytes(6)).replace(/[+/=]/g, ""), unlocked: await importVaultKey(raw) };
+};
+
+/**
+ * Wrap a vault key with both the passphrase and the recovery key
+ */
+export const wrapVaultKey = async (
+	id: string,
+	unlocked: UnlockedVaultKey,
+	passphrase: string,
+	recoveryKey: string,
+): Promise<VaultKeyRecord> => {
+	const raw = toBase64(unlocked.raw);
+	return {
+		id,
+		createdAt: new Date().toISOString(),
+		wrapped: await encryptWithPassphrase(raw, passphrase),
+		recoveryWrapped: await encryptWithPassphrase(raw, normalizeRecoveryKey(recoveryKey)),
+	};
+};
+
+/**
+ * Unwrap every key of the vault with the passphrase, or with the recovery key when `useRecoveryKey` is set
+ *
+ * @throws Error when the secret is wrong
+ */
+export const unwrapVaultKeys = async (config: VaultConfig, secret: string, useRecoveryKey = false) => {
+	const keys: UnlockedVaultKeys = {};
+	for (const record of config.keys) {
+		const raw = useRecoveryKey
+			? await decryptWithPassphrase(record.recoveryWrapped, normalizeRecoveryKey(secret))
+			: await decryptWithPassphrase(record.wrapped, secret);
+		keys[record.id] = await importVaultKey(fromBase64(raw));
+	}
+	return keys;
+};
+
+export const encryptValue = async (keyId: string, { key }: UnlockedVaultKey, plaintext: string) => {
+	const { iv, data } = await encryptText(key, plaintext);
+	return `${ENCRYPTED_PREFIX}${keyId}:${iv}:${data}`;
+};
+
+/**
+ * Decrypt a value produced by encryptValue; plaintext values are returned unchanged
+ *
+ * @throws Error when the key is not unlocked or the value was tampered with
+ */
+export const decryptValue = async (keys: UnlockedVaultKeys, value: string) => {
+	if (!isEncryptedValue(value)) return value;
+	const [keyId, iv, data] = value.slice(ENCRYPTED_PREFIX.length).split(":");
+	const unlocked = keys[keyId];
+	if (!unlocked) throw new Error("This value was encrypted with a vault key that is not available");
+	return decryptText(unlocked.key, { iv, data });
+};
+
+export const getEncryptedKeyId = (value: string) =>
+	isEncryptedValue(value) ? value.slice(ENCRYPTED_PREFIX.length).split(":")[0] : undefined;
+
+/**
+ * Encrypt the value of every secret field with the active key and decrypt non-secret ones
+ */
+/**
+ * Encrypt secret values with the active key and decrypt the rest. A secret whose plaintext matches the stored
+ * field of the same key in `previous` keeps that ciphertext, so a save only changes the secrets that were edited.
+ */
+export const sealFields = async <T extends SealableField>(
+	fields: T[],
+	keys: UnlockedVaultKeys,
+	activeKeyId: string,
+	previous: SealableField[] = [],
+) =>
+	Promise.all(
+		fields.map(async (field) => {
+			const plaintext = await decryptValue(keys, field.value);
+			if (!field.isSecret || !plaintext) return { ...field, value: plaintext };
+			const stored = [field, ...previous.filter((item) => item.key !== undefined && item.key === field.key)].find(
+				(item) => getEncryptedKeyId(item.value) === activeKeyId,
+			);
+			if (stored && (await decryptValue(keys, stored.value)) === plaintext) return { ...field, value: stored.value };
+			return { ...field, value: await encryptValue(activeKeyId, keys[activeKeyId], plaintext) };
+		}),
+	);
+
+export const openFields = async <T extends SealableField>(fields: T[], keys: UnlockedVaultKeys) =>
+	Promise.all(fields.map(async (field) => ({ ...field, value: await decryptValue(keys, field.value) })));
+
+export const hasEncryptedFields = (fields: SealableField[] = []) =>
+	fields.some((field) => isEncryptedValue(field.value));
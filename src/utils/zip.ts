@@ -0,0 +1,120 @@
+/**
+ * Minimal zip writer for downloads built in the browser. Entries are stored without compression: most
+ * attachments (images, video, pdf) are compressed already, and storing lets the archive reference the
+ * downloaded blobs instead of copying them into memory again.
+ *
+ * No zip64, so archives stay under 4 GB and 65535 entries.
+ */
+
+export type ZipEntry = {
+	/** Slash separated path inside the archive */
+	path: string;
+	data: Blob | string;
+	lastModified?: Date;
+};
+
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+/** General purpose flag bit 11: names are UTF-8 */
+const UTF8_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * CRC-32 of a blob, read as a stream so large files are never held in one buffer
+ */
+const crc32 = async (blob: Blob) => {
+	let crc = 0xffffffff;
+	const reader = blob.stream().getReader();
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		for (let i = 0; i < value.length; i++) crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => {
+	const year = Math.max(1980, date.getFullYear());
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+	};
+};
+
+/**
+ * Build a zip archive from the entries, in order
+ *
+ * @throws Error when the archive would need zip64
+ */
+export const createZip = async (entries: ZipEntry[]) => {
+	if (entries.length > MAX_ZIP_ENTRIES) throw new Error("Too many files for one archive");
+	const encoder = new TextEncoder();
+	const parts: BlobPart[] = [];
+	const central: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const data = typeof entry.data === "string" ? new Blob([entry.data]) : entry.data;
+		const name = encoder.encode(entry.path);
+		const crc = await crc32(data);
+		const { time, date } = toDosDateTime(entry.lastModified ?? new Date());
+		if (offset + 30 + name.length + data.size > MAX_ZIP_SIZE) throw new Error("Archive is larger than 4 GB");
+
+		const local = new Uint8Array(30 + name.length);
+		const localView = new DataView(local.buffer);
+		localView.setUint32(0, 0x04034b50, true);
+		localView.setUint16(4, ZIP_VERSION, true);
+		localView.setUint16(6, UTF8_FLAG, true);
+		localView.setUint16(8, 0, true);
+		localView.setUint16(10, time, true);
+		localView.setUint16(12, date, true);
+		localView.setUint32(14, crc, true);
+		localView.setUint32(18, data.size, true);
+		localView.setUint32(22, data.size, true);
+		localView.setUint16(26, name.length, true);
+		localView.setUint16(28, 0, true);
+		local.set(name, 30);
+
+		const header = new Uint8Array(46 + name.length);
+		const headerView = new DataView(header.buffer);
+		headerView.setUint32(0, 0x02014b50, true);
+		headerView.setUint16(4, ZIP_VERSION, true);
+		headerView.setUint16(6, ZIP_VERSION, true);
+		headerView.setUint16(8, UTF8_FLAG, true);
+		headerView.setUint16(10, 0, true);
+		headerView.setUint16(12, time, true);
+		headerView.setUint16(14, date, true);
+		headerView.setUint32(16, crc, true);
+		headerView.setUint32(20, data.size, true);
+		headerView.setUint32(24, data.size, true);
+		headerView.setUint16(28, name.length, true);
+		headerView.setUint32(42, offset, true);
+		header.set(name, 46);
+
+		parts.push(local, data);
+		central.push(header);
+		offset += local.length + data.size;
+	}
+
+	const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+	if (offset + centralSize + 22 > MAX_ZIP_SIZE) throw new Error("Archive is larger than 4 GB");
+	const end = new Uint8Array(22);
+	const endView = new DataView(end.buffer);
+	endView.setUint32(0, 0x06054b50, true);
+	endView.setUint16(8, entries.length, true);
+	endView.setUint16(10, entries.length, true);
+	endView.setUint32(12, centralSize, true);
+	endView.setUint32(16, offset, true);
+
+	return new Blob([...parts, ...central, end], { type: "application/zip" });
+};